@@ -1,182 +1,218 @@
 import React, { useState, useEffect, useRef, useMemo } from 'react';
-import { Network, Play, Pause, RotateCcw, Plus, Minus, Activity, CheckCircle, ZoomIn, ZoomOut, Move, Sliders, Eye, GripHorizontal, BoxSelect } from 'lucide-react';
-import { LineChart, Line, ResponsiveContainer, AreaChart, Area } from 'recharts';
+import { Network, Grid3x3, Play, Pause, RotateCcw, Plus, Minus, Activity, CheckCircle, ZoomIn, ZoomOut, Move, Sliders, Eye, GripHorizontal, BoxSelect, Shuffle, SkipForward, Download, Upload, X, Code, Stethoscope, BarChart3, History, Sigma, Gauge } from 'lucide-react';
+import { LineChart, Line, ResponsiveContainer, ComposedChart, Area, XAxis, YAxis, ReferenceLine } from 'recharts';
 import { TutorContext, GameMode } from '../types';
+import { DecisionBoundaryPanel } from './architect/DecisionBoundaryPanel';
+import { CodePanel } from './architect/CodePanel';
+import { GradientCheckPanel, GRADIENT_STATUS_COLORS } from './architect/GradientCheckPanel';
+import { InitializationPanel } from './architect/InitializationPanel';
+import { TimelineScrubber } from './architect/TimelineScrubber';
+import { NeuronInspectorPanel } from './architect/NeuronInspectorPanel';
+import { WeightMatrixView, MatrixMode } from './architect/WeightMatrixView';
+import { PixelPad } from './architect/PixelPad';
+import { ActivationPanel } from './architect/ActivationPanel';
+import { GradientNormPanel, GRADIENT_CONDITION_COLORS } from './architect/GradientNormPanel';
+import {
+  ActivationKey, ACTIVATION_KEYS, HIDDEN_ACTIVATION_KEYS, CustomActivationKey, activationDef, isCustomActivation,
+  LOSS_FUNCTIONS, LossKey, LOSS_KEYS,
+  OPTIMIZERS, OptimizerKey, OptimizerParams, OPTIMIZER_KEYS, DEFAULT_OPTIMIZER_PARAMS, HYPERPARAM_INFO,
+  CONSTANT_SCHEDULE, LearningRateSchedule, SCHEDULES, SCHEDULE_KEYS, SCHEDULE_PARAM_INFO, learningRateAt, schedulePreview,
+  DATASETS, DATASET_KEYS, DatasetKey, Sample, generateDataset, isDatasetCompatible, shuffledIndices,
+  DatasetSplit, SplitRatios, splitDataset, Checkpoint, ConvergenceCriteria, ConvergenceMetric, ConvergenceMonitor, StopReason, SnapshotTimeline,
+  NetworkSnapshot, NO_REGULARIZATION, Regularization, CLIP_MODES, GradientClipping, NO_CLIPPING, SimpleNetwork, SkipConnection, isSkipAllowed, skipSources, TrainerCommand, TrainerConfig, TrainerEvent, TrainerSnapshot,
+  ArchitectModel, LayerDim, MAX_LAYER_DIM, layerDimFor, networkFromModel, parseModel, serializeModel,
+  DEFAULT_LAYER_SPECS, LAYER_KINDS, LayerShape, LayerSpec, POOL_MODES, biasIndex, layerConnections, layerShapes, shapeGrid,
+  exportTfjsModel, importTfjsModel, isTfjsModel, tfjsWeightPaths, TFJS_WEIGHTS_PATH, CodeSpec,
+  GradientCheckResult, GradientCheckStatus, checkGradients, gradientCheckStatus, inspectNeuron,
+  DEFAULT_INIT_CONSTANT, INITIALIZERS, INITIALIZER_KEYS, InitializerKey, preActivationStatistics,
+  DEFAULT_HEALTH_THRESHOLD, LayerHealth, NeuronCondition, NeuronHealthMonitor, LossPoint, gradientConditions
+} from '../engine';
 
 interface NetworkGameProps {
   onUpdateContext: (ctx: TutorContext) => void;
 }
 
-type ActivationKey = 'SIGMOID' | 'TANH' | 'RELU' | 'LEAKY_RELU' | 'ELU';
-
-interface ActivationDef {
-  name: string;
-  func: (x: number) => number;
-  deriv: (y: number) => number;
-  color: string;
-}
-
-const ACTIVATION_FUNCTIONS: Record<ActivationKey, ActivationDef> = {
-  SIGMOID: { name: 'Sigmoid', func: (x) => 1 / (1 + Math.exp(-x)), deriv: (y) => y * (1 - y), color: '#00f3ff' },
-  TANH: { name: 'Tanh', func: (x) => Math.tanh(x), deriv: (y) => 1 - (y * y), color: '#d946ef' },
-  RELU: { name: 'ReLU', func: (x) => Math.max(0, x), deriv: (y) => y > 0 ? 1 : 0.05, color: '#22c55e' },
-  LEAKY_RELU: { name: 'L-ReLU', func: (x) => Math.max(0.01 * x, x), deriv: (y) => y > 0 ? 1 : 0.01, color: '#eab308' },
-  ELU: { name: 'ELU', func: (x) => x >= 0 ? x : 1.0 * (Math.exp(x) - 1), deriv: (y) => y > 0 ? 1 : y + 1.0, color: '#f97316' }
+// 'MANUAL' trains on the single inputs/target pair set with the node sliders
+type DataSource = DatasetKey | 'MANUAL';
+const DATA_SOURCES: DataSource[] = [...DATASET_KEYS, 'MANUAL'];
+
+// Draggable overlay panels
+type PanelId = 'LOSS' | 'SETTINGS' | 'BOUNDARY' | 'CODE' | 'GRADCHECK' | 'INIT' | 'INSPECTOR' | 'PAD' | 'ACTIVATION' | 'GRADNORM';
+
+// Denser links than this per layer only draw their strongest weights (SVG can't keep up otherwise)
+const MAX_DRAWN_LINKS = 1024;
+const linkDrawThreshold = (weights: Float64Array) => (
+    weights.length <= MAX_DRAWN_LINKS ? 0 : Float64Array.from(weights, Math.abs).sort()[weights.length - MAX_DRAWN_LINKS]
+);
+
+type DisplayStats = NetworkSnapshot & { loss: number, accuracy: number, validation: { loss: number, accuracy: number } | null };
+
+// Held-out fractions the VAL / TEST buttons cycle through
+const VALIDATION_SPLITS = [0, 0.1, 0.2, 0.3];
+const TEST_SPLITS = [0, 0.1, 0.2];
+// Early stopping patience in epochs (0: off)
+const PATIENCE_STEPS = [0, 100, 250, 500, 1000];
+const VALIDATION_COLOR = '#f59e0b';
+
+// Thresholds the clipping button cycles through (a gradient for VALUE, the global norm for NORM)
+const CLIP_THRESHOLDS = [0.1, 0.5, 1, 5];
+
+// LR schedule preview spans at least this many epochs, extended in whole steps to keep the current epoch in view
+const SCHEDULE_PREVIEW_EPOCHS = 500;
+
+// Neuron health overlay: a rolling window of passes, topped up with a few training samples per displayed update
+const HEALTH_WINDOW = 64;
+const HEALTH_SAMPLES_PER_UPDATE = 8;
+const HEALTH_COLORS: Record<NeuronCondition, string> = { DEAD: '#f43f5e', SATURATED: '#f59e0b' };
+
+// Backward pass: error terms (dLoss/dPreActivation) by sign, and how they are printed
+const ERROR_COLORS = { positive: '#fb923c', negative: '#818cf8' };
+const errorColor = (e: number) => e >= 0 ? ERROR_COLORS.positive : ERROR_COLORS.negative;
+const formatError = (e: number) => Math.abs(e) >= 0.01 || e === 0 ? e.toFixed(3) : e.toExponential(1);
+
+// Timeline replay speed
+const REPLAY_FRAME_MS = 120;
+
+// Dropout rates the hidden-layer DROP button cycles through
+const DROPOUT_RATES = [0, 0.1, 0.25, 0.5];
+
+// Values the conv / pool layer buttons cycle through (combinations that don't fit are skipped)
+const LAYER_PARAM_CHOICES = {
+    kernel: [1, 2, 3, 4, 5],
+    stride: [1, 2, 3],
+    padding: [0, 1, 2],
+    channels: [1, 2, 3, 4],
+    size: [2, 3, 4],
+    mode: POOL_MODES
 };
-
-const ACTIVATION_KEYS = Object.keys(ACTIVATION_FUNCTIONS) as ActivationKey[];
-
-class SimpleNetwork {
-  layerSizes: number[];
-  activations: ActivationKey[];
-  weights: number[][][];
-  weightDeltas: number[][][];
-  biases: number[][];
-  values: number[][];
-  preActivations: number[][];
-
-  constructor(layerSizes: number[], activations: ActivationKey[]) {
-    this.layerSizes = layerSizes;
-    this.activations = activations;
-    this.weights = [];
-    this.weightDeltas = [];
-    this.biases = [];
-    this.values = [];
-    this.preActivations = [];
-
-    for (let i = 0; i < layerSizes.length; i++) {
-      this.values.push(new Array(layerSizes[i]).fill(0));
-      this.preActivations.push(new Array(layerSizes[i]).fill(0));
-      
-      if (i > 0) {
-        const prevSize = layerSizes[i - 1];
-        const currSize = layerSizes[i];
-        const scale = 1 / Math.sqrt(prevSize);
-        const layerWeights: number[][] = [];
-        const layerDeltas: number[][] = [];
-        for (let j = 0; j < prevSize; j++) {
-          layerWeights.push(new Array(currSize).fill(0).map(() => ((Math.random() * 2) - 1) * scale));
-          layerDeltas.push(new Array(currSize).fill(0));
-        }
-        this.weights.push(layerWeights);
-        this.weightDeltas.push(layerDeltas);
-        
-        // Biases for current layer
-        // Initialize to small positive value to prevent "Dead ReLU" at start
-        // Randomize slightly to ensure visual distinctness on reset (0.01 to 0.21)
-        this.biases.push(new Array(currSize).fill(0).map(() => 0.01 + Math.random() * 0.2));
-      }
-    }
-  }
-
-  setActivations(newActivations: ActivationKey[]) { this.activations = newActivations; }
-  setLayerBias(layerIdx: number, value: number) {
-    const biasIdx = layerIdx - 1;
-    if (biasIdx >= 0 && biasIdx < this.biases.length) {
-      this.biases[biasIdx].fill(value);
+type LayerParamKey = keyof typeof LAYER_PARAM_CHOICES;
+
+// Grids with conv and pool layers sized from their input; null if a kernel doesn't fit or a grid outgrows the Architect
+const resolveStructure = (dims: LayerDim[], specs: LayerSpec[]): LayerDim[] | null => {
+    try {
+        const grids = layerShapes(dims, specs).map(shapeGrid);
+        return grids.every(g => g.rows <= MAX_LAYER_DIM && g.cols <= MAX_LAYER_DIM) ? grids : null;
+    } catch {
+        return null;
     }
-  }
-
-  forward(inputs: number[]) {
-    this.values[0] = inputs;
-    this.preActivations[0] = inputs;
-    for (let i = 0; i < this.weights.length; i++) {
-      const layerIndex = i + 1;
-      const prevValues = this.values[i];
-      const currentWeights = this.weights[i];
-      const currentBiases = this.biases[i];
-      const nextValues = [];
-      const nextPreActivations = [];
-      const activate = ACTIVATION_FUNCTIONS[this.activations[layerIndex]].func;
-
-      for (let j = 0; j < this.layerSizes[layerIndex]; j++) {
-        let sum = 0;
-        for (let k = 0; k < prevValues.length; k++) sum += prevValues[k] * currentWeights[k][j];
-        sum += currentBiases[j];
-        if (!isFinite(sum)) sum = 0;
-        nextPreActivations.push(sum);
-        nextValues.push(activate(sum));
-      }
-      this.values[layerIndex] = nextValues;
-      this.preActivations[layerIndex] = nextPreActivations;
-    }
-    return this.values[this.values.length - 1];
-  }
+};
 
-  train(inputs: number[], targets: number[], learningRate: number) {
-    this.forward(inputs);
-    const layerErrors: number[][] = [];
-    const outputLayerIdx = this.layerSizes.length - 1;
-    const outputs = this.values[outputLayerIdx];
-    const outputErrors = [];
-    const outputDeriv = ACTIVATION_FUNCTIONS[this.activations[outputLayerIdx]].deriv;
+// The last Architect session survives reloads and mode switches
+const AUTOSAVE_KEY = 'neural-nexus.architect.autosave';
 
-    for(let i=0; i<outputs.length; i++) {
-      outputErrors.push((targets[i] - outputs[i]) * outputDeriv(outputs[i]));
+const readAutosave = (): ArchitectModel | null => {
+    try {
+        const saved = localStorage.getItem(AUTOSAVE_KEY);
+        return saved ? parseModel(saved) : null;
+    } catch {
+        return null; // An unreadable autosave just means a fresh network
     }
-    layerErrors[outputLayerIdx] = outputErrors;
-
-    for (let i = this.weights.length - 1; i >= 0; i--) {
-      const nextLayerErrors = layerErrors[i + 1];
-      const currentLayerErrors = [];
-      const currentValues = this.values[i];
-      const currentLayerDeriv = i > 0 ? ACTIVATION_FUNCTIONS[this.activations[i]].deriv : () => 1;
-
-      for (let k = 0; k < this.layerSizes[i]; k++) {
-        for (let j = 0; j < this.layerSizes[i + 1]; j++) {
-           const gradient = nextLayerErrors[j] * currentValues[k];
-           if (!isFinite(gradient)) continue;
-           const delta = Math.max(-1, Math.min(1, learningRate * gradient));
-           this.weights[i][k][j] += delta;
-           this.weightDeltas[i][k][j] = delta; 
-        }
-      }
-      for (let j = 0; j < this.layerSizes[i + 1]; j++) {
-        this.biases[i][j] += Math.max(-1, Math.min(1, learningRate * nextLayerErrors[j]));
-      }
-      if (i > 0) {
-         for (let k = 0; k < this.layerSizes[i]; k++) {
-            let sum = 0;
-            for (let j = 0; j < this.layerSizes[i+1]; j++) sum += nextLayerErrors[j] * this.weights[i][k][j];
-            if(!isFinite(sum)) sum = 0;
-            currentLayerErrors.push(sum * currentLayerDeriv(currentValues[k]));
-         }
-         layerErrors[i] = currentLayerErrors;
-      }
-    }
-  }
-}
-
-interface LayerDim {
-    rows: number;
-    cols: number;
-}
+};
 
 export const NetworkGame: React.FC<NetworkGameProps> = ({ onUpdateContext }) => {
+  // Saved Model (picked up by the structure effect instead of a random network)
+  const [autosave] = useState(readAutosave);
+  const pendingModelRef = useRef<ArchitectModel | null>(autosave);
+  const [modelRevision, setModelRevision] = useState(0);
+  const [modelError, setModelError] = useState<string | null>(null);
+  const modelFileRef = useRef<HTMLInputElement>(null);
+
   // 3D Matrix State
-  const [layerDims, setLayerDims] = useState<LayerDim[]>([
+  const [layerDims, setLayerDims] = useState<LayerDim[]>(autosave?.layerDims ?? [
       { rows: 2, cols: 1 }, 
       { rows: 2, cols: 2 }, 
       { rows: 3, cols: 1 }, 
       { rows: 1, cols: 1 }
   ]);
-  const [layerActivations, setLayerActivations] = useState<ActivationKey[]>(['LEAKY_RELU', 'LEAKY_RELU', 'LEAKY_RELU', 'SIGMOID']); 
+  const [layerActivations, setLayerActivations] = useState<ActivationKey[]>(autosave?.layerActivations ?? ['LEAKY_RELU', 'LEAKY_RELU', 'LEAKY_RELU', 'SIGMOID']); 
+  // Kind of each layer's incoming connections; conv and pool layers' dims always hold the grid their input implies
+  const [layerSpecs, setLayerSpecs] = useState<LayerSpec[]>(autosave?.layerSpecs ?? layerDims.map(() => DEFAULT_LAYER_SPECS.DENSE));
+  const shapes = useMemo<LayerShape[]>(() => layerShapes(layerDims, layerSpecs), [layerDims, layerSpecs]);
+  // Residual links from an earlier layer to a later one of the same size (dropped when a resize breaks them)
+  const [skips, setSkips] = useState<SkipConnection[]>(autosave?.skips ?? []);
   
-  const [inputs, setInputs] = useState<number[]>([0, 1]);
-  const [target, setTarget] = useState<number[]>([1]);
+  const [inputs, setInputs] = useState<number[]>(autosave?.dataset.inputs ?? [0, 1]);
+  const [target, setTarget] = useState<number[]>(autosave?.dataset.target ?? [1]);
+  const [dataset, setDataset] = useState<DataSource>(autosave?.dataset.key ?? 'XOR');
+  const [datasetSeed, setDatasetSeed] = useState(autosave?.dataset.seed ?? 1);
   
   const [isPlaying, setIsPlaying] = useState(false);
   const [epochs, setEpochs] = useState(0);
   const epochRef = useRef(0);
-  const [learningRate, setLearningRate] = useState(0.1);
+  const [learningRate, setLearningRate] = useState(autosave?.hyperparams.learningRate ?? 0.1);
+  const [schedule, setSchedule] = useState<LearningRateSchedule>(autosave?.hyperparams.schedule ?? CONSTANT_SCHEDULE);
+  const [lossKey, setLossKey] = useState<LossKey>(autosave?.hyperparams.loss ?? 'MSE');
+  const [optimizer, setOptimizer] = useState<OptimizerKey>(autosave?.hyperparams.optimizer ?? 'SGD');
+  const [optimizerParams, setOptimizerParams] = useState<OptimizerParams>(autosave?.hyperparams.optimizerParams ?? DEFAULT_OPTIMIZER_PARAMS);
+  const [regularization, setRegularization] = useState<Regularization>(autosave?.hyperparams.regularization ?? NO_REGULARIZATION);
+  const [clipping, setClipping] = useState<GradientClipping>(autosave?.hyperparams.clipping ?? NO_CLIPPING);
+  const [layerDropout, setLayerDropout] = useState<number[]>(autosave?.layerDropout ?? [0, 0, 0, 0]); // One rate per layer, hidden layers only
   const [simSpeed, setSimSpeed] = useState(200);
   const [isOptimized, setIsOptimized] = useState(false);
-  const [lossHistory, setLossHistory] = useState<{epoch: number, loss: number}[]>([]);
+  const [lossHistory, setLossHistory] = useState<(Omit<LossPoint, 'lr'> & { lr?: number })[]>([]); // Loaded models carry no LR or gradient norms
+  const [splitRatios, setSplitRatios] = useState<SplitRatios>(autosave?.dataset.split ?? { validation: 0.2, test: 0 });
+
+  // Convergence: loss threshold and optional early stopping on either loss; the best weights can be restored
+  const [convergenceMetric, setConvergenceMetric] = useState<ConvergenceMetric>('TRAIN');
+  const [patience, setPatience] = useState(0);
+  const monitorRef = useRef<ConvergenceMonitor | null>(null);
+  const [best, setBest] = useState<Checkpoint | null>(null);
+  const [stopReason, setStopReason] = useState<StopReason>('THRESHOLD');
+
+  // Training Timeline (recorded display snapshots; viewing one pauses training, branching resumes from it)
+  const timelineRef = useRef(new SnapshotTimeline<DisplayStats>());
+  const [, setTimelineRevision] = useState(0); // Bumped to re-render when frames are recorded or dropped
+  const [timelineView, setTimelineView] = useState<number | null>(null);
+  const [isReplaying, setIsReplaying] = useState(false);
+
+  // Dataset Iteration (Animation mode walks the set one sample at a time)
+  const sampleOrderRef = useRef<number[]>([]);
+  const sampleCursorRef = useRef(0);
+  const [sampleCursor, setSampleCursor] = useState(0);
   
   // UI Panel Positions
-  const [lossGraphPos, setLossGraphPos] = useState({ x: 24, y: 80 });
-  const [viewSettingsPos, setViewSettingsPos] = useState({ x: 24, y: 230 });
+  const [panelPos, setPanelPos] = useState<Record<PanelId, { x: number, y: number }>>({
+      LOSS: { x: 24, y: 80 },
+      SETTINGS: { x: 24, y: 230 },
+      BOUNDARY: { x: 448, y: 80 },
+      CODE: { x: 656, y: 80 },
+      GRADCHECK: { x: 296, y: 330 },
+      INIT: { x: 640, y: 330 },
+      INSPECTOR: { x: 920, y: 80 },
+      PAD: { x: 448, y: 80 },
+      ACTIVATION: { x: 296, y: 80 },
+      GRADNORM: { x: 296, y: 330 }
+  });
+  const [showCode, setShowCode] = useState(false);
+
+  // Gradient Check (diagnostics; the worst parameters are highlighted on the graph)
+  const [showGradCheck, setShowGradCheck] = useState(false);
+  const [gradCheck, setGradCheck] = useState<{ result: GradientCheckResult, epoch: number } | null>(null);
+  const [gradCheckError, setGradCheckError] = useState<string | null>(null);
+
+  // Dead / Saturated Neurons (ringed on the graph; per-layer counts go to the tutor)
+  const healthRef = useRef<{ net: SimpleNetwork, monitor: NeuronHealthMonitor, cursor: number, signature: string } | null>(null);
+  const [neuronHealth, setNeuronHealth] = useState<{ flags: Map<string, NeuronCondition>, layers: LayerHealth[] }>({ flags: new Map(), layers: [] });
+
+  // Weight Initialization (applied on reset / structure change; the panel shows its effect per layer)
+  const [showInit, setShowInit] = useState(false);
+  const [layerInitializers, setLayerInitializers] = useState<InitializerKey[]>(() => layerDims.map(() => 'UNIFORM'));
+  const [initConstant, setInitConstant] = useState(DEFAULT_INIT_CONSTANT);
+
+  // Custom Activations (typed expressions; the layer buttons cycle through them after the built-ins)
+  const [showActivations, setShowActivations] = useState(false);
+  const [customActivations, setCustomActivations] = useState<CustomActivationKey[]>(() => layerActivations.filter(isCustomActivation));
+
+  // Gradient Norms (charted per layer from the loss history; warnings go to the tutor)
+  const [showGradNorms, setShowGradNorms] = useState(false);
+
+  // Neuron Inspector (opened by clicking a non-input node)
+  const [inspected, setInspected] = useState<{ layer: number, neuron: number } | null>(null);
   
+  // Graph (3D node-link) or Matrix (per-layer weight heatmaps) view of the same network
+  const [viewMode, setViewMode] = useState<'GRAPH' | 'MATRIX'>('GRAPH');
+  const [matrixMode, setMatrixMode] = useState<MatrixMode>('WEIGHTS');
+
   // 3D Viewport State
   const [cameraAngle, setCameraAngle] = useState({ h: 25, v: 15 }); // Horizontal (Yaw), Vertical (Pitch)
   const [viewScale, setViewScale] = useState(1);
@@ -192,7 +228,7 @@ export const NetworkGame: React.FC<NetworkGameProps> = ({ onUpdateContext }) =>
 
   // Interaction Refs
   const isDraggingCanvasRef = useRef(false);
-  const draggingUIRef = useRef<{ id: 'LOSS' | 'SETTINGS', offsetX: number, offsetY: number } | null>(null);
+  const draggingUIRef = useRef<{ id: PanelId, offsetX: number, offsetY: number } | null>(null);
   const lastMouseRef = useRef({ x: 0, y: 0 });
   const svgRef = useRef<SVGSVGElement>(null);
   
@@ -201,20 +237,164 @@ export const NetworkGame: React.FC<NetworkGameProps> = ({ onUpdateContext }) =>
   const [activeLayer, setActiveLayer] = useState(-1);
 
   // Network Refs & Visual Cache
+  // networkRef is the authoritative network except while turbo training runs in the worker;
+  // then it mirrors the worker's latest snapshot (for predict()) and takes over again on pause.
   const networkRef = useRef<SimpleNetwork | null>(null);
-  const [displayStats, setDisplayStats] = useState({
-      values: [] as number[][],
-      weights: [] as number[][][],
-      deltas: [] as number[][][],
-      biases: [] as number[][],
-      preActivations: [] as number[][],
-      loss: 0
+  const workerRef = useRef<Worker | null>(null);
+  const trainerSessionRef = useRef(0);
+  const trainerEventRef = useRef<(event: TrainerEvent) => void>(() => {});
+  const [displayStats, setDisplayStats] = useState<DisplayStats>({
+      version: 0,
+      layerSizes: [],
+      values: [],
+      weights: [],
+      deltas: [],
+      biases: [],
+      preActivations: [],
+      dropoutMasks: [],
+      errors: [],
+      loss: 0,
+      accuracy: 0,
+      validation: null
   });
 
-  // Initialize Network (Structure Change)
+  const inputSize = layerDims[0].rows * layerDims[0].cols;
+  const outputSize = layerDims[layerDims.length - 1].rows * layerDims[layerDims.length - 1].cols;
+  const datasetActive = dataset !== 'MANUAL' && isDatasetCompatible(dataset, inputSize, outputSize);
+  // A 2D input grid is drawn on the pixel pad instead of per-node sliders
+  const isImageInput = layerDims[0].rows > 1 && layerDims[0].cols > 1;
+
+  // Training Set (falls back to the slider pair when the dataset doesn't fit the network)
+  const datasetSamples = useMemo<Sample[]>(() => (
+      datasetActive ? generateDataset(dataset as DatasetKey, outputSize, { seed: datasetSeed }) : []
+  ), [datasetActive, dataset, outputSize, datasetSeed]);
+  const manualSamples = useMemo<Sample[]>(() => [{ input: inputs, target, label: 0 }], [inputs, target]);
+  // Held-out validation / test points never reach training; a single manual sample is never split
+  const datasetSplit = useMemo<DatasetSplit>(() => (
+      datasetActive ? splitDataset(datasetSamples, splitRatios, datasetSeed) : { train: manualSamples, validation: [], test: [] }
+  ), [datasetActive, datasetSamples, splitRatios, datasetSeed, manualSamples]);
+  const samples = datasetSplit.train;
+  const hasValidation = datasetSplit.validation.length > 0;
+
+  // Same setup rendered as framework code (Show Code panel)
+  const codeSpec = useMemo<CodeSpec>(() => ({
+      layerSizes: layerDims.map(d => d.rows * d.cols),
+      activations: layerActivations,
+      layers: layerSpecs,
+      shapes,
+      skips,
+      loss: lossKey,
+      optimizer,
+      optimizerParams,
+      learningRate,
+      schedule,
+      clipping,
+      regularization,
+      dropout: layerDropout,
+      epochs: 1000,
+      datasetName: datasetActive ? DATASETS[dataset as DatasetKey].name : 'a single sample',
+      samples
+  }), [layerDims, layerActivations, layerSpecs, shapes, skips, lossKey, optimizer, optimizerParams, learningRate, schedule, clipping, regularization, layerDropout, datasetActive, dataset, samples]);
+
+  // Effective LR per epoch, charted beside the loss graph
+  const isScheduled = schedule.key !== 'CONSTANT';
+  const currentLearningRate = learningRateAt(schedule, learningRate, epochs);
+  const previewEpochs = Math.ceil((epochs + 1) / SCHEDULE_PREVIEW_EPOCHS) * SCHEDULE_PREVIEW_EPOCHS;
+  const schedulePoints = useMemo(() => (
+      isScheduled ? schedulePreview(schedule, learningRate, previewEpochs) : []
+  ), [isScheduled, schedule, learningRate, previewEpochs]);
+
+  // Exploding / vanishing gradients, judged on the latest recorded norms
+  const gradientParameters = useMemo(() => {
+      const net = networkRef.current;
+      return net ? net.weights.map((w, l) => w.length + net.biases[l].length) : [];
+  // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [displayStats.weights]);
+  const latestGradNorms = useMemo(() => [...lossHistory].reverse().find(p => p.gradNorms)?.gradNorms ?? null, [lossHistory]);
+  const gradientWarnings = useMemo(() => (
+      latestGradNorms && latestGradNorms.length === gradientParameters.length ? gradientConditions(latestGradNorms, gradientParameters) : []
+  ), [latestGradNorms, gradientParameters]);
+  const hasGradientWarning = gradientWarnings.some(c => c);
+
+  // Averaged loss over a noisy dataset never gets as low as a memorized single point
+  const convergenceThreshold = datasetActive ? 0.005 : 0.00005;
+  const convergence = useMemo<ConvergenceCriteria>(() => (
+      { metric: convergenceMetric, threshold: convergenceThreshold, patience }
+  ), [convergenceMetric, convergenceThreshold, patience]);
+  const isTurbo = simSpeed < 1;
+
+  const postToTrainer = (command: TrainerCommand) => workerRef.current?.postMessage(command);
+
+  // Drops whatever the worker is doing; late messages from the old session are ignored
+  const invalidateTrainer = () => {
+      trainerSessionRef.current++;
+      postToTrainer({ type: 'reset' });
+  };
+
+  const trainerConfig = (): TrainerConfig => ({
+      learningRate,
+      schedule,
+      samples,
+      validation: datasetSplit.validation,
+      probe: inputs,
+      convergence,
+      optimizer,
+      optimizerParams,
+      loss: lossKey,
+      activations: layerActivations,
+      regularization,
+      clipping,
+      skips,
+      dropout: layerDropout
+  });
+
+  const loadTrainer = () => {
+      if (!networkRef.current) return;
+      postToTrainer({
+          type: 'load',
+          session: trainerSessionRef.current,
+          state: networkRef.current.getState(),
+          epoch: epochRef.current,
+          config: trainerConfig(),
+          best: monitorRef.current?.best
+      });
+  };
+
+  // A new network, different criteria or another validation set: the best so far no longer applies
+  const resetMonitor = (best: Checkpoint | null = null) => {
+      monitorRef.current = new ConvergenceMonitor(convergence, best);
+      setBest(best);
+  };
+
+  // A new network (or a branch) starts recording over
+  const clearTimeline = () => {
+      timelineRef.current.clear();
+      setTimelineView(null);
+      setIsReplaying(false);
+      setTimelineRevision(r => r + 1);
+  };
+
+  const resetSampleCursor = () => {
+      sampleOrderRef.current = shuffledIndices(samples.length);
+      sampleCursorRef.current = 0;
+      setSampleCursor(0);
+  };
+
+  // Initialize Network (Structure Change or a loaded model)
   useEffect(() => {
       const layerSizes = layerDims.map(d => d.rows * d.cols);
-      const net = new SimpleNetwork(layerSizes, layerActivations);
+      const model = pendingModelRef.current;
+      pendingModelRef.current = null;
+      const net = model ? networkFromModel(model) : new SimpleNetwork(layerSizes, layerActivations, layerSpecs, shapes);
+      if (!model) net.initialize(layerSizes.map((_, i) => layerInitializers[i] ?? 'UNIFORM'), initConstant);
+      net.setOptimizer(optimizer, optimizerParams);
+      net.setLoss(lossKey);
+      net.setRegularization(regularization);
+      net.setClipping(clipping);
+      net.setDropout(layerSizes.map((_, i) => layerDropout[i] ?? 0));
+      const fitting = skips.filter(skip => isSkipAllowed(layerSizes, skip));
+      if (fitting.length !== skips.length) setSkips(fitting);
+      net.setSkips(fitting);
       
       // Sync inputs/targets size
       const inputSize = layerSizes[0];
@@ -222,28 +402,44 @@ export const NetworkGame: React.FC<NetworkGameProps> = ({ onUpdateContext }) =>
       
       if (inputs.length !== inputSize) setInputs(new Array(inputSize).fill(0));
       if (target.length !== outputSize) setTarget(new Array(outputSize).fill(0));
+      if (outputSize === 1 && layerActivations[layerActivations.length - 1] === 'SOFTMAX') {
+          setLayerActivations([...layerActivations.slice(0, -1), 'SIGMOID']);
+      }
       
       networkRef.current = net;
+      invalidateTrainer();
       
-      // Reset Counters manually
-      setEpochs(0);
-      epochRef.current = 0;
-      setLossHistory([]);
+      // Reset Counters manually (a loaded model carries its own)
+      setEpochs(model?.epochs ?? 0);
+      epochRef.current = model?.epochs ?? 0;
+      setLossHistory(model?.lossHistory ?? []);
       setIsPlaying(false);
       setIsOptimized(false);
       setDirection('NONE');
       setActiveLayer(-1);
+      resetSampleCursor();
+      setGradCheck(null);
+      resetMonitor();
+      clearTimeline();
 
       updateVisuals();
   // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [JSON.stringify(layerDims)]);
+  }, [JSON.stringify(layerDims), JSON.stringify(layerSpecs), modelRevision]);
 
-  // Hard Reset (Randomize Weights)
-  const resetSimulation = () => {
+  // Hard Reset (Randomize Weights with the selected initializers)
+  const resetSimulation = (initializers = layerInitializers, constant = initConstant) => {
       const layerSizes = layerDims.map(d => d.rows * d.cols);
       // Create NEW network -> Randomizes weights and biases
-      const net = new SimpleNetwork(layerSizes, layerActivations);
+      const net = new SimpleNetwork(layerSizes, layerActivations, layerSpecs, shapes);
+      net.initialize(initializers, constant);
+      net.setOptimizer(optimizer, optimizerParams);
+      net.setLoss(lossKey);
+      net.setRegularization(regularization);
+      net.setClipping(clipping);
+      net.setSkips(skips);
+      net.setDropout(layerDropout);
       networkRef.current = net;
+      invalidateTrainer();
 
       setEpochs(0);
       epochRef.current = 0;
@@ -252,6 +448,10 @@ export const NetworkGame: React.FC<NetworkGameProps> = ({ onUpdateContext }) =>
       setIsOptimized(false);
       setDirection('NONE');
       setActiveLayer(-1);
+      resetSampleCursor();
+      setGradCheck(null);
+      resetMonitor();
+      clearTimeline();
       
       // Initial Forward
       net.forward(inputs);
@@ -259,21 +459,77 @@ export const NetworkGame: React.FC<NetworkGameProps> = ({ onUpdateContext }) =>
   };
 
   const updateVisuals = () => {
-      if (!networkRef.current) return 0;
+      if (!networkRef.current) return { loss: 0, validation: null };
       const net = networkRef.current;
-      const output = net.values[net.values.length - 1];
-      let totalLoss = 0;
-      for(let i=0; i<output.length; i++) totalLoss += 0.5 * Math.pow((target[i] || 0) - output[i], 2);
+      const { loss: totalLoss, accuracy } = net.evaluate(samples);
+      const validation = hasValidation ? net.evaluate(datasetSplit.validation) : null;
       
-      setDisplayStats({
-          values: JSON.parse(JSON.stringify(net.values)),
-          weights: JSON.parse(JSON.stringify(net.weights)),
-          deltas: JSON.parse(JSON.stringify(net.weightDeltas)),
-          biases: JSON.parse(JSON.stringify(net.biases)),
-          preActivations: JSON.parse(JSON.stringify(net.preActivations)),
-          loss: totalLoss
-      });
-      return totalLoss;
+      setDisplayStats({ ...net.snapshot(), loss: totalLoss, accuracy, validation });
+      return { loss: totalLoss, validation: validation?.loss ?? null };
+  };
+
+  // Worker snapshots arrive as transferred typed arrays and are displayed as-is
+  const applyTrainerSnapshot = (snap: TrainerSnapshot) => {
+      const net = networkRef.current;
+      if (!net || snap.session !== trainerSessionRef.current) return false;
+      // Mid-run only the parameters are mirrored; the full state (optimizer moments) comes with pause
+      if (snap.state) {
+          net.setState(snap.state);
+          resetMonitor(snap.best ?? null);
+      }
+      else net.setParameters(snap.weights, snap.biases);
+      net.forward(inputs);
+      epochRef.current = snap.epoch;
+      setEpochs(snap.epoch);
+      const { session, epoch, history, state, best, ...stats } = snap;
+      setDisplayStats(stats);
+      if (snap.history.length) setLossHistory(prev => [...prev, ...snap.history].slice(-200));
+      return true;
+  };
+
+  trainerEventRef.current = (event: TrainerEvent) => {
+      if (!applyTrainerSnapshot(event.snapshot)) return;
+      if (event.type === 'snapshot') {
+          // Ask for the next snapshot only once this one has had a frame to render
+          requestAnimationFrame(() => postToTrainer({ type: 'ack' }));
+      } else if (event.type === 'converged') {
+          setIsPlaying(false);
+          setStopReason(event.reason);
+          setIsOptimized(true);
+      }
+  };
+
+  // Training Worker
+  useEffect(() => {
+      const worker = new Worker(new URL('../engine/trainer.worker.ts', import.meta.url), { type: 'module' });
+      worker.onmessage = (e: MessageEvent<TrainerEvent>) => trainerEventRef.current(e.data);
+      workerRef.current = worker;
+      return () => {
+          worker.terminate();
+          workerRef.current = null;
+      };
+  }, []);
+
+  // Turbo: hand the network to the worker while playing, take it back on pause
+  useEffect(() => {
+      if (!isPlaying || !isTurbo) return;
+      loadTrainer();
+      postToTrainer({ type: 'play' });
+      return () => postToTrainer({ type: 'pause' });
+  // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [isPlaying, isTurbo]);
+
+  // Live settings changes while the worker trains
+  useEffect(() => {
+      if (isPlaying && isTurbo) postToTrainer({ type: 'config', config: trainerConfig() });
+  // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [learningRate, schedule, samples, datasetSplit, inputs, convergence, optimizer, optimizerParams, lossKey, layerActivations, regularization, clipping, skips, layerDropout]);
+
+  // Single epoch through the worker (answers with a 'paused' snapshot)
+  const stepTraining = () => {
+      if (isPlaying) return;
+      loadTrainer();
+      postToTrainer({ type: 'step', epochs: 1 });
   };
 
   // Trigger Forward on Input Change
@@ -286,70 +542,241 @@ export const NetworkGame: React.FC<NetworkGameProps> = ({ onUpdateContext }) =>
   // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [inputs, target, layerActivations]);
 
+  // New training set -> start a fresh pass over it
+  useEffect(() => {
+      resetSampleCursor();
+      if (networkRef.current) updateVisuals();
+  // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [samples]);
+
+  // The test set is only scored while paused, so it can't steer training
+  const testStats = useMemo(() => (
+      !isPlaying && networkRef.current && datasetSplit.test.length ? networkRef.current.evaluate(datasetSplit.test) : null
+  ), [isPlaying, displayStats, datasetSplit]);
+
+  // Timeline: record what was displayed, once per interval, while following live training
+  useEffect(() => {
+      if (timelineView !== null || !displayStats.values.length) return;
+      if (timelineRef.current.record(epochRef.current, displayStats)) setTimelineRevision(r => r + 1);
+  // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [displayStats]);
+
+  // Training always shows the live network
+  useEffect(() => {
+      if (!isPlaying) return;
+      setTimelineView(null);
+      setIsReplaying(false);
+  }, [isPlaying]);
+
+  // Replay steps through the recorded frames and stops on the last one
+  useEffect(() => {
+      if (!isReplaying) return;
+      const last = timelineRef.current.frames.length - 1;
+      if (timelineView === null || timelineView >= last) {
+          setIsReplaying(false);
+          return;
+      }
+      const timer = setTimeout(() => setTimelineView(timelineView + 1), REPLAY_FRAME_MS);
+      return () => clearTimeout(timer);
+  }, [isReplaying, timelineView]);
+
+  // The graph and decision boundary draw the viewed frame instead of the live network
+  const viewedFrame = timelineView !== null ? timelineRef.current.frames[timelineView] ?? null : null;
+  const shownStats = viewedFrame?.snapshot ?? displayStats;
+  const frameNetwork = useMemo(() => {
+      if (!viewedFrame || viewedFrame.snapshot.layerSizes.length !== layerActivations.length) return null;
+      if (viewedFrame.snapshot.layerSizes.some((size, i) => size !== layerDims[i]?.rows * layerDims[i]?.cols)) return null;
+      const { layerSizes, weights, biases, values, preActivations, dropoutMasks, deltas } = viewedFrame.snapshot;
+      const net = new SimpleNetwork(layerSizes, layerActivations, layerSpecs, shapes);
+      net.setParameters(weights, biases);
+      net.setSkips(skips.filter(skip => isSkipAllowed(layerSizes, skip)));
+      // The recorded pass, for the neuron inspector
+      values.forEach((v, i) => net.values[i].set(v));
+      preActivations.forEach((v, i) => net.preActivations[i].set(v));
+      dropoutMasks.forEach((v, i) => net.dropoutMasks[i].set(v));
+      deltas.forEach((d, i) => net.weightDeltas[i].set(d));
+      return net;
+  }, [viewedFrame, layerActivations, layerDims, layerSpecs, shapes, skips]);
+
+  // Weighted-sum breakdown of the inspected neuron, on whichever network is shown
+  const inspection = useMemo(() => {
+      const net = frameNetwork ?? networkRef.current;
+      if (!inspected || !net || inspected.layer >= net.layerSizes.length || inspected.neuron >= net.layerSizes[inspected.layer]) return null;
+      return inspectNeuron(net, inspected.layer, inspected.neuron);
+  // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [inspected, shownStats, frameNetwork]);
+
+  // Class probabilities for the drawing on the pixel pad
+  const padOutputs = useMemo(() => (
+      isImageInput ? (frameNetwork ?? networkRef.current)?.predict(inputs) ?? [] : []
+  // eslint-disable-next-line react-hooks/exhaustive-deps
+  ), [isImageInput, inputs, shownStats, frameNetwork]);
+
+  // Best weights only compare under the same criteria and validation set
+  useEffect(() => {
+      resetMonitor();
+  // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [convergence, datasetSplit.validation]);
+
+  // Loss Change (re-scores the current network under the new loss)
+  useEffect(() => {
+      if (networkRef.current) {
+          networkRef.current.setLoss(lossKey);
+          updateVisuals();
+      }
+  // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [lossKey]);
+
+  // Regularization / Dropout Change (the penalty is part of the reported loss)
+  useEffect(() => {
+      const net = networkRef.current;
+      if (!net || layerDropout.length !== net.layerSizes.length) return;
+      net.setRegularization(regularization);
+      net.setDropout(layerDropout);
+      updateVisuals();
+      setIsOptimized(false);
+  // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [regularization, layerDropout]);
+
+  // Skip Connection Change (keeps the weights; a resize that breaks a skip drops it in the structure effect)
+  useEffect(() => {
+      const net = networkRef.current;
+      if (!net || !skips.every(skip => isSkipAllowed(net.layerSizes, skip))) return;
+      net.setSkips(skips);
+      net.forward(inputs);
+      updateVisuals();
+      setIsOptimized(false);
+  // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [skips]);
+
+  // Clipping Change (keeps the weights; applies from the next update)
+  useEffect(() => {
+      networkRef.current?.setClipping(clipping);
+      setIsOptimized(false);
+  }, [clipping]);
+
+  // Neuron Health: a new network starts a new window
+  useEffect(() => {
+      const net = networkRef.current;
+      if (!net || !samples.length) return;
+      if (healthRef.current?.net !== net) {
+          healthRef.current = { net, monitor: new NeuronHealthMonitor(net.layerSizes, HEALTH_WINDOW), cursor: 0, signature: '' };
+      }
+      const health = healthRef.current;
+      for (let i = 0; i < HEALTH_SAMPLES_PER_UPDATE; i++) {
+          const sample = samples[health.cursor++ % samples.length];
+          health.monitor.record(net.activations, net.trace(sample.input).values);
+      }
+
+      const report = health.monitor.report();
+      const flags = new Map<string, NeuronCondition>();
+      report.dead.forEach((rates, l) => rates.forEach((rate, j) => { if (rate >= DEFAULT_HEALTH_THRESHOLD) flags.set(`node-${l}-${j}`, 'DEAD'); }));
+      report.saturated.forEach((rates, l) => rates.forEach((rate, j) => { if (rate >= DEFAULT_HEALTH_THRESHOLD && !flags.has(`node-${l}-${j}`)) flags.set(`node-${l}-${j}`, 'SATURATED'); }));
+      // Re-render only when a ring or a count actually changes
+      const signature = JSON.stringify([[...flags], report.layers]);
+      if (signature !== health.signature) {
+          health.signature = signature;
+          setNeuronHealth({ flags, layers: report.layers });
+      }
+  }, [displayStats, samples]);
+
+  // Optimizer Change (keeps the weights, resets velocity/moments on a switch)
+  useEffect(() => {
+      networkRef.current?.setOptimizer(optimizer, optimizerParams);
+      setIsOptimized(false);
+  }, [optimizer, optimizerParams]);
+
   // Sync Context for Tutor
   useEffect(() => {
       onUpdateContext({
           gameMode: GameMode.ARCHITECT,
           currentStats: {
-              structure: layerDims.map(d => `${d.rows}x${d.cols}`).join('-'),
+              structure: layerDims.map((d, i) => `${d.rows}x${d.cols}${i > 0 && layerSpecs[i].kind !== 'DENSE' ? ` ${layerSpecs[i].kind}` : ''}`).join('-'),
+              skipConnections: skips.map(skip => `L${skip.from}->L${skip.to}`).join(', ') || 'none',
               epochs,
-              loss: displayStats.loss.toFixed(5),
-              lr: learningRate,
+              loss: displayStats.validation ? `${displayStats.loss.toFixed(5)} (validation ${displayStats.validation.loss.toFixed(5)})` : displayStats.loss.toFixed(5),
+              lr: isScheduled ? `${learningRate} (${SCHEDULES[schedule.key].name} schedule, currently ${currentLearningRate.toPrecision(3)})` : learningRate,
+              outputActivation: activationDef(layerActivations[layerActivations.length - 1]).name,
+              lossFunction: LOSS_FUNCTIONS[lossKey].name,
+              optimizer: OPTIMIZERS[optimizer].name,
+              optimizerParams: OPTIMIZERS[optimizer].hyperparams.map(k => `${k}=${optimizerParams[k]}`).join(', ') || 'none',
+              neuronHealth: neuronHealth.layers.map(l => `L${l.layer}: ${l.dead} dead, ${l.saturated} saturated of ${l.neurons}`).join('; ') || 'no hidden layers',
+              initialization: layerInitializers.slice(1).map(k => INITIALIZERS[k].name).join(' / '),
+              regularization: `L1=${regularization.l1}, L2=${regularization.l2}, dropout=[${layerDropout.slice(1, -1).join(', ')}]`,
+              gradientClipping: clipping.mode === 'NONE' ? 'none' : `${clipping.mode === 'VALUE' ? 'by value' : 'by global norm'} at ${clipping.threshold}`,
+              gradientNorms: latestGradNorms
+                  ? latestGradNorms.map((n, l) => `L${l}->L${l + 1}: ${n.toExponential(2)}${gradientWarnings[l] ? ` ${gradientWarnings[l]}` : ''}`).join('; ')
+                  : 'not recorded yet',
+              dataset: datasetActive ? DATASETS[dataset as DatasetKey].name : 'Single Sample',
+              samples: `${samples.length} train / ${datasetSplit.validation.length} validation / ${datasetSplit.test.length} test`,
+              accuracy: !datasetActive ? 'n/a' : displayStats.validation
+                  ? `${(displayStats.accuracy * 100).toFixed(1)}% (validation ${(displayStats.validation.accuracy * 100).toFixed(1)}%)`
+                  : `${(displayStats.accuracy * 100).toFixed(1)}%`,
+              convergence: `stop on ${convergenceMetric === 'VALIDATION' ? 'validation' : 'training'} loss < ${convergenceThreshold}${patience ? `, early stopping after ${patience} epochs without improvement` : ''}`,
               optimized: isOptimized
           }
       });
-  }, [displayStats.loss, epochs, isOptimized, onUpdateContext, layerDims, learningRate]);
+  }, [displayStats.loss, displayStats.accuracy, displayStats.validation, epochs, isOptimized, onUpdateContext, layerDims, layerSpecs, skips, learningRate, layerActivations, lossKey, optimizer, optimizerParams, schedule, layerInitializers, neuronHealth, regularization, clipping, latestGradNorms, gradientWarnings, layerDropout, datasetActive, dataset, samples.length, datasetSplit, convergenceMetric, convergenceThreshold, patience]);
 
-  // Simulation Loop
+  // Simulation Loop (Animation mode; turbo runs in the worker above)
   useEffect(() => {
-    let animationFrame: number;
     let timer: ReturnType<typeof setTimeout>;
-    const CONVERGENCE = 0.00005;
 
     if (isPlaying && networkRef.current) {
-        if (simSpeed < 1) { // Turbo
-            const loop = () => {
-                for(let k=0; k<10; k++) networkRef.current!.train(inputs, target, learningRate);
-                epochRef.current += 10;
-                setEpochs(epochRef.current);
-                const loss = updateVisuals();
-                
-                setLossHistory(prev => {
-                    const h = [...prev, { epoch: epochRef.current, loss }];
-                    return h.length > 200 ? h.slice(-200) : h;
-                });
-
-                if (loss < CONVERGENCE) { setIsPlaying(false); setIsOptimized(true); }
-                else if (isPlaying) animationFrame = requestAnimationFrame(loop);
-            };
-            loop();
-        } else { // Animation
+        if (!isTurbo) {
+             if (sampleOrderRef.current.length !== samples.length) resetSampleCursor();
+             const currentSample = () => samples[sampleOrderRef.current[sampleCursorRef.current]] || samples[0];
+
              timer = setTimeout(() => {
                 if (direction === 'NONE' || direction === 'FORWARD') {
                     const next = activeLayer + 1;
-                    if (activeLayer === -1) { networkRef.current!.forward(inputs); updateVisuals(); }
+                    if (activeLayer === -1) { networkRef.current!.forward(currentSample().input, true); updateVisuals(); }
                     if (next < layerDims.length) { setDirection('FORWARD'); setActiveLayer(next); }
-                    else { setDirection('BACKWARD'); setActiveLayer(layerDims.length - 1); }
+                    else {
+                        // Backprop the training pass (and dropout mask) that was just animated; the walk back
+                        // then reveals its error terms layer by layer before the update is applied
+                        networkRef.current!.backward(currentSample().target);
+                        updateVisuals();
+                        setDirection('BACKWARD'); setActiveLayer(layerDims.length - 1);
+                    }
                 } else if (direction === 'BACKWARD') {
                     const prev = activeLayer - 1;
                     if (prev >= 0) setActiveLayer(prev);
                     else {
-                        networkRef.current!.train(inputs, target, learningRate);
-                        epochRef.current++;
-                        setEpochs(epochRef.current);
-                        const loss = updateVisuals();
-                        setLossHistory(prev => [...prev.slice(-199), { epoch: epochRef.current, loss }]);
-                        if (loss < CONVERGENCE) { setIsPlaying(false); setIsOptimized(true); setDirection('NONE'); setActiveLayer(-1); }
+                        const lr = learningRateAt(schedule, learningRate, epochRef.current);
+                        networkRef.current!.step(lr);
+                        const losses = updateVisuals();
+
+                        // An epoch ends once every sample has been through the network
+                        sampleCursorRef.current++;
+                        const epochDone = sampleCursorRef.current >= samples.length;
+                        let reason: StopReason | null = null;
+                        if (epochDone) {
+                            sampleOrderRef.current = shuffledIndices(samples.length);
+                            sampleCursorRef.current = 0;
+                            epochRef.current++;
+                            setEpochs(epochRef.current);
+                            const point = { epoch: epochRef.current, loss: losses.loss, lr, gradNorms: networkRef.current!.takeGradientNorms(), ...(losses.validation !== null && { valLoss: losses.validation }) };
+                            setLossHistory(prev => [...prev.slice(-199), point]);
+                            reason = monitorRef.current!.record(epochRef.current, { train: losses.loss, validation: losses.validation }, networkRef.current!);
+                            setBest(monitorRef.current!.best);
+                        }
+                        setSampleCursor(sampleCursorRef.current);
+
+                        if (reason) { setIsPlaying(false); setStopReason(reason); setIsOptimized(true); setDirection('NONE'); setActiveLayer(-1); }
                         else { setDirection('UPDATING'); setActiveLayer(-1); }
                     }
                 } else if (direction === 'UPDATING') {
+                    networkRef.current!.forward(currentSample().input, true);
+                    updateVisuals();
                     setDirection('FORWARD'); setActiveLayer(0);
                 }
              }, simSpeed);
         }
     }
-    return () => { cancelAnimationFrame(animationFrame); clearTimeout(timer); };
-  }, [isPlaying, simSpeed, direction, activeLayer, inputs, target, learningRate]);
+    return () => clearTimeout(timer);
+  // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [isPlaying, simSpeed, direction, activeLayer, samples, inputs, learningRate, schedule]);
 
   // --- 3D Projection Engine ---
   const project3D = (layerIdx: number, row: number, col: number) => {
@@ -406,14 +833,14 @@ export const NetworkGame: React.FC<NetworkGameProps> = ({ onUpdateContext }) =>
   // --- Helpers ---
   const getActivationVisual = (key: ActivationKey, avgInput: number, width: number, height: number) => {
     if (!isFinite(avgInput)) avgInput = 0;
-    const func = ACTIVATION_FUNCTIONS[key].func;
+    const func = activationDef(key).func;
     const points = [];
     const range = 3; 
     const step = 0.3;
     const normX = (x: number) => (x + range) / (range * 2) * width;
     const normY = (y: number) => {
         let yNorm = y;
-        if (key === 'SIGMOID') yNorm = y; 
+        if (key === 'SIGMOID' || key === 'SOFTMAX') yNorm = y; 
         else if (key === 'TANH') yNorm = (y + 1) / 2; 
         else yNorm = (y + 1) / 3; 
         return height - (Math.max(0, Math.min(1, yNorm)) * height);
@@ -429,10 +856,15 @@ export const NetworkGame: React.FC<NetworkGameProps> = ({ onUpdateContext }) =>
   };
 
   const cycleActivation = (layerIdx: number) => {
+      // Softmax needs at least two output neurons to compete
+      const isOutput = layerIdx === layerDims.length - 1;
+      // A loaded model's custom activations join the cycle too
+      const customs = [...new Set([...customActivations, ...layerActivations.filter(isCustomActivation)])];
+      const keys: ActivationKey[] = [...(isOutput && outputSize > 1 ? ACTIVATION_KEYS : HIDDEN_ACTIVATION_KEYS), ...customs];
       const current = layerActivations[layerIdx];
-      const currentIndex = ACTIVATION_KEYS.indexOf(current);
-      const nextIndex = (currentIndex + 1) % ACTIVATION_KEYS.length;
-      const nextKey = ACTIVATION_KEYS[nextIndex];
+      const currentIndex = keys.indexOf(current);
+      const nextIndex = (currentIndex + 1) % keys.length;
+      const nextKey = keys[nextIndex];
       
       const newActivations = [...layerActivations];
       newActivations[layerIdx] = nextKey;
@@ -440,6 +872,31 @@ export const NetworkGame: React.FC<NetworkGameProps> = ({ onUpdateContext }) =>
       setIsOptimized(false);
   };
 
+  // Layer `to`'s incoming skip: none, then each earlier layer of the same size
+  const cycleSkip = (to: number) => {
+      const sources = [null, ...skipSources(layerDims.map(d => d.rows * d.cols), to)];
+      const current = skips.find(skip => skip.to === to)?.from ?? null;
+      const next = sources[(sources.indexOf(current) + 1) % sources.length];
+      setSkips([...skips.filter(skip => skip.to !== to), ...(next === null ? [] : [{ from: next, to }])]);
+  };
+
+  const cycleDropout = (layerIdx: number) => {
+      const next = DROPOUT_RATES[(DROPOUT_RATES.indexOf(layerDropout[layerIdx]) + 1) % DROPOUT_RATES.length];
+      setLayerDropout(layerDropout.map((rate, i) => i === layerIdx ? next : rate));
+  };
+
+  // Picking a scheme redraws the network right away so its statistics update
+  const cycleInitializer = (layerIdx: number) => {
+      const next = layerInitializers.map((key, i) => i === layerIdx ? INITIALIZER_KEYS[(INITIALIZER_KEYS.indexOf(key) + 1) % INITIALIZER_KEYS.length] : key);
+      setLayerInitializers(next);
+      resetSimulation(next);
+  };
+
+  const changeInitConstant = (value: number) => {
+      setInitConstant(value);
+      resetSimulation(layerInitializers, value);
+  };
+
   // --- Axis Gizmo Helpers ---
   const renderAxisGizmo = () => {
       const radH = (cameraAngle.h * Math.PI) / 180;
@@ -498,10 +955,41 @@ export const NetworkGame: React.FC<NetworkGameProps> = ({ onUpdateContext }) =>
       );
   };
 
+  // Pre-activation statistics for the Initialization panel, over the training set
+  const layerStats = useMemo(() => (
+      showInit && networkRef.current ? preActivationStatistics(networkRef.current, samples) : []
+  // eslint-disable-next-line react-hooks/exhaustive-deps
+  ), [showInit, displayStats, samples]);
+
+  // --- Gradient Check ---
+  const runGradientCheck = () => {
+      const net = networkRef.current;
+      if (!net) return;
+      try {
+          setGradCheck({ result: checkGradients(net, samples), epoch: epochRef.current });
+          setGradCheckError(null);
+      } catch (e) {
+          setGradCheck(null);
+          setGradCheckError((e as Error).message);
+      }
+  };
+
+  // Graph keys (links, and nodes for biases) of the worst parameters from the last check
+  const gradHighlights = useMemo(() => {
+      const highlights = new Map<string, GradientCheckStatus>();
+      if (!showGradCheck || !gradCheck) return highlights;
+      for (const entry of gradCheck.result.worst) {
+          if (entry.to === null) continue; // Shared conv kernel entries have no single link or node
+          const key = entry.kind === 'weight' ? `link-${entry.layer}-${entry.from}-${entry.to}` : `node-${entry.layer + 1}-${entry.to}`;
+          highlights.set(key, gradientCheckStatus(entry.relativeError));
+      }
+      return highlights;
+  }, [showGradCheck, gradCheck]);
+
   // --- Render List Generation ---
   const renderItems = useMemo(() => {
       const items: any[] = [];
-      if (!displayStats.values.length) return items;
+      if (!shownStats.values.length || viewMode === 'MATRIX') return items;
 
       // Generate Nodes
       layerDims.forEach((dim, lIdx) => {
@@ -509,16 +997,22 @@ export const NetworkGame: React.FC<NetworkGameProps> = ({ onUpdateContext }) =>
               for(let c=0; c<dim.cols; c++) {
                   const flatIdx = (r * dim.cols) + c;
                   const pos = project3D(lIdx, r, c);
-                  const value = displayStats.values[lIdx]?.[flatIdx] || 0;
-                  const bias = lIdx > 0 ? (displayStats.biases[lIdx-1]?.[flatIdx] || 0) : 0;
+                  const value = shownStats.values[lIdx]?.[flatIdx] || 0;
+                  // Conv neurons share their channel's bias; pool neurons have none
+                  const biasIdx = lIdx > 0 ? biasIndex(layerSpecs[lIdx], shapes[lIdx], flatIdx) : -1;
+                  const hasBias = biasIdx >= 0;
+                  const bias = hasBias ? (shownStats.biases[lIdx-1]?.[biasIdx] || 0) : 0;
                   const isInput = lIdx === 0;
                   const isOutput = lIdx === layerDims.length - 1;
+                  const dropped = shownStats.dropoutMasks[lIdx]?.[flatIdx] === 0;
+                  const health = neuronHealth.flags.get(`node-${lIdx}-${flatIdx}`);
+                  const error = shownStats.errors[lIdx]?.[flatIdx] || 0;
                   
                   items.push({
                       type: 'NODE',
                       key: `node-${lIdx}-${flatIdx}`,
-                      lIdx, flatIdx, isInput, isOutput,
-                      pos, value, bias,
+                      lIdx, flatIdx, isInput, isOutput, dropped, health,
+                      pos, value, bias, hasBias, error,
                       depth: pos.depth // For sorting
                   });
 
@@ -533,13 +1027,15 @@ export const NetworkGame: React.FC<NetworkGameProps> = ({ onUpdateContext }) =>
                       });
                   }
 
-                  // Activation Control (Attached to TOP of layer column) - Only for Hidden Layers
-                  if (!isInput && !isOutput && r === 0 && c === Math.floor(dim.cols/2)) {
+                  // Activation Control (Attached to TOP of layer column) - Output header sits higher to clear the target sliders
+                  if (!isInput && r === 0 && c === Math.floor(dim.cols/2)) {
+                       const errors = shownStats.errors[lIdx] || [];
                        items.push({
                           type: 'ACTIVATION_CONTROL',
                           key: `act-${lIdx}`,
-                          lIdx,
-                          pos: { ...pos, y: pos.y - 90 * pos.scale }, // Position above
+                          lIdx, isOutput,
+                          errorRms: Math.sqrt(errors.reduce((sum, e) => sum + e * e, 0) / Math.max(1, errors.length)),
+                          pos: { ...pos, y: pos.y - (isOutput ? 110 : 90) * pos.scale }, // Position above
                           depth: pos.depth + 10 
                       });
                   }
@@ -548,10 +1044,47 @@ export const NetworkGame: React.FC<NetworkGameProps> = ({ onUpdateContext }) =>
       });
 
       // Generate Connections
-      displayStats.weights.forEach((layerWeights, lIdx) => {
+      shownStats.weights.forEach((layerWeights, lIdx) => {
           const fromDim = layerDims[lIdx];
           const toDim = layerDims[lIdx+1];
           if(!toDim) return;
+          const toSize = toDim.rows * toDim.cols;
+          // Error sent back along each link: w * (error of the neuron it feeds), scaled per layer
+          const toErrors = shownStats.errors[lIdx + 1] || [];
+          const spec = layerSpecs[lIdx + 1];
+
+          if (spec.kind !== 'DENSE') {
+              // Receptive fields only: each neuron links to the inputs under its kernel or pooling window.
+              // A pool link has no weight and draws the share it passed on (1 for a max's winner, 1/n for a mean).
+              const fromValues = shownStats.values[lIdx] || [];
+              const pooled = shownStats.preActivations[lIdx + 1] || [];
+              const links = layerConnections(spec, shapes[lIdx], shapes[lIdx + 1]).map(({ from, to, weight }) => ({
+                  from, to, weight,
+                  w: spec.kind === 'CONV' ? layerWeights[weight] || 0 : spec.mode === 'MAX' ? Number(fromValues[from] === pooled[to]) : 1 / (spec.size * spec.size)
+              }));
+              const minLinkStrength = linkDrawThreshold(Float64Array.from(links, l => l.w));
+              const maxLinkFlow = links.reduce((max, l) => Math.max(max, Math.abs(l.w * (toErrors[l.to] || 0))), 0);
+              for (const { from, to, weight, w } of links) {
+                  if (Math.abs(w) < minLinkStrength) continue;
+                  const fromPos = project3D(lIdx, Math.floor(from / fromDim.cols), from % fromDim.cols);
+                  const toPos = project3D(lIdx + 1, Math.floor(to / toDim.cols), to % toDim.cols);
+                  items.push({
+                      type: 'LINK',
+                      key: `link-${lIdx}-${from}-${to}`,
+                      lIdx, fromFlat: from, toFlat: to,
+                      fromPos, toPos, w,
+                      delta: weight >= 0 ? shownStats.deltas[lIdx]?.[weight] || 0 : 0,
+                      flow: w * (toErrors[to] || 0),
+                      maxFlow: maxLinkFlow,
+                      depth: (fromPos.depth + toPos.depth) / 2
+                  });
+              }
+              return;
+          }
+
+          const minStrength = linkDrawThreshold(layerWeights);
+          let maxFlow = 0;
+          for (let p = 0; p < layerWeights.length; p++) maxFlow = Math.max(maxFlow, Math.abs(layerWeights[p] * (toErrors[p % toSize] || 0)));
 
           for(let r1=0; r1<fromDim.rows; r1++) {
               for(let c1=0; c1<fromDim.cols; c1++) {
@@ -561,9 +1094,11 @@ export const NetworkGame: React.FC<NetworkGameProps> = ({ onUpdateContext }) =>
                   for(let r2=0; r2<toDim.rows; r2++) {
                       for(let c2=0; c2<toDim.cols; c2++) {
                           const toFlat = (r2 * toDim.cols) + c2;
+                          const w = layerWeights[fromFlat * toSize + toFlat] || 0;
+                          if (Math.abs(w) < minStrength && !gradHighlights.has(`link-${lIdx}-${fromFlat}-${toFlat}`)) continue;
                           const toPos = project3D(lIdx+1, r2, c2);
-                          const w = layerWeights[fromFlat]?.[toFlat] || 0;
-                          const delta = displayStats.deltas[lIdx]?.[fromFlat]?.[toFlat] || 0;
+                          const delta = shownStats.deltas[lIdx]?.[fromFlat * toSize + toFlat] || 0;
+                          const flow = w * (toErrors[toFlat] || 0);
                           
                           // Avg depth
                           const depth = (fromPos.depth + toPos.depth) / 2;
@@ -572,7 +1107,7 @@ export const NetworkGame: React.FC<NetworkGameProps> = ({ onUpdateContext }) =>
                               type: 'LINK',
                               key: `link-${lIdx}-${fromFlat}-${toFlat}`,
                               lIdx, fromFlat, toFlat,
-                              fromPos, toPos, w, delta,
+                              fromPos, toPos, w, delta, flow, maxFlow,
                               depth
                           });
                       }
@@ -581,27 +1116,76 @@ export const NetworkGame: React.FC<NetworkGameProps> = ({ onUpdateContext }) =>
           }
       });
 
+      // Generate Skip Connections: one arc per neuron, lifted over the layers in between
+      const layerSizes = layerDims.map(d => d.rows * d.cols);
+      skips.filter(skip => isSkipAllowed(layerSizes, skip)).forEach(({ from, to }) => {
+          const dim = layerDims[to];
+          for (let j = 0; j < layerSizes[to]; j++) {
+              const fromPos = project3D(from, Math.floor(j / dim.cols), j % dim.cols);
+              const toPos = project3D(to, Math.floor(j / dim.cols), j % dim.cols);
+              const lift = Math.hypot(toPos.x - fromPos.x, toPos.y - fromPos.y) * 0.3;
+              items.push({
+                  type: 'SKIP',
+                  key: `skip-${from}-${to}-${j}`,
+                  from, to,
+                  fromPos, toPos,
+                  control: { x: (fromPos.x + toPos.x) / 2, y: (fromPos.y + toPos.y) / 2 - lift },
+                  flow: shownStats.errors[to]?.[j] || 0,
+                  depth: (fromPos.depth + toPos.depth) / 2
+              });
+          }
+      });
+
       // Sort Back-to-Front (Painter's Algorithm)
       return items.sort((a, b) => a.depth - b.depth);
 
   // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [layerDims, cameraAngle, viewScale, viewOffset, displayStats, direction, activeLayer, inputs, target, viewSettings, isOrtho]);
+  }, [viewMode, layerDims, layerSpecs, shapes, skips, cameraAngle, viewScale, viewOffset, shownStats, direction, activeLayer, inputs, target, viewSettings, isOrtho, gradHighlights, neuronHealth]);
 
   // UI Handlers
-  const modifyLayer = (lIdx: number, dKey: 'rows' | 'cols', delta: number) => {
-      setLayerDims(prev => {
-          const next = [...prev];
-          const newVal = Math.max(1, Math.min(8, next[lIdx][dKey] + delta));
-          next[lIdx] = { ...next[lIdx], [dKey]: newVal };
-          return next;
-      });
+  // Applies a new layout if every conv / pool layer still fits it; returns whether it did
+  const setStructure = (dims: LayerDim[], specs: LayerSpec[]) => {
+      const resolved = resolveStructure(dims, specs);
+      if (!resolved) return false;
+      setLayerDims(resolved);
+      setLayerSpecs(specs);
       setIsOptimized(false);
+      return true;
+  };
+
+  const modifyLayer = (lIdx: number, dKey: 'rows' | 'cols', delta: number) => {
+      const next = [...layerDims];
+      const newVal = Math.max(1, Math.min(MAX_LAYER_DIM, next[lIdx][dKey] + delta));
+      next[lIdx] = { ...next[lIdx], [dKey]: newVal };
+      setStructure(next, layerSpecs);
+  };
+
+  // Tries the candidate specs for a layer in order and keeps the first that fits
+  const cycleLayerSpec = (lIdx: number, candidates: LayerSpec[]) => {
+      candidates.some(spec => setStructure(layerDims, layerSpecs.map((s, i) => i === lIdx ? spec : s)));
+  };
+
+  const cycleLayerKind = (lIdx: number) => {
+      const current = LAYER_KINDS.indexOf(layerSpecs[lIdx].kind);
+      cycleLayerSpec(lIdx, LAYER_KINDS.map((_, n) => DEFAULT_LAYER_SPECS[LAYER_KINDS[(current + 1 + n) % LAYER_KINDS.length]]));
+  };
+
+  const cycleLayerParam = (lIdx: number, key: LayerParamKey) => {
+      const spec = layerSpecs[lIdx];
+      const choices: readonly (number | string)[] = LAYER_PARAM_CHOICES[key];
+      const current = choices.indexOf((spec as Record<string, unknown>)[key] as number | string);
+      cycleLayerSpec(lIdx, choices.map((_, n) => ({ ...spec, [key]: choices[(current + 1 + n) % choices.length] }) as LayerSpec));
   };
 
   const addLayer = () => {
       if(layerDims.length < 10) {
           setLayerDims([...layerDims.slice(0, -1), { rows: 2, cols: 2 }, layerDims[layerDims.length-1]]);
+          setLayerSpecs([...layerSpecs.slice(0, -1), DEFAULT_LAYER_SPECS.DENSE, layerSpecs[layerSpecs.length-1]]);
           setLayerActivations([...layerActivations.slice(0, -1), 'LEAKY_RELU', layerActivations[layerActivations.length-1]]);
+          setLayerDropout([...layerDropout.slice(0, -1), 0, layerDropout[layerDropout.length-1]]);
+          setLayerInitializers([...layerInitializers.slice(0, -1), 'UNIFORM', layerInitializers[layerInitializers.length-1]]);
+          // The output layer moves up one; skips into it follow
+          setSkips(skips.map(skip => skip.to === layerDims.length - 1 ? { ...skip, to: skip.to + 1 } : skip));
           setIsOptimized(false);
       }
   };
@@ -610,16 +1194,266 @@ export const NetworkGame: React.FC<NetworkGameProps> = ({ onUpdateContext }) =>
       if(layerDims.length > 2) {
           const newDims = [...layerDims];
           newDims.splice(newDims.length - 2, 1);
-          setLayerDims(newDims);
+          const newSpecs = [...layerSpecs];
+          newSpecs.splice(newSpecs.length - 2, 1);
+          // A layer the rest no longer fits leaves everything as it was
+          if (!setStructure(newDims, newSpecs)) return;
           const newActs = [...layerActivations];
           newActs.splice(newActs.length - 2, 1);
           setLayerActivations(newActs);
+          const newDropout = [...layerDropout];
+          newDropout.splice(newDropout.length - 2, 1);
+          setLayerDropout(newDropout);
+          const newInits = [...layerInitializers];
+          newInits.splice(newInits.length - 2, 1);
+          setLayerInitializers(newInits);
+          // Skips from or to the removed layer go; the output layer moves down one
+          const removed = layerDims.length - 2;
+          setSkips(skips.filter(skip => skip.from !== removed && skip.to !== removed).map(skip => skip.to > removed ? { ...skip, to: skip.to - 1 } : skip));
           setIsOptimized(false);
       }
   };
 
+  // Model Files
+  const currentModel = () => networkRef.current && serializeModel(networkRef.current, {
+      layerDims,
+      learningRate,
+      schedule,
+      dataset: { key: dataset, seed: datasetSeed, split: splitRatios, inputs, target },
+      epochs: epochRef.current,
+      lossHistory
+  });
+
+  const download = (blob: Blob, filename: string) => {
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = filename;
+      link.click();
+      URL.revokeObjectURL(url);
+  };
+
+  const exportModel = () => {
+      const model = currentModel();
+      if (!model) return;
+      download(new Blob([JSON.stringify(model, null, 2)], { type: 'application/json' }), `architect-model-epoch-${model.epochs}.json`);
+  };
+
+  // TF.js Layers files: load with tf.loadLayersModel() from a folder holding both
+  const exportTfjs = () => {
+      if (!networkRef.current) return;
+      let exported: ReturnType<typeof exportTfjsModel>;
+      try {
+          exported = exportTfjsModel(networkRef.current, 'architect', learningRate);
+      } catch (err) {
+          setModelError(`TF.js export: ${(err as Error).message}`);
+          return;
+      }
+      const { modelJson, weightData } = exported;
+      download(new Blob([JSON.stringify(modelJson)], { type: 'application/json' }), 'model.json');
+      download(new Blob([weightData], { type: 'application/octet-stream' }), TFJS_WEIGHTS_PATH);
+  };
+
+  // A TF.js model.json arrives together with its weight shards; the network keeps the current training setup
+  const tfjsModel = async (modelJson: unknown, files: File[]) => {
+      if (!isTfjsModel(modelJson)) throw new Error('Not a TF.js Layers model');
+      const shards = tfjsWeightPaths(modelJson).map(path => {
+          const name = path.split('/').pop();
+          const file = files.find(f => f.name === name);
+          if (!file) throw new Error(`Select model.json together with its weight file ${name}`);
+          return file;
+      });
+      const buffers = await Promise.all(shards.map(f => f.arrayBuffer()));
+      const weightData = new Uint8Array(buffers.reduce((n, b) => n + b.byteLength, 0));
+      buffers.reduce((offset, b) => { weightData.set(new Uint8Array(b), offset); return offset + b.byteLength; }, 0);
+
+      const net = importTfjsModel(modelJson, weightData.buffer);
+      const sizes = net.layerSizes;
+      return serializeModel(net, {
+          layerDims: sizes.map(layerDimFor),
+          learningRate,
+          schedule,
+          dataset: { key: dataset, seed: datasetSeed, split: splitRatios, inputs: new Array(sizes[0]).fill(0), target: new Array(sizes[sizes.length - 1]).fill(0) },
+          epochs: 0,
+          lossHistory: []
+      });
+  };
+
+  // Every piece of state the file describes is replaced; the structure effect then installs its network
+  const applyModel = (model: ArchitectModel) => {
+      pendingModelRef.current = model;
+      setIsPlaying(false);
+      setLayerDims(model.layerDims);
+      setLayerSpecs(model.layerSpecs);
+      setLayerActivations(model.layerActivations);
+      setSkips(model.skips);
+      setInputs(model.dataset.inputs);
+      setTarget(model.dataset.target);
+      setDataset(model.dataset.key);
+      setDatasetSeed(model.dataset.seed);
+      setSplitRatios(model.dataset.split);
+      setLearningRate(model.hyperparams.learningRate);
+      setSchedule(model.hyperparams.schedule);
+      setLossKey(model.hyperparams.loss);
+      setOptimizer(model.hyperparams.optimizer);
+      setOptimizerParams(model.hyperparams.optimizerParams);
+      setRegularization(model.hyperparams.regularization);
+      setClipping(model.hyperparams.clipping);
+      setLayerDropout(model.layerDropout);
+      setLayerInitializers(model.layerDims.map(() => 'UNIFORM'));
+      setModelRevision(r => r + 1);
+      setModelError(null);
+  };
+
+  const importModel = async (e: React.ChangeEvent<HTMLInputElement>) => {
+      const files: File[] = e.target.files ? Array.from(e.target.files) : [];
+      e.target.value = ''; // Allow re-selecting the same files
+      const file = files.find(f => f.name.endsWith('.json')) ?? files[0];
+      if (!file) return;
+      try {
+          const text = await file.text();
+          let json: unknown = null;
+          try { json = JSON.parse(text); } catch { /* parseModel reports it */ }
+          applyModel(parseModel(isTfjsModel(json) ? await tfjsModel(json, files) : text));
+      } catch (err) {
+          setModelError(`${file.name}: ${(err as Error).message}`);
+      }
+  };
+
+  const saveAutosave = () => {
+      const model = currentModel();
+      if (!model) return;
+      try {
+          localStorage.setItem(AUTOSAVE_KEY, JSON.stringify(model));
+      } catch (err) {
+          setModelError(`Autosave failed: ${(err as Error).message}`); // e.g. storage quota exceeded
+      }
+  };
+
+  // Autosave once things settle (never mid-training), and when leaving the Architect
+  const saveAutosaveRef = useRef(saveAutosave);
+  saveAutosaveRef.current = saveAutosave;
+  useEffect(() => {
+      if (isPlaying) return;
+      const timer = setTimeout(() => saveAutosaveRef.current(), 500);
+      return () => clearTimeout(timer);
+  }, [isPlaying, displayStats, layerActivations, learningRate, schedule, splitRatios, lossKey, optimizer, optimizerParams, clipping, skips, dataset, datasetSeed, inputs, target]);
+  useEffect(() => () => saveAutosaveRef.current(), []);
+
+  const cycleLoss = () => {
+      setLossKey(LOSS_KEYS[(LOSS_KEYS.indexOf(lossKey) + 1) % LOSS_KEYS.length]);
+      setIsOptimized(false);
+  };
+
+  const cycleOptimizer = () => {
+      setOptimizer(OPTIMIZER_KEYS[(OPTIMIZER_KEYS.indexOf(optimizer) + 1) % OPTIMIZER_KEYS.length]);
+  };
+
+  const cycleClipMode = () => {
+      setClipping(c => ({ ...c, mode: CLIP_MODES[(CLIP_MODES.indexOf(c.mode) + 1) % CLIP_MODES.length] }));
+  };
+
+  const cycleClipThreshold = () => {
+      setClipping(c => ({ ...c, threshold: CLIP_THRESHOLDS[(CLIP_THRESHOLDS.indexOf(c.threshold) + 1) % CLIP_THRESHOLDS.length] }));
+  };
+
+  const cycleSplit = (key: keyof SplitRatios, steps: number[]) => {
+      setSplitRatios(r => ({ ...r, [key]: steps[(steps.indexOf(r[key]) + 1) % steps.length] }));
+      setIsOptimized(false);
+  };
+
+  const cyclePatience = () => {
+      setPatience(p => PATIENCE_STEPS[(PATIENCE_STEPS.indexOf(p) + 1) % PATIENCE_STEPS.length]);
+  };
+
+  // Back to the parameters with the lowest watched loss (e.g. before validation loss turned up)
+  const restoreBestWeights = () => {
+      const net = networkRef.current;
+      if (!net || !best || isPlaying) return;
+      net.setParameters(best.weights, best.biases);
+      net.forward(inputs);
+      updateVisuals();
+      setIsOptimized(false);
+  };
+
+  // Gradients for the slider input/target without a weight update, so a paused network can be inspected
+  const backpropProbe = () => {
+      const net = networkRef.current;
+      if (!net || isPlaying) return;
+      net.forward(inputs);
+      net.backward(target);
+      updateVisuals();
+  };
+
+  // Looking at a past frame pauses training; null follows the live network again
+  const seekTimeline = (index: number | null) => {
+      setIsReplaying(false);
+      if (index !== null) setIsPlaying(false);
+      setTimelineView(index);
+  };
+
+  // Replays from the start unless already part-way through
+  const toggleReplay = () => {
+      if (isReplaying) {
+          setIsReplaying(false);
+          return;
+      }
+      const frames = timelineRef.current.frames;
+      setIsPlaying(false);
+      if (timelineView === null || timelineView >= frames.length - 1) setTimelineView(0);
+      setIsReplaying(true);
+  };
+
+  // Rewinds the live network to the viewed frame; later frames and loss history are discarded
+  const branchFromFrame = () => {
+      const net = networkRef.current;
+      const frame = timelineView !== null ? timelineRef.current.frames[timelineView] : undefined;
+      if (!net || !frame) return;
+      invalidateTrainer();
+      net.setParameters(frame.snapshot.weights, frame.snapshot.biases);
+      net.resetOptimizerState();
+      epochRef.current = frame.epoch;
+      setEpochs(frame.epoch);
+      setLossHistory(prev => prev.filter(p => p.epoch <= frame.epoch));
+      timelineRef.current.truncate(frame.epoch);
+      setTimelineRevision(r => r + 1);
+      setTimelineView(null);
+      setIsReplaying(false);
+      setIsOptimized(false);
+      setDirection('NONE');
+      setActiveLayer(-1);
+      resetSampleCursor();
+      resetMonitor();
+      net.forward(inputs);
+      updateVisuals();
+  };
+
+  const cycleSchedule = () => {
+      setSchedule(s => ({ ...s, key: SCHEDULE_KEYS[(SCHEDULE_KEYS.indexOf(s.key) + 1) % SCHEDULE_KEYS.length] }));
+  };
+
+  const cycleDataset = () => {
+      const next = DATA_SOURCES[(DATA_SOURCES.indexOf(dataset) + 1) % DATA_SOURCES.length];
+      setDataset(next);
+      setIsOptimized(false);
+      if (next === 'MANUAL') return;
+
+      // Reshape the input/output layers so the new dataset fits
+      const def = DATASETS[next];
+      const fitsOutput = isDatasetCompatible(next, def.inputSize, outputSize);
+      if (inputSize !== def.inputSize || !fitsOutput) {
+          const dims = [...layerDims];
+          if (inputSize !== def.inputSize) dims[0] = def.grid ?? { rows: def.inputSize, cols: 1 };
+          if (!fitsOutput) dims[dims.length - 1] = { rows: def.classes === 2 ? 1 : def.classes, cols: 1 };
+          // Conv layers that no longer fit the new input fall back to dense
+          if (!setStructure(dims, layerSpecs)) setStructure(dims, layerSpecs.map(() => DEFAULT_LAYER_SPECS.DENSE));
+      } else {
+          resetSimulation();
+      }
+  };
+
   // Mouse Controls
-  const handleStartUIDrag = (e: React.MouseEvent, id: 'LOSS' | 'SETTINGS') => {
+  const handleStartUIDrag = (e: React.MouseEvent, id: PanelId) => {
       e.stopPropagation();
       const rect = e.currentTarget.getBoundingClientRect();
       draggingUIRef.current = {
@@ -641,11 +1475,7 @@ export const NetworkGame: React.FC<NetworkGameProps> = ({ onUpdateContext }) =>
           const newX = e.clientX - offsetX;
           const newY = e.clientY - offsetY;
           
-          if (id === 'LOSS') {
-              setLossGraphPos({ x: Math.max(0, newX), y: Math.max(0, newY) });
-          } else {
-              setViewSettingsPos({ x: Math.max(0, newX), y: Math.max(0, newY) });
-          }
+          setPanelPos(prev => ({ ...prev, [id]: { x: Math.max(0, newX), y: Math.max(0, newY) } }));
           return;
       }
 
@@ -697,43 +1527,245 @@ export const NetworkGame: React.FC<NetworkGameProps> = ({ onUpdateContext }) =>
              <button onClick={addLayer} className="flex items-center gap-2 px-3 py-1.5 bg-slate-800 hover:bg-blue-600 rounded-full text-xs font-bold border border-white/5"><Plus size={14}/> LAYER</button>
              <button onClick={removeLayer} className="flex items-center gap-2 px-3 py-1.5 bg-slate-800 hover:bg-red-600 rounded-full text-xs font-bold border border-white/5"><Minus size={14}/> LAYER</button>
          </div>
-         <div className="px-4 text-xs font-mono">
-             <span className="text-slate-500">EPOCH </span>
-             <span className="text-white font-bold">{epochs}</span>
+         <div className="flex items-center gap-1 border-l border-white/10 pl-4">
+             {([['GRAPH', Network, 'Node-link graph'], ['MATRIX', Grid3x3, 'Weight matrices as heatmaps (W · x + b)']] as const).map(([mode, Icon, title]) => (
+                 <button
+                    key={mode}
+                    onClick={() => setViewMode(mode)}
+                    title={title}
+                    className={`flex items-center gap-1 px-2 py-1 rounded-full text-[10px] font-bold font-mono border border-white/5 ${viewMode === mode ? 'bg-blue-600 text-white' : 'bg-slate-800 text-slate-400 hover:text-white'}`}
+                 >
+                     <Icon size={12}/> {mode}
+                 </button>
+             ))}
+         </div>
+         <div className="flex items-center gap-2 border-l border-white/10 pl-4">
+             <button onClick={exportModel} title="Save model as JSON" className="p-1.5 bg-slate-800 hover:bg-blue-600 rounded-full border border-white/5"><Download size={14}/></button>
+             <button onClick={exportTfjs} title="Export TF.js Layers model (model.json + weights)" className="px-2 py-1 bg-slate-800 hover:bg-orange-600 rounded-full border border-white/5 text-[10px] font-bold font-mono">TF.js</button>
+             <button onClick={() => modelFileRef.current?.click()} title="Load a saved model, or a TF.js model.json together with its .bin weights" className="p-1.5 bg-slate-800 hover:bg-blue-600 rounded-full border border-white/5"><Upload size={14}/></button>
+             <input ref={modelFileRef} type="file" multiple accept=".json,.bin,application/json" onChange={importModel} className="hidden" />
+         </div>
+         <div className="px-4 text-xs font-mono flex gap-4">
+             <div>
+                 <span className="text-slate-500">EPOCH </span>
+                 <span className="text-white font-bold">{epochs}</span>
+             </div>
+             {datasetActive && (
+                 <>
+                     <div>
+                         <span className="text-slate-500">SAMPLE </span>
+                         <span className="text-white font-bold">{Math.min(sampleCursor + 1, samples.length)}/{samples.length}</span>
+                     </div>
+                     <div>
+                         <span className="text-slate-500">ACC </span>
+                         <span className={`font-bold ${displayStats.accuracy >= 0.95 ? 'text-green-400' : 'text-white'}`}>{(displayStats.accuracy * 100).toFixed(1)}%</span>
+                     </div>
+                     {displayStats.validation && (
+                         <div>
+                             <span className="text-slate-500">VAL </span>
+                             <span className="font-bold" style={{ color: VALIDATION_COLOR }}>{(displayStats.validation.accuracy * 100).toFixed(1)}%</span>
+                         </div>
+                     )}
+                     {testStats && (
+                         <div title={`Test loss ${testStats.loss.toFixed(5)} (scored while paused only)`}>
+                             <span className="text-slate-500">TEST </span>
+                             <span className="text-white font-bold">{(testStats.accuracy * 100).toFixed(1)}%</span>
+                         </div>
+                     )}
+                 </>
+             )}
          </div>
       </div>
 
+      {/* Model Load and Autosave Errors */}
+      {modelError && (
+          <div className="absolute top-20 left-1/2 -translate-x-1/2 z-30 max-w-xl bg-red-950/90 border border-red-500/40 rounded-lg px-4 py-2 flex items-start gap-3 text-xs font-mono text-red-200 shadow-xl">
+              <span className="flex-1">{modelError}</span>
+              <button onClick={() => setModelError(null)} className="text-red-300 hover:text-white"><X size={14}/></button>
+          </div>
+      )}
+
+      {/* Generated Code (Draggable) */}
+      {showCode && (
+          <CodePanel
+              spec={codeSpec}
+              pos={panelPos.CODE}
+              onStartDrag={(e) => handleStartUIDrag(e, 'CODE')}
+              onClose={() => setShowCode(false)}
+          />
+      )}
+
+      {/* Gradient Check (Draggable) */}
+      {showGradCheck && (
+          <GradientCheckPanel
+              result={gradCheck?.result ?? null}
+              epoch={gradCheck?.epoch ?? 0}
+              error={gradCheckError}
+              disabled={isPlaying}
+              onRun={runGradientCheck}
+              pos={panelPos.GRADCHECK}
+              onStartDrag={(e) => handleStartUIDrag(e, 'GRADCHECK')}
+              onClose={() => setShowGradCheck(false)}
+          />
+      )}
+
+      {/* Weight Initialization (Draggable) */}
+      {showInit && (
+          <InitializationPanel
+              initializers={layerInitializers}
+              activations={layerActivations}
+              constant={initConstant}
+              stats={layerStats}
+              epoch={epochs}
+              onCycle={cycleInitializer}
+              onConstantChange={changeInitConstant}
+              onReinitialize={() => resetSimulation()}
+              pos={panelPos.INIT}
+              onStartDrag={(e) => handleStartUIDrag(e, 'INIT')}
+              onClose={() => setShowInit(false)}
+          />
+      )}
+
+      {/* Custom Activations (Draggable) */}
+      {showActivations && (
+          <ActivationPanel
+              customs={customActivations}
+              inUse={layerActivations}
+              curve={(key, width, height) => getActivationVisual(key, 0, width, height)}
+              onAdd={(key) => setCustomActivations(list => [...list, key])}
+              onRemove={(key) => setCustomActivations(list => list.filter(k => k !== key))}
+              pos={panelPos.ACTIVATION}
+              onStartDrag={(e) => handleStartUIDrag(e, 'ACTIVATION')}
+              onClose={() => setShowActivations(false)}
+          />
+      )}
+
+      {/* Gradient Norms (Draggable) */}
+      {showGradNorms && (
+          <GradientNormPanel
+              history={lossHistory}
+              parameters={gradientParameters}
+              conditions={gradientWarnings}
+              clipping={clipping}
+              pos={panelPos.GRADNORM}
+              onStartDrag={(e) => handleStartUIDrag(e, 'GRADNORM')}
+              onClose={() => setShowGradNorms(false)}
+          />
+      )}
+
+      {/* Neuron Inspector (Draggable) */}
+      {inspection && (
+          <NeuronInspectorPanel
+              breakdown={inspection}
+              frameEpoch={viewedFrame?.epoch ?? null}
+              canBackprop={!isPlaying && !viewedFrame}
+              onBackprop={backpropProbe}
+              pos={panelPos.INSPECTOR}
+              onStartDrag={(e) => handleStartUIDrag(e, 'INSPECTOR')}
+              onClose={() => setInspected(null)}
+          />
+      )}
+
       {/* Loss Graph (Draggable) */}
       <div 
-        style={{ left: lossGraphPos.x, top: lossGraphPos.y }}
+        style={{ left: panelPos.LOSS.x, top: panelPos.LOSS.y }}
         onMouseDown={(e) => handleStartUIDrag(e, 'LOSS')}
-        className="absolute z-20 w-64 h-32 bg-panel-bg/80 backdrop-blur border border-white/10 rounded-xl p-2 shadow-xl cursor-auto"
+        className={`absolute z-20 ${isScheduled ? 'w-[26rem]' : 'w-64'} h-32 bg-panel-bg/80 backdrop-blur border border-white/10 rounded-xl p-2 shadow-xl cursor-auto`}
       >
          <div className="flex justify-between items-center px-2 mb-1 cursor-move" title="Drag to move">
             <div className="flex items-center gap-2">
                 <GripHorizontal size={14} className="text-slate-500"/>
-                <span className="text-[10px] font-bold text-slate-400">LOSS</span>
+                <span className="text-[10px] font-bold text-slate-400">LOSS · {LOSS_FUNCTIONS[lossKey].short}</span>
+            </div>
+            <div onMouseDown={e => e.stopPropagation()} className="flex items-center gap-2 text-[10px] font-mono font-bold">
+                <span className={displayStats.loss < 0.01 ? 'text-green-400' : 'text-red-400'} title="Training loss">{displayStats.loss.toFixed(6)}</span>
+                {displayStats.validation && <span style={{ color: VALIDATION_COLOR }} title="Validation loss">{displayStats.validation.loss.toFixed(6)}</span>}
+                <button
+                    onClick={restoreBestWeights}
+                    disabled={!best || isPlaying}
+                    title={best ? `Restore the best weights (epoch ${best.epoch}, ${convergenceMetric === 'VALIDATION' && hasValidation ? 'validation' : 'training'} loss ${best.loss.toFixed(5)})` : 'No best weights yet'}
+                    className="text-slate-400 hover:text-white disabled:opacity-30"
+                >
+                    <History size={12}/>
+                </button>
             </div>
-            <span className={`text-[10px] font-mono font-bold ${displayStats.loss < 0.01 ? 'text-green-400' : 'text-red-400'}`}>{displayStats.loss.toFixed(6)}</span>
          </div>
-         <div onMouseDown={e => e.stopPropagation()} className="h-[80%]">
-             <ResponsiveContainer width="100%" height="100%">
-                <AreaChart data={lossHistory}>
-                     <defs>
-                        <linearGradient id="colorLoss" x1="0" y1="0" x2="0" y2="1">
-                        <stop offset="5%" stopColor="#00f3ff" stopOpacity={0.3}/>
-                        <stop offset="95%" stopColor="#00f3ff" stopOpacity={0}/>
-                        </linearGradient>
-                    </defs>
-                    <Area type="monotone" dataKey="loss" stroke="#00f3ff" strokeWidth={2} fill="url(#colorLoss)" isAnimationActive={false} />
-                </AreaChart>
-             </ResponsiveContainer>
+         <div onMouseDown={e => e.stopPropagation()} className="h-[80%] flex gap-2">
+             <div className="flex-1 min-w-0">
+                 <ResponsiveContainer width="100%" height="100%">
+                    <ComposedChart data={lossHistory}>
+                         <defs>
+                            <linearGradient id="colorLoss" x1="0" y1="0" x2="0" y2="1">
+                            <stop offset="5%" stopColor="#00f3ff" stopOpacity={0.3}/>
+                            <stop offset="95%" stopColor="#00f3ff" stopOpacity={0}/>
+                            </linearGradient>
+                        </defs>
+                        <YAxis yAxisId="loss" hide />
+                        <YAxis yAxisId="lr" hide orientation="right" domain={[0, 'dataMax']} />
+                        <Area yAxisId="loss" type="monotone" dataKey="loss" stroke="#00f3ff" strokeWidth={2} fill="url(#colorLoss)" isAnimationActive={false} />
+                        {/* Validation loss on the same scale: the gap to the training curve is the overfitting */}
+                        <Line yAxisId="loss" type="monotone" dataKey="valLoss" stroke={VALIDATION_COLOR} strokeWidth={1.5} dot={false} isAnimationActive={false} />
+                        {/* Effective LR on its own scale, so decay lines up with the loss curve */}
+                        {isScheduled && <Line yAxisId="lr" type="stepAfter" dataKey="lr" stroke={SCHEDULES[schedule.key].color} strokeWidth={1} strokeDasharray="3 2" dot={false} isAnimationActive={false} />}
+                    </ComposedChart>
+                 </ResponsiveContainer>
+             </div>
+             {isScheduled && (
+                 <div className="w-36 flex flex-col border-l border-white/10 pl-2" title={SCHEDULES[schedule.key].description}>
+                     <div className="flex justify-between text-[9px] font-mono">
+                         <span className="font-bold" style={{ color: SCHEDULES[schedule.key].color }}>LR · {SCHEDULES[schedule.key].name.toUpperCase()}</span>
+                         <span className="text-slate-400">{currentLearningRate.toPrecision(3)}</span>
+                     </div>
+                     <div className="flex-1">
+                         <ResponsiveContainer width="100%" height="100%">
+                            <LineChart data={schedulePoints}>
+                                <XAxis dataKey="epoch" type="number" domain={[0, previewEpochs]} hide />
+                                <YAxis hide domain={[0, 'dataMax']} />
+                                <ReferenceLine x={epochs} stroke="#64748b" strokeDasharray="2 2" />
+                                <Line type="linear" dataKey="lr" stroke={SCHEDULES[schedule.key].color} strokeWidth={1.5} dot={false} isAnimationActive={false} />
+                            </LineChart>
+                         </ResponsiveContainer>
+                     </div>
+                     <div className="flex justify-between text-[8px] font-mono text-slate-500">
+                         <span>0</span>
+                         <span>{previewEpochs} EP</span>
+                     </div>
+                 </div>
+             )}
          </div>
       </div>
 
+      {/* Decision Boundary (Draggable, only meaningful for a 2D input plane) */}
+      {inputSize === 2 && (
+          <DecisionBoundaryPanel
+              predict={(x) => (frameNetwork ?? networkRef.current)?.predict(x) ?? []}
+              samples={samples}
+              heldOut={[...datasetSplit.validation, ...datasetSplit.test]}
+              probe={inputs}
+              version={shownStats}
+              pos={panelPos.BOUNDARY}
+              onStartDrag={(e) => handleStartUIDrag(e, 'BOUNDARY')}
+          />
+      )}
+
+      {/* Pixel Pad (Draggable, paints image-like inputs and shows the per-class prediction) */}
+      {isImageInput && (
+          <PixelPad
+              rows={layerDims[0].rows}
+              cols={layerDims[0].cols}
+              values={inputs}
+              onChange={setInputs}
+              outputs={padOutputs}
+              labels={datasetActive ? DATASETS[dataset as DatasetKey].labels : undefined}
+              onLoadSample={datasetActive ? () => setInputs([...datasetSamples[Math.floor(Math.random() * datasetSamples.length)].input]) : undefined}
+              pos={panelPos.PAD}
+              onStartDrag={(e) => handleStartUIDrag(e, 'PAD')}
+          />
+      )}
+
       {/* VIEW SETTINGS PANEL (Draggable, Default Left) */}
       <div 
-          style={{ left: viewSettingsPos.x, top: viewSettingsPos.y }}
+          style={{ left: panelPos.SETTINGS.x, top: panelPos.SETTINGS.y }}
           onMouseDown={(e) => handleStartUIDrag(e, 'SETTINGS')}
           className="absolute z-30 bg-panel-bg/80 backdrop-blur border border-white/10 rounded-xl p-4 shadow-xl w-48 flex flex-col gap-4"
       >
@@ -802,7 +1834,8 @@ export const NetworkGame: React.FC<NetworkGameProps> = ({ onUpdateContext }) =>
          <button onClick={() => setIsPlaying(!isPlaying)} className={`w-12 h-12 rounded-xl flex items-center justify-center ${isPlaying ? 'bg-red-500 text-white' : 'bg-blue-500 text-white'}`}>
             {isPlaying ? <Pause size={24} fill="currentColor"/> : <Play size={24} fill="currentColor"/>}
          </button>
-         <button onClick={resetSimulation} className="w-12 h-12 bg-slate-800 text-slate-400 hover:text-white rounded-xl flex items-center justify-center"><RotateCcw size={20}/></button>
+         <button onClick={stepTraining} disabled={isPlaying} title="Train one epoch" className="w-12 h-12 bg-slate-800 text-slate-400 hover:text-white rounded-xl flex items-center justify-center disabled:opacity-30"><SkipForward size={20}/></button>
+         <button onClick={() => resetSimulation()} className="w-12 h-12 bg-slate-800 text-slate-400 hover:text-white rounded-xl flex items-center justify-center"><RotateCcw size={20}/></button>
          
          <div className="w-px h-10 bg-white/10" />
          
@@ -828,8 +1861,229 @@ export const NetworkGame: React.FC<NetworkGameProps> = ({ onUpdateContext }) =>
                 className="w-full accent-purple-500 h-1.5 bg-slate-700 rounded appearance-none"
             />
          </div>
+
+         <div className="flex flex-col w-28 gap-1">
+             <div className="text-[10px] font-bold text-slate-500 uppercase">Schedule</div>
+             <button
+                onClick={cycleSchedule}
+                title={SCHEDULES[schedule.key].description}
+                className="py-1 text-[10px] font-bold font-mono rounded border border-white/10 bg-slate-800 hover:bg-slate-700"
+                style={{ color: SCHEDULES[schedule.key].color }}
+             >
+                 {SCHEDULES[schedule.key].name.toUpperCase()}
+             </button>
+         </div>
+         {SCHEDULES[schedule.key].params.map(key => {
+             const info = SCHEDULE_PARAM_INFO[key];
+             return (
+                 <div key={key} className="flex flex-col w-24 gap-1">
+                     <div className="flex justify-between text-[10px] font-bold text-slate-500 uppercase">
+                        <span>{info.label}</span>
+                        <span>{schedule.params[key]}</span>
+                    </div>
+                     <input
+                        type="range" min={info.min} max={info.max} step={info.step}
+                        value={schedule.params[key]}
+                        onChange={(e) => setSchedule(s => ({ ...s, params: { ...s.params, [key]: Number(e.target.value) } }))}
+                        className="w-full h-1.5 bg-slate-700 rounded appearance-none"
+                        style={{ accentColor: SCHEDULES[schedule.key].color }}
+                    />
+                 </div>
+             );
+         })}
+
+         <div className="w-px h-10 bg-white/10" />
+
+         <div className="flex flex-col w-28 gap-1">
+             <div className="text-[10px] font-bold text-slate-500 uppercase">Optimizer</div>
+             <button
+                onClick={cycleOptimizer}
+                className="py-1 text-[10px] font-bold font-mono rounded border border-white/10 bg-slate-800 hover:bg-slate-700"
+                style={{ color: OPTIMIZERS[optimizer].color }}
+             >
+                 {OPTIMIZERS[optimizer].name.toUpperCase()}
+             </button>
+         </div>
+         {OPTIMIZERS[optimizer].hyperparams.map(key => {
+             const info = HYPERPARAM_INFO[key];
+             return (
+                 <div key={key} className="flex flex-col w-28 gap-1">
+                     <div className="flex justify-between text-[10px] font-bold text-slate-500 uppercase">
+                        <span>{info.label}</span>
+                        <span>{optimizerParams[key]}</span>
+                    </div>
+                     <input
+                        type="range" min={info.min} max={info.max} step={info.step}
+                        value={optimizerParams[key]}
+                        onChange={(e) => setOptimizerParams(p => ({ ...p, [key]: Number(e.target.value) }))}
+                        className="w-full h-1.5 bg-slate-700 rounded appearance-none"
+                        style={{ accentColor: OPTIMIZERS[optimizer].color }}
+                    />
+                 </div>
+             );
+         })}
+
+         <div className="w-px h-10 bg-white/10" />
+
+         {(['l1', 'l2'] as const).map(key => (
+             <div key={key} className="flex flex-col w-24 gap-1" title={`${key.toUpperCase()} weight penalty (added to the loss and the gradients)`}>
+                 <div className="flex justify-between text-[10px] font-bold text-slate-500 uppercase">
+                    <span>{key}</span>
+                    <span>{regularization[key].toFixed(4)}</span>
+                </div>
+                 <input
+                    type="range" min="0" max="0.01" step="0.0001"
+                    value={regularization[key]}
+                    onChange={(e) => setRegularization(r => ({ ...r, [key]: Number(e.target.value) }))}
+                    className="w-full accent-orange-500 h-1.5 bg-slate-700 rounded appearance-none"
+                />
+             </div>
+         ))}
+
+         <div className="flex flex-col w-24 gap-1">
+             <div className="text-[10px] font-bold text-slate-500 uppercase">Clip Grads</div>
+             <div className="flex gap-1">
+                 <button
+                    onClick={cycleClipMode}
+                    title={clipping.mode === 'NONE' ? 'Gradients are applied as computed' : clipping.mode === 'VALUE' ? 'Each gradient is clamped to ±threshold' : 'All gradients are scaled down when their global norm exceeds the threshold'}
+                    className="flex-1 py-1 text-[10px] font-bold font-mono rounded border border-white/10 bg-slate-800 hover:bg-slate-700 text-slate-300"
+                 >
+                     {clipping.mode === 'NONE' ? 'OFF' : clipping.mode}
+                 </button>
+                 <button
+                    onClick={cycleClipThreshold}
+                    disabled={clipping.mode === 'NONE'}
+                    title="Clipping threshold"
+                    className="px-1.5 py-1 text-[10px] font-bold font-mono rounded border border-white/10 bg-slate-800 hover:bg-slate-700 text-slate-300 disabled:opacity-30"
+                 >
+                     {clipping.threshold}
+                 </button>
+             </div>
+         </div>
+
+         <div className="w-px h-10 bg-white/10" />
+
+         <div className="flex flex-col w-36 gap-1">
+             <div className="flex justify-between text-[10px] font-bold text-slate-500 uppercase">
+                <span>Dataset</span>
+                {dataset !== 'MANUAL' && !datasetActive
+                    ? <span className="text-amber-400">Shape Mismatch</span>
+                    : <span>{datasetActive ? datasetSamples.length : 1} {datasetActive ? 'Samples' : 'Sample'}</span>}
+            </div>
+             <div className="flex gap-1">
+                 <button
+                    onClick={cycleDataset}
+                    title={dataset === 'MANUAL' ? 'Train on the input/target sliders' : DATASETS[dataset].description}
+                    className="flex-1 py-1 text-[10px] font-bold font-mono rounded border border-white/10 bg-slate-800 hover:bg-slate-700"
+                    style={{ color: dataset === 'MANUAL' ? '#94a3b8' : DATASETS[dataset].color }}
+                 >
+                     {dataset === 'MANUAL' ? 'SINGLE SAMPLE' : DATASETS[dataset].name.toUpperCase()}
+                 </button>
+                 <button
+                    onClick={() => setDatasetSeed(s => s + 1)}
+                    disabled={!datasetActive}
+                    title="Resample"
+                    className="px-2 rounded border border-white/10 bg-slate-800 text-slate-400 hover:text-white disabled:opacity-30"
+                 >
+                     <Shuffle size={12}/>
+                 </button>
+             </div>
+         </div>
+
+         <div className="flex flex-col w-28 gap-1">
+             <div className="flex justify-between text-[10px] font-bold text-slate-500 uppercase">
+                <span>Split</span>
+                <span title="Train / validation / test samples">{datasetSplit.train.length}/{datasetSplit.validation.length}/{datasetSplit.test.length}</span>
+            </div>
+             <div className="flex gap-1">
+                 {([['validation', 'VAL', VALIDATION_SPLITS], ['test', 'TEST', TEST_SPLITS]] as const).map(([key, label, steps]) => (
+                     <button
+                        key={key}
+                        onClick={() => cycleSplit(key, steps)}
+                        disabled={!datasetActive}
+                        title={`Fraction of the dataset held out for ${key}`}
+                        className="flex-1 py-1 text-[10px] font-bold font-mono rounded border border-white/10 bg-slate-800 hover:bg-slate-700 text-slate-300 disabled:opacity-30"
+                     >
+                         {label} {Math.round(splitRatios[key] * 100)}%
+                     </button>
+                 ))}
+             </div>
+         </div>
+
+         <div className="flex flex-col w-32 gap-1">
+             <div className="text-[10px] font-bold text-slate-500 uppercase">Stop On</div>
+             <div className="flex gap-1">
+                 <button
+                    onClick={() => setConvergenceMetric(m => m === 'TRAIN' ? 'VALIDATION' : 'TRAIN')}
+                    title={`Threshold and patience watch the ${convergenceMetric === 'TRAIN' ? 'training' : 'validation'} loss${convergenceMetric === 'VALIDATION' && !hasValidation ? ' (no validation set: training loss is used)' : ''}`}
+                    className="flex-1 py-1 text-[10px] font-bold font-mono rounded border border-white/10 bg-slate-800 hover:bg-slate-700"
+                    style={{ color: convergenceMetric === 'VALIDATION' ? VALIDATION_COLOR : '#00f3ff' }}
+                 >
+                     {convergenceMetric === 'VALIDATION' ? 'VAL' : 'TRAIN'}
+                 </button>
+                 <button
+                    onClick={cyclePatience}
+                    title="Early stopping: epochs without a new best loss before training stops"
+                    className="flex-1 py-1 text-[10px] font-bold font-mono rounded border border-white/10 bg-slate-800 hover:bg-slate-700 text-slate-300"
+                 >
+                     {patience ? `P ${patience}` : 'NO ES'}
+                 </button>
+             </div>
+         </div>
+
+         <div className="w-px h-10 bg-white/10" />
+
+         <button
+            onClick={() => setShowCode(v => !v)}
+            title="Show this setup as PyTorch, Keras or TypeScript"
+            className={`h-12 px-3 rounded-xl flex items-center gap-2 text-[10px] font-bold font-mono ${showCode ? 'bg-blue-600 text-white' : 'bg-slate-800 text-slate-400 hover:text-white'}`}
+         >
+             <Code size={18}/> CODE
+         </button>
+         <button
+            onClick={() => setShowGradCheck(v => !v)}
+            title="Check backprop against finite differences"
+            className={`h-12 px-3 rounded-xl flex items-center gap-2 text-[10px] font-bold font-mono ${showGradCheck ? 'bg-blue-600 text-white' : 'bg-slate-800 text-slate-400 hover:text-white'}`}
+         >
+             <Stethoscope size={18}/> GRAD
+         </button>
+         <button
+            onClick={() => setShowInit(v => !v)}
+            title="Weight initialization and per-layer activation statistics"
+            className={`h-12 px-3 rounded-xl flex items-center gap-2 text-[10px] font-bold font-mono ${showInit ? 'bg-blue-600 text-white' : 'bg-slate-800 text-slate-400 hover:text-white'}`}
+         >
+             <BarChart3 size={18}/> INIT
+         </button>
+         <button
+            onClick={() => setShowActivations(v => !v)}
+            title="Define activation functions from a math expression"
+            className={`h-12 px-3 rounded-xl flex items-center gap-2 text-[10px] font-bold font-mono ${showActivations ? 'bg-blue-600 text-white' : 'bg-slate-800 text-slate-400 hover:text-white'}`}
+         >
+             <Sigma size={18}/> f(x)
+         </button>
+         <button
+            onClick={() => setShowGradNorms(v => !v)}
+            title={hasGradientWarning ? 'Gradients are exploding or vanishing: show the per-layer norms' : 'Per-layer gradient norms over time'}
+            className={`h-12 px-3 rounded-xl flex items-center gap-2 text-[10px] font-bold font-mono ${showGradNorms ? 'bg-blue-600 text-white' : 'bg-slate-800 text-slate-400 hover:text-white'}`}
+            style={hasGradientWarning && !showGradNorms ? { color: GRADIENT_CONDITION_COLORS.EXPLODING } : undefined}
+         >
+             <Gauge size={18}/> NORMS
+         </button>
       </div>
       
+      {/* Training Timeline */}
+      <TimelineScrubber
+          frames={timelineRef.current.frames}
+          index={timelineView}
+          liveEpoch={epochs}
+          isReplaying={isReplaying}
+          bytes={timelineRef.current.bytes}
+          interval={timelineRef.current.interval}
+          onSeek={seekTimeline}
+          onToggleReplay={toggleReplay}
+          onBranch={branchFromFrame}
+      />
+
       {/* Visualization Canvas */}
       <div className="flex-1 bg-slate-950 rounded-xl border border-white/10 relative shadow-inner overflow-hidden">
          {isOptimized && (
@@ -841,7 +2095,11 @@ export const NetworkGame: React.FC<NetworkGameProps> = ({ onUpdateContext }) =>
                     
                     <div className="text-center">
                         <h2 className="text-2xl font-bold text-white font-mono tracking-wider">OPTIMIZATION COMPLETE</h2>
-                        <p className="text-slate-400 text-sm mt-2">Target loss threshold reached.</p>
+                        <p className="text-slate-400 text-sm mt-2">
+                            {stopReason === 'PATIENCE'
+                                ? `Early stop: no new best ${convergenceMetric === 'VALIDATION' && hasValidation ? 'validation' : 'training'} loss for ${patience} epochs.`
+                                : 'Target loss threshold reached.'}
+                        </p>
                     </div>
 
                     <div className="grid grid-cols-2 gap-4 w-full">
@@ -863,6 +2121,14 @@ export const NetworkGame: React.FC<NetworkGameProps> = ({ onUpdateContext }) =>
                         </div>
                     </div>
 
+                    {best && best.epoch !== epochs && (
+                        <button
+                            onClick={restoreBestWeights}
+                            className="w-full py-3 bg-slate-800 text-white font-bold rounded-xl border border-white/10 hover:bg-slate-700 transition-colors flex items-center justify-center gap-2"
+                        >
+                            <History size={16}/> RESTORE BEST WEIGHTS (EPOCH {best.epoch})
+                        </button>
+                    )}
                     <button 
                         onClick={() => setIsOptimized(false)}
                         className="w-full py-3 bg-neon-green text-black font-bold rounded-xl hover:bg-white transition-colors flex items-center justify-center gap-2"
@@ -872,9 +2138,21 @@ export const NetworkGame: React.FC<NetworkGameProps> = ({ onUpdateContext }) =>
                 </div>
             </div>
          )}
+         {viewMode === 'MATRIX' && (
+             <WeightMatrixView
+                layerSizes={shownStats.layerSizes}
+                layerSpecs={layerSpecs}
+                shapes={shapes}
+                weights={shownStats.weights}
+                deltas={shownStats.deltas}
+                biases={shownStats.biases}
+                mode={matrixMode}
+                onModeChange={setMatrixMode}
+             />
+         )}
          <svg 
             ref={svgRef}
-            className="w-full h-full cursor-move"
+            className={`w-full h-full cursor-move ${viewMode === 'MATRIX' ? 'hidden' : ''}`}
             onMouseDown={handleMouseDownCanvas} 
             onWheel={handleWheel}
             onContextMenu={(e) => e.preventDefault()}
@@ -886,12 +2164,41 @@ export const NetworkGame: React.FC<NetworkGameProps> = ({ onUpdateContext }) =>
              </defs>
              {renderItems.map((item) => {
                  if (item.type === 'LINK') {
-                     const { key, fromPos, toPos, w, delta, lIdx } = item;
+                     const { key, fromPos, toPos, w, delta, flow, maxFlow, lIdx } = item;
                      const opacity = Math.min(1, Math.abs(w));
                      const isUpdating = direction === 'UPDATING' && Math.abs(delta) > 0.001;
                      const isActive = (direction === 'FORWARD' && activeLayer === lIdx) || (direction === 'BACKWARD' && activeLayer === lIdx+1);
                      const color = w > 0 ? '#00f3ff' : '#ff0055';
+                     const gradStatus = gradHighlights.get(key);
                      
+                     if (gradStatus) {
+                         return (
+                             <line
+                                key={key} x1={fromPos.x} y1={fromPos.y} x2={toPos.x} y2={toPos.y}
+                                stroke={GRADIENT_STATUS_COLORS[gradStatus]}
+                                strokeWidth={viewSettings.animWidth * item.fromPos.scale}
+                                strokeOpacity={0.9}
+                             />
+                         );
+                     }
+
+                     // Backward: the error flowing back to the source neuron, by sign and relative size
+                     if (isActive && direction === 'BACKWARD') {
+                         const strength = maxFlow > 0 ? Math.abs(flow) / maxFlow : 0;
+                         return (
+                             <line
+                                key={key} x1={toPos.x} y1={toPos.y} x2={fromPos.x} y2={fromPos.y}
+                                stroke={errorColor(flow)}
+                                strokeWidth={Math.max(0.5, strength * viewSettings.animWidth * 1.5) * item.fromPos.scale}
+                                strokeOpacity={0.3 + 0.6 * strength}
+                                strokeDasharray="10, 10"
+                                className="anim-flow"
+                             >
+                                 <title>{`w · δ = ${formatError(flow)}`}</title>
+                             </line>
+                         );
+                     }
+
                      const strokeColor = isActive ? (direction==='FORWARD'?'#00ff00':'#ff0000') : isUpdating ? '#ffff00' : color;
                      const strokeWidth = (isActive || isUpdating ? viewSettings.animWidth : Math.max(0.5, Math.abs(w)*3)) * item.fromPos.scale;
 
@@ -906,8 +2213,29 @@ export const NetworkGame: React.FC<NetworkGameProps> = ({ onUpdateContext }) =>
                             filter={isActive || isUpdating ? "url(#glow-line)" : ""}
                          />
                      );
+                 } else if (item.type === 'SKIP') {
+                     // The source's activation is added to the target's pre-activation; its error flows back unchanged
+                     const { key, fromPos, toPos, control, flow, from, to } = item;
+                     const isActive = (direction === 'FORWARD' && activeLayer === to - 1) || (direction === 'BACKWARD' && activeLayer === to);
+                     const isBackward = isActive && direction === 'BACKWARD';
+                     return (
+                         <path
+                            key={key}
+                            d={isBackward
+                                ? `M ${toPos.x} ${toPos.y} Q ${control.x} ${control.y} ${fromPos.x} ${fromPos.y}`
+                                : `M ${fromPos.x} ${fromPos.y} Q ${control.x} ${control.y} ${toPos.x} ${toPos.y}`}
+                            fill="none"
+                            stroke={isBackward ? errorColor(flow) : isActive ? '#00ff00' : '#c084fc'}
+                            strokeWidth={(isActive ? viewSettings.animWidth : 1.5) * fromPos.scale}
+                            strokeOpacity={isActive ? 0.9 : 0.45}
+                            strokeDasharray={isActive ? "10, 10" : "4, 6"}
+                            className={isActive ? "anim-flow" : ""}
+                         >
+                             <title>{isBackward ? `skip L${from} → L${to}: δ = ${formatError(flow)}` : `skip L${from} → L${to} (added before the activation)`}</title>
+                         </path>
+                     );
                  } else if (item.type === 'NODE') {
-                     const { key, pos, value, isInput, isOutput, lIdx, flatIdx, bias } = item;
+                     const { key, pos, value, isInput, isOutput, lIdx, flatIdx, bias, hasBias, error, dropped, health } = item;
                      const isActive = isActiveLayer(lIdx);
                      const baseR = isActive ? viewSettings.nodeSize * 1.3 : viewSettings.nodeSize;
                      const r = baseR * pos.scale;
@@ -928,15 +2256,61 @@ export const NetworkGame: React.FC<NetworkGameProps> = ({ onUpdateContext }) =>
                      const topFOY = pos.y - r - topFOHeight - (5 * pos.scale); // Position above node with buffer
                      const topFOX = pos.x - (topFOWidth / 2);
 
+                     const isInspected = inspected?.layer === lIdx && inspected.neuron === flatIdx;
+
                      return (
                          <g key={key}>
-                             <circle cx={pos.x} cy={pos.y} r={r} 
-                                fill={isActive ? (direction==='FORWARD'?'#00ff00':'#ff0000') : '#00f3ff'} 
-                                fillOpacity={Math.min(1, Math.max(0, fillOpacity))} 
-                                stroke={isActive ? (direction==='FORWARD'?'#00ff00':'#ff0000') : '#00f3ff'}
-                                strokeWidth={2 * pos.scale}
-                                filter={isActive ? `url(#glow-${direction==='FORWARD'?'green':'red'})` : ''}
-                             />
+                             {/* Open in the neuron inspector */}
+                             {isInspected && (
+                                 <circle cx={pos.x} cy={pos.y} r={r + 10 * pos.scale}
+                                    fill="none" stroke="white" strokeWidth={1.5 * pos.scale}
+                                    strokeDasharray={`${2 * pos.scale}, ${2 * pos.scale}`}
+                                 />
+                             )}
+                             <g
+                                onMouseDown={isInput ? undefined : (e) => e.stopPropagation()}
+                                onClick={isInput ? undefined : () => setInspected({ layer: lIdx, neuron: flatIdx })}
+                                className={isInput ? undefined : 'cursor-pointer'}
+                             >
+                                 {dropped ? (
+                                     // Dropped out of this training pass
+                                     <circle cx={pos.x} cy={pos.y} r={r}
+                                        fill="#475569" fillOpacity={0.2}
+                                        stroke="#64748b" strokeWidth={2 * pos.scale}
+                                        strokeDasharray={`${4 * pos.scale}, ${3 * pos.scale}`}
+                                     />
+                                 ) : (
+                                     <circle cx={pos.x} cy={pos.y} r={r} 
+                                        fill={isActive ? (direction==='FORWARD'?'#00ff00':'#ff0000') : '#00f3ff'} 
+                                        fillOpacity={Math.min(1, Math.max(0, fillOpacity))} 
+                                        stroke={isActive ? (direction==='FORWARD'?'#00ff00':'#ff0000') : '#00f3ff'}
+                                        strokeWidth={2 * pos.scale}
+                                        filter={isActive ? `url(#glow-${direction==='FORWARD'?'green':'red'})` : ''}
+                                     />
+                                 )}
+                             </g>
+
+                             {/* Dead (ReLU stuck at 0) or saturated for most recent samples */}
+                             {health && (
+                                 <circle cx={pos.x} cy={pos.y} r={r + 7 * pos.scale}
+                                    fill="none"
+                                    stroke={HEALTH_COLORS[health as NeuronCondition]}
+                                    strokeWidth={2.5 * pos.scale}
+                                    strokeOpacity={0.9}
+                                 >
+                                     <title>{health === 'DEAD' ? 'Dead: outputs 0 for most recent samples' : 'Saturated: stuck on a flat tail of its activation'}</title>
+                                 </circle>
+                             )}
+
+                             {/* Gradient Check: this node's bias is among the worst parameters */}
+                             {gradHighlights.has(key) && (
+                                 <circle cx={pos.x} cy={pos.y} r={r + 4 * pos.scale}
+                                    fill="none"
+                                    stroke={GRADIENT_STATUS_COLORS[gradHighlights.get(key)!]}
+                                    strokeWidth={2 * pos.scale}
+                                    strokeDasharray={`${3 * pos.scale}, ${3 * pos.scale}`}
+                                 />
+                             )}
                              
                              {/* Node Value (Activation) - Bottom of Node */}
                              {pos.scale > 0.4 && viewSettings.textSize > 0 && (
@@ -952,9 +2326,23 @@ export const NetworkGame: React.FC<NetworkGameProps> = ({ onUpdateContext }) =>
                                      {value.toFixed(2)}
                                  </text>
                              )}
+
+                             {/* Error term, once the backward walk has reached this layer */}
+                             {isErrorShown(lIdx) && pos.scale > 0.4 && viewSettings.textSize > 0 && (
+                                 <text
+                                    x={pos.x + r + 4 * pos.scale}
+                                    y={pos.y + fontSize * 0.35}
+                                    fill={errorColor(error)}
+                                    fontSize={fontSize * 0.8}
+                                    className="font-mono font-bold pointer-events-none"
+                                    style={{ textShadow: '0px 1px 4px rgba(0,0,0,0.8)' }}
+                                 >
+                                     δ{formatError(error)}
+                                 </text>
+                             )}
                              
                              {/* Bias Value Text - Below Activation */}
-                             {!isInput && !isOutput && pos.scale > 0.4 && viewSettings.textSize > 0 && (
+                             {!isInput && !isOutput && hasBias && pos.scale > 0.4 && viewSettings.textSize > 0 && (
                                  <text 
                                     x={pos.x} 
                                     y={biasTextY} 
@@ -968,8 +2356,8 @@ export const NetworkGame: React.FC<NetworkGameProps> = ({ onUpdateContext }) =>
                                  </text>
                              )}
 
-                             {/* Interactive Inputs/Targets - ABOVE Node */}
-                             {(isInput || isOutput) && sSize > 0 && (
+                             {/* Interactive Inputs/Targets - ABOVE Node (targets come from the dataset when one is active) */}
+                             {((isInput && !isImageInput) || (isOutput && !datasetActive)) && sSize > 0 && (
                                  <foreignObject 
                                      x={topFOX} 
                                      y={topFOY} 
@@ -981,7 +2369,7 @@ export const NetworkGame: React.FC<NetworkGameProps> = ({ onUpdateContext }) =>
                                  >
                                      <div className="flex flex-col items-center justify-center rounded h-full" onMouseDown={(e) => e.stopPropagation()}>
                                          <input 
-                                            type="range" min="0" max="1" step="0.1" 
+                                            type="range" min={isInput && datasetActive ? -1 : 0} max="1" step="0.1" 
                                             value={isInput ? (inputs[flatIdx]||0) : (target[flatIdx]||0)}
                                             onChange={(e) => {
                                                 const val = Number(e.target.value);
@@ -999,7 +2387,7 @@ export const NetworkGame: React.FC<NetworkGameProps> = ({ onUpdateContext }) =>
                              )}
 
                              {/* Bias Slider - BELOW Text */}
-                             {!isInput && !isOutput && pos.scale > 0.5 && sSize > 0 && (
+                             {!isInput && !isOutput && hasBias && pos.scale > 0.5 && sSize > 0 && (
                                   <foreignObject 
                                     x={pos.x - (30 * pos.scale * sSize)} 
                                     y={biasSliderY} 
@@ -1020,46 +2408,118 @@ export const NetworkGame: React.FC<NetworkGameProps> = ({ onUpdateContext }) =>
                      );
                  } else if (item.type === 'LAYER_CONTROL') {
                      const { key, pos, lIdx } = item;
+                     const isHidden = lIdx > 0 && lIdx < layerDims.length - 1;
+                     const spec = layerSpecs[lIdx];
+                     // Conv and pool grids follow from their input, so only dense layers resize by hand
+                     const isDerived = spec.kind !== 'DENSE';
+                     const skipFrom = skips.find(skip => skip.to === lIdx)?.from;
+                     const canSkip = lIdx > 0 && (skipFrom !== undefined || skipSources(layerDims.map(d => d.rows * d.cols), lIdx).length > 0);
+                     const paramButton = (param: LayerParamKey, label: string, title: string) => (
+                         <button key={param} onClick={() => cycleLayerParam(lIdx, param)} title={title} className="px-1 h-4 rounded text-[8px] font-mono bg-slate-700 text-slate-300 hover:bg-blue-600">{label}</button>
+                     );
                      return (
-                         <foreignObject key={key} x={pos.x - 50} y={pos.y} width={100} height={50} style={{transform: `scale(${pos.scale})`, transformOrigin: `${pos.x}px ${pos.y}px`}}>
+                         <foreignObject key={key} x={pos.x - 50} y={pos.y} width={100} height={(isHidden ? (isDerived ? 110 : 90) : 50) + (canSkip ? 20 : 0)} style={{transform: `scale(${pos.scale})`, transformOrigin: `${pos.x}px ${pos.y}px`}}>
                              <div className="flex flex-col gap-1 items-center bg-black/50 backdrop-blur rounded p-1 border border-white/10" onMouseDown={(e) => e.stopPropagation()}>
                                  <div className="flex gap-1">
                                      <span className="text-[8px] font-mono text-slate-400 w-4">ROW</span>
-                                     <button onClick={() => modifyLayer(lIdx, 'rows', 1)} className="w-4 h-4 bg-slate-700 text-[8px] hover:bg-blue-600 rounded">+</button>
-                                     <button onClick={() => modifyLayer(lIdx, 'rows', -1)} className="w-4 h-4 bg-slate-700 text-[8px] hover:bg-red-600 rounded">-</button>
+                                     <button onClick={() => modifyLayer(lIdx, 'rows', 1)} disabled={isDerived} className="w-4 h-4 bg-slate-700 text-[8px] hover:bg-blue-600 rounded disabled:opacity-30 disabled:hover:bg-slate-700">+</button>
+                                     <button onClick={() => modifyLayer(lIdx, 'rows', -1)} disabled={isDerived} className="w-4 h-4 bg-slate-700 text-[8px] hover:bg-red-600 rounded disabled:opacity-30 disabled:hover:bg-slate-700">-</button>
                                  </div>
                                  <div className="flex gap-1">
                                      <span className="text-[8px] font-mono text-slate-400 w-4">COL</span>
-                                     <button onClick={() => modifyLayer(lIdx, 'cols', 1)} className="w-4 h-4 bg-slate-700 text-[8px] hover:bg-blue-600 rounded">+</button>
-                                     <button onClick={() => modifyLayer(lIdx, 'cols', -1)} className="w-4 h-4 bg-slate-700 text-[8px] hover:bg-red-600 rounded">-</button>
+                                     <button onClick={() => modifyLayer(lIdx, 'cols', 1)} disabled={isDerived} className="w-4 h-4 bg-slate-700 text-[8px] hover:bg-blue-600 rounded disabled:opacity-30 disabled:hover:bg-slate-700">+</button>
+                                     <button onClick={() => modifyLayer(lIdx, 'cols', -1)} disabled={isDerived} className="w-4 h-4 bg-slate-700 text-[8px] hover:bg-red-600 rounded disabled:opacity-30 disabled:hover:bg-slate-700">-</button>
                                  </div>
+                                 {isHidden && (
+                                     <button
+                                        onClick={() => cycleLayerKind(lIdx)}
+                                        title="Layer kind: dense, convolution or pooling over the previous layer's grid"
+                                        className={`px-1 h-4 rounded text-[8px] font-mono font-bold ${isDerived ? 'bg-teal-700 text-white' : 'bg-slate-700 text-slate-400'} hover:bg-blue-600`}
+                                     >
+                                         {spec.kind}
+                                     </button>
+                                 )}
+                                 {spec.kind === 'CONV' && (
+                                     <div className="flex gap-0.5">
+                                         {paramButton('kernel', `K${spec.kernel}`, 'Kernel size')}
+                                         {paramButton('stride', `S${spec.stride}`, 'Stride')}
+                                         {paramButton('padding', `P${spec.padding}`, 'Zero padding')}
+                                         {paramButton('channels', `C${spec.channels}`, 'Output channels (filters), laid out side by side')}
+                                     </div>
+                                 )}
+                                 {spec.kind === 'POOL' && (
+                                     <div className="flex gap-0.5">
+                                         {paramButton('size', `${spec.size}x${spec.size}`, 'Pooling window')}
+                                         {paramButton('stride', `S${spec.stride}`, 'Stride')}
+                                         {paramButton('mode', spec.mode, 'Max or average pooling')}
+                                     </div>
+                                 )}
+                                 {isHidden && (
+                                     <button
+                                        onClick={() => cycleDropout(lIdx)}
+                                        title="Dropout rate (training passes only)"
+                                        className={`px-1 h-4 rounded text-[8px] font-mono ${layerDropout[lIdx] ? 'bg-slate-600 text-white' : 'bg-slate-700 text-slate-400'} hover:bg-blue-600`}
+                                     >
+                                         DROP {Math.round((layerDropout[lIdx] ?? 0) * 100)}%
+                                     </button>
+                                 )}
+                                 {canSkip && (
+                                     <button
+                                        onClick={() => cycleSkip(lIdx)}
+                                        title="Residual connection: add an earlier layer of the same size to this layer's pre-activation"
+                                        className={`px-1 h-4 rounded text-[8px] font-mono ${skipFrom !== undefined ? 'bg-purple-700 text-white' : 'bg-slate-700 text-slate-400'} hover:bg-blue-600`}
+                                     >
+                                         {skipFrom !== undefined ? `SKIP ← L${skipFrom}` : 'NO SKIP'}
+                                     </button>
+                                 )}
                              </div>
                          </foreignObject>
                      );
                  } else if (item.type === 'ACTIVATION_CONTROL') {
-                    const { key, pos, lIdx } = item;
+                    const { key, pos, lIdx, isOutput, errorRms } = item;
                     const actKey = layerActivations[lIdx];
-                    const actDef = ACTIVATION_FUNCTIONS[actKey];
+                    const actDef = activationDef(actKey);
                     
                     // Calculate average pre-activation for visual dot
-                    const layerStartIdx = displayStats.values.slice(0, lIdx).reduce((acc, val) => acc + val.length, 0);
-                    const layerPreActs = displayStats.preActivations[lIdx] || [];
+                    const layerStartIdx = shownStats.values.slice(0, lIdx).reduce((acc, val) => acc + val.length, 0);
+                    const layerPreActs = shownStats.preActivations[lIdx] || [];
                     const avgPreAct = layerPreActs.length > 0 
                         ? layerPreActs.reduce((a, b) => a + b, 0) / layerPreActs.length
                         : 0;
 
                     const visual = getActivationVisual(actKey, avgPreAct, 40, 20);
 
+                    const lossDef = LOSS_FUNCTIONS[lossKey];
+
                     return (
-                        <g key={key} transform={`translate(${pos.x}, ${pos.y}) scale(${pos.scale})`} className="cursor-pointer hover:opacity-80" onClick={() => cycleActivation(lIdx)} onMouseDown={(e) => e.stopPropagation()}>
-                            <rect x="-30" y="-20" width="60" height="40" rx="8" fill="#1e293b" stroke={actDef.color} strokeWidth="1.5" fillOpacity="0.9" />
-                            <text x="0" y="-8" textAnchor="middle" fill={actDef.color} fontSize="8" fontWeight="bold" fontFamily="monospace">{actDef.name}</text>
-                            
-                            {/* Mini Graph */}
-                            <g transform="translate(-20, 0)">
-                                <path d={visual.pathD} fill="none" stroke={actDef.color} strokeWidth="1.5" />
-                                <circle cx={visual.dotX} cy={visual.dotY} r="2" fill="white" className="animate-pulse" />
+                        <g key={key} transform={`translate(${pos.x}, ${pos.y}) scale(${pos.scale})`} onMouseDown={(e) => e.stopPropagation()}>
+                            <g transform={`translate(${isOutput ? -32 : 0}, 0)`} className="cursor-pointer hover:opacity-80" onClick={() => cycleActivation(lIdx)}>
+                                <rect x="-30" y="-20" width="60" height="40" rx="8" fill="#1e293b" stroke={actDef.color} strokeWidth="1.5" fillOpacity="0.9" />
+                                <text x="0" y="-8" textAnchor="middle" fill={actDef.color} fontSize="8" fontWeight="bold" fontFamily="monospace">{actDef.name.length > 10 ? `${actDef.name.slice(0, 9)}…` : actDef.name}</text>
+                                <title>{actDef.name}</title>
+                                
+                                {/* Mini Graph */}
+                                <g transform="translate(-20, 0)">
+                                    <path d={visual.pathD} fill="none" stroke={actDef.color} strokeWidth="1.5" />
+                                    <circle cx={visual.dotX} cy={visual.dotY} r="2" fill="white" className="animate-pulse" />
+                                </g>
                             </g>
+
+                            {/* Loss Badge (Output Layer Only) */}
+                            {isOutput && (
+                                <g transform="translate(32, 0)" className="cursor-pointer hover:opacity-80" onClick={cycleLoss}>
+                                    <rect x="-30" y="-20" width="60" height="40" rx="8" fill="#1e293b" stroke={lossDef.color} strokeWidth="1.5" fillOpacity="0.9" />
+                                    <text x="0" y="-8" textAnchor="middle" fill="#94a3b8" fontSize="6" fontFamily="monospace">LOSS</text>
+                                    <text x="0" y="6" textAnchor="middle" fill={lossDef.color} fontSize="10" fontWeight="bold" fontFamily="monospace">{lossDef.short}</text>
+                                </g>
+                            )}
+
+                            {/* Layer-wide error size: shrinking towards the input is a vanishing gradient, growing an exploding one */}
+                            {isErrorShown(lIdx) && (
+                                <text x="0" y="-26" textAnchor="middle" fill="#cbd5e1" fontSize="7" fontFamily="monospace">
+                                    RMS δ {formatError(errorRms)}
+                                </text>
+                            )}
                         </g>
                     );
                  }
@@ -1070,6 +2530,11 @@ export const NetworkGame: React.FC<NetworkGameProps> = ({ onUpdateContext }) =>
     </div>
   );
 
+  // Error terms show from the output back to the layer the backward walk has reached
+  function isErrorShown(lIdx: number) {
+      return direction === 'BACKWARD' && lIdx > 0 && lIdx >= activeLayer;
+  }
+
   function isActiveLayer(lIdx: number) {
       if (direction === 'FORWARD' && activeLayer === lIdx) return true;
       if (direction === 'BACKWARD' && activeLayer === lIdx) return true;
@@ -0,0 +1,125 @@
+import React, { useMemo, useState } from 'react';
+import { GripHorizontal, Plus, Trash2, X } from 'lucide-react';
+import { ActivationKey, CustomActivationKey, EXPRESSION_FUNCTIONS, activationDef, customActivationFormula, defineActivation } from '../../engine';
+
+interface ActivationPanelProps {
+  customs: CustomActivationKey[]; // Defined so far, in the order the layer buttons cycle through them
+  inUse: ActivationKey[]; // The layers' activations; those can't be removed
+  curve: (key: ActivationKey, width: number, height: number) => { pathD: string };
+  onAdd: (key: CustomActivationKey) => void;
+  onRemove: (key: CustomActivationKey) => void;
+  pos: { x: number, y: number };
+  onStartDrag: (e: React.MouseEvent) => void;
+  onClose: () => void;
+}
+
+const PRESETS: [string, string][] = [
+  ['Swish', 'x * sigmoid(x)'],
+  ['GELU', 'x * sigmoid(1.702 * x)'],
+  ['Mish', 'x * tanh(softplus(x))'],
+  ['Softsign', 'x / (1 + abs(x))']
+];
+
+const PREVIEW_WIDTH = 160;
+const PREVIEW_HEIGHT = 60;
+
+export const ActivationPanel: React.FC<ActivationPanelProps> = ({ customs, inUse, curve, onAdd, onRemove, pos, onStartDrag, onClose }) => {
+  const [text, setText] = useState('x * sigmoid(x)');
+
+  // Parsed on every keystroke: either the new key with its formula, or why it can't be used
+  const candidate = useMemo(() => {
+    try {
+      const { key } = defineActivation(text);
+      return { key, ...customActivationFormula(key), error: null };
+    } catch (e) {
+      return { key: null, error: (e as Error).message };
+    }
+  }, [text]);
+  const isNew = candidate.key !== null && !customs.includes(candidate.key);
+  const add = () => { if (candidate.key && isNew) onAdd(candidate.key); };
+
+  return (
+    <div
+      style={{ left: pos.x, top: pos.y }}
+      onMouseDown={onStartDrag}
+      className="absolute z-20 w-72 bg-panel-bg/90 backdrop-blur border border-white/10 rounded-xl p-2 shadow-xl cursor-auto"
+    >
+      <div className="flex justify-between items-center px-2 mb-2 cursor-move" title="Drag to move">
+        <div className="flex items-center gap-2">
+          <GripHorizontal size={14} className="text-slate-500"/>
+          <span className="text-[10px] font-bold text-slate-400">CUSTOM ACTIVATIONS</span>
+        </div>
+        <button onMouseDown={e => e.stopPropagation()} onClick={onClose} title="Close" className="p-1 text-slate-400 hover:text-white"><X size={14}/></button>
+      </div>
+
+      <div onMouseDown={e => e.stopPropagation()} className="flex flex-col gap-2 px-2 pb-1 text-[10px] font-mono">
+        <div className="flex gap-1">
+          <span className="text-slate-500 self-center">f(x) =</span>
+          <input
+            value={text}
+            onChange={e => setText(e.target.value)}
+            onKeyDown={e => { if (e.key === 'Enter') add(); }}
+            spellCheck={false}
+            className={`flex-1 min-w-0 bg-slate-900 border rounded px-1.5 py-0.5 text-white outline-none ${candidate.error ? 'border-red-500/60' : 'border-white/10 focus:border-cyan-400/60'}`}
+          />
+          <button
+            onClick={add}
+            disabled={!isNew}
+            title={candidate.key && !isNew ? 'Already defined' : 'Add to the activations each layer button cycles through'}
+            className="px-1.5 rounded border border-white/10 bg-slate-800 text-slate-300 hover:text-white disabled:opacity-40 disabled:hover:text-slate-300"
+          >
+            <Plus size={12}/>
+          </button>
+        </div>
+
+        <div className="flex flex-wrap gap-1">
+          {PRESETS.map(([name, expression]) => (
+            <button key={name} onClick={() => setText(expression)} title={expression} className="px-1.5 py-0.5 rounded bg-slate-800 text-slate-400 hover:text-white">{name}</button>
+          ))}
+        </div>
+
+        {candidate.key ? (
+          <div className="flex gap-2 items-center">
+            <svg width={PREVIEW_WIDTH / 2} height={PREVIEW_HEIGHT / 2} viewBox={`0 0 ${PREVIEW_WIDTH} ${PREVIEW_HEIGHT}`} className="shrink-0 bg-slate-950 rounded border border-white/5">
+              <line x1={PREVIEW_WIDTH / 2} y1={0} x2={PREVIEW_WIDTH / 2} y2={PREVIEW_HEIGHT} stroke="#334155" strokeDasharray="3,3"/>
+              <path d={curve(candidate.key, PREVIEW_WIDTH, PREVIEW_HEIGHT).pathD} fill="none" stroke={activationDef(candidate.key).color} strokeWidth="3"/>
+            </svg>
+            <div className="flex flex-col gap-0.5 min-w-0 text-slate-300">
+              <span className="truncate" title={candidate.expression}>f(x) = {candidate.expression}</span>
+              <span className="truncate text-slate-500" title={candidate.derivative}>f'(x) = {candidate.derivative}</span>
+            </div>
+          </div>
+        ) : (
+          <div className="text-red-300">{candidate.error}</div>
+        )}
+
+        <div className="text-slate-500 leading-snug">
+          Functions: {EXPRESSION_FUNCTIONS.join(', ')}. Constants e and pi; operators + - * / ^.
+        </div>
+
+        {customs.length > 0 && (
+          <div className="flex flex-col gap-0.5 border-t border-white/10 pt-1">
+            {customs.map(key => {
+              const def = activationDef(key);
+              const used = inUse.includes(key);
+              return (
+                <div key={key} className="flex items-center gap-1.5">
+                  <span className="w-2 h-2 rounded-full shrink-0" style={{ backgroundColor: def.color }}/>
+                  <span className="flex-1 truncate text-slate-300" title={def.name}>{def.name}</span>
+                  <button
+                    onClick={() => onRemove(key)}
+                    disabled={used}
+                    title={used ? 'In use by a layer' : 'Remove'}
+                    className="p-0.5 text-slate-500 hover:text-white disabled:opacity-30 disabled:hover:text-slate-500"
+                  >
+                    <Trash2 size={12}/>
+                  </button>
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,74 @@
+import React, { useMemo, useState } from 'react';
+import { Check, Copy, Download, GripHorizontal, X } from 'lucide-react';
+import { CODE_GENERATORS, CODE_LANGUAGES, CodeLanguage, CodeSpec } from '../../engine';
+
+interface CodePanelProps {
+  spec: CodeSpec;
+  pos: { x: number, y: number };
+  onStartDrag: (e: React.MouseEvent) => void;
+  onClose: () => void;
+}
+
+export const CodePanel: React.FC<CodePanelProps> = ({ spec, pos, onStartDrag, onClose }) => {
+  const [language, setLanguage] = useState<CodeLanguage>('PYTORCH');
+  const [copied, setCopied] = useState(false);
+  const generator = CODE_GENERATORS[language];
+  // Setups a generator can't express (e.g. conv layers) show its error instead
+  const { code, error } = useMemo(() => {
+    try {
+      return { code: generator.generate(spec), error: null };
+    } catch (e) {
+      return { code: '', error: (e as Error).message };
+    }
+  }, [generator, spec]);
+
+  const copy = async () => {
+    await navigator.clipboard.writeText(code);
+    setCopied(true);
+    setTimeout(() => setCopied(false), 1200);
+  };
+
+  const download = () => {
+    const url = URL.createObjectURL(new Blob([code], { type: 'text/plain' }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = generator.fileName;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  return (
+    <div
+      style={{ left: pos.x, top: pos.y }}
+      onMouseDown={onStartDrag}
+      className="absolute z-20 w-[30rem] bg-panel-bg/90 backdrop-blur border border-white/10 rounded-xl p-2 shadow-xl cursor-auto"
+    >
+      <div className="flex justify-between items-center px-2 mb-2 cursor-move" title="Drag to move">
+        <div className="flex items-center gap-2">
+          <GripHorizontal size={14} className="text-slate-500"/>
+          <span className="text-[10px] font-bold text-slate-400">CODE</span>
+        </div>
+        <div onMouseDown={e => e.stopPropagation()} className="flex items-center gap-1">
+          {CODE_LANGUAGES.map(key => (
+            <button
+              key={key}
+              onClick={() => setLanguage(key)}
+              className={`px-2 py-0.5 rounded text-[10px] font-bold font-mono border ${key === language ? 'bg-blue-600 border-blue-400 text-white' : 'bg-slate-800 border-white/10 text-slate-400 hover:text-white'}`}
+            >
+              {CODE_GENERATORS[key].name}
+            </button>
+          ))}
+          <button onClick={copy} disabled={!!error} title="Copy" className="ml-2 p-1 text-slate-400 hover:text-white disabled:opacity-30">{copied ? <Check size={14}/> : <Copy size={14}/>}</button>
+          <button onClick={download} disabled={!!error} title={`Download ${generator.fileName}`} className="p-1 text-slate-400 hover:text-white disabled:opacity-30"><Download size={14}/></button>
+          <button onClick={onClose} title="Close" className="p-1 text-slate-400 hover:text-white"><X size={14}/></button>
+        </div>
+      </div>
+      <pre
+        onMouseDown={e => e.stopPropagation()}
+        className="max-h-96 overflow-auto rounded border border-white/5 bg-slate-950 p-3 text-[10px] leading-relaxed font-mono text-slate-300 select-text cursor-text"
+      >
+        {error ? <span className="text-red-300">{error}</span> : code}
+      </pre>
+    </div>
+  );
+};
@@ -0,0 +1,116 @@
+import React, { useEffect, useRef } from 'react';
+import { GripHorizontal } from 'lucide-react';
+import { Sample } from '../../engine';
+
+interface DecisionBoundaryPanelProps {
+  predict: (inputs: number[]) => ArrayLike<number>;
+  samples: Sample[];
+  heldOut: Sample[]; // Validation and test points, drawn hollow
+  probe: number[];
+  version: unknown; // Changes whenever the network does (triggers a redraw)
+  pos: { x: number, y: number };
+  onStartDrag: (e: React.MouseEvent) => void;
+}
+
+const SIZE = 176;       // Canvas pixels
+const RESOLUTION = 44;  // Grid cells per axis
+const DOMAIN = 1.2;     // Input plane spans [-DOMAIN, DOMAIN] on both axes
+
+const CLASS_COLORS = [
+  [249, 115, 22],  // Class 0: orange
+  [0, 243, 255]    // Class 1: neon blue
+];
+
+// Probability of class 1: the single sigmoid output, or the second neuron of a two-class output
+const positiveScore = (outputs: ArrayLike<number>) => {
+  const raw = outputs.length === 1 ? outputs[0] : (outputs[1] ?? 0);
+  return isFinite(raw) ? Math.max(0, Math.min(1, raw)) : 0.5;
+};
+
+const toCanvas = (v: number) => ((v + DOMAIN) / (2 * DOMAIN)) * SIZE;
+
+export const DecisionBoundaryPanel: React.FC<DecisionBoundaryPanelProps> = ({ predict, samples, heldOut, probe, version, pos, onStartDrag }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+
+  useEffect(() => {
+    const ctx = canvasRef.current?.getContext('2d');
+    if (!ctx) return;
+
+    // 1. Heatmap: evaluate the network over the input plane
+    ctx.clearRect(0, 0, SIZE, SIZE);
+    const cell = SIZE / RESOLUTION;
+    for (let gy = 0; gy < RESOLUTION; gy++) {
+      for (let gx = 0; gx < RESOLUTION; gx++) {
+        const x = -DOMAIN + (gx + 0.5) * (2 * DOMAIN / RESOLUTION);
+        const y = DOMAIN - (gy + 0.5) * (2 * DOMAIN / RESOLUTION); // Canvas y grows downward
+        const p = positiveScore(predict([x, y]));
+        const [r, g, b] = CLASS_COLORS[p >= 0.5 ? 1 : 0];
+        const confidence = Math.abs(p - 0.5) * 2;
+        ctx.fillStyle = `rgba(${r}, ${g}, ${b}, ${0.08 + confidence * 0.5})`;
+        ctx.fillRect(gx * cell, gy * cell, cell + 1, cell + 1);
+      }
+    }
+
+    // 2. Axes
+    ctx.strokeStyle = 'rgba(255, 255, 255, 0.15)';
+    ctx.lineWidth = 1;
+    ctx.beginPath();
+    ctx.moveTo(toCanvas(0), 0); ctx.lineTo(toCanvas(0), SIZE);
+    ctx.moveTo(0, toCanvas(0)); ctx.lineTo(SIZE, toCanvas(0));
+    ctx.stroke();
+
+    // 3. Training points
+    samples.forEach(sample => {
+      const [r, g, b] = CLASS_COLORS[sample.label === 1 ? 1 : 0];
+      ctx.beginPath();
+      ctx.arc(toCanvas(sample.input[0]), toCanvas(-sample.input[1]), 2.5, 0, Math.PI * 2);
+      ctx.fillStyle = `rgb(${r}, ${g}, ${b})`;
+      ctx.fill();
+      ctx.strokeStyle = 'rgba(0, 0, 0, 0.8)';
+      ctx.stroke();
+    });
+
+    // Held-out points: hollow, so it shows which points the boundary never trained on
+    heldOut.forEach(sample => {
+      const [r, g, b] = CLASS_COLORS[sample.label === 1 ? 1 : 0];
+      ctx.beginPath();
+      ctx.arc(toCanvas(sample.input[0]), toCanvas(-sample.input[1]), 2.5, 0, Math.PI * 2);
+      ctx.strokeStyle = `rgb(${r}, ${g}, ${b})`;
+      ctx.stroke();
+    });
+
+    // 4. Probe (the input sliders)
+    const px = toCanvas(probe[0] || 0);
+    const py = toCanvas(-(probe[1] || 0));
+    ctx.strokeStyle = 'white';
+    ctx.lineWidth = 1.5;
+    ctx.beginPath();
+    ctx.moveTo(px - 5, py); ctx.lineTo(px + 5, py);
+    ctx.moveTo(px, py - 5); ctx.lineTo(px, py + 5);
+    ctx.stroke();
+  // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [version, samples, heldOut, probe]);
+
+  return (
+    <div
+      style={{ left: pos.x, top: pos.y }}
+      onMouseDown={onStartDrag}
+      className="absolute z-20 bg-panel-bg/80 backdrop-blur border border-white/10 rounded-xl p-2 shadow-xl cursor-auto"
+    >
+      <div className="flex justify-between items-center px-2 mb-1 cursor-move" title="Drag to move">
+        <div className="flex items-center gap-2">
+          <GripHorizontal size={14} className="text-slate-500"/>
+          <span className="text-[10px] font-bold text-slate-400">DECISION BOUNDARY</span>
+        </div>
+      </div>
+      <div onMouseDown={e => e.stopPropagation()} className="rounded overflow-hidden border border-white/5 bg-slate-950">
+        <canvas ref={canvasRef} width={SIZE} height={SIZE} className="block" />
+      </div>
+      <div className="flex justify-between px-1 mt-1 text-[9px] font-mono text-slate-500">
+        <span style={{ color: `rgb(${CLASS_COLORS[0].join(',')})` }}>● CLASS 0</span>
+        <span>x₁ → · x₂ ↑</span>
+        <span style={{ color: `rgb(${CLASS_COLORS[1].join(',')})` }}>● CLASS 1</span>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,102 @@
+import React from 'react';
+import { GripHorizontal, Stethoscope, X } from 'lucide-react';
+import { GradientCheckResult, GradientCheckStatus, gradientCheckStatus } from '../../engine';
+
+export const GRADIENT_STATUS_COLORS: Record<GradientCheckStatus, string> = {
+  OK: '#22c55e',
+  WARN: '#eab308',
+  FAIL: '#d946ef'
+};
+
+interface GradientCheckPanelProps {
+  result: GradientCheckResult | null;
+  epoch: number; // Epoch the result was computed at
+  error: string | null;
+  disabled: boolean;
+  onRun: () => void;
+  pos: { x: number, y: number };
+  onStartDrag: (e: React.MouseEvent) => void;
+  onClose: () => void;
+}
+
+const formatError = (e: number) => e.toExponential(1);
+const formatGrad = (g: number) => g.toExponential(3);
+
+export const GradientCheckPanel: React.FC<GradientCheckPanelProps> = ({ result, epoch, error, disabled, onRun, pos, onStartDrag, onClose }) => {
+  const status = result && gradientCheckStatus(result.maxRelativeError);
+
+  return (
+    <div
+      style={{ left: pos.x, top: pos.y }}
+      onMouseDown={onStartDrag}
+      className="absolute z-20 w-80 bg-panel-bg/90 backdrop-blur border border-white/10 rounded-xl p-2 shadow-xl cursor-auto"
+    >
+      <div className="flex justify-between items-center px-2 mb-2 cursor-move" title="Drag to move">
+        <div className="flex items-center gap-2">
+          <GripHorizontal size={14} className="text-slate-500"/>
+          <span className="text-[10px] font-bold text-slate-400">GRADIENT CHECK</span>
+          {status && <span className="text-[10px] font-bold font-mono" style={{ color: GRADIENT_STATUS_COLORS[status] }}>{status}</span>}
+        </div>
+        <div onMouseDown={e => e.stopPropagation()} className="flex items-center gap-1">
+          <button
+            onClick={onRun}
+            disabled={disabled}
+            title={disabled ? 'Pause training to check gradients' : 'Compare backprop with finite differences'}
+            className="px-2 py-0.5 rounded text-[10px] font-bold font-mono border bg-slate-800 border-white/10 text-slate-300 hover:text-white disabled:opacity-30 flex items-center gap-1"
+          >
+            <Stethoscope size={12}/> RUN
+          </button>
+          <button onClick={onClose} title="Close" className="p-1 text-slate-400 hover:text-white"><X size={14}/></button>
+        </div>
+      </div>
+
+      <div onMouseDown={e => e.stopPropagation()} className="px-2 pb-1 text-[10px] font-mono text-slate-300 select-text">
+        {error && <div className="text-red-300">{error}</div>}
+        {!result && !error && (
+          <div className="text-slate-500">
+            Computes backprop gradients without applying them and compares every weight and bias
+            against central finite differences. Relative error per layer; the worst parameters are
+            highlighted on the graph.
+          </div>
+        )}
+        {result && (
+          <>
+            <div className="text-slate-500 mb-1">Epoch {epoch} · {result.samples} {result.samples === 1 ? 'sample' : 'samples'}</div>
+            <table className="w-full mb-2">
+              <thead>
+                <tr className="text-slate-500 text-left">
+                  <th className="font-normal">LAYER</th>
+                  <th className="font-normal text-right">PARAMS</th>
+                  <th className="font-normal text-right">MEAN</th>
+                  <th className="font-normal text-right">MAX</th>
+                </tr>
+              </thead>
+              <tbody>
+                {result.layers.map(l => (
+                  <tr key={l.layer}>
+                    <td>L{l.layer}→L{l.layer + 1}</td>
+                    <td className="text-right">{l.parameters}</td>
+                    <td className="text-right">{formatError(l.meanRelativeError)}</td>
+                    <td className="text-right font-bold" style={{ color: GRADIENT_STATUS_COLORS[gradientCheckStatus(l.maxRelativeError)] }}>{formatError(l.maxRelativeError)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+            <div className="text-slate-500 mb-0.5">WORST PARAMETERS · ANALYTIC / NUMERIC</div>
+            {result.worst.map(entry => (
+              <div key={`${entry.kind}-${entry.layer}-${entry.index}`} className="flex justify-between gap-2">
+                <span style={{ color: GRADIENT_STATUS_COLORS[gradientCheckStatus(entry.relativeError)] }}>
+                  {entry.to === null
+                    ? `${entry.kind === 'weight' ? 'k' : 'b'}${entry.layer + 1}[${entry.index}]`
+                    : entry.kind === 'weight' ? `w L${entry.layer}:${entry.from}→${entry.to}` : `b L${entry.layer + 1}:${entry.to}`}
+                </span>
+                <span className="text-slate-400">{formatGrad(entry.analytic)} / {formatGrad(entry.numeric)}</span>
+                <span className="font-bold">{formatError(entry.relativeError)}</span>
+              </div>
+            ))}
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,95 @@
+import React, { useMemo } from 'react';
+import { GripHorizontal, X } from 'lucide-react';
+import { LineChart, Line, ResponsiveContainer, XAxis, YAxis, ReferenceLine, Tooltip } from 'recharts';
+import { DEFAULT_GRADIENT_LIMITS, GradientClipping, GradientCondition, LossPoint } from '../../engine';
+
+const LAYER_COLORS = ['#38bdf8', '#a78bfa', '#f472b6', '#34d399', '#fbbf24', '#fb7185', '#22d3ee', '#c084fc'];
+
+export const GRADIENT_CONDITION_COLORS: Record<GradientCondition, string> = {
+  EXPLODING: '#ef4444',
+  VANISHING: '#60a5fa'
+};
+
+// Log axis floor: zero (or underflowed) norms sit on it instead of breaking the scale
+const MIN_NORM = 1e-12;
+
+interface GradientNormPanelProps {
+  history: Pick<LossPoint, 'epoch' | 'gradNorms'>[];
+  parameters: number[]; // Per weight layer; layers without any (pooling) get no line
+  conditions: (GradientCondition | null)[]; // For the latest norms (gradientConditions)
+  clipping: GradientClipping;
+  pos: { x: number, y: number };
+  onStartDrag: (e: React.MouseEvent) => void;
+  onClose: () => void;
+}
+
+export const GradientNormPanel: React.FC<GradientNormPanelProps> = ({ history, parameters, conditions, clipping, pos, onStartDrag, onClose }) => {
+  // One row per recorded epoch, one column per layer; non-finite norms leave a gap
+  const data = useMemo(() => history.filter(p => p.gradNorms).map(p => {
+      const row: Record<string, number | null> = { epoch: p.epoch };
+      p.gradNorms!.forEach((norm, l) => { row[`l${l}`] = isFinite(norm) ? Math.max(norm, MIN_NORM) : null; });
+      return row;
+  }), [history]);
+  const latest = [...history].reverse().find(p => p.gradNorms)?.gradNorms;
+  const layers = parameters.flatMap((count, l) => (count > 0 ? [l] : []));
+  const warnings = layers.filter(l => conditions[l]);
+
+  return (
+    <div
+      style={{ left: pos.x, top: pos.y }}
+      onMouseDown={onStartDrag}
+      className="absolute z-20 w-80 bg-panel-bg/90 backdrop-blur border border-white/10 rounded-xl p-2 shadow-xl cursor-auto"
+    >
+      <div className="flex justify-between items-center px-2 mb-2 cursor-move" title="Drag to move">
+        <div className="flex items-center gap-2">
+          <GripHorizontal size={14} className="text-slate-500"/>
+          <span className="text-[10px] font-bold text-slate-400">GRADIENT NORMS</span>
+          <span className="text-[10px] font-mono text-slate-500">{clipping.mode === 'NONE' ? 'no clipping' : `clip ${clipping.mode.toLowerCase()} ${clipping.threshold}`}</span>
+        </div>
+        <button onMouseDown={e => e.stopPropagation()} onClick={onClose} title="Close" className="p-1 text-slate-400 hover:text-white"><X size={14}/></button>
+      </div>
+
+      <div onMouseDown={e => e.stopPropagation()} className="flex flex-col gap-2 px-2 pb-1 text-[10px] font-mono">
+        {data.length ? (
+          <div className="h-32">
+            <ResponsiveContainer width="100%" height="100%">
+              <LineChart data={data}>
+                <XAxis dataKey="epoch" type="number" domain={['dataMin', 'dataMax']} hide />
+                <YAxis scale="log" domain={['auto', 'auto']} allowDataOverflow width={36} tick={{ fontSize: 8, fill: '#64748b' }} tickFormatter={(v: number) => v.toExponential(0)} />
+                <Tooltip
+                  contentStyle={{ background: '#0f172a', border: '1px solid rgba(255,255,255,0.1)', fontSize: 10 }}
+                  labelFormatter={(epoch) => `epoch ${epoch}`}
+                  formatter={(v: number, name: string) => [v.toExponential(2), `L${name.slice(1)} → L${Number(name.slice(1)) + 1}`]}
+                />
+                <ReferenceLine y={DEFAULT_GRADIENT_LIMITS.exploding} stroke={GRADIENT_CONDITION_COLORS.EXPLODING} strokeDasharray="3 3" />
+                {layers.map(l => (
+                  <Line key={l} type="monotone" dataKey={`l${l}`} stroke={LAYER_COLORS[l % LAYER_COLORS.length]} strokeWidth={1.5} dot={false} isAnimationActive={false} connectNulls={false} />
+                ))}
+              </LineChart>
+            </ResponsiveContainer>
+          </div>
+        ) : (
+          <div className="text-slate-500 py-4 text-center">Train to chart each layer's gradient norm</div>
+        )}
+
+        <div className="flex flex-col gap-0.5">
+          {layers.map(l => (
+            <div key={l} className="flex items-center gap-1.5">
+              <span className="w-2 h-2 rounded-full shrink-0" style={{ backgroundColor: LAYER_COLORS[l % LAYER_COLORS.length] }}/>
+              <span className="flex-1 text-slate-400">L{l} → L{l + 1}</span>
+              {conditions[l] && <span className="font-bold" style={{ color: GRADIENT_CONDITION_COLORS[conditions[l]!] }}>{conditions[l]}</span>}
+              <span className="text-slate-300 w-16 text-right">{latest ? latest[l].toExponential(2) : '-'}</span>
+            </div>
+          ))}
+        </div>
+
+        {warnings.length > 0 && (
+          <div className="text-slate-400 leading-snug border-t border-white/10 pt-1">
+            {warnings.some(l => conditions[l] === 'EXPLODING') && <div><span className="font-bold" style={{ color: GRADIENT_CONDITION_COLORS.EXPLODING }}>Exploding:</span> lower the learning rate or the initial weights, or clip by norm.</div>}
+            {warnings.some(l => conditions[l] === 'VANISHING') && <div><span className="font-bold" style={{ color: GRADIENT_CONDITION_COLORS.VANISHING }}>Vanishing:</span> the error fades before reaching these layers; try ReLU-like activations or a scaled initializer.</div>}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
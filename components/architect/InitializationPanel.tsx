@@ -0,0 +1,108 @@
+import React from 'react';
+import { GripHorizontal, RotateCcw, X } from 'lucide-react';
+import { ActivationKey, INITIALIZERS, InitializerKey, LayerStatistics, activationDef } from '../../engine';
+
+interface InitializationPanelProps {
+  initializers: InitializerKey[]; // One per layer; the input layer's is unused
+  activations: ActivationKey[];
+  constant: number;
+  stats: LayerStatistics[];
+  epoch: number;
+  onCycle: (layerIdx: number) => void;
+  onConstantChange: (value: number) => void;
+  onReinitialize: () => void;
+  pos: { x: number, y: number };
+  onStartDrag: (e: React.MouseEvent) => void;
+  onClose: () => void;
+}
+
+const HIST_WIDTH = 96;
+const HIST_HEIGHT = 22;
+
+const MiniHistogram: React.FC<{ stats: LayerStatistics, color: string }> = ({ stats, color }) => {
+  const { counts, min, max } = stats.histogram;
+  const peak = Math.max(1, ...counts);
+  const barWidth = HIST_WIDTH / counts.length;
+  return (
+    <svg width={HIST_WIDTH} height={HIST_HEIGHT + 8} className="shrink-0">
+      {counts.map((count, i) => {
+        const h = (count / peak) * HIST_HEIGHT;
+        return <rect key={i} x={i * barWidth + 0.5} y={HIST_HEIGHT - h} width={barWidth - 1} height={h} fill={color} fillOpacity={0.8}/>;
+      })}
+      <line x1={HIST_WIDTH / 2} y1={0} x2={HIST_WIDTH / 2} y2={HIST_HEIGHT} stroke="#475569" strokeDasharray="2,2"/>
+      <text x={0} y={HIST_HEIGHT + 7} fill="#64748b" fontSize="6" fontFamily="monospace">{min.toFixed(1)}</text>
+      <text x={HIST_WIDTH} y={HIST_HEIGHT + 7} fill="#64748b" fontSize="6" fontFamily="monospace" textAnchor="end">{max.toFixed(1)}</text>
+    </svg>
+  );
+};
+
+export const InitializationPanel: React.FC<InitializationPanelProps> = ({
+  initializers, activations, constant, stats, epoch, onCycle, onConstantChange, onReinitialize, pos, onStartDrag, onClose
+}) => (
+  <div
+    style={{ left: pos.x, top: pos.y }}
+    onMouseDown={onStartDrag}
+    className="absolute z-20 w-80 bg-panel-bg/90 backdrop-blur border border-white/10 rounded-xl p-2 shadow-xl cursor-auto"
+  >
+    <div className="flex justify-between items-center px-2 mb-2 cursor-move" title="Drag to move">
+      <div className="flex items-center gap-2">
+        <GripHorizontal size={14} className="text-slate-500"/>
+        <span className="text-[10px] font-bold text-slate-400">INITIALIZATION</span>
+      </div>
+      <div onMouseDown={e => e.stopPropagation()} className="flex items-center gap-1">
+        <button
+          onClick={onReinitialize}
+          title="Redraw all weights with these schemes"
+          className="px-2 py-0.5 rounded text-[10px] font-bold font-mono border bg-slate-800 border-white/10 text-slate-300 hover:text-white flex items-center gap-1"
+        >
+          <RotateCcw size={12}/> REINIT
+        </button>
+        <button onClick={onClose} title="Close" className="p-1 text-slate-400 hover:text-white"><X size={14}/></button>
+      </div>
+    </div>
+
+    <div onMouseDown={e => e.stopPropagation()} className="px-2 pb-1 flex flex-col gap-2 text-[10px] font-mono text-slate-300">
+      <div className="text-slate-500">PRE-ACTIVATIONS · EPOCH {epoch}</div>
+      {stats.map(layer => {
+        const init = INITIALIZERS[initializers[layer.layer] ?? 'UNIFORM'];
+        const activation = activationDef(activations[layer.layer]);
+        return (
+          <div key={layer.layer} className="flex items-center gap-2">
+            <div className="flex flex-col gap-0.5 w-20 shrink-0">
+              <span className="text-slate-400 truncate" title={activation.name}>L{layer.layer} <span style={{ color: activation.color }}>{activation.name}</span></span>
+              <button
+                onClick={() => onCycle(layer.layer)}
+                title={init.description}
+                className="py-0.5 rounded border border-white/10 bg-slate-800 hover:bg-slate-700 font-bold"
+                style={{ color: init.color }}
+              >
+                {init.name.toUpperCase()}
+              </button>
+            </div>
+            <MiniHistogram stats={layer} color={activation.color}/>
+            <div className="flex flex-col text-[9px] leading-tight">
+              <span>μ {layer.mean.toFixed(2)}</span>
+              <span>σ {layer.std.toFixed(2)}</span>
+              {layer.saturated > 0 && <span className={layer.saturated > 0.5 ? 'text-amber-400' : 'text-slate-500'}>sat {(layer.saturated * 100).toFixed(0)}%</span>}
+            </div>
+          </div>
+        );
+      })}
+      {initializers.slice(1).includes('CONSTANT') && (
+        <div className="flex flex-col gap-1">
+          <div className="flex justify-between text-slate-500">
+            <span>CONSTANT</span>
+            <span>{constant.toFixed(2)}</span>
+          </div>
+          <input
+            type="range" min="-2" max="2" step="0.05"
+            value={constant}
+            onChange={e => onConstantChange(Number(e.target.value))}
+            className="w-full h-1.5 bg-slate-700 rounded appearance-none"
+            style={{ accentColor: INITIALIZERS.CONSTANT.color }}
+          />
+        </div>
+      )}
+    </div>
+  </div>
+);
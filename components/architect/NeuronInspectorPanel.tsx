@@ -0,0 +1,119 @@
+import React from 'react';
+import { GripHorizontal, Undo2, X } from 'lucide-react';
+import { NeuronBreakdown, activationDef, isCustomActivation } from '../../engine';
+
+interface NeuronInspectorPanelProps {
+  breakdown: NeuronBreakdown;
+  frameEpoch: number | null; // Set while a timeline frame is shown instead of the live network
+  canBackprop: boolean;
+  onBackprop: () => void;
+  pos: { x: number, y: number };
+  onStartDrag: (e: React.MouseEvent) => void;
+  onClose: () => void;
+}
+
+const fmt = (v: number) => (Math.abs(v) >= 1e-3 || v === 0 ? v.toFixed(4) : v.toExponential(2));
+const signColor = (v: number) => (v > 0 ? 'text-cyan-300' : v < 0 ? 'text-orange-300' : 'text-slate-500');
+
+export const NeuronInspectorPanel: React.FC<NeuronInspectorPanelProps> = ({ breakdown, frameEpoch, canBackprop, onBackprop, pos, onStartDrag, onClose }) => {
+  const { layer, neuron, kind, activation, incoming, bias, biasGradient, skips, preActivation, output, dropoutFactor, derivative, error } = breakdown;
+  const def = activationDef(activation);
+  const custom = isCustomActivation(activation);
+  const weightedSum = incoming.reduce((sum, e) => sum + e.contribution, 0);
+  const skipped = skips.reduce((sum, s) => sum + s.source, 0);
+
+  return (
+    <div
+      style={{ left: pos.x, top: pos.y }}
+      onMouseDown={onStartDrag}
+      className="absolute z-20 w-96 bg-panel-bg/90 backdrop-blur border border-white/10 rounded-xl p-2 shadow-xl cursor-auto"
+    >
+      <div className="flex justify-between items-center px-2 mb-2 cursor-move" title="Drag to move">
+        <div className="flex items-center gap-2">
+          <GripHorizontal size={14} className="text-slate-500"/>
+          <span className="text-[10px] font-bold text-slate-400">NEURON L{layer}:{neuron}</span>
+          <span className="text-[10px] font-bold font-mono" style={{ color: def.color }}>{custom ? `f(x) = ${def.name}` : def.name.toUpperCase()}</span>
+          {kind !== 'DENSE' && <span className="text-[10px] font-bold font-mono text-teal-300">{kind}</span>}
+        </div>
+        <div onMouseDown={e => e.stopPropagation()} className="flex items-center gap-1">
+          <button
+            onClick={onBackprop}
+            disabled={!canBackprop}
+            title={canBackprop ? 'Run backward() for the input/target sliders without updating any weights' : 'Pause training on the live network to backpropagate'}
+            className="px-2 py-0.5 rounded text-[10px] font-bold font-mono border bg-slate-800 border-white/10 text-slate-300 hover:text-white disabled:opacity-30 flex items-center gap-1"
+          >
+            <Undo2 size={12}/> BACKPROP
+          </button>
+          <button onClick={onClose} title="Close" className="p-1 text-slate-400 hover:text-white"><X size={14}/></button>
+        </div>
+      </div>
+
+      <div onMouseDown={e => e.stopPropagation()} className="px-2 pb-1 text-[10px] font-mono text-slate-300 select-text">
+        {frameEpoch !== null && <div className="text-amber-400 mb-1">Timeline frame at epoch {frameEpoch}: gradients are not recorded</div>}
+        {kind === 'CONV' && <div className="text-slate-500 mb-1">Receptive field only. Kernel weights and the channel bias are shared, so ∂L/∂w sums x·δ over every position.</div>}
+        {kind === 'POOL' && <div className="text-slate-500 mb-1">No parameters: w is each input's share of the pooled value.</div>}
+        <div className="max-h-48 overflow-y-auto mb-2">
+          <table className="w-full">
+            <thead className="sticky top-0 bg-panel-bg">
+              <tr className="text-slate-500 text-right">
+                <th className="font-normal text-left">FROM</th>
+                <th className="font-normal">x</th>
+                <th className="font-normal">w</th>
+                <th className="font-normal">x·w</th>
+                <th className="font-normal" title="dLoss/dw from the last backward pass">∂L/∂w</th>
+                <th className="font-normal" title="Change applied by the last step">Δw</th>
+              </tr>
+            </thead>
+            <tbody>
+              {incoming.map(e => (
+                <tr key={e.from} className="text-right">
+                  <td className="text-left text-slate-500">L{layer - 1}:{e.from}</td>
+                  <td>{fmt(e.source)}</td>
+                  <td className={signColor(e.weight)}>{fmt(e.weight)}</td>
+                  <td className={`font-bold ${signColor(e.contribution)}`}>{fmt(e.contribution)}</td>
+                  <td>{fmt(e.gradient)}</td>
+                  <td className={signColor(e.delta)}>{fmt(e.delta)}</td>
+                </tr>
+              ))}
+              <tr className="text-right border-t border-white/10">
+                <td className="text-left text-slate-500">bias</td>
+                <td/>
+                <td/>
+                <td className={`font-bold ${signColor(bias)}`}>{fmt(bias)}</td>
+                <td>{fmt(biasGradient)}</td>
+                <td/>
+              </tr>
+              {skips.map(s => (
+                <tr key={`skip-${s.layer}`} className="text-right" title="Skip connection: added as is, so δ flows back to it unchanged">
+                  <td className="text-left text-purple-300">skip L{s.layer}:{neuron}</td>
+                  <td>{fmt(s.source)}</td>
+                  <td className="text-slate-500">1</td>
+                  <td className={`font-bold ${signColor(s.source)}`}>{fmt(s.source)}</td>
+                  <td/>
+                  <td/>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+
+        {/* Forward: weighted sum -> activation; backward: the error term that feeds every gradient above */}
+        <div className="flex flex-col gap-0.5 border-t border-white/10 pt-1">
+          <div>
+            {skips.length
+              ? <>z = Σ x·w + b + skip = {fmt(weightedSum)} + {fmt(bias)} + {fmt(skipped)}</>
+              : <>z = Σ x·w + b = {fmt(weightedSum)} + {fmt(bias)}</>} = <span className="font-bold text-white">{fmt(preActivation)}</span>
+          </div>
+          <div>
+            y = {custom ? 'f' : def.name}(z){dropoutFactor !== 1 && ` × ${fmt(dropoutFactor)} dropout`} = <span className="font-bold text-white">{fmt(output)}</span>
+          </div>
+          <div className="text-slate-500">f'(z) = {derivative === null ? 'n/a' : fmt(derivative)}</div>
+          <div>
+            δ = ∂L/∂z = <span className={`font-bold ${signColor(error)}`}>{fmt(error)}</span>
+            {kind === 'DENSE' && <span className="text-slate-500"> · ∂L/∂w = x · δ, ∂L/∂b = δ</span>}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
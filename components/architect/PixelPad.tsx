@@ -0,0 +1,100 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Eraser, GripHorizontal, PenLine, Shuffle, Trash2 } from 'lucide-react';
+import { classify } from '../../engine';
+
+interface PixelPadProps {
+  rows: number;
+  cols: number;
+  values: number[]; // The input layer, row by row
+  onChange: (values: number[]) => void;
+  outputs: number[]; // The network's prediction for the drawing
+  labels?: string[]; // Class names from the dataset
+  onLoadSample?: () => void; // Copies a dataset image onto the pad
+  pos: { x: number, y: number };
+  onStartDrag: (e: React.MouseEvent) => void;
+}
+
+const PAD_SIZE = 176; // Pixels along the longer side of the grid
+
+// One bar per class. A single output is a binary probability, so it shows as class 0 = 1 - p and class 1 = p.
+const classScores = (outputs: number[]) => (outputs.length === 1 ? [1 - outputs[0], outputs[0]] : outputs);
+
+export const PixelPad: React.FC<PixelPadProps> = ({ rows, cols, values, onChange, outputs, labels, onLoadSample, pos, onStartDrag }) => {
+  const [erasing, setErasing] = useState(false);
+  // Value the current stroke paints (null: not painting); right-dragging always erases
+  const strokeRef = useRef<number | null>(null);
+  const cell = Math.floor(PAD_SIZE / Math.max(rows, cols));
+  const scores = classScores(outputs);
+  const predicted = outputs.length ? classify(outputs) : -1;
+
+  useEffect(() => {
+    const end = () => { strokeRef.current = null; };
+    window.addEventListener('mouseup', end);
+    return () => window.removeEventListener('mouseup', end);
+  }, []);
+
+  const paint = (index: number) => {
+    const value = strokeRef.current;
+    if (value === null || values[index] === value) return;
+    const next = [...values];
+    next[index] = value;
+    onChange(next);
+  };
+
+  return (
+    <div
+      style={{ left: pos.x, top: pos.y }}
+      onMouseDown={onStartDrag}
+      className="absolute z-20 bg-panel-bg/90 backdrop-blur border border-white/10 rounded-xl p-2 shadow-xl cursor-auto"
+    >
+      <div className="flex justify-between items-center px-2 mb-2 cursor-move" title="Drag to move">
+        <div className="flex items-center gap-2">
+          <GripHorizontal size={14} className="text-slate-500"/>
+          <span className="text-[10px] font-bold text-slate-400">PIXEL PAD {rows}x{cols}</span>
+        </div>
+        <div onMouseDown={e => e.stopPropagation()} className="flex items-center gap-1">
+          <button
+            onClick={() => setErasing(!erasing)}
+            title={erasing ? 'Erasing (right-drag always erases)' : 'Drawing (right-drag erases)'}
+            className={`p-1 rounded ${erasing ? 'text-amber-300' : 'text-cyan-300'} hover:text-white`}
+          >
+            {erasing ? <Eraser size={14}/> : <PenLine size={14}/>}
+          </button>
+          {onLoadSample && <button onClick={onLoadSample} title="Load a random image from the dataset" className="p-1 text-slate-400 hover:text-white"><Shuffle size={14}/></button>}
+          <button onClick={() => onChange(values.map(() => 0))} title="Clear" className="p-1 text-slate-400 hover:text-white"><Trash2 size={14}/></button>
+        </div>
+      </div>
+
+      <div onMouseDown={e => e.stopPropagation()} className="flex gap-3 px-2 pb-1">
+        <div
+          onContextMenu={e => e.preventDefault()}
+          className="grid border border-white/10 bg-slate-950 select-none cursor-crosshair"
+          style={{ gridTemplateColumns: `repeat(${cols}, ${cell}px)`, gridAutoRows: `${cell}px` }}
+        >
+          {Array.from({ length: rows * cols }, (_, i) => (
+            <div
+              key={i}
+              onMouseDown={e => { strokeRef.current = erasing || e.button === 2 ? 0 : 1; paint(i); }}
+              onMouseEnter={() => paint(i)}
+              className="border border-white/5"
+              style={{ backgroundColor: `rgba(226, 232, 240, ${Math.max(0, Math.min(1, values[i] ?? 0))})` }}
+            />
+          ))}
+        </div>
+
+        <div className="flex flex-col justify-center gap-0.5 w-32 text-[9px] font-mono">
+          <div className="text-slate-500 mb-0.5">PREDICTION</div>
+          {scores.map((score, c) => (
+            <div key={c} className={`flex items-center gap-1 ${c === predicted ? 'text-white font-bold' : 'text-slate-400'}`}>
+              <span className="w-12 truncate">{labels?.[c] ?? c}</span>
+              <div className="flex-1 h-1.5 bg-slate-800 rounded overflow-hidden">
+                <div className={`h-full ${c === predicted ? 'bg-neon-green' : 'bg-slate-500'}`} style={{ width: `${Math.max(0, Math.min(1, score)) * 100}%` }}/>
+              </div>
+              <span className="w-8 text-right">{(score * 100).toFixed(0)}%</span>
+            </div>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,77 @@
+import React from 'react';
+import { GitBranch, Pause, Play, Radio } from 'lucide-react';
+import { NetworkSnapshot, TimelineFrame } from '../../engine';
+
+interface TimelineScrubberProps {
+  frames: readonly TimelineFrame<NetworkSnapshot & { loss: number }>[];
+  index: number | null; // Frame on view, null while following live training
+  liveEpoch: number;
+  isReplaying: boolean;
+  bytes: number;
+  interval: number; // Epochs between recorded frames
+  onSeek: (index: number | null) => void;
+  onToggleReplay: () => void;
+  onBranch: () => void;
+}
+
+const formatBytes = (n: number) => n < 1024 * 1024 ? `${(n / 1024).toFixed(0)} KB` : `${(n / (1024 * 1024)).toFixed(1)} MB`;
+
+// One slider step past the last frame is "live"
+export const TimelineScrubber: React.FC<TimelineScrubberProps> = ({ frames, index, liveEpoch, isReplaying, bytes, interval, onSeek, onToggleReplay, onBranch }) => {
+  const frame = index !== null ? frames[index] : undefined;
+  const live = !frame;
+
+  return (
+    <div
+      onMouseDown={e => e.stopPropagation()}
+      className="absolute bottom-32 left-1/2 -translate-x-1/2 z-30 w-[36rem] bg-panel-bg/90 border border-white/10 rounded-xl px-3 py-2 flex items-center gap-3 backdrop-blur shadow-xl text-[10px] font-mono"
+    >
+      <button
+        onClick={onToggleReplay}
+        disabled={frames.length < 2}
+        title={isReplaying ? 'Pause replay' : 'Replay training from the recorded frames'}
+        className="p-1.5 rounded bg-slate-800 text-slate-300 hover:text-white disabled:opacity-30"
+      >
+        {isReplaying ? <Pause size={12}/> : <Play size={12}/>}
+      </button>
+
+      <div className="flex-1 flex flex-col gap-1">
+        <div className="flex justify-between">
+          <span className="font-bold text-slate-400">
+            TIMELINE · {live ? <span className="text-neon-green">LIVE EPOCH {liveEpoch}</span> : <span className="text-amber-400">EPOCH {frame.epoch} / {liveEpoch}</span>}
+          </span>
+          {frame && <span className="text-slate-400">LOSS {frame.snapshot.loss.toFixed(5)}</span>}
+          <span className="text-slate-500" title="Older frames are thinned out to stay within the memory budget">
+            {frames.length} frames · {formatBytes(bytes)} · every {interval} ep
+          </span>
+        </div>
+        <input
+          type="range" min="0" max={frames.length} step="1"
+          value={index ?? frames.length}
+          onChange={e => {
+            const next = Number(e.target.value);
+            onSeek(next >= frames.length ? null : next);
+          }}
+          className="w-full accent-amber-400 h-1.5 bg-slate-700 rounded appearance-none"
+        />
+      </div>
+
+      <button
+        onClick={() => onSeek(null)}
+        disabled={live}
+        title="Back to the live network"
+        className="px-2 py-1 rounded border border-white/10 bg-slate-800 text-slate-300 hover:text-white disabled:opacity-30 flex items-center gap-1 font-bold"
+      >
+        <Radio size={12}/> LIVE
+      </button>
+      <button
+        onClick={onBranch}
+        disabled={live}
+        title={frame ? `Discard everything after epoch ${frame.epoch} and continue training from there` : 'Pick a recorded frame to branch from'}
+        className="px-2 py-1 rounded border border-white/10 bg-slate-800 text-slate-300 hover:text-white disabled:opacity-30 flex items-center gap-1 font-bold"
+      >
+        <GitBranch size={12}/> BRANCH
+      </button>
+    </div>
+  );
+};
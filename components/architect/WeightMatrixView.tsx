@@ -0,0 +1,224 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { LayerShape, LayerSpec, Matrix, Vector } from '../../engine';
+
+export type MatrixMode = 'WEIGHTS' | 'DELTAS';
+
+interface WeightMatrixViewProps {
+  layerSizes: number[];
+  layerSpecs: LayerSpec[];
+  shapes: LayerShape[];
+  weights: Matrix[];
+  deltas: Matrix[]; // Last step's change per weight
+  biases: Vector[];
+  mode: MatrixMode;
+  onModeChange: (mode: MatrixMode) => void;
+}
+
+const MAX_SIZE = 240; // Canvas pixels along the longer side of a matrix
+const MAX_CELL = 24;
+const MIN_CELL = 2;
+
+// Same signs as the graph's links: positive cyan, negative pink
+const POSITIVE = [0, 243, 255];
+const NEGATIVE = [255, 0, 85];
+const DELTA = [255, 255, 0];
+
+const cellColor = (v: number, scale: number, mode: MatrixMode) => {
+  const t = scale > 0 ? Math.min(1, Math.abs(v) / scale) : 0;
+  const [r, g, b] = mode === 'DELTAS' ? DELTA : v >= 0 ? POSITIVE : NEGATIVE;
+  return `rgba(${r}, ${g}, ${b}, ${0.05 + 0.95 * t})`;
+};
+
+const format = (v: number) => (Math.abs(v) >= 1e-3 || v === 0 ? v.toFixed(4) : v.toExponential(2));
+
+const maxAbs = (values: ArrayLike<number>) => {
+  let m = 0;
+  for (let i = 0; i < values.length; i++) m = Math.max(m, Math.abs(values[i]));
+  return m;
+};
+
+interface LayerMatrixProps {
+  layer: number; // Weight layer l: from layer l to layer l + 1
+  from: number;
+  to: number;
+  weights: Matrix;
+  deltas: Matrix;
+  biases: Vector;
+  mode: MatrixMode;
+}
+
+// W as the Prism game writes it: one row per output neuron, one column per input, so y = W·x + b.
+// weights[k * to + j] (input k -> neuron j) is drawn at row j, column k; the biases are an extra column.
+const LayerMatrix: React.FC<LayerMatrixProps> = ({ layer, from, to, weights, deltas, biases, mode }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const [hover, setHover] = useState<{ row: number, col: number } | null>(null);
+  const cell = Math.max(MIN_CELL, Math.min(MAX_CELL, Math.floor(MAX_SIZE / Math.max(to, from + 1))));
+  const gap = cell >= 6 ? 1 : 0;
+  const spacer = Math.floor(cell / 2); // Between W and b
+  const biasX = from * cell + spacer;
+  const width = biasX + cell;
+  const height = to * cell;
+  const values = mode === 'WEIGHTS' ? weights : deltas;
+  const scale = mode === 'WEIGHTS' ? Math.max(maxAbs(weights), maxAbs(biases)) : maxAbs(deltas);
+
+  useEffect(() => {
+    const ctx = canvasRef.current?.getContext('2d');
+    if (!ctx) return;
+    ctx.clearRect(0, 0, width, height);
+    for (let j = 0; j < to; j++) {
+      for (let k = 0; k < from; k++) {
+        ctx.fillStyle = cellColor(values[k * to + j], scale, mode);
+        ctx.fillRect(k * cell, j * cell, cell - gap, cell - gap);
+      }
+      // Biases have no recorded deltas
+      ctx.fillStyle = mode === 'WEIGHTS' ? cellColor(biases[j], scale, mode) : 'rgba(100, 116, 139, 0.15)';
+      ctx.fillRect(biasX, j * cell, cell - gap, cell - gap);
+    }
+  }, [values, biases, scale, mode, from, to, cell, gap, biasX, width, height]);
+
+  const onMouseMove = (e: React.MouseEvent<HTMLCanvasElement>) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    const x = e.clientX - rect.left;
+    const row = Math.floor((e.clientY - rect.top) / cell);
+    const col = x < from * cell ? Math.floor(x / cell) : x >= biasX ? from : -1;
+    setHover(row >= 0 && row < to && col >= 0 ? { row, col } : null);
+  };
+
+  const hovered = hover && (hover.col === from
+    ? `b${layer + 1}[${hover.row}] = ${mode === 'WEIGHTS' ? format(biases[hover.row]) : 'n/a'}`
+    : `${mode === 'WEIGHTS' ? 'w' : 'Δw'} L${layer}:${hover.col}→L${layer + 1}:${hover.row} = ${format(values[hover.col * to + hover.row])}`);
+
+  return (
+    <div className="flex flex-col items-center gap-1 bg-panel-bg/60 border border-white/10 rounded-xl p-3">
+      <div className="flex justify-between w-full text-[10px] font-mono font-bold text-slate-400">
+        <span>W{layer + 1} · {to}×{from}</span>
+        <span>b{layer + 1}</span>
+      </div>
+      <canvas ref={canvasRef} width={width} height={height} onMouseMove={onMouseMove} onMouseLeave={() => setHover(null)} className="block" />
+      <div className="text-[9px] font-mono text-slate-500 h-3">
+        {hovered ?? `L${layer} (${from}) → L${layer + 1} (${to}) · ±${scale.toPrecision(2)}`}
+      </div>
+    </div>
+  );
+};
+
+interface KernelMatrixProps {
+  layer: number;
+  spec: Extract<LayerSpec, { kind: 'CONV' }>;
+  inChannels: number;
+  weights: Matrix;
+  deltas: Matrix;
+  biases: Vector;
+  mode: MatrixMode;
+}
+
+// Conv filters: one row per output channel holding a kernel x kernel tile per input channel, then the filter's bias.
+// Tap (ky, kx) of filter co on input channel ci is weights[(ci * k² + ky * k + kx) * channels + co].
+const KernelMatrix: React.FC<KernelMatrixProps> = ({ layer, spec, inChannels, weights, deltas, biases, mode }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const [hover, setHover] = useState<{ co: number, ci: number, ky: number, kx: number } | null>(null);
+  const { kernel: k, channels } = spec;
+  const cell = Math.max(MIN_CELL, Math.min(MAX_CELL, Math.floor(MAX_SIZE / ((Math.max(inChannels, channels) + 1) * (k + 1)))));
+  const gap = cell >= 6 ? 1 : 0;
+  const pitch = (k + 1) * cell; // A tile plus one cell of spacing
+  const biasX = inChannels * pitch;
+  const width = biasX + cell;
+  const height = channels * pitch - cell;
+  const values = mode === 'WEIGHTS' ? weights : deltas;
+  const scale = mode === 'WEIGHTS' ? Math.max(maxAbs(weights), maxAbs(biases)) : maxAbs(deltas);
+  const tap = (co: number, ci: number, ky: number, kx: number) => ((ci * k + ky) * k + kx) * channels + co;
+
+  useEffect(() => {
+    const ctx = canvasRef.current?.getContext('2d');
+    if (!ctx) return;
+    ctx.clearRect(0, 0, width, height);
+    for (let co = 0; co < channels; co++) {
+      for (let ci = 0; ci < inChannels; ci++) {
+        for (let ky = 0; ky < k; ky++) {
+          for (let kx = 0; kx < k; kx++) {
+            ctx.fillStyle = cellColor(values[((ci * k + ky) * k + kx) * channels + co], scale, mode);
+            ctx.fillRect(ci * pitch + kx * cell, co * pitch + ky * cell, cell - gap, cell - gap);
+          }
+        }
+      }
+      ctx.fillStyle = mode === 'WEIGHTS' ? cellColor(biases[co], scale, mode) : 'rgba(100, 116, 139, 0.15)';
+      ctx.fillRect(biasX, co * pitch, cell - gap, cell - gap);
+    }
+  }, [values, biases, scale, mode, k, channels, inChannels, cell, gap, pitch, biasX, width, height]);
+
+  const onMouseMove = (e: React.MouseEvent<HTMLCanvasElement>) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    const x = e.clientX - rect.left;
+    const y = e.clientY - rect.top;
+    const co = Math.floor(y / pitch);
+    const ky = Math.floor((y % pitch) / cell);
+    const ci = x >= biasX ? inChannels : Math.floor(x / pitch);
+    const kx = x >= biasX ? 0 : Math.floor((x % pitch) / cell);
+    const inside = co < channels && ky < k && kx < k && (ci < inChannels || (x < width && ky === 0));
+    setHover(inside ? { co, ci, ky, kx } : null);
+  };
+
+  const hovered = hover && (hover.ci === inChannels
+    ? `b${layer + 1}[${hover.co}] = ${mode === 'WEIGHTS' ? format(biases[hover.co]) : 'n/a'}`
+    : `${mode === 'WEIGHTS' ? 'k' : 'Δk'}${layer + 1}[${hover.co}←${hover.ci}](${hover.ky},${hover.kx}) = ${format(values[tap(hover.co, hover.ci, hover.ky, hover.kx)])}`);
+
+  return (
+    <div className="flex flex-col items-center gap-1 bg-panel-bg/60 border border-white/10 rounded-xl p-3">
+      <div className="flex justify-between w-full text-[10px] font-mono font-bold text-slate-400">
+        <span>K{layer + 1} · {channels}×{inChannels}×{k}×{k}</span>
+        <span>b{layer + 1}</span>
+      </div>
+      <canvas ref={canvasRef} width={width} height={height} onMouseMove={onMouseMove} onMouseLeave={() => setHover(null)} className="block" />
+      <div className="text-[9px] font-mono text-slate-500 h-3">
+        {hovered ?? `L${layer} → L${layer + 1} conv · stride ${spec.stride}, pad ${spec.padding} · ±${scale.toPrecision(2)}`}
+      </div>
+    </div>
+  );
+};
+
+export const WeightMatrixView: React.FC<WeightMatrixViewProps> = ({ layerSizes, layerSpecs, shapes, weights, deltas, biases, mode, onModeChange }) => (
+  <div className="absolute inset-0 overflow-auto pt-24 pb-56 px-8">
+    <div className="min-h-full flex flex-col items-center justify-center gap-4">
+      <div className="flex gap-1 text-[10px] font-bold font-mono">
+        {(['WEIGHTS', 'DELTAS'] as const).map(m => (
+          <button
+            key={m}
+            onClick={() => onModeChange(m)}
+            title={m === 'WEIGHTS' ? 'Weight values (blue positive, pink negative)' : 'Size of the last update to each weight'}
+            className={`px-3 py-1 rounded border border-white/10 ${mode === m ? 'bg-blue-600 text-white' : 'bg-slate-800 text-slate-400 hover:text-white'}`}
+          >
+            {m}
+          </button>
+        ))}
+      </div>
+      <div className="flex flex-wrap items-center justify-center gap-4">
+        {weights.map((w, l) => {
+          const spec = layerSpecs[l + 1];
+          if (spec?.kind === 'CONV') {
+            return <KernelMatrix key={l} layer={l} spec={spec} inChannels={shapes[l].channels} weights={w} deltas={deltas[l]} biases={biases[l]} mode={mode} />;
+          }
+          if (spec?.kind === 'POOL') {
+            return (
+              <div key={l} className="flex flex-col items-center gap-1 bg-panel-bg/60 border border-white/10 rounded-xl p-3 text-[10px] font-mono text-slate-400">
+                <span className="font-bold">{spec.mode} POOL {spec.size}×{spec.size}</span>
+                <span className="text-[9px] text-slate-500">L{l} → L{l + 1} · stride {spec.stride} · no parameters</span>
+              </div>
+            );
+          }
+          return (
+            <LayerMatrix
+              key={l}
+              layer={l}
+              from={layerSizes[l]}
+              to={layerSizes[l + 1]}
+              weights={w}
+              deltas={deltas[l]}
+              biases={biases[l]}
+              mode={mode}
+            />
+          );
+        })}
+      </div>
+    </div>
+  </div>
+);
@@ -0,0 +1,89 @@
+// Activation functions for SimpleNetwork.
+// deriv() takes the activation OUTPUT y, which is what backprop has cached, and the pre-activation x.
+// The built-ins only need y; custom activations (typed expressions) are differentiated in x.
+
+import { compileExpression, differentiate, formatExpression, parseExpression } from './expression';
+
+export type BuiltinActivationKey = 'SIGMOID' | 'TANH' | 'RELU' | 'LEAKY_RELU' | 'ELU' | 'SOFTMAX';
+// A custom activation's key carries its expression, so model files and the training worker can rebuild it
+export type CustomActivationKey = `CUSTOM:${string}`;
+export type ActivationKey = BuiltinActivationKey | CustomActivationKey;
+
+export interface ActivationDef {
+  name: string;
+  func: (x: number) => number;
+  deriv: (y: number, x: number) => number;
+  color: string;
+  // Whole-layer activations couple their neurons; func/deriv then only describe the 2-neuron case
+  layerFunc?: (xs: ArrayLike<number>) => ArrayLike<number>;
+  outputOnly?: boolean;
+  // Output ranges where the neuron passes (almost) no gradient back: stuck at zero, or on a flat tail
+  dead?: (y: number) => boolean;
+  saturated?: (y: number) => boolean;
+}
+
+const softmax = (xs: ArrayLike<number>) => {
+  let max = -Infinity; // Shift for numerical stability
+  for (let i = 0; i < xs.length; i++) max = Math.max(max, xs[i]);
+  const exps = Float64Array.from(xs, x => Math.exp(x - max));
+  const total = exps.reduce((a, b) => a + b, 0);
+  return exps.map(e => e / total);
+};
+
+export const ACTIVATION_FUNCTIONS: Record<BuiltinActivationKey, ActivationDef> = {
+  // Saturation bounds are where the derivative falls below ~5% of its peak
+  SIGMOID: { name: 'Sigmoid', func: (x) => 1 / (1 + Math.exp(-x)), deriv: (y) => y * (1 - y), color: '#00f3ff', saturated: (y) => y < 0.05 || y > 0.95 },
+  TANH: { name: 'Tanh', func: (x) => Math.tanh(x), deriv: (y) => 1 - (y * y), color: '#d946ef', saturated: (y) => Math.abs(y) > 0.97 },
+  RELU: { name: 'ReLU', func: (x) => Math.max(0, x), deriv: (y) => y > 0 ? 1 : 0, color: '#22c55e', dead: (y) => y <= 0 },
+  LEAKY_RELU: { name: 'L-ReLU', func: (x) => Math.max(0.01 * x, x), deriv: (y) => y > 0 ? 1 : 0.01, color: '#eab308' },
+  ELU: { name: 'ELU', func: (x) => x >= 0 ? x : 1.0 * (Math.exp(x) - 1), deriv: (y) => y > 0 ? 1 : y + 1.0, color: '#f97316', saturated: (y) => y < -0.95 },
+  SOFTMAX: { name: 'Softmax', func: (x) => 1 / (1 + Math.exp(-x)), deriv: (y) => y * (1 - y), color: '#38bdf8', layerFunc: softmax, outputOnly: true }
+};
+
+export const ACTIVATION_KEYS = Object.keys(ACTIVATION_FUNCTIONS) as BuiltinActivationKey[];
+export const HIDDEN_ACTIVATION_KEYS = ACTIVATION_KEYS.filter(k => !ACTIVATION_FUNCTIONS[k].outputOnly);
+
+const CUSTOM_PREFIX = 'CUSTOM:';
+const CUSTOM_COLORS = ['#f472b6', '#a3e635', '#fb7185', '#2dd4bf', '#c084fc', '#fbbf24'];
+// Where a custom activation must be finite (with its derivative): the span the Architect draws and trains in
+const CHECK_RANGE = 6;
+
+export const isCustomActivation = (key: string): key is CustomActivationKey => key.startsWith(CUSTOM_PREFIX);
+
+const customDefs = new Map<string, ActivationDef & { derivative: string }>();
+
+// Parses and checks an expression in x, e.g. 'x * sigmoid(x)'. Equivalent spellings give the same key.
+export const defineActivation = (expression: string) => {
+  const tree = parseExpression(expression);
+  const key: CustomActivationKey = `${CUSTOM_PREFIX}${formatExpression(tree)}`;
+  const cached = customDefs.get(key);
+  if (cached) return { key, def: cached };
+
+  const slope = differentiate(tree);
+  const func = compileExpression(tree);
+  const derivX = compileExpression(slope);
+  for (let x = -CHECK_RANGE; x <= CHECK_RANGE; x += 0.25) {
+    if (!isFinite(func(x)) || !isFinite(derivX(x))) throw new Error(`${formatExpression(tree)} is not finite at x = ${x}`);
+  }
+  const hash = Array.from(key).reduce((h, c) => (h * 31 + c.charCodeAt(0)) >>> 0, 0);
+  const def = {
+    name: formatExpression(tree),
+    func,
+    deriv: (_y: number, x: number) => derivX(x),
+    derivative: formatExpression(slope),
+    color: CUSTOM_COLORS[hash % CUSTOM_COLORS.length]
+  };
+  customDefs.set(key, def);
+  return { key, def };
+};
+
+// The definition behind any key: a built-in, or a custom expression compiled on first use
+export const activationDef = (key: ActivationKey): ActivationDef => (
+  isCustomActivation(key) ? defineActivation(key.slice(CUSTOM_PREFIX.length)).def : ACTIVATION_FUNCTIONS[key]
+);
+
+// The expression behind a custom key and its derivative, for display
+export const customActivationFormula = (key: CustomActivationKey) => {
+  const { def } = defineActivation(key.slice(CUSTOM_PREFIX.length));
+  return { expression: def.name, derivative: def.derivative };
+};
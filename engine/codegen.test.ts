@@ -0,0 +1,314 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import ts from 'typescript';
+import { ActivationKey } from './activations';
+import { LossKey } from './losses';
+import { DEFAULT_OPTIMIZER_PARAMS, OptimizerKey } from './optimizers';
+import { CONSTANT_SCHEDULE, DEFAULT_SCHEDULE_PARAMS, LearningRateSchedule, SCHEDULE_KEYS, learningRateAt } from './schedules';
+import { createRng, generateDataset } from './datasets';
+import { LayerSpec, layerShapes } from './layers';
+import { SimpleNetwork } from './network';
+import { CODE_GENERATORS, CodeSpec } from './codegen';
+
+const spec = (overrides: Partial<CodeSpec> = {}): CodeSpec => ({
+  layerSizes: [2, 4, 1],
+  activations: ['SIGMOID', 'TANH', 'SIGMOID'],
+  loss: 'MSE',
+  optimizer: 'SGD',
+  optimizerParams: DEFAULT_OPTIMIZER_PARAMS,
+  learningRate: 0.1,
+  schedule: CONSTANT_SCHEDULE,
+  epochs: 100,
+  datasetName: 'XOR',
+  samples: generateDataset('XOR', 1, { count: 8, seed: 1 }),
+  ...overrides
+});
+
+// Type-checks nothing, just strips types like any TS runner would, then runs it and returns what it logged
+const runTypeScript = (code: string) => {
+  const { outputText } = ts.transpileModule(code, { compilerOptions: { module: ts.ModuleKind.CommonJS, target: ts.ScriptTarget.ES2022 } });
+  const lines: string[] = [];
+  new Function('exports', 'console', outputText)({}, { log: (line: string) => lines.push(line) });
+  return lines;
+};
+
+// The generated program's network, without running its training loop
+const loadTypeScript = (code: string) => {
+  const { outputText } = ts.transpileModule(code.replace('export {};', 'return { forward, train, meanLoss, W, B };'), { compilerOptions: { target: ts.ScriptTarget.ES2022 } });
+  return new Function('console', outputText)({ log: () => {} }) as {
+    forward: (x: number[]) => { values: number[][] }, train: (x: number[], t: number[]) => void, meanLoss: () => number,
+    W: number[][], B: number[][]
+  };
+};
+
+const losses = (lines: string[]) => lines.map(line => Number(line.split('loss ')[1]));
+
+describe('code generation', () => {
+  // The generated programs draw their weights, shuffles and dropout masks from Math.random
+  beforeEach(() => {
+    vi.spyOn(Math, 'random').mockImplementation(createRng(5));
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('renders the layer stack, loss and optimizer for PyTorch', () => {
+    const code = CODE_GENERATORS.PYTORCH.generate(spec({ layerSizes: [2, 6, 3], activations: ['SIGMOID', 'LEAKY_RELU', 'SOFTMAX'], loss: 'CCE', optimizer: 'ADAM' }));
+    expect(code).toContain('nn.Linear(2, 6),\n    nn.LeakyReLU(0.01),\n    nn.Linear(6, 3),\n    nn.Softmax(dim=1),');
+    expect(code).toContain('torch.optim.Adam(model.parameters(), lr=0.1, betas=(0.9, 0.999), eps=1e-8)');
+    expect(code).toContain('clamp_min(1e-7).log()');
+    expect(code).toContain('for epoch in range(1, 101):');
+  });
+
+  it('renders Keras layers with a summed loss and the matching optimizer', () => {
+    const code = CODE_GENERATORS.KERAS.generate(spec({ layerSizes: [2, 3, 2], activations: ['SIGMOID', 'LEAKY_RELU', 'SIGMOID'], loss: 'BCE', optimizer: 'NESTEROV' }));
+    expect(code).toContain('keras.Input(shape=(2,)),\n    keras.layers.Dense(3),\n    keras.layers.LeakyReLU(negative_slope=0.01),\n    keras.layers.Dense(2, activation="sigmoid"),');
+    expect(code).toContain('return 2 * keras.losses.binary_crossentropy(y_true, y_pred)');
+    expect(code).toContain('keras.optimizers.SGD(learning_rate=0.1, momentum=0.9, nesterov=True)');
+    expect(code).toContain('batch_size=1');
+  });
+
+  describe('conv and pool layers', () => {
+    // 8x8 glyph -> 3x3 conv with 2 filters -> 2x2 max pool -> 2x2 average pool -> 4 classes
+    const layers: LayerSpec[] = [
+      { kind: 'DENSE' },
+      { kind: 'CONV', kernel: 3, stride: 1, padding: 1, channels: 2 },
+      { kind: 'POOL', size: 2, stride: 2, mode: 'MAX' },
+      { kind: 'POOL', size: 2, stride: 2, mode: 'AVG' },
+      { kind: 'DENSE' }
+    ];
+    const shapes = layerShapes([{ rows: 8, cols: 8 }, { rows: 8, cols: 16 }, { rows: 4, cols: 8 }, { rows: 2, cols: 4 }, { rows: 1, cols: 4 }], layers);
+    const convSpec = (overrides: Partial<CodeSpec> = {}) => spec({
+      layerSizes: [64, 128, 32, 8, 4],
+      activations: ['SIGMOID', 'RELU', 'TANH', 'TANH', 'SOFTMAX'],
+      layers,
+      shapes,
+      loss: 'CCE',
+      optimizer: 'ADAM',
+      learningRate: 0.01,
+      datasetName: 'SHAPES',
+      samples: generateDataset('SHAPES', 4, { count: 24, seed: 2 }),
+      ...overrides
+    });
+
+    it('reshapes around the framework conv and pooling layers', () => {
+      const torch = CODE_GENERATORS.PYTORCH.generate(convSpec());
+      expect(torch).toContain('class ToGrid(nn.Module):');
+      expect(torch).toContain('ToGrid(8, 8, 1),\n    nn.Conv2d(1, 2, 3, stride=1, padding=1),\n    FromGrid(),\n    nn.ReLU(),');
+      expect(torch).toContain('ToGrid(8, 8, 2),\n    nn.MaxPool2d(2, stride=2),\n    FromGrid(),');
+      expect(torch).toContain('nn.AvgPool2d(2, stride=2)');
+
+      const keras = CODE_GENERATORS.KERAS.generate(convSpec());
+      expect(keras).toContain([
+        'keras.layers.Reshape((8, 1, 8)),', 'keras.layers.Permute((1, 3, 2)),', 'keras.layers.ZeroPadding2D(1),',
+        'keras.layers.Conv2D(2, 3, strides=1),', 'keras.layers.Permute((1, 3, 2)),', 'keras.layers.Flatten(),', 'keras.layers.Activation("relu"),'
+      ].join('\n    '));
+      expect(keras).toContain('keras.layers.MaxPooling2D(2, strides=2)');
+      expect(keras).toContain('keras.layers.AveragePooling2D(2, strides=2)');
+    });
+
+    it('writes TypeScript that computes what the engine does', () => {
+      const { forward, W, B } = loadTypeScript(CODE_GENERATORS.TYPESCRIPT.generate(convSpec({ epochs: 0 })));
+      const net = new SimpleNetwork([64, 128, 32, 8, 4], ['SIGMOID', 'RELU', 'TANH', 'TANH', 'SOFTMAX'], layers, shapes);
+      net.setParameters(W.map(w => Float64Array.from(w)), B.map(b => Float64Array.from(b)));
+      convSpec().samples.slice(0, 5).forEach(({ input }) => {
+        const values = forward(input).values;
+        net.forward(input);
+        values.forEach((layer, l) => layer.forEach((v, j) => expect(v).toBeCloseTo(net.values[l][j], 10)));
+      });
+    });
+
+    it('writes TypeScript that learns', () => {
+      const logged = losses(runTypeScript(CODE_GENERATORS.TYPESCRIPT.generate(convSpec({ epochs: 20 }))));
+      logged.forEach(l => expect(isFinite(l)).toBe(true));
+      expect(logged[9]).toBeLessThan(logged[0]);
+    });
+  });
+
+  describe('custom activations', () => {
+    const swish = spec({ activations: ['SIGMOID', 'CUSTOM:x * sigmoid(x)', 'SIGMOID'] });
+
+    it('writes the expression in each language', () => {
+      const torch = CODE_GENERATORS.PYTORCH.generate(swish);
+      expect(torch).toContain('class Activation(nn.Module):');
+      expect(torch).toContain('Activation(lambda x: (x * torch.sigmoid(x))),');
+      const keras = CODE_GENERATORS.KERAS.generate(swish);
+      expect(keras).toContain('import tensorflow as tf');
+      expect(keras).toContain('keras.layers.Activation(lambda x: (x * tf.sigmoid(x)))');
+      const typescript = CODE_GENERATORS.TYPESCRIPT.generate(swish);
+      expect(typescript).toContain('const custom1 = (z: Vec): Vec => z.map(x => (x * (1 / (1 + Math.exp(-x)))));');
+      expect(typescript).toContain('const custom1Deriv = (y: number, x: number) =>');
+      expect(CODE_GENERATORS.PYTORCH.generate(spec())).not.toContain('class Activation');
+    });
+
+    it('writes TypeScript that steps like the engine, for every function', () => {
+      const expression = 'x * sigmoid(x) + 0.1 * (tanh(x) + exp(-x^2) + log(1 + x^2) + sqrt(1 + x^2) + sin(x) + cos(x) '
+        + '+ softplus(x) + relu(x) + abs(x) + step(x) + sign(x) + max(x, 0) + min(x, 0))';
+      const key: ActivationKey = `CUSTOM:${expression}`;
+      const activations: ActivationKey[] = ['SIGMOID', key, key, 'SIGMOID'];
+      const { forward, train, W, B } = loadTypeScript(CODE_GENERATORS.TYPESCRIPT.generate(spec({ layerSizes: [2, 4, 3, 1], activations, epochs: 0 })));
+      const net = new SimpleNetwork([2, 4, 3, 1], activations);
+      net.setParameters(W.map(w => Float64Array.from(w)), B.map(b => Float64Array.from(b)));
+      spec().samples.slice(0, 4).forEach(({ input, target }) => {
+        const values = forward(input).values;
+        net.forward(input);
+        values.forEach((layer, l) => layer.forEach((v, j) => expect(v).toBeCloseTo(net.values[l][j], 10)));
+        train(input, target);
+        net.train(input, target, 0.1);
+        W.forEach((w, l) => w.forEach((v, p) => expect(v).toBeCloseTo(net.weights[l][p], 10)));
+      });
+    });
+
+    it('writes TypeScript that learns', () => {
+      const logged = losses(runTypeScript(CODE_GENERATORS.TYPESCRIPT.generate(spec({ activations: swish.activations, epochs: 300, learningRate: 0.5 }))));
+      logged.forEach(l => expect(isFinite(l)).toBe(true));
+      expect(logged[9]).toBeLessThan(logged[0]);
+    });
+  });
+
+  describe('skip connections', () => {
+    const layerSizes = [2, 3, 2, 3, 2];
+    const activations: ActivationKey[] = ['SIGMOID', 'TANH', 'RELU', 'TANH', 'SIGMOID'];
+    const skips = [{ from: 0, to: 2 }, { from: 1, to: 3 }, { from: 2, to: 4 }];
+    const skipped = spec({ layerSizes, activations, skips, samples: spec().samples.map(sample => ({ ...sample, target: [sample.target[0], 1 - sample.target[0]] })) });
+
+    it('writes a module that keeps every layer in PyTorch and the functional API in Keras', () => {
+      const torch = CODE_GENERATORS.PYTORCH.generate(skipped);
+      expect(torch).toContain('class Residual(nn.Module):');
+      expect(torch).toContain('model = Residual(');
+      expect(torch).toContain('{2: [0], 3: [1], 4: [2]},');
+      const keras = CODE_GENERATORS.KERAS.generate(skipped);
+      expect(keras).toContain('h2 = keras.layers.Dense(2)(h1)\nh2 = keras.layers.Add()([h2, h0])\nh2 = keras.layers.Activation("relu")(h2)');
+      expect(keras).toContain('model = keras.Model(h0, h4)');
+      expect(keras).not.toContain('keras.Sequential');
+    });
+
+    it('writes TypeScript that steps like the engine', () => {
+      const { forward, train, W, B } = loadTypeScript(CODE_GENERATORS.TYPESCRIPT.generate({ ...skipped, epochs: 0 }));
+      const net = new SimpleNetwork(layerSizes, activations);
+      net.setSkips(skips);
+      net.setParameters(W.map(w => Float64Array.from(w)), B.map(b => Float64Array.from(b)));
+      skipped.samples.slice(0, 4).forEach(({ input, target }) => {
+        const values = forward(input).values;
+        net.forward(input);
+        values.forEach((layer, l) => layer.forEach((v, j) => expect(v).toBeCloseTo(net.values[l][j], 10)));
+        train(input, target);
+        net.train(input, target, 0.1);
+        W.forEach((w, l) => w.forEach((v, p) => expect(v).toBeCloseTo(net.weights[l][p], 10)));
+        B.forEach((b, l) => b.forEach((v, j) => expect(v).toBeCloseTo(net.biases[l][j], 10)));
+      });
+    });
+  });
+
+  it('embeds the training set', () => {
+    const samples = spec().samples;
+    const code = CODE_GENERATORS.PYTORCH.generate(spec());
+    samples.forEach(s => expect(code).toContain(`[${s.input.map(v => String(Number(v.toPrecision(6)))).join(', ')}]`));
+  });
+
+  it('leaves the learning rate alone for a constant schedule', () => {
+    expect(CODE_GENERATORS.PYTORCH.generate(spec())).not.toContain('scheduler');
+    expect(CODE_GENERATORS.KERAS.generate(spec())).not.toContain('callbacks');
+    expect(CODE_GENERATORS.TYPESCRIPT.generate(spec())).toContain('const learningRate = 0.1;');
+  });
+
+  it.each(SCHEDULE_KEYS.filter(key => key !== 'CONSTANT'))('renders the %s schedule with the engine\'s rates', key => {
+    const schedule: LearningRateSchedule = { key, params: { ...DEFAULT_SCHEDULE_PARAMS, stepSize: 30, period: 40, warmup: 20 } };
+    expect(CODE_GENERATORS.PYTORCH.generate(spec({ schedule }))).toContain('scheduler = torch.optim.lr_scheduler.LambdaLR(optimizer, lambda e: ');
+    expect(CODE_GENERATORS.KERAS.generate(spec({ schedule }))).toContain('callbacks=[keras.callbacks.LearningRateScheduler(lambda e: 0.1 * (');
+
+    const code = CODE_GENERATORS.TYPESCRIPT.generate(spec({ schedule }));
+    const line = code.split('\n').find(l => l.startsWith('const rateAt'))!;
+    const rateAt = new Function('baseRate', `${ts.transpile(line)}\nreturn rateAt;`)(0.1);
+    [0, 10, 25, 39, 40, 95].forEach(e => expect(rateAt(e)).toBeCloseTo(learningRateAt(schedule, 0.1, e), 6));
+  });
+
+  it('clips gradients the way the engine does', () => {
+    expect(CODE_GENERATORS.PYTORCH.generate(spec())).not.toContain('clip_grad');
+    expect(CODE_GENERATORS.PYTORCH.generate(spec({ clipping: { mode: 'NORM', threshold: 1 } }))).toContain('loss.backward()\n        nn.utils.clip_grad_norm_(model.parameters(), 1)\n        optimizer.step()');
+    expect(CODE_GENERATORS.PYTORCH.generate(spec({ clipping: { mode: 'VALUE', threshold: 0.5 } }))).toContain('nn.utils.clip_grad_value_(model.parameters(), 0.5)');
+    expect(CODE_GENERATORS.KERAS.generate(spec({ clipping: { mode: 'NORM', threshold: 2 } }))).toContain('keras.optimizers.SGD(learning_rate=0.1, global_clipnorm=2)');
+    expect(CODE_GENERATORS.KERAS.generate(spec({ clipping: { mode: 'VALUE', threshold: 2 } }))).toContain('clipvalue=2)');
+  });
+
+  it('adds dropout after hidden activations and the L1/L2 penalty to the loss', () => {
+    const regularized = spec({
+      layerSizes: [2, 4, 3, 1],
+      activations: ['SIGMOID', 'TANH', 'LEAKY_RELU', 'SIGMOID'],
+      regularization: { l1: 0.001, l2: 0.01 },
+      dropout: [0, 0.25, 0.5, 0]
+    });
+    const torch = CODE_GENERATORS.PYTORCH.generate(regularized);
+    expect(torch).toContain('nn.Linear(2, 4),\n    nn.Tanh(),\n    nn.Dropout(0.25),\n    nn.Linear(4, 3),\n    nn.LeakyReLU(0.01),\n    nn.Dropout(0.5),\n    nn.Linear(3, 1),\n    nn.Sigmoid(),\n)');
+    expect(torch).toContain('L1, L2 = 0.001, 0.01');
+    expect(torch).toContain('loss = loss_fn(model(X[i:i + 1]), Y[i:i + 1]) + penalty()');
+    expect(torch).toContain('model.eval()');
+
+    const keras = CODE_GENERATORS.KERAS.generate(regularized);
+    expect(keras).toContain('regularizer = keras.regularizers.L1L2(l1=0.001, l2=0.005)');
+    expect(keras).toContain('keras.layers.Dense(4, activation="tanh", kernel_regularizer=regularizer),\n    keras.layers.Dropout(0.25),');
+    expect(keras).toContain('keras.layers.Dense(1, activation="sigmoid", kernel_regularizer=regularizer),\n])');
+
+    const plain = CODE_GENERATORS.PYTORCH.generate(spec({ dropout: [0, 0, 0] }));
+    expect(plain).not.toContain('Dropout');
+    expect(plain).not.toContain('penalty');
+    expect(CODE_GENERATORS.KERAS.generate(spec())).not.toContain('regularizer');
+  });
+
+  it('writes TypeScript whose loss includes the engine\'s weight penalty, without dropout at evaluation', () => {
+    const regularized = spec({ layerSizes: [2, 4, 3, 1], activations: ['SIGMOID', 'TANH', 'RELU', 'SIGMOID'], regularization: { l1: 0.01, l2: 0.1 }, dropout: [0, 0.3, 0.3, 0], epochs: 0 });
+    const { meanLoss, W, B } = loadTypeScript(CODE_GENERATORS.TYPESCRIPT.generate(regularized));
+    const net = new SimpleNetwork([2, 4, 3, 1], regularized.activations);
+    net.setParameters(W.map(w => Float64Array.from(w)), B.map(b => Float64Array.from(b)));
+    net.setRegularization({ l1: 0.01, l2: 0.1 });
+    net.setDropout([0, 0.3, 0.3, 0]);
+    expect(meanLoss()).toBeCloseTo(net.evaluate(regularized.samples).loss, 6); // The code embeds 6 significant digits
+
+    const logged = losses(runTypeScript(CODE_GENERATORS.TYPESCRIPT.generate({
+      ...regularized,
+      regularization: { l1: 0, l2: 0.001 },
+      dropout: [0, 0.1, 0.1, 0],
+      learningRate: 0.5,
+      epochs: 100,
+      samples: generateDataset('XOR', 1, { count: 40, seed: 3 })
+    })));
+    logged.forEach(l => expect(isFinite(l)).toBe(true));
+    expect(logged[9]).toBeLessThan(logged[0]);
+  });
+
+  it.each(['VALUE', 'NORM'] as const)('generates TypeScript that learns with %s clipping', mode => {
+    const code = CODE_GENERATORS.TYPESCRIPT.generate(spec({
+      layerSizes: [2, 6, 1],
+      learningRate: 0.5,
+      clipping: { mode, threshold: 0.5 },
+      samples: generateDataset('XOR', 1, { count: 40, seed: 3 })
+    }));
+    const logged = losses(runTypeScript(code));
+    logged.forEach(l => expect(isFinite(l)).toBe(true));
+    expect(logged[9]).toBeLessThan(logged[0]);
+  });
+
+  const runs: [ActivationKey[], LossKey, OptimizerKey][] = [
+    [['SIGMOID', 'TANH', 'SIGMOID'], 'MSE', 'SGD'],
+    [['SIGMOID', 'ELU', 'SIGMOID'], 'BCE', 'ADAM'],
+    [['SIGMOID', 'LEAKY_RELU', 'SOFTMAX'], 'CCE', 'MOMENTUM'],
+    [['SIGMOID', 'RELU', 'SOFTMAX'], 'HUBER', 'RMSPROP'],
+    [['SIGMOID', 'TANH', 'TANH'], 'HUBER', 'NESTEROV']
+  ];
+
+  it.each(runs)('generates TypeScript that runs and learns (%j, %s, %s)', (activations, loss, optimizer) => {
+    const outputs = activations[2] === 'SOFTMAX' ? 2 : 1;
+    const code = CODE_GENERATORS.TYPESCRIPT.generate(spec({
+      layerSizes: [2, 6, outputs],
+      activations,
+      loss,
+      optimizer,
+      learningRate: optimizer === 'SGD' || optimizer === 'MOMENTUM' || optimizer === 'NESTEROV' ? 0.05 : 0.01,
+      samples: generateDataset('XOR', outputs, { count: 40, seed: 3 })
+    }));
+    const logged = losses(runTypeScript(code));
+    expect(logged).toHaveLength(10);
+    logged.forEach(l => expect(isFinite(l)).toBe(true));
+    expect(logged[9]).toBeLessThan(logged[0]);
+  });
+});
@@ -0,0 +1,748 @@
+// Code generation: renders an Architect setup as runnable PyTorch, Keras or dependency-free TypeScript.
+// Every snippet trains the way SimpleNetwork does: one update per sample in shuffled order, loss summed
+// over the output neurons (MSE as 0.5·Σ(y - t)²). The mapping tables are exhaustive Records, so a new
+// activation, loss, optimizer or LR schedule in the engine fails to compile until every language knows about it.
+// Custom activations are written out from their expression tree (and its symbolic derivative) in each language.
+// Conv and pool layers keep layers.ts's neuron order (rows, with the channels side by side), so the framework
+// code reshapes into the framework's grid layout around them and flattens back afterwards.
+// Skip connections leave a sequential stack behind: PyTorch gets a small module that keeps every layer's
+// outputs, Keras the functional API with an Add before the activation.
+
+import { ActivationKey, CustomActivationKey, customActivationFormula, isCustomActivation } from './activations';
+import { Expression, differentiate, parseExpression } from './expression';
+import { LossKey } from './losses';
+import { OptimizerKey, OptimizerParams } from './optimizers';
+import { LearningRateSchedule, ScheduleKey, ScheduleParams } from './schedules';
+import { Sample } from './datasets';
+import { LayerShape, LayerSpec, flatShape } from './layers';
+import { GradientClipping, NO_CLIPPING, NO_REGULARIZATION, Regularization, SkipConnection } from './network';
+
+export type CodeLanguage = 'PYTORCH' | 'KERAS' | 'TYPESCRIPT';
+
+export interface CodeSpec {
+  layerSizes: number[];
+  activations: ActivationKey[]; // activations[0] belongs to the input layer and is ignored
+  layers?: LayerSpec[]; // Omitted: all dense
+  shapes?: LayerShape[]; // Each layer's grid (layerShapes); omitted: flat rows
+  skips?: SkipConnection[]; // Omitted: none
+  clipping?: GradientClipping; // Omitted: no clipping
+  regularization?: Regularization; // Omitted: none
+  dropout?: number[]; // Per layer, as SimpleNetwork.dropout (only hidden layers use theirs); omitted: none
+  loss: LossKey;
+  optimizer: OptimizerKey;
+  optimizerParams: OptimizerParams;
+  learningRate: number;
+  schedule: LearningRateSchedule;
+  epochs: number;
+  datasetName: string;
+  samples: Sample[];
+}
+
+export interface CodeGeneratorDef {
+  name: string;
+  fileName: string;
+  generate: (spec: CodeSpec) => string;
+}
+
+const num = (v: number) => String(Number(v.toPrecision(6)));
+const row = (values: number[]) => `[${values.map(num).join(', ')}]`;
+const matrix = (rows: number[][], indent: string) => `[\n${rows.map(r => `${indent}${row(r)}`).join(',\n')}\n${indent.slice(4)}]`;
+
+const describe = (spec: CodeSpec, comment: string) => [
+  `${comment} Architect network ${spec.layerSizes.join('-')} trained on ${spec.datasetName} (${spec.samples.length} samples)`,
+  `${comment} One update per sample, loss summed over outputs.`
+].join('\n');
+
+// Fused output gradients (y - t) that SimpleNetwork uses instead of the chain rule
+const isFused = (spec: CodeSpec) => {
+  const output = spec.activations[spec.activations.length - 1];
+  return (output === 'SIGMOID' && spec.loss === 'BCE') || (output === 'SOFTMAX' && spec.loss === 'CCE');
+};
+
+// LR factor of the 0-based epoch `e` as a Python / TypeScript expression (null: constant rate)
+const SCHEDULE_FACTORS: Record<ScheduleKey, (p: ScheduleParams) => { py: string, ts: string } | null> = {
+  CONSTANT: () => null,
+  STEP: p => ({ py: `${num(p.gamma)} ** (e // ${num(p.stepSize)})`, ts: `${num(p.gamma)} ** Math.floor(e / ${num(p.stepSize)})` }),
+  EXPONENTIAL: p => ({ py: `${num(p.gamma)} ** (e / ${num(p.stepSize)})`, ts: `${num(p.gamma)} ** (e / ${num(p.stepSize)})` }),
+  COSINE: p => ({
+    py: `${num(p.minRatio)} + ${num(1 - p.minRatio)} * 0.5 * (1 + math.cos(math.pi * (e % ${num(p.period)}) / ${num(p.period)}))`,
+    ts: `${num(p.minRatio)} + ${num(1 - p.minRatio)} * 0.5 * (1 + Math.cos(Math.PI * (e % ${num(p.period)}) / ${num(p.period)}))`
+  }),
+  WARMUP: p => ({
+    py: `1.0 if e >= ${num(p.warmup)} else ${num(p.minRatio)} + ${num(1 - p.minRatio)} * e / ${num(p.warmup)}`,
+    ts: `e >= ${num(p.warmup)} ? 1 : ${num(p.minRatio)} + ${num(1 - p.minRatio)} * e / ${num(p.warmup)}`
+  }),
+  CYCLICAL: p => ({
+    py: `${num(p.minRatio)} + ${num(1 - p.minRatio)} * (1 - abs(2 * (e % ${num(p.period)}) / ${num(p.period)} - 1))`,
+    ts: `${num(p.minRatio)} + ${num(1 - p.minRatio)} * (1 - Math.abs(2 * (e % ${num(p.period)}) / ${num(p.period)} - 1))`
+  })
+};
+
+const scheduleFactor = (spec: CodeSpec) => SCHEDULE_FACTORS[spec.schedule.key](spec.schedule.params);
+
+// --- Custom activations ---
+
+const customTree = (key: CustomActivationKey) => parseExpression(customActivationFormula(key).expression);
+const customKeys = (spec: CodeSpec) => [...new Set(spec.activations.slice(1).filter(isCustomActivation))];
+
+const hasX = (tree: Expression): boolean => (
+  tree.type === 'x' || (tree.type === 'neg' && hasX(tree.arg)) || (tree.type === 'bin' && (hasX(tree.left) || hasX(tree.right)))
+  || (tree.type === 'call' && tree.args.some(hasX))
+);
+
+interface ExpressionSyntax {
+  // Every function expression.ts knows, given its rendered arguments and their trees
+  calls: Record<string, (args: string[], trees: Expression[]) => string>;
+  power: (base: string, exponent: string) => string;
+}
+
+// Fully bracketed, so no language's precedence rules (or JS's ban on -x ** 2) come into play
+const renderExpression = (tree: Expression, syntax: ExpressionSyntax): string => {
+  const render = (node: Expression) => renderExpression(node, syntax);
+  switch (tree.type) {
+    case 'num': return tree.value < 0 ? `(${Number(tree.value.toPrecision(12))})` : String(Number(tree.value.toPrecision(12)));
+    case 'x': return 'x';
+    case 'neg': return `(-${render(tree.arg)})`;
+    case 'call': return syntax.calls[tree.name](tree.args.map(render), tree.args);
+    case 'bin': return tree.op === '^' ? syntax.power(render(tree.left), render(tree.right)) : `(${render(tree.left)} ${tree.op} ${render(tree.right)})`;
+  }
+};
+
+// torch functions want tensors, so constant arguments are wrapped
+const torchCall = (name: string) => (args: string[], trees: Expression[]) => (
+  `${name}(${args.map((arg, i) => (hasX(trees[i]) ? arg : `torch.as_tensor(${arg}, dtype=torch.float32)`)).join(', ')})`
+);
+
+const TORCH_SYNTAX: ExpressionSyntax = {
+  calls: {
+    sigmoid: torchCall('torch.sigmoid'),
+    tanh: torchCall('torch.tanh'),
+    exp: torchCall('torch.exp'),
+    log: torchCall('torch.log'),
+    sqrt: torchCall('torch.sqrt'),
+    sin: torchCall('torch.sin'),
+    cos: torchCall('torch.cos'),
+    softplus: torchCall('nn.functional.softplus'),
+    relu: torchCall('torch.relu'),
+    abs: torchCall('torch.abs'),
+    step: ([u], [tree]) => (hasX(tree) ? `(${u} > 0).float()` : `torch.as_tensor(float(${u} > 0))`),
+    sign: torchCall('torch.sign'),
+    max: torchCall('torch.maximum'),
+    min: torchCall('torch.minimum')
+  },
+  power: (base, exponent) => `(${base} ** ${exponent})`
+};
+
+// TF ops refuse Python ints, so constant arguments become floats
+const tfCall = (name: string) => (args: string[], trees: Expression[]) => (
+  `${name}(${args.map((arg, i) => (hasX(trees[i]) ? arg : `float(${arg})`)).join(', ')})`
+);
+
+const TF_SYNTAX: ExpressionSyntax = {
+  calls: {
+    sigmoid: tfCall('tf.sigmoid'),
+    tanh: tfCall('tf.tanh'),
+    exp: tfCall('tf.exp'),
+    log: tfCall('tf.math.log'),
+    sqrt: tfCall('tf.sqrt'),
+    sin: tfCall('tf.sin'),
+    cos: tfCall('tf.cos'),
+    softplus: tfCall('tf.nn.softplus'),
+    relu: tfCall('tf.nn.relu'),
+    abs: tfCall('tf.abs'),
+    step: ([u], [tree]) => (hasX(tree) ? `tf.cast(${u} > 0, x.dtype)` : `float(${u} > 0)`),
+    sign: tfCall('tf.sign'),
+    max: tfCall('tf.maximum'),
+    min: tfCall('tf.minimum')
+  },
+  power: (base, exponent) => `(${base} ** ${exponent})`
+};
+
+const mathCall = (name: string) => (args: string[]) => `Math.${name}(${args.join(', ')})`;
+
+const TS_SYNTAX: ExpressionSyntax = {
+  calls: {
+    sigmoid: ([u]) => `(1 / (1 + Math.exp(-${u})))`,
+    tanh: mathCall('tanh'),
+    exp: mathCall('exp'),
+    log: mathCall('log'),
+    sqrt: mathCall('sqrt'),
+    sin: mathCall('sin'),
+    cos: mathCall('cos'),
+    softplus: ([u]) => `(Math.max(${u}, 0) + Math.log1p(Math.exp(-Math.abs(${u}))))`,
+    relu: ([u]) => `Math.max(0, ${u})`,
+    abs: mathCall('abs'),
+    step: ([u]) => `(${u} > 0 ? 1 : 0)`,
+    sign: mathCall('sign'),
+    max: mathCall('max'),
+    min: mathCall('min')
+  },
+  power: (base, exponent) => `(${base} ** ${exponent})`
+};
+
+// Layer l + 1's kind with the grids it reads and writes
+const layerAt = (spec: CodeSpec, l: number) => {
+  const shapes = spec.shapes ?? spec.layerSizes.map(flatShape);
+  return { layer: spec.layers?.[l + 1] ?? { kind: 'DENSE' } as LayerSpec, input: shapes[l], output: shapes[l + 1] };
+};
+
+const hasGrids = (spec: CodeSpec) => !!spec.layers?.some(layer => layer.kind !== 'DENSE');
+
+// Dropout rate after layer l + 1's activation (hidden layers only)
+const dropoutAt = (spec: CodeSpec, l: number) => (l + 2 < spec.layerSizes.length ? spec.dropout?.[l + 1] ?? 0 : 0);
+const hasDropout = (spec: CodeSpec) => spec.layerSizes.slice(1).some((_, l) => dropoutAt(spec, l) > 0);
+
+const regularizationOf = (spec: CodeSpec) => {
+  const regularization = spec.regularization ?? NO_REGULARIZATION;
+  return regularization.l1 || regularization.l2 ? regularization : null;
+};
+
+// Layers whose outputs are added to layer `to`'s pre-activations
+const skipsInto = (spec: CodeSpec, to: number) => (spec.skips ?? []).filter(skip => skip.to === to).map(skip => skip.from);
+const hasSkips = (spec: CodeSpec) => !!spec.skips?.length;
+
+// --- PyTorch ---
+
+const TORCH_ACTIVATIONS: Record<ActivationKey, string> = {
+  SIGMOID: 'nn.Sigmoid()',
+  TANH: 'nn.Tanh()',
+  RELU: 'nn.ReLU()',
+  LEAKY_RELU: 'nn.LeakyReLU(0.01)',
+  ELU: 'nn.ELU(alpha=1.0)',
+  SOFTMAX: 'nn.Softmax(dim=1)'
+};
+
+const TORCH_LOSSES: Record<LossKey, string> = {
+  MSE: 'def loss_fn(y, t):\n    return 0.5 * ((y - t) ** 2).sum()',
+  BCE: 'loss_fn = nn.BCELoss(reduction="sum")',
+  CCE: 'def loss_fn(y, t):\n    return -(t * y.clamp_min(1e-7).log()).sum()',
+  HUBER: 'loss_fn = nn.HuberLoss(reduction="sum", delta=1.0)'
+};
+
+const TORCH_OPTIMIZERS: Record<OptimizerKey, (lr: string, hp: OptimizerParams) => string> = {
+  SGD: lr => `torch.optim.SGD(model.parameters(), lr=${lr})`,
+  MOMENTUM: (lr, hp) => `torch.optim.SGD(model.parameters(), lr=${lr}, momentum=${num(hp.momentum)})`,
+  NESTEROV: (lr, hp) => `torch.optim.SGD(model.parameters(), lr=${lr}, momentum=${num(hp.momentum)}, nesterov=True)`,
+  RMSPROP: (lr, hp) => `torch.optim.RMSprop(model.parameters(), lr=${lr}, alpha=${num(hp.rho)}, eps=${num(hp.epsilon)})`,
+  ADAM: (lr, hp) => `torch.optim.Adam(model.parameters(), lr=${lr}, betas=(${num(hp.beta1)}, ${num(hp.beta2)}), eps=${num(hp.epsilon)})`
+};
+
+const TORCH_CLIPPING: Record<GradientClipping['mode'], (threshold: string) => string> = {
+  NONE: () => '',
+  VALUE: t => `        nn.utils.clip_grad_value_(model.parameters(), ${t})\n`,
+  NORM: t => `        nn.utils.clip_grad_norm_(model.parameters(), ${t})\n`
+};
+
+const torchActivation = (key: ActivationKey) => (
+  isCustomActivation(key) ? `Activation(lambda x: ${renderExpression(customTree(key), TORCH_SYNTAX)})` : TORCH_ACTIVATIONS[key]
+);
+
+const TORCH_CUSTOM = `
+# Custom activations, written out from their expressions
+class Activation(nn.Module):
+    def __init__(self, f):
+        super().__init__()
+        self.f = f
+
+    def forward(self, x):
+        return self.f(x)
+
+`;
+
+const TORCH_GRIDS = `
+# Conv and pool layers lay their neurons out row by row with the channels side by side:
+# (N, height * channels * width) <-> (N, channels, height, width)
+class ToGrid(nn.Module):
+    def __init__(self, height, width, channels):
+        super().__init__()
+        self.shape = (-1, height, channels, width)
+
+    def forward(self, x):
+        return x.reshape(self.shape).permute(0, 2, 1, 3)
+
+
+class FromGrid(nn.Module):
+    def forward(self, x):
+        return x.permute(0, 2, 1, 3).flatten(1)
+
+
+`;
+
+const TORCH_RESIDUAL = `
+# Runs the layers in turn, adding the outputs of the earlier layers in skips[l] to layer l's pre-activations
+class Residual(nn.Module):
+    def __init__(self, layers, activations, skips):
+        super().__init__()
+        self.layers = nn.ModuleList(layers)
+        self.activations = nn.ModuleList(activations)
+        self.skips = skips
+
+    def forward(self, x):
+        values = [x]
+        for l, (layer, activation) in enumerate(zip(self.layers, self.activations), start=1):
+            z = layer(values[-1]) + sum(values[source] for source in self.skips.get(l, []))
+            values.append(activation(z))
+        return values[-1]
+
+`;
+
+// Modules computing layer l + 1's pre-activations from layer l's outputs
+const torchLayer = (spec: CodeSpec, l: number): string[] => {
+  const { layer, input } = layerAt(spec, l);
+  if (layer.kind === 'DENSE') return [`nn.Linear(${spec.layerSizes[l]}, ${spec.layerSizes[l + 1]})`];
+  const op = layer.kind === 'CONV'
+    ? `nn.Conv2d(${input.channels}, ${layer.channels}, ${layer.kernel}, stride=${layer.stride}, padding=${layer.padding})`
+    : `nn.${layer.mode === 'MAX' ? 'Max' : 'Avg'}Pool2d(${layer.size}, stride=${layer.stride})`;
+  return [`ToGrid(${input.height}, ${input.width}, ${input.channels})`, op, 'FromGrid()'];
+};
+
+// L1/L2 on the weights only (not the biases), added to every sample's loss as the Architect does
+const torchPenalty = ({ l1, l2 }: Regularization) => `
+L1, L2 = ${num(l1)}, ${num(l2)}
+
+
+def penalty():
+    weights = [m.weight for m in model.modules() if isinstance(m, (nn.Linear, nn.Conv2d))]
+    return sum(L1 * w.abs().sum() + 0.5 * L2 * (w ** 2).sum() for w in weights)
+
+`;
+
+// Modules computing layer l + 1's outputs from its pre-activations
+const torchAfter = (spec: CodeSpec, l: number) => [
+  torchActivation(spec.activations[l + 1]),
+  ...(dropoutAt(spec, l) ? [`nn.Dropout(${num(dropoutAt(spec, l))})`] : [])
+];
+
+const torchSequential = (modules: string[]) => (modules.length === 1 ? modules[0] : `nn.Sequential(${modules.join(', ')})`);
+
+const torchModel = (spec: CodeSpec) => {
+  const indices = spec.layerSizes.slice(1).map((_, l) => l);
+  if (!hasSkips(spec)) {
+    return `nn.Sequential(\n${indices.flatMap(l => [...torchLayer(spec, l), ...torchAfter(spec, l)]).map(m => `    ${m},`).join('\n')}\n)`;
+  }
+  const sources = indices.flatMap(l => (skipsInto(spec, l + 1).length ? [`${l + 1}: [${skipsInto(spec, l + 1).join(', ')}]`] : []));
+  return `Residual(
+    [
+${indices.map(l => `        ${torchSequential(torchLayer(spec, l))},`).join('\n')}
+    ],
+    [
+${indices.map(l => `        ${torchSequential(torchAfter(spec, l))},`).join('\n')}
+    ],
+    {${sources.join(', ')}},
+)`;
+};
+
+const pytorch = (spec: CodeSpec) => {
+  const factor = scheduleFactor(spec);
+  const clipping = spec.clipping ?? NO_CLIPPING;
+  const regularization = regularizationOf(spec);
+  const penalty = regularization ? ' + penalty()' : '';
+  const dropout = hasDropout(spec);
+  return `${describe(spec, '#')}
+${factor ? 'import math\n' : ''}import torch
+from torch import nn
+
+X = torch.tensor(${matrix(spec.samples.map(s => s.input), '    ')})
+Y = torch.tensor(${matrix(spec.samples.map(s => s.target), '    ')})
+${customKeys(spec).length ? TORCH_CUSTOM : ''}${hasSkips(spec) ? TORCH_RESIDUAL : ''}${hasGrids(spec) ? TORCH_GRIDS : '\n'}model = ${torchModel(spec)}
+${regularization ? torchPenalty(regularization) : ''}
+${TORCH_LOSSES[spec.loss]}
+optimizer = ${TORCH_OPTIMIZERS[spec.optimizer](num(spec.learningRate), spec.optimizerParams)}
+${factor ? `scheduler = torch.optim.lr_scheduler.LambdaLR(optimizer, lambda e: ${factor.py})\n` : ''}
+for epoch in range(1, ${spec.epochs + 1}):
+${dropout ? '    model.train()\n' : ''}    for i in torch.randperm(len(X)):
+        optimizer.zero_grad()
+        loss = loss_fn(model(X[i:i + 1]), Y[i:i + 1])${penalty}
+        loss.backward()
+${TORCH_CLIPPING[clipping.mode](num(clipping.threshold))}        optimizer.step()
+${factor ? '    scheduler.step()\n' : ''}    if epoch % ${Math.max(1, Math.round(spec.epochs / 10))} == 0:
+${dropout ? '        model.eval()\n' : ''}        with torch.no_grad():
+            print(f"epoch {epoch} loss {loss_fn(model(X), Y).item() / len(X)${regularization ? ' + penalty().item()' : ''}:.5f}")
+`;
+};
+
+// --- Keras ---
+
+// The activation argument a Dense layer takes (null: none fits) and the activation as a layer of its own
+const kerasNamed = (name: string) => ({ name, layer: `keras.layers.Activation("${name}")` });
+const KERAS_ACTIVATIONS: Record<ActivationKey, { name: string | null, layer: string }> = {
+  SIGMOID: kerasNamed('sigmoid'),
+  TANH: kerasNamed('tanh'),
+  RELU: kerasNamed('relu'),
+  LEAKY_RELU: { name: null, layer: 'keras.layers.LeakyReLU(negative_slope=0.01)' },
+  ELU: kerasNamed('elu'),
+  SOFTMAX: kerasNamed('softmax')
+};
+
+const kerasActivation = (key: ActivationKey) => (
+  isCustomActivation(key) ? { name: null, layer: `keras.layers.Activation(lambda x: ${renderExpression(customTree(key), TF_SYNTAX)})` } : KERAS_ACTIVATIONS[key]
+);
+
+// Layers computing layer l + 1's pre-activations from layer l's outputs, then its outputs from those
+// (a Dense layer takes a named activation itself unless a skip connection comes in between).
+// Grids go (height, channels, width) -> channels-last (height, width, channels) for Conv2D / pooling
+// and back before flattening.
+const kerasLayer = (spec: CodeSpec, l: number): { weighted: string[], after: string[] } => {
+  const { layer, input } = layerAt(spec, l);
+  const activation = kerasActivation(spec.activations[l + 1]);
+  const regularizer = regularizationOf(spec) ? ', kernel_regularizer=regularizer' : '';
+  const dropout = dropoutAt(spec, l) ? [`keras.layers.Dropout(${num(dropoutAt(spec, l))})`] : [];
+  if (layer.kind === 'DENSE') {
+    const units = spec.layerSizes[l + 1];
+    return activation.name && !skipsInto(spec, l + 1).length
+      ? { weighted: [`keras.layers.Dense(${units}, activation="${activation.name}"${regularizer})`], after: dropout }
+      : { weighted: [`keras.layers.Dense(${units}${regularizer})`], after: [activation.layer, ...dropout] };
+  }
+  const ops = layer.kind === 'CONV'
+    ? [...(layer.padding ? [`keras.layers.ZeroPadding2D(${layer.padding})`] : []), `keras.layers.Conv2D(${layer.channels}, ${layer.kernel}, strides=${layer.stride}${regularizer})`]
+    : [`keras.layers.${layer.mode === 'MAX' ? 'Max' : 'Average'}Pooling2D(${layer.size}, strides=${layer.stride})`];
+  return {
+    weighted: [
+      `keras.layers.Reshape((${input.height}, ${input.channels}, ${input.width}))`,
+      'keras.layers.Permute((1, 3, 2))',
+      ...ops,
+      'keras.layers.Permute((1, 3, 2))',
+      'keras.layers.Flatten()'
+    ],
+    after: [activation.layer, ...dropout]
+  };
+};
+
+// h{l} holds layer l's outputs; skips are added to a layer's pre-activations before its activation
+const kerasFunctional = (spec: CodeSpec) => [
+  `h0 = keras.Input(shape=(${spec.layerSizes[0]},))`,
+  ...spec.layerSizes.slice(1).flatMap((_, l) => {
+    const { weighted, after } = kerasLayer(spec, l);
+    const h = `h${l + 1}`;
+    const sources = skipsInto(spec, l + 1);
+    return [
+      ...weighted.map((layer, i) => `${h} = ${layer}(${i ? h : `h${l}`})`),
+      ...(sources.length ? [`${h} = keras.layers.Add()([${[h, ...sources.map(from => `h${from}`)].join(', ')}])`] : []),
+      ...after.map(layer => `${h} = ${layer}(${h})`)
+    ];
+  }),
+  `model = keras.Model(h0, h${spec.layerSizes.length - 1})`
+].join('\n');
+
+// Keras averages most losses over the outputs; scale back up to the Architect's sum
+const KERAS_LOSSES: Record<LossKey, (outputs: number) => string> = {
+  MSE: () => 'def loss_fn(y_true, y_pred):\n    return 0.5 * keras.ops.sum(keras.ops.square(y_pred - y_true), axis=-1)',
+  BCE: outputs => `def loss_fn(y_true, y_pred):\n    return ${outputs} * keras.losses.binary_crossentropy(y_true, y_pred)`,
+  CCE: () => 'loss_fn = keras.losses.CategoricalCrossentropy()',
+  HUBER: outputs => `def loss_fn(y_true, y_pred):\n    return ${outputs} * keras.losses.huber(y_true, y_pred, delta=1.0)`
+};
+
+const KERAS_OPTIMIZERS: Record<OptimizerKey, (lr: string, hp: OptimizerParams, clip: string) => string> = {
+  SGD: (lr, _, clip) => `keras.optimizers.SGD(learning_rate=${lr}${clip})`,
+  MOMENTUM: (lr, hp, clip) => `keras.optimizers.SGD(learning_rate=${lr}, momentum=${num(hp.momentum)}${clip})`,
+  NESTEROV: (lr, hp, clip) => `keras.optimizers.SGD(learning_rate=${lr}, momentum=${num(hp.momentum)}, nesterov=True${clip})`,
+  RMSPROP: (lr, hp, clip) => `keras.optimizers.RMSprop(learning_rate=${lr}, rho=${num(hp.rho)}, epsilon=${num(hp.epsilon)}${clip})`,
+  ADAM: (lr, hp, clip) => `keras.optimizers.Adam(learning_rate=${lr}, beta_1=${num(hp.beta1)}, beta_2=${num(hp.beta2)}, epsilon=${num(hp.epsilon)}${clip})`
+};
+
+// Keras optimizers take clipping as a constructor argument
+const KERAS_CLIPPING: Record<GradientClipping['mode'], (threshold: string) => string> = {
+  NONE: () => '',
+  VALUE: t => `, clipvalue=${t}`,
+  NORM: t => `, global_clipnorm=${t}`
+};
+
+const kerasCode = (spec: CodeSpec) => {
+  const outputs = spec.layerSizes[spec.layerSizes.length - 1];
+  const layers = [
+    `keras.Input(shape=(${spec.layerSizes[0]},))`,
+    ...spec.layerSizes.slice(1).flatMap((_, l) => {
+      const { weighted, after } = kerasLayer(spec, l);
+      return [...weighted, ...after];
+    })
+  ];
+  const factor = scheduleFactor(spec);
+  const clipping = spec.clipping ?? NO_CLIPPING;
+  const callbacks = factor ? `, callbacks=[keras.callbacks.LearningRateScheduler(lambda e: ${num(spec.learningRate)} * (${factor.py}))]` : '';
+  const regularization = regularizationOf(spec);
+  return `${describe(spec, '#')}
+${factor ? 'import math\n' : ''}import numpy as np
+${customKeys(spec).length ? 'import tensorflow as tf\n' : ''}import keras
+
+X = np.array(${matrix(spec.samples.map(s => s.input), '    ')}, dtype="float32")
+Y = np.array(${matrix(spec.samples.map(s => s.target), '    ')}, dtype="float32")
+${regularization
+    // Keras's L2 penalty is l2·Σw², the Architect's 0.5·l2·Σw²
+    ? `\n# Weight decay on the kernels only, added to each sample's loss\nregularizer = keras.regularizers.L1L2(l1=${num(regularization.l1)}, l2=${num(regularization.l2 / 2)})\n`
+    : ''}
+${hasSkips(spec) ? kerasFunctional(spec) : `model = keras.Sequential([\n${layers.map(l => `    ${l},`).join('\n')}\n])`}
+
+${KERAS_LOSSES[spec.loss](outputs)}
+model.compile(optimizer=${KERAS_OPTIMIZERS[spec.optimizer](num(spec.learningRate), spec.optimizerParams, KERAS_CLIPPING[clipping.mode](num(clipping.threshold)))}, loss=loss_fn)
+model.fit(X, Y, epochs=${spec.epochs}, batch_size=1, shuffle=True, verbose=2${callbacks})
+`;
+};
+
+// --- Dependency-free TypeScript ---
+
+// Whole-layer activation (pre-activations -> outputs) and derivative from the outputs (null: output-only)
+// or, for custom activations, from the outputs and pre-activations
+const TS_ACTIVATIONS: Record<ActivationKey, { name: string, code: string, deriv: string | null }> = {
+  SIGMOID: { name: 'sigmoid', code: '(z: Vec): Vec => z.map(v => 1 / (1 + Math.exp(-v)))', deriv: '(y: number) => y * (1 - y)' },
+  TANH: { name: 'tanh', code: '(z: Vec): Vec => z.map(Math.tanh)', deriv: '(y: number) => 1 - y * y' },
+  RELU: { name: 'relu', code: '(z: Vec): Vec => z.map(v => Math.max(0, v))', deriv: '(y: number) => y > 0 ? 1 : 0' },
+  LEAKY_RELU: { name: 'leakyRelu', code: '(z: Vec): Vec => z.map(v => Math.max(0.01 * v, v))', deriv: '(y: number) => y > 0 ? 1 : 0.01' },
+  ELU: { name: 'elu', code: '(z: Vec): Vec => z.map(v => v >= 0 ? v : Math.exp(v) - 1)', deriv: '(y: number) => y > 0 ? 1 : y + 1' },
+  SOFTMAX: {
+    name: 'softmax',
+    code: '(z: Vec): Vec => {\n  const max = Math.max(...z);\n  const exps = z.map(v => Math.exp(v - max));\n  const total = exps.reduce((a, b) => a + b, 0);\n  return exps.map(e => e / total);\n}',
+    deriv: null
+  }
+};
+
+// Per-sample loss and its gradient with respect to the outputs
+const TS_LOSSES: Record<LossKey, { loss: string, grad: string }> = {
+  MSE: {
+    loss: 'y.reduce((sum, v, i) => sum + 0.5 * (v - t[i]) ** 2, 0)',
+    grad: 'y.map((v, i) => v - t[i])'
+  },
+  BCE: {
+    loss: 'y.reduce((sum, v, i) => { const p = clamp(v); return sum - (t[i] * Math.log(p) + (1 - t[i]) * Math.log(1 - p)); }, 0)',
+    grad: 'y.map((v, i) => { const p = clamp(v); return (p - t[i]) / (p * (1 - p)); })'
+  },
+  CCE: {
+    loss: 'y.reduce((sum, v, i) => sum - t[i] * Math.log(clamp(v)), 0)',
+    grad: 'y.map((v, i) => -t[i] / clamp(v))'
+  },
+  HUBER: {
+    loss: 'y.reduce((sum, v, i) => { const e = Math.abs(v - t[i]); return sum + (e <= 1 ? 0.5 * e * e : e - 0.5); }, 0)',
+    grad: 'y.map((v, i) => Math.max(-1, Math.min(1, v - t[i])))'
+  }
+};
+
+// Body of update(m, v, i, g): returns the parameter delta and updates the moments in place
+const TS_OPTIMIZERS: Record<OptimizerKey, (hp: OptimizerParams) => string> = {
+  SGD: () => 'return -learningRate * g;',
+  MOMENTUM: hp => `m[i] = ${num(hp.momentum)} * m[i] + g;\n  return -learningRate * m[i];`,
+  NESTEROV: hp => `m[i] = ${num(hp.momentum)} * m[i] + g;\n  return -learningRate * (g + ${num(hp.momentum)} * m[i]);`,
+  RMSPROP: hp => `v[i] = ${num(hp.rho)} * v[i] + ${num(1 - hp.rho)} * g * g;\n  return -learningRate * g / (Math.sqrt(v[i]) + ${num(hp.epsilon)});`,
+  ADAM: hp => [
+    `m[i] = ${num(hp.beta1)} * m[i] + ${num(1 - hp.beta1)} * g;`,
+    `v[i] = ${num(hp.beta2)} * v[i] + ${num(1 - hp.beta2)} * g * g;`,
+    `const mHat = m[i] / (1 - ${num(hp.beta1)} ** step);`,
+    `const vHat = v[i] / (1 - ${num(hp.beta2)} ** step);`,
+    `return -learningRate * mHat / (Math.sqrt(vHat) + ${num(hp.epsilon)});`
+  ].join('\n  ')
+};
+
+// Statements run before the update, and how each gradient passes through them
+const TS_CLIPPING: Record<GradientClipping['mode'], { code: (threshold: string) => string, grad: (g: string) => string }> = {
+  NONE: { code: () => '', grad: g => g },
+  VALUE: { code: t => `  const clip = (g: number) => Math.max(-${t}, Math.min(${t}, g));\n`, grad: g => `clip(${g})` },
+  NORM: {
+    code: t => [
+      '  const norm = Math.sqrt([...gW, ...gB].reduce((sum, g) => sum + g.reduce((s, v) => s + v * v, 0), 0));',
+      `  const scale = norm > ${t} ? ${t} / norm : 1;\n`
+    ].join('\n'),
+    grad: g => `scale * ${g}`
+  }
+};
+
+// Builders of each layer's links, as layers.ts connects them (only the kinds the network uses are written)
+const TS_LAYER_KINDS: Record<LayerSpec['kind'], string> = {
+  DENSE: `const dense = (inputs: number, size: number): Connections => {
+  const links: Link[] = [];
+  for (let from = 0; from < inputs; from++) for (let to = 0; to < size; to++) links.push({ from, to, weight: from * size + to });
+  return { size, links, weights: inputs * size, biases: size, biasOf: to => to, fanIn: inputs, pool: null, area: 1 };
+};`,
+  CONV: `// Every input channel's kernel x kernel window (zero-padded); each filter's weights are shared by all positions
+const conv = (input: Shape, output: Shape, kernel: number, stride: number, padding: number): Connections => {
+  const [height, width, channels] = output;
+  const links: Link[] = [];
+  for (let c = 0; c < channels; c++) for (let y = 0; y < height; y++) for (let x = 0; x < width; x++) {
+    for (let ci = 0; ci < input[2]; ci++) for (let ky = 0; ky < kernel; ky++) for (let kx = 0; kx < kernel; kx++) {
+      const iy = y * stride - padding + ky, ix = x * stride - padding + kx;
+      if (iy < 0 || iy >= input[0] || ix < 0 || ix >= input[1]) continue;
+      links.push({ from: at(input, ci, iy, ix), to: at(output, c, y, x), weight: ((ci * kernel + ky) * kernel + kx) * channels + c });
+    }
+  }
+  const biasOf = (to: number) => Math.floor((to % (width * channels)) / width);
+  return { size: height * width * channels, links, weights: input[2] * kernel * kernel * channels, biases: channels, biasOf, fanIn: input[2] * kernel * kernel, pool: null, area: 1 };
+};`,
+  POOL: `// The max or mean of each size x size window, channel by channel; no parameters
+const pool = (input: Shape, output: Shape, size: number, stride: number, mode: 'MAX' | 'AVG'): Connections => {
+  const [height, width, channels] = output;
+  const links: Link[] = [];
+  for (let c = 0; c < channels; c++) for (let y = 0; y < height; y++) for (let x = 0; x < width; x++) {
+    for (let ky = 0; ky < size; ky++) for (let kx = 0; kx < size; kx++) {
+      links.push({ from: at(input, c, y * stride + ky, x * stride + kx), to: at(output, c, y, x), weight: -1 });
+    }
+  }
+  return { size: height * width * channels, links, weights: 0, biases: 0, biasOf: () => -1, fanIn: 1, pool: mode, area: size * size };
+};`
+};
+
+const tsShape = (shape: LayerShape) => `[${shape.height}, ${shape.width}, ${shape.channels}]`;
+
+// Layer l + 1's builder call
+const tsLayer = (spec: CodeSpec, l: number) => {
+  const { layer, input, output } = layerAt(spec, l);
+  if (layer.kind === 'DENSE') return `dense(${spec.layerSizes[l]}, ${spec.layerSizes[l + 1]})`;
+  if (layer.kind === 'CONV') return `conv(${tsShape(input)}, ${tsShape(output)}, ${layer.kernel}, ${layer.stride}, ${layer.padding})`;
+  return `pool(${tsShape(input)}, ${tsShape(output)}, ${layer.size}, ${layer.stride}, '${layer.mode}')`;
+};
+
+const tsActivation = (spec: CodeSpec, key: ActivationKey) => {
+  if (!isCustomActivation(key)) return TS_ACTIVATIONS[key];
+  const tree = customTree(key);
+  return {
+    name: `custom${customKeys(spec).indexOf(key) + 1}`,
+    code: `(z: Vec): Vec => z.map(x => ${renderExpression(tree, TS_SYNTAX)})`,
+    deriv: `(y: number, x: number) => ${renderExpression(differentiate(tree), TS_SYNTAX)}`
+  };
+};
+
+const typescript = (spec: CodeSpec) => {
+  const layerActs = spec.activations.slice(1).map(key => tsActivation(spec, key));
+  const used = [...new Set(spec.activations.slice(1))].map(key => tsActivation(spec, key));
+  const output = layerActs[layerActs.length - 1];
+  const outputDelta = isFused(spec)
+    ? 'y.map((v, i) => v - t[i])'
+    : output.deriv
+      ? `lossGrad(y, t).map((g, i) => g * ${output.name}Deriv(y[i]${isCustomActivation(spec.activations[spec.activations.length - 1]) ? ', z[i]' : ''}))`
+      : '(g => { const dot = y.reduce((s, v, j) => s + v * g[j], 0); return y.map((v, i) => v * (g[i] - dot)); })(lossGrad(y, t))';
+  const factor = scheduleFactor(spec);
+  const clipping = spec.clipping ?? NO_CLIPPING;
+  const clipGrad = TS_CLIPPING[clipping.mode].grad;
+  const definitions = used.flatMap(a => [`const ${a.name} = ${a.code};`, ...(a.deriv ? [`const ${a.name}Deriv = ${a.deriv};`] : [])]);
+  const kinds = [...new Set(spec.layerSizes.slice(1).map((_, l) => layerAt(spec, l).layer.kind))];
+  const regularization = regularizationOf(spec);
+  const skipped = hasSkips(spec);
+
+  return `${describe(spec, '//')}
+type Vec = number[];
+
+const X: Vec[] = ${matrix(spec.samples.map(s => s.input), '    ')};
+const Y: Vec[] = ${matrix(spec.samples.map(s => s.target), '    ')};
+
+${factor
+    ? `const baseRate = ${num(spec.learningRate)};\nconst rateAt = (e: number) => baseRate * (${factor.ts});\nlet learningRate = baseRate;`
+    : `const learningRate = ${num(spec.learningRate)};`}
+const epochs = ${spec.epochs};
+${regularization ? `const l1 = ${num(regularization.l1)}, l2 = ${num(regularization.l2)}; // Weight decay (not on biases)\n` : ''}
+// Activations map a layer's pre-activations to outputs; derivatives take the outputs (and custom ones the pre-activations too)
+${definitions.join('\n')}
+
+// Each layer reads neuron \`from\` of the layer before into its neuron \`to\` through weights[weight] (-1: pooling).
+// Grids are [height, width, channels] with the channels side by side along each row.
+type Link = { from: number, to: number, weight: number };
+type Shape = [number, number, number];
+interface Connections { size: number, links: Link[], weights: number, biases: number, biasOf: (to: number) => number, fanIn: number, pool: 'MAX' | 'AVG' | null, area: number }
+const at = ([, width, channels]: Shape, c: number, y: number, x: number) => y * width * channels + c * width + x;
+
+${kinds.map(kind => TS_LAYER_KINDS[kind]).join('\n\n')}
+
+const layers = [
+${spec.layerSizes.slice(1).map((_, l) => `  { ...${tsLayer(spec, l)}, activate: ${layerActs[l].name}, deriv: ${layerActs[l].deriv ? `${layerActs[l].name}Deriv` : 'null'}, dropout: ${num(dropoutAt(spec, l))} },`).join('\n')}
+];
+${skipped ? `
+// Layer \`from\`'s outputs are added to layer \`to\`'s pre-activations
+const skips = [${spec.skips!.map(({ from, to }) => `{ from: ${from}, to: ${to} }`).join(', ')}];
+` : ''}
+const clamp = (p: number) => Math.max(1e-7, Math.min(1 - 1e-7, p));
+const loss = (y: Vec, t: Vec) => ${TS_LOSSES[spec.loss].loss};
+const lossGrad = (y: Vec, t: Vec): Vec => ${TS_LOSSES[spec.loss].grad};
+const outputDelta = (y: Vec, z: Vec, t: Vec): Vec => ${outputDelta};
+
+const W = layers.map(layer => Array.from({ length: layer.weights }, () => (Math.random() * 2 - 1) / Math.sqrt(layer.fanIn)));
+const B = layers.map(layer => new Array(layer.biases).fill(0.01));
+const mW = W.map(w => w.map(() => 0)), vW = W.map(w => w.map(() => 0));
+const mB = B.map(b => b.map(() => 0)), vB = B.map(b => b.map(() => 0));
+let step = 0;
+
+const update = (m: Vec, v: Vec, i: number, g: number): number => {
+  ${TS_OPTIMIZERS[spec.optimizer](spec.optimizerParams)}
+};
+
+// Pre-activations of layer l + 1 from the outputs x of layer l
+const weighted = (l: number, x: Vec): Vec => {
+  const layer = layers[l];
+  if (layer.pool === 'MAX') {
+    const z = new Array(layer.size).fill(-Infinity);
+    layer.links.forEach(({ from, to }) => { z[to] = Math.max(z[to], x[from]); });
+    return z;
+  }
+  const z = Array.from({ length: layer.size }, (_, to) => (layer.biasOf(to) >= 0 ? B[l][layer.biasOf(to)] : 0));
+  layer.links.forEach(({ from, to, weight }) => { z[to] += x[from] * (weight >= 0 ? W[l][weight] : 1 / layer.area); });
+  return z;
+};
+
+// Adds layer l's gradients for the errors of layer l + 1 to gW / gB and returns the errors at layer l's outputs
+const pullBack = (l: number, x: Vec, delta: Vec, gW: Vec, gB: Vec): Vec => {
+  const layer = layers[l];
+  const back = new Array(x.length).fill(0);
+  const pooled = layer.pool === 'MAX' ? weighted(l, x) : [];
+  const routed = new Set<number>(); // A max pool passes its error to the first input that won
+  layer.links.forEach(({ from, to, weight }) => {
+    if (layer.pool === 'MAX') {
+      if (!routed.has(to) && x[from] === pooled[to]) { routed.add(to); back[from] += delta[to]; }
+    } else if (weight < 0) {
+      back[from] += delta[to] / layer.area;
+    } else {
+      gW[weight] += x[from] * delta[to];
+      back[from] += W[l][weight] * delta[to];
+    }
+  });
+  delta.forEach((d, to) => { if (layer.biasOf(to) >= 0) gB[layer.biasOf(to)] += d; });
+  return back;
+};
+
+// Training passes drop each neuron at its layer's dropout rate and scale the rest by 1 / (1 - rate)
+const forward = (x: Vec, training = false) => {
+  const values = [x];
+  const pres = [x];
+  const masks = [x.map(() => 1)];
+  layers.forEach((layer, l) => {
+    pres.push(weighted(l, values[l]));
+${skipped ? '    skips.forEach(({ from, to }) => { if (to === l + 1) values[from].forEach((v, k) => { pres[l + 1][k] += v; }); });\n' : ''}    masks.push(pres[l + 1].map(() => (!training || !layer.dropout ? 1 : Math.random() < layer.dropout ? 0 : 1 / (1 - layer.dropout))));
+    values.push(layer.activate(pres[l + 1]).map((v, j) => v * masks[l + 1][j]));
+  });
+  return { values, pres, masks };
+};
+${regularization ? `
+const penalty = () => W.reduce((sum, w) => sum + w.reduce((s, v) => s + l1 * Math.abs(v) + 0.5 * l2 * v * v, 0), 0);
+` : ''}
+const train = (x: Vec, t: Vec) => {
+  const { values, pres, masks } = forward(x, true);
+  const gW = W.map(w => w.map(() => 0)), gB = B.map(b => b.map(() => 0));
+  // Error terms layer by layer, pulled back through the pre-update weights
+  const deltas: Vec[] = [];
+  deltas[layers.length] = outputDelta(values[layers.length], pres[layers.length], t);
+  for (let l = layers.length - 1; l >= 0; l--) {
+    const back = pullBack(l, values[l], deltas[l + 1], gW[l], gB[l]);
+${skipped ? '    // Plus the errors of the layers this one skips to, unchanged\n    skips.forEach(({ from, to }) => { if (from === l) deltas[to].forEach((d, k) => { back[k] += d; }); });\n' : ''}    // A kept neuron's value is its activation times the mask
+    if (l > 0) deltas[l] = back.map((e, k) => (masks[l][k] ? e * masks[l][k] * layers[l - 1].deriv!(values[l][k] / masks[l][k], pres[l][k]) : 0));
+  }
+${regularization ? '  gW.forEach((g, l) => g.forEach((_, p) => { g[p] += l1 * Math.sign(W[l][p]) + l2 * W[l][p]; }));\n' : ''}${TS_CLIPPING[clipping.mode].code(num(clipping.threshold))}  step++;
+  W.forEach((w, l) => w.forEach((_, p) => { w[p] += update(mW[l], vW[l], p, ${clipGrad('gW[l][p]')}); }));
+  B.forEach((b, l) => b.forEach((_, j) => { b[j] += update(mB[l], vB[l], j, ${clipGrad('gB[l][j]')}); }));
+};
+
+const meanLoss = () => X.reduce((sum, x, i) => sum + loss(forward(x).values[layers.length], Y[i]), 0) / X.length${regularization ? ' + penalty()' : ''};
+
+for (let epoch = 1; epoch <= epochs; epoch++) {
+${factor ? '  learningRate = rateAt(epoch - 1);\n' : ''}  const order = X.map((_, i) => i);
+  for (let i = order.length - 1; i > 0; i--) {
+    const j = Math.floor(Math.random() * (i + 1));
+    [order[i], order[j]] = [order[j], order[i]];
+  }
+  order.forEach(i => train(X[i], Y[i]));
+  if (epoch % ${Math.max(1, Math.round(spec.epochs / 10))} === 0) console.log(\`epoch \${epoch} loss \${meanLoss().toFixed(5)}\`);
+}
+
+export {};
+`;
+};
+
+export const CODE_GENERATORS: Record<CodeLanguage, CodeGeneratorDef> = {
+  PYTORCH: { name: 'PyTorch', fileName: 'train.py', generate: pytorch },
+  KERAS: { name: 'Keras', fileName: 'train_keras.py', generate: kerasCode },
+  TYPESCRIPT: { name: 'TypeScript', fileName: 'train.ts', generate: typescript }
+};
+
+export const CODE_LANGUAGES = Object.keys(CODE_GENERATORS) as CodeLanguage[];
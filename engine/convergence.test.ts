@@ -0,0 +1,43 @@
+import { describe, expect, it } from 'vitest';
+import { SimpleNetwork } from './network';
+import { ConvergenceMonitor } from './convergence';
+
+const net = () => new SimpleNetwork([2, 3, 1], ['SIGMOID', 'TANH', 'SIGMOID']);
+
+describe('ConvergenceMonitor', () => {
+  it('stops once the watched loss drops below the threshold', () => {
+    const monitor = new ConvergenceMonitor({ metric: 'TRAIN', threshold: 0.1, patience: 0 });
+    expect(monitor.record(1, { train: 0.5, validation: 0.05 }, net())).toBeNull();
+    expect(monitor.record(2, { train: 0.05, validation: 0.5 }, net())).toBe('THRESHOLD');
+  });
+
+  it('watches validation loss when asked, and falls back to training loss without a validation set', () => {
+    const monitor = new ConvergenceMonitor({ metric: 'VALIDATION', threshold: 0.1, patience: 0 });
+    expect(monitor.record(1, { train: 0.05, validation: 0.5 }, net())).toBeNull();
+    expect(monitor.record(2, { train: 0.5, validation: 0.05 }, net())).toBe('THRESHOLD');
+    expect(monitor.watchedLoss({ train: 0.3, validation: null })).toBe(0.3);
+  });
+
+  it('stops early after `patience` epochs without a new best, keeping a copy of the best weights', () => {
+    const monitor = new ConvergenceMonitor({ metric: 'VALIDATION', threshold: 0, patience: 10 });
+    const a = net();
+    const b = net();
+    expect(monitor.record(5, { train: 0.4, validation: 0.3 }, a)).toBeNull();
+    expect(monitor.record(10, { train: 0.2, validation: 0.2 }, b)).toBeNull();
+    const bestWeight = b.weights[0][0];
+    b.weights[0][0] += 1; // Overfitting: training keeps improving while validation doesn't
+    expect(monitor.record(15, { train: 0.1, validation: 0.25 }, b)).toBeNull();
+    expect(monitor.record(20, { train: 0.05, validation: 0.3 }, b)).toBe('PATIENCE');
+
+    expect(monitor.best!.epoch).toBe(10);
+    expect(monitor.best!.loss).toBe(0.2);
+    expect(monitor.best!.weights[0][0]).toBe(bestWeight);
+  });
+
+  it('continues from a previous best', () => {
+    const first = new ConvergenceMonitor({ metric: 'TRAIN', threshold: 0, patience: 10 });
+    first.record(4, { train: 0.2, validation: null }, net());
+    const resumed = new ConvergenceMonitor(first.criteria, first.best);
+    expect(resumed.record(14, { train: 0.3, validation: null }, net())).toBe('PATIENCE');
+  });
+});
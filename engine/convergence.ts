@@ -0,0 +1,56 @@
+// When to stop training, and the best parameters seen on the way.
+//
+// ConvergenceMonitor watches either the training or the validation loss (validation falls back to
+// training while there is no validation set). A run stops once that loss drops below the threshold or,
+// with patience set, once it has gone `patience` epochs without a new best: early stopping. Every new
+// best is kept as a checkpoint so the UI can restore the weights from before the network overfit.
+
+import { SimpleNetwork } from './network';
+
+export type ConvergenceMetric = 'TRAIN' | 'VALIDATION';
+
+export type StopReason = 'THRESHOLD' | 'PATIENCE';
+
+export interface ConvergenceCriteria {
+  metric: ConvergenceMetric;
+  threshold: number; // Stop once the watched loss drops below this
+  patience: number;  // Epochs without a new best before stopping early (0: never)
+}
+
+export interface EpochLosses {
+  train: number;
+  validation: number | null; // null without a validation set
+}
+
+export interface Checkpoint {
+  epoch: number;
+  loss: number; // Watched loss at that epoch
+  weights: Float64Array[];
+  biases: Float64Array[];
+}
+
+export class ConvergenceMonitor {
+  readonly criteria: ConvergenceCriteria;
+  best: Checkpoint | null;
+
+  // Pass the previous best to continue a run (e.g. after a pause) without resetting its patience
+  constructor(criteria: ConvergenceCriteria, best: Checkpoint | null = null) {
+    this.criteria = { ...criteria };
+    this.best = best;
+  }
+
+  watchedLoss(losses: EpochLosses) {
+    return this.criteria.metric === 'VALIDATION' && losses.validation !== null ? losses.validation : losses.train;
+  }
+
+  // Scores the network after `epoch` epochs; returns why training should stop, if it should
+  record(epoch: number, losses: EpochLosses, net: SimpleNetwork): StopReason | null {
+    const loss = this.watchedLoss(losses);
+    if (!this.best || loss < this.best.loss) {
+      this.best = { epoch, loss, weights: net.weights.map(w => w.slice()), biases: net.biases.map(b => b.slice()) };
+    }
+    if (loss < this.criteria.threshold) return 'THRESHOLD';
+    if (this.criteria.patience > 0 && epoch - this.best.epoch >= this.criteria.patience) return 'PATIENCE';
+    return null;
+  }
+}
@@ -0,0 +1,85 @@
+import { describe, expect, it } from 'vitest';
+import { DATASETS, DATASET_KEYS, classify, createRng, encodeTarget, generateDataset, isDatasetCompatible, shuffledIndices, splitDataset } from './datasets';
+import { DIGIT_GLYPHS, jitterGlyph } from './glyphs';
+
+const POINT_DATASETS = DATASET_KEYS.filter(key => !DATASETS[key].grid);
+
+describe('datasets', () => {
+  it.each(POINT_DATASETS)('%s generates the requested number of labelled 2D samples', (key) => {
+    const samples = generateDataset(key, 1, { count: 60 });
+    expect(samples).toHaveLength(60);
+    samples.forEach(s => {
+      expect(s.input).toHaveLength(2);
+      expect([0, 1]).toContain(s.label);
+      expect(s.target).toEqual([s.label]);
+    });
+    expect(samples.some(s => s.label === 0) && samples.some(s => s.label === 1)).toBe(true);
+  });
+
+  it.each(['DIGITS', 'SHAPES'] as const)('%s generates 8x8 pixel images of every class', (key) => {
+    const def = DATASETS[key];
+    const samples = generateDataset(key, def.classes, { count: 40 });
+    expect(def.grid).toEqual({ rows: 8, cols: 8 });
+    expect(def.labels).toHaveLength(def.classes);
+    samples.forEach(s => {
+      expect(s.input).toHaveLength(64);
+      expect(s.input.every(v => v === 0 || v === 1)).toBe(true);
+      expect(s.target[s.label]).toBe(1);
+    });
+    expect(new Set(samples.map(s => s.label)).size).toBe(def.classes);
+    expect(isDatasetCompatible(key, 64, def.classes)).toBe(true);
+  });
+
+  it('shifts glyphs and flips pixels on request', () => {
+    const one = DIGIT_GLYPHS.bitmaps[1];
+    const clean = jitterGlyph(one, 0, 0, 0, createRng(1));
+    expect(clean.slice(8, 16)).toEqual([0, 0, 0, 1, 1, 0, 0, 0]); // '...##...'
+    expect(jitterGlyph(one, 1, 0, 0, createRng(1)).slice(8, 16)).toEqual([0, 0, 0, 0, 1, 1, 0, 0]);
+    expect(jitterGlyph(one, 0, 0, 1, createRng(1))).toEqual(clean.map(v => 1 - v));
+  });
+
+  it('is reproducible for a given seed', () => {
+    expect(generateDataset('SPIRALS', 1, { seed: 9 })).toEqual(generateDataset('SPIRALS', 1, { seed: 9 }));
+    expect(generateDataset('SPIRALS', 1, { seed: 9 })).not.toEqual(generateDataset('SPIRALS', 1, { seed: 10 }));
+  });
+
+  it('one-hot encodes targets for multi-neuron outputs', () => {
+    expect(encodeTarget(1, 1)).toEqual([1]);
+    expect(encodeTarget(1, 2)).toEqual([0, 1]);
+    expect(generateDataset('XOR', 2, { count: 4 }).every(s => s.target[s.label] === 1)).toBe(true);
+  });
+
+  it('checks input and output widths for compatibility', () => {
+    expect(isDatasetCompatible('MOONS', 2, 1)).toBe(true);
+    expect(isDatasetCompatible('MOONS', 2, 2)).toBe(true);
+    expect(isDatasetCompatible('MOONS', 3, 1)).toBe(false);
+    expect(isDatasetCompatible('MOONS', 2, 3)).toBe(false);
+  });
+
+  it('classifies by threshold or argmax', () => {
+    expect(classify([0.7])).toBe(1);
+    expect(classify([0.2])).toBe(0);
+    expect(classify([0.1, 0.3, 0.6])).toBe(2);
+  });
+
+  it('shuffles indices into a permutation', () => {
+    expect([...shuffledIndices(20)].sort((a, b) => a - b)).toEqual(Array.from({ length: 20 }, (_, i) => i));
+  });
+
+  it('splits into disjoint train, validation and test sets', () => {
+    const samples = generateDataset('MOONS', 1, { count: 50 });
+    const split = splitDataset(samples, { validation: 0.2, test: 0.1 }, 4);
+    expect([split.train.length, split.validation.length, split.test.length]).toEqual([35, 10, 5]);
+    expect(new Set([...split.train, ...split.validation, ...split.test]).size).toBe(50);
+    expect(splitDataset(samples, { validation: 0.2, test: 0.1 }, 4)).toEqual(split);
+  });
+
+  it('always leaves a training sample and rejects impossible ratios', () => {
+    const samples = generateDataset('XOR', 1, { count: 3 });
+    const split = splitDataset(samples, { validation: 0.5, test: 0.4 });
+    expect(split.train).toHaveLength(1);
+    expect(split.validation.length + split.test.length).toBe(2);
+    expect(splitDataset(samples.slice(0, 1), { validation: 0.3, test: 0 }).train).toHaveLength(1);
+    expect(() => splitDataset(samples, { validation: 0.5, test: 0.5 })).toThrow('Split ratios');
+  });
+});
@@ -0,0 +1,250 @@
+// Built-in toy datasets for the Neural Architect.
+// The point datasets work in the [-1, 1] input plane so the same network settings
+// (and the decision-boundary view) apply to all of them. The image datasets are 8x8
+// pixel grids instead (1 for ink, 0 for background), built from the glyphs in glyphs.ts.
+
+import { DIGIT_GLYPHS, GLYPH_SIZE, GlyphSet, SHAPE_GLYPHS, jitterGlyph } from './glyphs';
+
+export type DatasetKey = 'XOR' | 'CIRCLES' | 'SPIRALS' | 'MOONS' | 'LINEAR' | 'DIGITS' | 'SHAPES';
+
+export interface LabeledPoint {
+  input: number[];
+  label: number;
+}
+
+export interface Sample extends LabeledPoint {
+  target: number[];
+}
+
+interface DatasetDef {
+  name: string;
+  description: string;
+  inputSize: number;
+  classes: number;
+  grid?: { rows: number, cols: number }; // Image datasets: the input layer's layout (pixels row by row)
+  labels?: string[]; // Class names, where the classes have them
+  color: string;
+  generate: (count: number, noise: number, rng: () => number) => LabeledPoint[];
+}
+
+export interface DatasetOptions {
+  count?: number;
+  noise?: number;
+  seed?: number;
+}
+
+// --- Random Helpers ---
+// Seeded PRNG (mulberry32) so a dataset looks the same after every reset
+export const createRng = (seed: number) => {
+  let a = seed >>> 0;
+  return () => {
+    a = (a + 0x6D2B79F5) >>> 0;
+    let t = a;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+export const gaussian = (rng: () => number) => {
+  // Box-Muller transform
+  const u = Math.max(1e-12, rng());
+  const v = rng();
+  return Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * v);
+};
+
+const uniform = (rng: () => number, min: number, max: number) => min + rng() * (max - min);
+
+// Classes in turn, each glyph shifted by up to a pixel; `noise` is the chance of flipping a pixel
+const glyphDataset = (set: GlyphSet) => (count: number, noise: number, rng: () => number) => {
+  const points: LabeledPoint[] = [];
+  for (let i = 0; i < count; i++) {
+    const label = i % set.labels.length;
+    const dx = Math.floor(rng() * 3) - 1;
+    const dy = Math.floor(rng() * 3) - 1;
+    points.push({ input: jitterGlyph(set.bitmaps[label], dx, dy, noise, rng), label });
+  }
+  return points;
+};
+
+export const DATASETS: Record<DatasetKey, DatasetDef> = {
+  XOR: {
+    name: 'XOR',
+    description: 'Opposite quadrants share a class. Not linearly separable.',
+    inputSize: 2, classes: 2, color: '#00f3ff',
+    generate: (count, noise, rng) => {
+      const points: LabeledPoint[] = [];
+      const padding = 0.1; // Keep points off the axes so the classes are unambiguous
+      for (let i = 0; i < count; i++) {
+        let x = uniform(rng, padding, 1);
+        let y = uniform(rng, padding, 1);
+        if (rng() < 0.5) x = -x;
+        if (rng() < 0.5) y = -y;
+        const label = (x > 0) !== (y > 0) ? 1 : 0;
+        points.push({ input: [x + gaussian(rng) * noise, y + gaussian(rng) * noise], label });
+      }
+      return points;
+    }
+  },
+  CIRCLES: {
+    name: 'Circles',
+    description: 'An inner disc surrounded by a ring of the other class.',
+    inputSize: 2, classes: 2, color: '#d946ef',
+    generate: (count, noise, rng) => {
+      const points: LabeledPoint[] = [];
+      for (let i = 0; i < count; i++) {
+        const label = i % 2 === 0 ? 1 : 0;
+        const radius = label === 1 ? uniform(rng, 0, 0.4) : uniform(rng, 0.65, 1);
+        const angle = uniform(rng, 0, 2 * Math.PI);
+        points.push({
+          input: [radius * Math.cos(angle) + gaussian(rng) * noise, radius * Math.sin(angle) + gaussian(rng) * noise],
+          label
+        });
+      }
+      return points;
+    }
+  },
+  SPIRALS: {
+    name: 'Spirals',
+    description: 'Two interleaved spiral arms. Needs depth to untangle.',
+    inputSize: 2, classes: 2, color: '#f97316',
+    generate: (count, noise, rng) => {
+      const points: LabeledPoint[] = [];
+      const perArm = Math.ceil(count / 2);
+      for (let i = 0; i < count; i++) {
+        const label = i % 2;
+        const t = Math.floor(i / 2) / perArm;
+        const radius = 0.05 + t * 0.9;
+        const angle = 1.75 * t * 2 * Math.PI + label * Math.PI;
+        points.push({
+          input: [radius * Math.sin(angle) + gaussian(rng) * noise, radius * Math.cos(angle) + gaussian(rng) * noise],
+          label
+        });
+      }
+      return points;
+    }
+  },
+  MOONS: {
+    name: 'Moons',
+    description: 'Two interlocking half circles.',
+    inputSize: 2, classes: 2, color: '#eab308',
+    generate: (count, noise, rng) => {
+      const points: LabeledPoint[] = [];
+      for (let i = 0; i < count; i++) {
+        const label = i % 2;
+        const t = uniform(rng, 0, Math.PI);
+        // Classic moons span x in [-1, 2] and y in [-0.5, 1]; recentre onto [-1, 1]
+        const x = label === 0 ? Math.cos(t) : 1 - Math.cos(t);
+        const y = label === 0 ? Math.sin(t) : 0.5 - Math.sin(t);
+        points.push({
+          input: [(x - 0.5) / 1.5 + gaussian(rng) * noise, (y - 0.25) / 1.5 + gaussian(rng) * noise],
+          label
+        });
+      }
+      return points;
+    }
+  },
+  LINEAR: {
+    name: 'Linear',
+    description: 'A single straight split. Solvable without hidden layers.',
+    inputSize: 2, classes: 2, color: '#22c55e',
+    generate: (count, noise, rng) => {
+      const points: LabeledPoint[] = [];
+      const angle = uniform(rng, 0, Math.PI);
+      const nx = Math.cos(angle);
+      const ny = Math.sin(angle);
+      for (let i = 0; i < count; i++) {
+        const x = uniform(rng, -1, 1);
+        const y = uniform(rng, -1, 1);
+        const label = x * nx + y * ny > 0 ? 1 : 0;
+        points.push({ input: [x + gaussian(rng) * noise, y + gaussian(rng) * noise], label });
+      }
+      return points;
+    }
+  },
+  DIGITS: {
+    name: 'Digits',
+    description: 'Handwriting-sized 8x8 digits 0-9, shifted and speckled. Draw your own on the pixel pad.',
+    inputSize: GLYPH_SIZE * GLYPH_SIZE, classes: DIGIT_GLYPHS.labels.length, grid: { rows: GLYPH_SIZE, cols: GLYPH_SIZE },
+    labels: DIGIT_GLYPHS.labels, color: '#38bdf8',
+    generate: glyphDataset(DIGIT_GLYPHS)
+  },
+  SHAPES: {
+    name: 'Shapes',
+    description: 'Squares, circles, triangles and crosses on an 8x8 grid.',
+    inputSize: GLYPH_SIZE * GLYPH_SIZE, classes: SHAPE_GLYPHS.labels.length, grid: { rows: GLYPH_SIZE, cols: GLYPH_SIZE },
+    labels: SHAPE_GLYPHS.labels, color: '#a78bfa',
+    generate: glyphDataset(SHAPE_GLYPHS)
+  }
+};
+
+export const DATASET_KEYS = Object.keys(DATASETS) as DatasetKey[];
+
+// A dataset fits a network when the input widths agree and the output layer can
+// hold the labels: one neuron for a binary probability, or one neuron per class.
+export const isDatasetCompatible = (key: DatasetKey, inputSize: number, outputSize: number) => {
+  const def = DATASETS[key];
+  return def.inputSize === inputSize && (outputSize === def.classes || (def.classes === 2 && outputSize === 1));
+};
+
+export const encodeTarget = (label: number, outputSize: number) => {
+  if (outputSize === 1) return [label];
+  const target = new Array(outputSize).fill(0);
+  target[label] = 1;
+  return target;
+};
+
+export const generateDataset = (key: DatasetKey, outputSize: number, options: DatasetOptions = {}): Sample[] => {
+  const { count = 100, noise = 0.03, seed = 1 } = options;
+  const rng = createRng(seed);
+  return DATASETS[key].generate(count, noise, rng).map(p => ({ ...p, target: encodeTarget(p.label, outputSize) }));
+};
+
+// Fisher-Yates shuffle of sample indices; used to visit the set in a fresh order every epoch
+export const shuffledIndices = (length: number, rng: () => number = Math.random) => {
+  const order = Array.from({ length }, (_, i) => i);
+  for (let i = order.length - 1; i > 0; i--) {
+    const j = Math.floor(rng() * (i + 1));
+    [order[i], order[j]] = [order[j], order[i]];
+  }
+  return order;
+};
+
+// Predicted class for a network output: threshold a single probability, otherwise argmax
+export const classify = (outputs: ArrayLike<number>) => {
+  if (outputs.length === 1) return outputs[0] >= 0.5 ? 1 : 0;
+  let best = 0;
+  for (let i = 1; i < outputs.length; i++) if (outputs[i] > outputs[best]) best = i;
+  return best;
+};
+
+// --- Train / Validation / Test Split ---
+
+export interface SplitRatios {
+  validation: number; // Fractions of the set held out; training gets the rest
+  test: number;
+}
+
+export interface DatasetSplit {
+  train: Sample[];
+  validation: Sample[];
+  test: Sample[];
+}
+
+export const NO_SPLIT: SplitRatios = { validation: 0, test: 0 };
+
+// Seeded shuffle into the three sets, so a split stays put across resets; training always keeps a sample
+export const splitDataset = (samples: Sample[], ratios: SplitRatios, seed = 1): DatasetSplit => {
+  if (!(ratios.validation >= 0 && ratios.test >= 0 && ratios.validation + ratios.test < 1)) {
+    throw new Error(`Split ratios must be >= 0 and hold out less than the whole set (got ${ratios.validation} / ${ratios.test})`);
+  }
+  const order = shuffledIndices(samples.length, createRng(seed)).map(i => samples[i]);
+  const heldOut = Math.max(0, samples.length - 1);
+  const test = Math.min(Math.round(samples.length * ratios.test), heldOut);
+  const validation = Math.min(Math.round(samples.length * ratios.validation), heldOut - test);
+  return {
+    validation: order.slice(0, validation),
+    test: order.slice(validation, validation + test),
+    train: order.slice(validation + test)
+  };
+};
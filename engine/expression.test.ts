@@ -0,0 +1,74 @@
+import { describe, expect, it } from 'vitest';
+import { compileExpression, differentiate, formatExpression, parseExpression } from './expression';
+import { activationDef, defineActivation } from './activations';
+
+const evaluate = (source: string, x: number) => compileExpression(parseExpression(source))(x);
+
+describe('expression parser', () => {
+  it('follows the usual precedence, with right-associative powers', () => {
+    expect(evaluate('1 + 2 * x ^ 2', 3)).toBe(19);
+    expect(evaluate('-x^2', 3)).toBe(-9);
+    expect(evaluate('2^-x', 1)).toBe(0.5);
+    expect(evaluate('2^3^2', 0)).toBe(512);
+    expect(evaluate('(1 - x) / 2 - 1', 5)).toBe(-3);
+    expect(evaluate('max(x, 0.1 * x) + min(e, pi)', -2)).toBeCloseTo(-0.2 + Math.E);
+    expect(evaluate('X * SIGMOID(x)', 0)).toBe(0);
+  });
+
+  it('prints a canonical form that parses back to the same function', () => {
+    ['x * sigmoid(x)', '-x^2 + (x - 1) * 3', '(-x)^2 / (1 + abs(x))', '2^-x - -x', 'x - (x - 1)'].forEach(source => {
+      const text = formatExpression(parseExpression(source));
+      expect(formatExpression(parseExpression(text))).toBe(text);
+      [-1.5, 0.25, 2].forEach(x => expect(evaluate(text, x)).toBeCloseTo(evaluate(source, x), 12));
+    });
+    expect(formatExpression(parseExpression(' x*sigmoid( x ) '))).toBe('x * sigmoid(x)');
+  });
+
+  it.each([
+    ['', /empty/],
+    ['x +', /Unexpected end of expression/],
+    ['x y', /Unexpected 'y' at position 3/],
+    ['y * 2', /Unknown name 'y' \(the variable is x\)/],
+    ['constructor(x)', /Unknown name 'constructor'/],
+    ['max(x)', /max\(\) takes 2 arguments/],
+    ['tanh(x', /Expected '\)'/],
+    ['x; alert(1)', /Unexpected ';'/]
+  ])('rejects %j', (source, message) => {
+    expect(() => parseExpression(source)).toThrow(message);
+  });
+});
+
+describe('symbolic derivatives', () => {
+  it.each([
+    'x * sigmoid(x)', 'tanh(x)^3', 'exp(-x^2 / 2)', 'log(1 + x^2)', 'sqrt(1 + x^2)', 'sin(x) * cos(2 * x)',
+    'softplus(x) / (1 + abs(x))', 'x^x', '2^x', 'max(x, 0.2 * x)', 'min(x, 1) - relu(x - 2)'
+  ])('match finite differences for %s', source => {
+    const tree = parseExpression(source);
+    const f = compileExpression(tree);
+    const df = compileExpression(differentiate(tree));
+    const h = 1e-6;
+    // Positive points keep x^x real; none lands on a kink
+    [0.3, 0.7, 1.4, 2.6].forEach(x => expect(df(x)).toBeCloseTo((f(x + h) - f(x - h)) / (2 * h), 5));
+  });
+
+  it('folds away the zeros and ones', () => {
+    expect(formatExpression(differentiate(parseExpression('3 * x + 2')))).toBe('3');
+    expect(formatExpression(differentiate(parseExpression('x^3')))).toBe('3 * x^2');
+  });
+});
+
+describe('custom activations', () => {
+  it('keys equivalent spellings alike and differentiates in the pre-activation', () => {
+    const { key, def } = defineActivation('x*sigmoid(x)');
+    expect(key).toBe('CUSTOM:x * sigmoid(x)');
+    expect(activationDef(key)).toBe(def);
+    const s = 1 / (1 + Math.exp(-2));
+    expect(def.func(2)).toBeCloseTo(2 * s);
+    expect(def.deriv(def.func(2), 2)).toBeCloseTo(s + 2 * s * (1 - s));
+  });
+
+  it('rejects functions that are not finite where the network uses them', () => {
+    expect(() => defineActivation('log(x)')).toThrow(/log\(x\) is not finite at x = -6/);
+    expect(() => defineActivation('1 / x')).toThrow(/not finite at x = 0/);
+  });
+});
@@ -0,0 +1,214 @@
+// Math expressions in one variable x, for user-defined activations. Parsed by hand (never eval'd) into a
+// small tree, differentiated symbolically, and evaluated by walking closures built from the tree.
+//
+//   expr     term (('+' | '-') term)*
+//   term     unary (('*' | '/') unary)*
+//   unary    ('-' | '+') unary | power
+//   power    primary ('^' unary)?          right-associative, so -x^2 is -(x^2) and 2^-x works
+//   primary  number | x | e | pi | name '(' expr (',' expr)* ')' | '(' expr ')'
+
+export type Expression =
+  | { type: 'num', value: number }
+  | { type: 'x' }
+  | { type: 'neg', arg: Expression }
+  | { type: 'bin', op: '+' | '-' | '*' | '/' | '^', left: Expression, right: Expression }
+  | { type: 'call', name: string, args: Expression[] };
+
+interface FunctionDef {
+  arity: number;
+  eval: (...args: number[]) => number;
+  // d f(args) / d x in terms of the arguments and their derivatives (step and sign are flat: no derivative)
+  deriv?: (args: Expression[], darg: Expression[]) => Expression;
+}
+
+const num = (value: number): Expression => ({ type: 'num', value });
+const call = (name: string, ...args: Expression[]): Expression => ({ type: 'call', name, args });
+
+// Builders that fold constants and drop the 0s and 1s differentiation leaves behind
+const add = (a: Expression, b: Expression): Expression => (
+  a.type === 'num' && b.type === 'num' ? num(a.value + b.value) : a.type === 'num' && a.value === 0 ? b : b.type === 'num' && b.value === 0 ? a : { type: 'bin', op: '+', left: a, right: b }
+);
+const sub = (a: Expression, b: Expression): Expression => (
+  a.type === 'num' && b.type === 'num' ? num(a.value - b.value) : b.type === 'num' && b.value === 0 ? a : a.type === 'num' && a.value === 0 ? neg(b) : { type: 'bin', op: '-', left: a, right: b }
+);
+const mul = (a: Expression, b: Expression): Expression => {
+  if (a.type === 'num' && b.type === 'num') return num(a.value * b.value);
+  if ((a.type === 'num' && a.value === 0) || (b.type === 'num' && b.value === 0)) return num(0);
+  if (a.type === 'num' && a.value === 1) return b;
+  if (b.type === 'num' && b.value === 1) return a;
+  return { type: 'bin', op: '*', left: a, right: b };
+};
+const div = (a: Expression, b: Expression): Expression => (
+  a.type === 'num' && a.value === 0 ? num(0) : b.type === 'num' && b.value === 1 ? a : { type: 'bin', op: '/', left: a, right: b }
+);
+const pow = (a: Expression, b: Expression): Expression => (
+  b.type === 'num' && b.value === 1 ? a : b.type === 'num' && b.value === 0 ? num(1) : { type: 'bin', op: '^', left: a, right: b }
+);
+const neg = (a: Expression): Expression => (a.type === 'num' ? num(-a.value) : a.type === 'neg' ? a.arg : { type: 'neg', arg: a });
+
+const sigmoid = (x: number) => 1 / (1 + Math.exp(-x));
+
+const FUNCTIONS: Record<string, FunctionDef> = {
+  sigmoid: { arity: 1, eval: sigmoid, deriv: ([u], [du]) => mul(mul(call('sigmoid', u), sub(num(1), call('sigmoid', u))), du) },
+  tanh: { arity: 1, eval: Math.tanh, deriv: ([u], [du]) => mul(sub(num(1), pow(call('tanh', u), num(2))), du) },
+  exp: { arity: 1, eval: Math.exp, deriv: ([u], [du]) => mul(call('exp', u), du) },
+  log: { arity: 1, eval: Math.log, deriv: ([u], [du]) => div(du, u) },
+  sqrt: { arity: 1, eval: Math.sqrt, deriv: ([u], [du]) => div(du, mul(num(2), call('sqrt', u))) },
+  sin: { arity: 1, eval: Math.sin, deriv: ([u], [du]) => mul(call('cos', u), du) },
+  cos: { arity: 1, eval: Math.cos, deriv: ([u], [du]) => neg(mul(call('sin', u), du)) },
+  softplus: { arity: 1, eval: x => Math.max(x, 0) + Math.log1p(Math.exp(-Math.abs(x))), deriv: ([u], [du]) => mul(call('sigmoid', u), du) },
+  relu: { arity: 1, eval: x => Math.max(0, x), deriv: ([u], [du]) => mul(call('step', u), du) },
+  abs: { arity: 1, eval: Math.abs, deriv: ([u], [du]) => mul(call('sign', u), du) },
+  step: { arity: 1, eval: x => (x > 0 ? 1 : 0) },
+  sign: { arity: 1, eval: Math.sign },
+  // The derivative follows whichever argument is picked (the first on ties)
+  max: { arity: 2, eval: Math.max, deriv: ([a, b], [da, db]) => add(mul(call('step', sub(b, a)), db), mul(sub(num(1), call('step', sub(b, a))), da)) },
+  min: { arity: 2, eval: Math.min, deriv: ([a, b], [da, db]) => add(mul(call('step', sub(a, b)), db), mul(sub(num(1), call('step', sub(a, b))), da)) }
+};
+
+export const EXPRESSION_FUNCTIONS = Object.keys(FUNCTIONS);
+
+const CONSTANTS: Record<string, number> = { e: Math.E, pi: Math.PI };
+
+const owns = (table: object, key: string) => Object.prototype.hasOwnProperty.call(table, key);
+
+export const parseExpression = (source: string): Expression => {
+  const tokens = Array.from(source.matchAll(/\s*(?:(\d+\.?\d*(?:e[+-]?\d+)?|\.\d+(?:e[+-]?\d+)?)|([a-z_]\w*)|(\S))/gi));
+  let pos = 0;
+  const at = () => (tokens[pos] ? tokens[pos].index + tokens[pos][0].search(/\S/) : source.length);
+  const peek = () => (tokens[pos] ? tokens[pos][1] ?? tokens[pos][2] ?? tokens[pos][3] : undefined);
+  const fail = (problem: string): never => { throw new Error(`${problem} at position ${at() + 1}`); };
+  const expect = (symbol: string) => {
+    if (peek() !== symbol) fail(peek() === undefined ? `Expected '${symbol}'` : `Expected '${symbol}' but found '${peek()}'`);
+    pos++;
+  };
+
+  const expr = (): Expression => {
+    let node = term();
+    while (peek() === '+' || peek() === '-') {
+      const op = tokens[pos++][3];
+      node = { type: 'bin', op: op as '+' | '-', left: node, right: term() };
+    }
+    return node;
+  };
+  const term = (): Expression => {
+    let node = unary();
+    while (peek() === '*' || peek() === '/') {
+      const op = tokens[pos++][3];
+      node = { type: 'bin', op: op as '*' | '/', left: node, right: unary() };
+    }
+    return node;
+  };
+  const unary = (): Expression => {
+    if (peek() === '-') { pos++; return { type: 'neg', arg: unary() }; }
+    if (peek() === '+') { pos++; return unary(); }
+    const base = primary();
+    if (peek() !== '^') return base;
+    pos++;
+    return { type: 'bin', op: '^', left: base, right: unary() };
+  };
+  const primary = (): Expression => {
+    const token = tokens[pos];
+    if (!token) return fail('Unexpected end of expression');
+    const [, number, name, symbol] = token;
+    if (number !== undefined) { pos++; return num(Number(number)); }
+    if (symbol === '(') {
+      pos++;
+      const inner = expr();
+      expect(')');
+      return inner;
+    }
+    if (name === undefined) return fail(`Unexpected '${symbol}'`);
+    const lower = name.toLowerCase();
+    if (lower === 'x') { pos++; return { type: 'x' }; }
+    if (owns(CONSTANTS, lower)) { pos++; return num(CONSTANTS[lower]); }
+    if (!owns(FUNCTIONS, lower)) return fail(`Unknown name '${name}' (the variable is x)`);
+    const fn = FUNCTIONS[lower];
+    pos++;
+    expect('(');
+    const args = [expr()];
+    while (peek() === ',') { pos++; args.push(expr()); }
+    if (args.length !== fn.arity) fail(`${lower}() takes ${fn.arity} argument${fn.arity === 1 ? '' : 's'}`);
+    expect(')');
+    return call(lower, ...args);
+  };
+
+  if (!tokens.length) throw new Error('The expression is empty');
+  const tree = expr();
+  if (pos < tokens.length) fail(`Unexpected '${peek()}'`);
+  return tree;
+};
+
+// d tree / dx, simplified only as far as the builders above fold it
+export const differentiate = (tree: Expression): Expression => {
+  switch (tree.type) {
+    case 'num': return num(0);
+    case 'x': return num(1);
+    case 'neg': return neg(differentiate(tree.arg));
+    case 'call': {
+      const fn = FUNCTIONS[tree.name];
+      return fn.deriv ? fn.deriv(tree.args, tree.args.map(differentiate)) : num(0);
+    }
+    case 'bin': {
+      const { op, left: u, right: v } = tree;
+      const du = differentiate(u);
+      const dv = differentiate(v);
+      if (op === '+') return add(du, dv);
+      if (op === '-') return sub(du, dv);
+      if (op === '*') return add(mul(du, v), mul(u, dv));
+      if (op === '/') return div(sub(mul(du, v), mul(u, dv)), pow(v, num(2)));
+      // u^c = c u^(c-1) u';  c^v = c^v ln(c) v';  otherwise u^v (v' ln u + v u' / u)
+      if (v.type === 'num') return mul(mul(num(v.value), pow(u, num(v.value - 1))), du);
+      if (u.type === 'num') return mul(mul(tree, num(Math.log(u.value))), dv);
+      return mul(tree, add(mul(dv, call('log', u)), div(mul(v, du), u)));
+    }
+  }
+};
+
+export const compileExpression = (tree: Expression): ((x: number) => number) => {
+  switch (tree.type) {
+    case 'num': { const { value } = tree; return () => value; }
+    case 'x': return x => x;
+    case 'neg': { const arg = compileExpression(tree.arg); return x => -arg(x); }
+    case 'call': {
+      const f = FUNCTIONS[tree.name].eval;
+      const [a, b] = tree.args.map(compileExpression);
+      return b ? x => f(a(x), b(x)) : x => f(a(x));
+    }
+    case 'bin': {
+      const a = compileExpression(tree.left);
+      const b = compileExpression(tree.right);
+      switch (tree.op) {
+        case '+': return x => a(x) + b(x);
+        case '-': return x => a(x) - b(x);
+        case '*': return x => a(x) * b(x);
+        case '/': return x => a(x) / b(x);
+        case '^': return x => Math.pow(a(x), b(x));
+      }
+    }
+  }
+};
+
+const PRECEDENCE = { '+': 1, '-': 1, '*': 2, '/': 2, '^': 4 } as const;
+
+// Canonical text for a tree (minimal brackets), so equivalent spellings print the same
+export const formatExpression = (tree: Expression): string => {
+  const wrap = (node: Expression, min: number) => {
+    const text = formatExpression(node);
+    const level = node.type === 'bin' ? PRECEDENCE[node.op] : node.type === 'neg' || (node.type === 'num' && node.value < 0) ? 3 : 5;
+    return level < min ? `(${text})` : text;
+  };
+  switch (tree.type) {
+    case 'num': return String(Number(tree.value.toPrecision(12)));
+    case 'x': return 'x';
+    case 'neg': return `-${wrap(tree.arg, 3)}`;
+    case 'call': return `${tree.name}(${tree.args.map(formatExpression).join(', ')})`;
+    case 'bin': {
+      const p = PRECEDENCE[tree.op];
+      // Left-associative operators bracket an equal-precedence right side; ^ brackets an equal left side
+      const left = wrap(tree.left, tree.op === '^' ? p + 1 : p);
+      const right = wrap(tree.right, tree.op === '^' ? 3 : p + 1);
+      return tree.op === '^' ? `${left}^${right}` : `${left} ${tree.op} ${right}`;
+    }
+  }
+};
@@ -0,0 +1,48 @@
+// Low-resolution glyphs for the image datasets: 8x8 bitmaps ('#' ink, '.' background), one per class.
+// jitterGlyph() turns a bitmap into pixel inputs (row by row, 1 for ink and 0 for background), shifted
+// and with a few flipped pixels so every sample of a class looks slightly different.
+
+export const GLYPH_SIZE = 8;
+
+export interface GlyphSet {
+  labels: string[];
+  bitmaps: string[][]; // bitmaps[label]: GLYPH_SIZE rows of GLYPH_SIZE characters
+}
+
+export const DIGIT_GLYPHS: GlyphSet = {
+  labels: ['0', '1', '2', '3', '4', '5', '6', '7', '8', '9'],
+  bitmaps: [
+    ['........', '..####..', '.#....#.', '.#....#.', '.#....#.', '.#....#.', '..####..', '........'],
+    ['........', '...##...', '..###...', '...##...', '...##...', '...##...', '..####..', '........'],
+    ['........', '..####..', '.#....#.', '......#.', '....##..', '..##....', '.######.', '........'],
+    ['........', '.#####..', '......#.', '..####..', '......#.', '......#.', '.#####..', '........'],
+    ['........', '....##..', '...#.#..', '..#..#..', '.######.', '.....#..', '.....#..', '........'],
+    ['........', '.######.', '.#......', '.#####..', '......#.', '......#.', '.#####..', '........'],
+    ['........', '..####..', '.#......', '.#####..', '.#....#.', '.#....#.', '..####..', '........'],
+    ['........', '.######.', '......#.', '.....#..', '....#...', '...#....', '...#....', '........'],
+    ['........', '..####..', '.#....#.', '..####..', '.#....#.', '.#....#.', '..####..', '........'],
+    ['........', '..####..', '.#....#.', '.#....#.', '..#####.', '......#.', '..####..', '........']
+  ]
+};
+
+export const SHAPE_GLYPHS: GlyphSet = {
+  labels: ['Square', 'Circle', 'Triangle', 'Cross'],
+  bitmaps: [
+    ['........', '.######.', '.#....#.', '.#....#.', '.#....#.', '.#....#.', '.######.', '........'],
+    ['........', '..####..', '.#....#.', '.#....#.', '.#....#.', '.#....#.', '..####..', '........'],
+    ['........', '...##...', '...##...', '..#..#..', '..#..#..', '.#....#.', '.######.', '........'],
+    ['........', '.#....#.', '..#..#..', '...##...', '...##...', '..#..#..', '.#....#.', '........']
+  ]
+};
+
+// Pixels of the bitmap moved by (dx, dy) (ink pushed off the edge is lost), each flipped with probability `flip`
+export const jitterGlyph = (bitmap: string[], dx: number, dy: number, flip: number, rng: () => number) => {
+  const pixels: number[] = [];
+  for (let y = 0; y < GLYPH_SIZE; y++) {
+    for (let x = 0; x < GLYPH_SIZE; x++) {
+      const ink = bitmap[y - dy]?.[x - dx] === '#';
+      pixels.push(ink !== (rng() < flip) ? 1 : 0);
+    }
+  }
+  return pixels;
+};
@@ -0,0 +1,106 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { ACTIVATION_FUNCTIONS, ActivationKey } from './activations';
+import { LossKey } from './losses';
+import { Sample, createRng, generateDataset } from './datasets';
+import { SimpleNetwork } from './network';
+import { checkGradients, gradientCheckStatus, relativeError } from './gradientCheck';
+
+const samples: Sample[] = [
+  { input: [0.3, -0.5, 0.9], target: [0, 1], label: 1 },
+  { input: [-0.7, 0.2, 0.4], target: [1, 0], label: 0 },
+  { input: [0.1, 0.8, -0.6], target: [0, 1], label: 1 }
+];
+
+describe('checkGradients', () => {
+  beforeEach(() => {
+    const rng = createRng(7);
+    vi.spyOn(Math, 'random').mockImplementation(rng);
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  const cases: [ActivationKey, ActivationKey, LossKey][] = [
+    ['SIGMOID', 'SIGMOID', 'MSE'],
+    ['TANH', 'SIGMOID', 'BCE'],
+    ['RELU', 'SOFTMAX', 'CCE'],
+    ['LEAKY_RELU', 'SOFTMAX', 'MSE'],
+    ['ELU', 'TANH', 'HUBER'],
+    ['CUSTOM:x * sigmoid(x)', 'CUSTOM:tanh(x)^3', 'MSE']
+  ];
+
+  it.each(cases)('finds exact backprop for %s hidden, %s output, %s loss', (hidden, output, loss) => {
+    const net = new SimpleNetwork([3, 4, 3, 2], ['SIGMOID', hidden, hidden, output]);
+    net.setLoss(loss);
+    const result = checkGradients(net, samples);
+
+    expect(result.samples).toBe(3);
+    expect(result.layers.map(l => l.parameters)).toEqual([3 * 4 + 4, 4 * 3 + 3, 3 * 2 + 2]);
+    expect(result.maxRelativeError).toBeLessThan(1e-5);
+    expect(gradientCheckStatus(result.maxRelativeError)).toBe('OK');
+  });
+
+  it('checks the L1/L2 penalty gradients too, without dropout', () => {
+    const net = new SimpleNetwork([3, 4, 2], ['SIGMOID', 'TANH', 'SIGMOID']);
+    net.setRegularization({ l1: 0.01, l2: 0.05 });
+    net.setDropout([0, 0.5, 0]);
+    expect(gradientCheckStatus(checkGradients(net, samples).maxRelativeError)).toBe('OK');
+  });
+
+  it('checks the gradients skip connections carry back', () => {
+    const net = new SimpleNetwork([3, 4, 3, 4, 2], ['SIGMOID', 'TANH', 'TANH', 'TANH', 'SOFTMAX']);
+    net.setLoss('CCE');
+    net.setSkips([{ from: 0, to: 2 }, { from: 1, to: 3 }]);
+    expect(checkGradients(net, samples).maxRelativeError).toBeLessThan(1e-5);
+  });
+
+  it('leaves the checked network untouched', () => {
+    const net = new SimpleNetwork([3, 4, 2], ['SIGMOID', 'TANH', 'SIGMOID']);
+    net.forward(samples[0].input);
+    const state = net.getState();
+    const values = net.values.map(v => v.slice());
+    const version = net.version;
+
+    checkGradients(net, samples);
+    expect(net.getState()).toEqual(state);
+    expect(net.values).toEqual(values);
+    expect(net.version).toBe(version);
+  });
+
+  it('reports the worst parameters first, with their neurons', () => {
+    const net = new SimpleNetwork([3, 4, 2], ['SIGMOID', 'TANH', 'SIGMOID']);
+    const result = checkGradients(net, samples, { worstCount: 3 });
+    expect(result.worst).toHaveLength(3);
+    expect(result.worst[0].relativeError).toBeGreaterThanOrEqual(result.worst[1].relativeError);
+    expect(result.worst[1].relativeError).toBeGreaterThanOrEqual(result.worst[2].relativeError);
+    result.worst.forEach(entry => {
+      if (entry.kind === 'weight') expect(entry.from! * net.layerSizes[entry.layer + 1] + entry.to).toBe(entry.index);
+      else expect(entry.from).toBeNull();
+    });
+  });
+
+  it('flags a wrong derivative in the layer that uses it', () => {
+    const net = new SimpleNetwork([3, 4, 2], ['SIGMOID', 'TANH', 'SIGMOID']);
+    const tanh = ACTIVATION_FUNCTIONS.TANH;
+    vi.spyOn(tanh, 'deriv').mockImplementation(y => 1 - y * y + 0.2);
+
+    const result = checkGradients(net, samples);
+    expect(gradientCheckStatus(result.layers[0].maxRelativeError)).toBe('FAIL');
+    expect(gradientCheckStatus(result.layers[1].maxRelativeError)).toBe('OK');
+    expect(result.worst[0].layer).toBe(0);
+  });
+
+  it('checks at most maxSamples samples', () => {
+    const data = generateDataset('XOR', 1, { seed: 3 });
+    const net = new SimpleNetwork([2, 3, 1], ['SIGMOID', 'TANH', 'SIGMOID']);
+    expect(checkGradients(net, data, { maxSamples: 5 }).samples).toBe(5);
+    expect(() => checkGradients(net, [])).toThrow('at least one sample');
+  });
+
+  it('floors the relative error for gradients that are essentially zero', () => {
+    expect(relativeError(1, 1)).toBe(0);
+    expect(relativeError(2, 1)).toBeCloseTo(0.5, 12);
+    expect(relativeError(1e-12, -1e-12)).toBeLessThan(1e-5);
+  });
+});
@@ -0,0 +1,121 @@
+// Gradient checking: compares backward()'s analytic gradients with central finite differences.
+//
+// Runs on a copy of the network, so neither its parameters nor its cached (displayed) pass change.
+// The checked loss is evaluate()'s (averaged over the samples) and the analytic gradient is backward()
+// averaged the same way, i.e. the raw gradient before step() clips and applies it.
+// Both include the L1/L2 penalty; neither applies dropout (these are all evaluation passes).
+// Relative error is |a - n| / max(|a|, |n|), floored so parameters with ~0 gradient don't report noise.
+
+import { Sample } from './datasets';
+import { SimpleNetwork } from './network';
+
+export interface GradientCheckOptions {
+  epsilon?: number;    // Finite-difference step h
+  maxSamples?: number; // Each parameter costs two passes over the samples
+  worstCount?: number;
+}
+
+export interface GradientCheckEntry {
+  layer: number; // Weight layer l (connections from layer l to layer l + 1)
+  kind: 'weight' | 'bias';
+  index: number; // Flat index into weights[layer] / biases[layer]
+  from: number | null; // Source neuron in layer l (null for biases and for conv kernels, whose weights are shared)
+  to: number | null; // Neuron in layer l + 1 (null for conv kernels and per-channel conv biases)
+  analytic: number;
+  numeric: number;
+  relativeError: number;
+}
+
+export interface LayerGradientCheck {
+  layer: number;
+  parameters: number;
+  maxRelativeError: number;
+  meanRelativeError: number;
+}
+
+export interface GradientCheckResult {
+  samples: number;
+  layers: LayerGradientCheck[];
+  worst: GradientCheckEntry[]; // Largest relative errors first
+  maxRelativeError: number;
+}
+
+export type GradientCheckStatus = 'OK' | 'WARN' | 'FAIL';
+
+// Exact backprop in float64 lands around 1e-8; kinks (ReLU at 0) can show a few WARNs; FAIL means a wrong gradient
+export const gradientCheckStatus = (relativeError: number): GradientCheckStatus => (
+  relativeError < 1e-5 ? 'OK' : relativeError < 1e-2 ? 'WARN' : 'FAIL'
+);
+
+const GRADIENT_FLOOR = 1e-6;
+
+export const relativeError = (analytic: number, numeric: number) => (
+  Math.abs(analytic - numeric) / Math.max(Math.abs(analytic), Math.abs(numeric), GRADIENT_FLOOR)
+);
+
+export const checkGradients = (source: SimpleNetwork, allSamples: Sample[], options: GradientCheckOptions = {}): GradientCheckResult => {
+  const { epsilon = 1e-5, maxSamples = 16, worstCount = 5 } = options;
+  const samples = allSamples.slice(0, maxSamples);
+  if (!samples.length) throw new Error('Gradient check needs at least one sample');
+  const net = SimpleNetwork.fromState(source.getState());
+
+  // Analytic: backward() per sample, averaged like evaluate() averages the loss
+  const weightGrads = net.weights.map(w => new Float64Array(w.length));
+  const biasGrads = net.biases.map(b => new Float64Array(b.length));
+  for (const sample of samples) {
+    net.forward(sample.input);
+    net.backward(sample.target);
+    net.weightGrads.forEach((g, l) => g.forEach((v, p) => { weightGrads[l][p] += v / samples.length; }));
+    net.biasGrads.forEach((g, l) => g.forEach((v, j) => { biasGrads[l][j] += v / samples.length; }));
+  }
+
+  // Numeric: nudge one parameter at a time, restoring it exactly afterwards
+  const numeric = (params: Float64Array, p: number) => {
+    const original = params[p];
+    params[p] = original + epsilon;
+    const plus = net.evaluate(samples).loss;
+    params[p] = original - epsilon;
+    const minus = net.evaluate(samples).loss;
+    params[p] = original;
+    return (plus - minus) / (2 * epsilon);
+  };
+
+  const entries: GradientCheckEntry[] = [];
+  const layers = net.weights.map((weights, layer) => {
+    const toSize = net.layerSizes[layer + 1];
+    const dense = net.layers[layer + 1].kind === 'DENSE';
+    const layerEntries: GradientCheckEntry[] = [];
+    const check = (kind: GradientCheckEntry['kind'], params: Float64Array, analytic: Float64Array) => {
+      for (let index = 0; index < params.length; index++) {
+        const n = numeric(params, index);
+        layerEntries.push({
+          layer, kind, index,
+          from: kind === 'weight' && dense ? Math.floor(index / toSize) : null,
+          to: !dense ? null : kind === 'weight' ? index % toSize : index,
+          analytic: analytic[index],
+          numeric: n,
+          relativeError: relativeError(analytic[index], n)
+        });
+      }
+    };
+    check('weight', weights, weightGrads[layer]);
+    check('bias', net.biases[layer], biasGrads[layer]);
+    for (const entry of layerEntries) entries.push(entry);
+
+    // Pool layers have no parameters to check
+    const errors = layerEntries.map(e => e.relativeError);
+    return {
+      layer,
+      parameters: errors.length,
+      maxRelativeError: errors.reduce((a, b) => Math.max(a, b), 0),
+      meanRelativeError: errors.length ? errors.reduce((a, b) => a + b, 0) / errors.length : 0
+    };
+  });
+
+  return {
+    samples: samples.length,
+    layers,
+    worst: entries.sort((a, b) => b.relativeError - a.relativeError).slice(0, worstCount),
+    maxRelativeError: layers.reduce((max, l) => Math.max(max, l.maxRelativeError), 0)
+  };
+};
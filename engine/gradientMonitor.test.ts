@@ -0,0 +1,78 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { createRng, generateDataset } from './datasets';
+import { SimpleNetwork } from './network';
+import { gradientConditions } from './gradientMonitor';
+
+describe('gradientConditions', () => {
+  it('flags non-finite and oversized norms as exploding', () => {
+    expect(gradientConditions([0.5, Infinity, 0.2], [9, 9, 3])).toEqual([null, 'EXPLODING', null]);
+    expect(gradientConditions([NaN, 1, 1], [9, 9, 3])).toEqual(['EXPLODING', null, null]);
+    expect(gradientConditions([250, 1], [9, 3], { exploding: 200, vanishingRatio: 1e-3 })).toEqual(['EXPLODING', null]);
+  });
+
+  it('flags layers whose norm has faded relative to the output layer', () => {
+    expect(gradientConditions([1e-7, 1e-3, 0.5], [9, 9, 3])).toEqual(['VANISHING', null, null]);
+    // A network at rest has small gradients everywhere, which is not vanishing
+    expect(gradientConditions([1e-7, 1e-7, 1e-6], [9, 9, 3])).toEqual([null, null, null]);
+    expect(gradientConditions([0, 0, 0], [9, 9, 3])).toEqual([null, null, null]);
+  });
+
+  it('skips layers without parameters', () => {
+    expect(gradientConditions([0.1, 0, 0.4], [9, 0, 3])).toEqual([null, null, null]);
+    expect(gradientConditions([0.1, 0], [9, 0])).toEqual([null, null]);
+  });
+});
+
+describe('gradient monitoring while training', () => {
+  beforeEach(() => {
+    vi.spyOn(Math, 'random').mockImplementation(createRng(3));
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  const samples = generateDataset('XOR', 1, { count: 20, seed: 1 });
+
+  it('sees saturated sigmoids starve the first layers of gradient', () => {
+    const net = new SimpleNetwork([2, 6, 6, 6, 6, 1], ['SIGMOID', 'SIGMOID', 'SIGMOID', 'SIGMOID', 'SIGMOID', 'SIGMOID']);
+    net.initialize(['UNIFORM', 'CONSTANT', 'CONSTANT', 'CONSTANT', 'CONSTANT', 'UNIFORM'], 3);
+    net.trainEpoch(samples, 0.01);
+    const norms = net.takeGradientNorms();
+
+    expect(norms[0]).toBeLessThan(norms[4] * 1e-3);
+    expect(gradientConditions(norms, net.weights.map(w => w.length))[0]).toBe('VANISHING');
+  });
+
+  it('sees skip connections carry the gradient back through a deep stack', () => {
+    // Small weights shrink the error at every layer on the way back, unless skips bypass them
+    const run = (skips: boolean) => {
+      const net = new SimpleNetwork([2, 6, 6, 6, 6, 6, 6, 6, 1], ['SIGMOID', ...new Array(7).fill('LEAKY_RELU'), 'SIGMOID']);
+      net.initialize(['UNIFORM', ...new Array(7).fill('CONSTANT'), 'UNIFORM'], 0.05);
+      if (skips) net.setSkips([{ from: 1, to: 3 }, { from: 3, to: 5 }, { from: 5, to: 7 }]);
+      net.trainEpoch(samples, 0.01);
+      return { norms: net.takeGradientNorms(), parameters: net.weights.map((w, l) => w.length + net.biases[l].length) };
+    };
+
+    const plain = run(false);
+    const residual = run(true);
+    expect(gradientConditions(plain.norms, plain.parameters)[0]).toBe('VANISHING');
+    expect(gradientConditions(residual.norms, residual.parameters)).not.toContain('VANISHING');
+  });
+
+  it('sees oversized weights blow the gradients up, and norm clipping bound the updates', () => {
+    const run = (clip: boolean) => {
+      const net = new SimpleNetwork([2, 8, 8, 8, 1], ['SIGMOID', 'LEAKY_RELU', 'LEAKY_RELU', 'LEAKY_RELU', 'LEAKY_RELU']);
+      net.initialize(['UNIFORM', 'CONSTANT', 'CONSTANT', 'CONSTANT', 'CONSTANT'], 1.5);
+      if (clip) net.setClipping({ mode: 'NORM', threshold: 1 });
+      net.trainEpoch(samples, 0.01);
+      return net;
+    };
+
+    const unclipped = run(false);
+    expect(gradientConditions(unclipped.takeGradientNorms(), unclipped.weights.map(w => w.length))).toContain('EXPLODING');
+    expect(unclipped.weightDeltas.some(d => d.some(v => Math.abs(v) > 0.01))).toBe(true);
+    // SGD steps of at most lr x threshold, however large the raw gradients were
+    expect(run(true).weightDeltas.every(d => d.every(v => Math.abs(v) <= 0.01 + 1e-12))).toBe(true);
+  });
+});
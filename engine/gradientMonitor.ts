@@ -0,0 +1,26 @@
+// Exploding and vanishing gradient detection from per-layer gradient norms (SimpleNetwork.takeGradientNorms()).
+//
+// norms[l] belongs to the parameters feeding layer l + 1. A layer's gradients are EXPLODING when their norm is
+// not finite or above `exploding`, and VANISHING when it falls below `vanishingRatio` times the norm of the
+// last layer with parameters: the error signal fades on its way back towards the input. Near convergence all
+// norms shrink together, which is not flagged. Layers without parameters (pooling) are never flagged.
+
+export type GradientCondition = 'EXPLODING' | 'VANISHING';
+
+export interface GradientLimits {
+  exploding: number;
+  vanishingRatio: number;
+}
+
+export const DEFAULT_GRADIENT_LIMITS: GradientLimits = { exploding: 100, vanishingRatio: 1e-3 };
+
+// parameters[l]: how many weights and biases norms[l] covers (0 for pooling layers)
+export const gradientConditions = (norms: number[], parameters: number[], limits = DEFAULT_GRADIENT_LIMITS): (GradientCondition | null)[] => {
+  const last = parameters.map(count => count > 0).lastIndexOf(true);
+  const reference = last < 0 ? 0 : norms[last];
+  return norms.map((norm, l) => {
+    if (!parameters[l]) return null;
+    if (!isFinite(norm) || norm > limits.exploding) return 'EXPLODING';
+    return isFinite(reference) && reference > 0 && norm < reference * limits.vanishingRatio ? 'VANISHING' : null;
+  });
+};
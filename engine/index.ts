@@ -0,0 +1,23 @@
+// Headless neural network engine shared by the Architect UI and tooling.
+export * from './activations';
+export * from './expression';
+export * from './losses';
+export * from './optimizers';
+export * from './schedules';
+export * from './datasets';
+export * from './glyphs';
+export * from './tensor';
+export * from './layers';
+export * from './initializers';
+export * from './network';
+export * from './convergence';
+export * from './timeline';
+export * from './trainer';
+export * from './modelFile';
+export * from './tfjs';
+export * from './codegen';
+export * from './gradientCheck';
+export * from './inspector';
+export * from './layerStats';
+export * from './neuronHealth';
+export * from './gradientMonitor';
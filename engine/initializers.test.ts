@@ -0,0 +1,84 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { createRng } from './datasets';
+import { INITIALIZERS, INITIALIZER_KEYS, InitializerKey } from './initializers';
+import { SimpleNetwork } from './network';
+
+const stats = (xs: Float64Array) => {
+  const mean = xs.reduce((a, b) => a + b, 0) / xs.length;
+  const std = Math.sqrt(xs.reduce((sum, x) => sum + (x - mean) ** 2, 0) / xs.length);
+  return { mean, std, maxAbs: xs.reduce((max, x) => Math.max(max, Math.abs(x)), 0) };
+};
+
+// Gram matrix of the columns (colsGram) or rows of a row-major rows x cols matrix
+const gram = (w: Float64Array, rows: number, cols: number, ofColumns: boolean) => {
+  const n = ofColumns ? cols : rows;
+  const len = ofColumns ? rows : cols;
+  const at = (v: number, i: number) => ofColumns ? w[i * cols + v] : w[v * cols + i];
+  return Array.from({ length: n }, (_, a) => Array.from({ length: n }, (_, b) => {
+    let dot = 0;
+    for (let i = 0; i < len; i++) dot += at(a, i) * at(b, i);
+    return dot;
+  }));
+};
+
+describe('initializers', () => {
+  beforeEach(() => {
+    vi.spyOn(Math, 'random').mockImplementation(createRng(11));
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it.each(INITIALIZER_KEYS)('%s produces [fanIn x fanOut] weights and fanOut biases', (key) => {
+    const { weights, biases } = INITIALIZERS[key];
+    expect(weights(5, 3, 0.1)).toHaveLength(15);
+    expect(biases(3, 0.1)).toHaveLength(3);
+  });
+
+  it('scales the random schemes by fan-in / fan-out', () => {
+    expect(stats(INITIALIZERS.UNIFORM.weights(16, 200, 0)).maxAbs).toBeLessThanOrEqual(1 / 4);
+    expect(stats(INITIALIZERS.XAVIER.weights(100, 50, 0)).maxAbs).toBeLessThanOrEqual(Math.sqrt(6 / 150));
+
+    const he = stats(INITIALIZERS.HE.weights(200, 200, 0));
+    expect(he.mean).toBeCloseTo(0, 2);
+    expect(he.std).toBeGreaterThan(0.95 * Math.sqrt(2 / 200));
+    expect(he.std).toBeLessThan(1.05 * Math.sqrt(2 / 200));
+
+    const biases = INITIALIZERS.UNIFORM.biases(100, 0);
+    biases.forEach(b => { expect(b).toBeGreaterThanOrEqual(0.01); expect(b).toBeLessThanOrEqual(0.21); });
+  });
+
+  it.each([[6, 3], [3, 6], [4, 4]])('makes %ix%i orthogonal matrices with orthonormal rows or columns', (rows, cols) => {
+    const w = INITIALIZERS.ORTHOGONAL.weights(rows, cols, 0);
+    gram(w, rows, cols, rows >= cols).forEach((row, a) => row.forEach((dot, b) => expect(dot).toBeCloseTo(a === b ? 1 : 0, 10)));
+  });
+
+  it('fills the deterministic schemes exactly', () => {
+    expect(Array.from(INITIALIZERS.ZEROS.weights(2, 2, 0.3))).toEqual([0, 0, 0, 0]);
+    expect(Array.from(INITIALIZERS.CONSTANT.weights(2, 2, 0.3))).toEqual([0.3, 0.3, 0.3, 0.3]);
+    expect(Array.from(INITIALIZERS.CONSTANT.biases(2, 0.3))).toEqual([0, 0]);
+  });
+
+  describe('SimpleNetwork.initialize', () => {
+    it('redraws each layer with its own scheme and starts training over', () => {
+      const net = new SimpleNetwork([3, 4, 2], ['SIGMOID', 'RELU', 'SIGMOID']);
+      for (let i = 0; i < 3; i++) net.train([0.1, 0.2, 0.3], [1, 0], 0.1);
+      const version = net.version;
+
+      const inits: InitializerKey[] = ['ZEROS', 'CONSTANT', 'ZEROS'];
+      net.initialize(inits, 0.5);
+      expect(Array.from(net.weights[0])).toEqual(new Array(12).fill(0.5));
+      expect(Array.from(net.weights[1])).toEqual(new Array(8).fill(0));
+      expect(net.biases.every(b => b.every(x => x === 0))).toBe(true);
+      expect(net.stepCount).toBe(0);
+      expect(net.moments.mW.every(m => m.every(x => x === 0))).toBe(true);
+      expect(net.version).toBeGreaterThan(version);
+    });
+
+    it('needs one initializer per layer', () => {
+      const net = new SimpleNetwork([3, 4, 2], ['SIGMOID', 'RELU', 'SIGMOID']);
+      expect(() => net.initialize(['HE', 'HE'])).toThrow('Expected 3 initializers, got 2');
+    });
+  });
+});
@@ -0,0 +1,95 @@
+// Weight initialization schemes for SimpleNetwork, chosen per layer.
+// fanIn/fanOut are the sizes of the layers a weight matrix connects; `constant` only matters for CONSTANT.
+// All randomness goes through Math.random (like the rest of the engine), so seeded tests stay deterministic.
+
+import { gaussian } from './datasets';
+import { Matrix, Vector, createMatrix } from './tensor';
+
+export type InitializerKey = 'UNIFORM' | 'XAVIER' | 'HE' | 'ORTHOGONAL' | 'ZEROS' | 'CONSTANT';
+
+export interface InitializerDef {
+  name: string;
+  description: string;
+  color: string;
+  weights: (fanIn: number, fanOut: number, constant: number) => Matrix;
+  biases: (size: number, constant: number) => Vector;
+}
+
+export const DEFAULT_INIT_CONSTANT = 0.1;
+
+const zeros = (size: number) => new Float64Array(size);
+
+// Rows x cols matrix whose rows (or columns, whichever are fewer) are orthonormal
+const orthogonal = (rows: number, cols: number) => {
+  const count = Math.min(rows, cols);
+  const length = Math.max(rows, cols);
+  const vectors: Float64Array[] = [];
+  while (vectors.length < count) {
+    // Modified Gram-Schmidt against the vectors kept so far; retry the (vanishingly rare) degenerate draw
+    const v = new Float64Array(length).map(() => gaussian(Math.random));
+    for (const u of vectors) {
+      const dot = v.reduce((sum, x, i) => sum + x * u[i], 0);
+      for (let i = 0; i < length; i++) v[i] -= dot * u[i];
+    }
+    const norm = Math.sqrt(v.reduce((sum, x) => sum + x * x, 0));
+    if (norm < 1e-10) continue;
+    vectors.push(v.map(x => x / norm));
+  }
+  const out = createMatrix(rows, cols);
+  vectors.forEach((v, n) => v.forEach((x, i) => {
+    if (rows >= cols) out[i * cols + n] = x; // Orthonormal columns
+    else out[n * cols + i] = x; // Orthonormal rows
+  }));
+  return out;
+};
+
+export const INITIALIZERS: Record<InitializerKey, InitializerDef> = {
+  UNIFORM: {
+    name: 'Uniform',
+    description: 'Uniform in ±1/√fan-in, small positive biases (the Architect default)',
+    color: '#94a3b8',
+    weights: (fanIn, fanOut) => createMatrix(fanIn, fanOut).map(() => ((Math.random() * 2) - 1) / Math.sqrt(fanIn)),
+    // Small positive biases prevent "Dead ReLU" at start, randomized slightly so resets look distinct (0.01 to 0.21)
+    biases: size => new Float64Array(size).map(() => 0.01 + Math.random() * 0.2)
+  },
+  XAVIER: {
+    name: 'Xavier',
+    description: 'Glorot uniform in ±√(6 / (fan-in + fan-out)): keeps variance steady for tanh/sigmoid',
+    color: '#d946ef',
+    weights: (fanIn, fanOut) => {
+      const limit = Math.sqrt(6 / (fanIn + fanOut));
+      return createMatrix(fanIn, fanOut).map(() => ((Math.random() * 2) - 1) * limit);
+    },
+    biases: zeros
+  },
+  HE: {
+    name: 'He',
+    description: 'Normal with std √(2 / fan-in): compensates for ReLU zeroing half its inputs',
+    color: '#22c55e',
+    weights: (fanIn, fanOut) => createMatrix(fanIn, fanOut).map(() => gaussian(Math.random) * Math.sqrt(2 / fanIn)),
+    biases: zeros
+  },
+  ORTHOGONAL: {
+    name: 'Orthogonal',
+    description: 'Random orthonormal rows/columns: preserves vector lengths through linear layers',
+    color: '#38bdf8',
+    weights: (fanIn, fanOut) => orthogonal(fanIn, fanOut),
+    biases: zeros
+  },
+  ZEROS: {
+    name: 'Zeros',
+    description: 'All zeros: every neuron in a layer computes (and learns) the same thing',
+    color: '#ef4444',
+    weights: (fanIn, fanOut) => createMatrix(fanIn, fanOut),
+    biases: zeros
+  },
+  CONSTANT: {
+    name: 'Constant',
+    description: 'Every weight set to the same value: symmetric like zeros, but the signal still flows',
+    color: '#eab308',
+    weights: (fanIn, fanOut, constant) => createMatrix(fanIn, fanOut).fill(constant),
+    biases: zeros
+  }
+};
+
+export const INITIALIZER_KEYS = Object.keys(INITIALIZERS) as InitializerKey[];
@@ -0,0 +1,55 @@
+import { describe, expect, it } from 'vitest';
+import { SimpleNetwork } from './network';
+import { inspectNeuron } from './inspector';
+
+const net = () => {
+  const n = new SimpleNetwork([2, 3, 1], ['SIGMOID', 'TANH', 'SIGMOID']);
+  n.setLoss('MSE');
+  return n;
+};
+
+describe('inspectNeuron', () => {
+  it('breaks the pre-activation down into weighted inputs plus bias', () => {
+    const n = net();
+    n.forward([0.3, -0.8]);
+    const b = inspectNeuron(n, 1, 2);
+    expect(b.incoming.map(e => e.source)).toEqual([0.3, -0.8]);
+    b.incoming.forEach(e => expect(e.weight).toBe(n.weights[0][e.from * 3 + 2]));
+    const sum = b.incoming.reduce((s, e) => s + e.contribution, 0) + b.bias;
+    expect(sum).toBeCloseTo(b.preActivation, 12);
+    expect(b.output).toBeCloseTo(Math.tanh(b.preActivation), 12);
+    expect(b.derivative).toBeCloseTo(1 - b.output * b.output, 12);
+  });
+
+  it('reports the error term and gradients of the last backward pass, and the last step', () => {
+    const n = net();
+    n.forward([0.5, 0.1]);
+    expect(inspectNeuron(n, 1, 0).error).toBe(0);
+    n.backward([1]);
+    const b = inspectNeuron(n, 1, 0);
+    expect(b.error).not.toBe(0);
+    // Chain rule: dLoss/dw = source * error, dLoss/db = error
+    b.incoming.forEach(e => expect(e.gradient).toBeCloseTo(e.source * b.error, 12));
+    expect(b.biasGradient).toBeCloseTo(b.error, 12);
+    expect(b.incoming.every(e => e.delta === 0)).toBe(true);
+
+    n.step(0.1);
+    expect(inspectNeuron(n, 1, 0).incoming.every(e => e.delta !== 0)).toBe(true);
+  });
+
+  it('adds the outputs skip connections bring in to the sum', () => {
+    const n = new SimpleNetwork([2, 2, 2, 2], ['SIGMOID', 'TANH', 'TANH', 'SIGMOID']);
+    n.setSkips([{ from: 1, to: 3 }]);
+    n.forward([0.3, -0.8]);
+    const b = inspectNeuron(n, 3, 1);
+    expect(b.skips).toEqual([{ layer: 1, source: n.values[1][1] }]);
+    const sum = b.incoming.reduce((s, e) => s + e.contribution, 0) + b.bias + b.skips[0].source;
+    expect(sum).toBeCloseTo(b.preActivation, 12);
+    expect(inspectNeuron(n, 2, 1).skips).toEqual([]);
+  });
+
+  it('rejects the input layer and out-of-range neurons', () => {
+    expect(() => inspectNeuron(net(), 0, 0)).toThrow('Layer 0 has no incoming weights');
+    expect(() => inspectNeuron(net(), 2, 1)).toThrow('Layer 2 has no neuron 1');
+  });
+});
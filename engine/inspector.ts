@@ -0,0 +1,89 @@
+// Neuron inspector: the weighted sum behind one neuron's output, term by term, with its backprop signals.
+//
+// Reads the network's cached forward pass (forward()), its last backward() (errors and gradients) and
+// the last step() (weight deltas); nothing is recomputed. Source values are the cached outputs of the
+// previous layer, so a neuron dropped in a training pass contributes 0 here just as it did in the sum.
+// Conv neurons list just their receptive field (with the shared kernel weights and the channel's bias).
+// A pool neuron has no parameters: each window input gets the factor the pooling applied to it (1 for the
+// max and 0 for the rest, or 1/n for a mean), so the contributions still add up to the pooled value.
+// Skip connections into the layer add the same neuron's output from the earlier layer on top.
+
+import { ActivationKey, activationDef } from './activations';
+import { LayerKind, biasIndex, incomingConnections } from './layers';
+import { SimpleNetwork } from './network';
+
+export interface IncomingEdge {
+  from: number;         // Neuron in the previous layer
+  source: number;       // Its cached output
+  weight: number;
+  contribution: number; // source * weight
+  gradient: number;     // dLoss/dWeight from the last backward() (source * error, plus any L1/L2 term)
+  delta: number;        // Change the last step() applied to the weight
+}
+
+export interface SkipInput {
+  layer: number;  // Earlier layer the skip connection comes from
+  source: number; // Its same-index neuron's cached output, added as is
+}
+
+export interface NeuronBreakdown {
+  layer: number;
+  neuron: number;
+  kind: LayerKind;
+  activation: ActivationKey;
+  incoming: IncomingEdge[];
+  bias: number;
+  biasGradient: number;
+  skips: SkipInput[];
+  preActivation: number;     // Σ contributions + bias + Σ skip sources, as cached by the forward pass
+  output: number;            // Activation of the pre-activation (times the dropout factor in training passes)
+  dropoutFactor: number;     // 0 if dropped, 1 / (1 - rate) if kept, 1 outside training passes
+  derivative: number | null; // dOutput/dPreActivation; null for whole-layer activations (softmax) and dropped neurons
+  error: number;             // dLoss/dPreActivation from the last backward()
+}
+
+export const inspectNeuron = (net: SimpleNetwork, layer: number, neuron: number): NeuronBreakdown => {
+  if (layer < 1 || layer >= net.layerSizes.length) throw new Error(`Layer ${layer} has no incoming weights`);
+  const size = net.layerSizes[layer];
+  if (neuron < 0 || neuron >= size) throw new Error(`Layer ${layer} has no neuron ${neuron}`);
+
+  const spec = net.layers[layer];
+  const weights = net.weights[layer - 1];
+  const sources = net.values[layer - 1];
+  const connections = incomingConnections(spec, net.shapes[layer - 1], net.shapes[layer], neuron);
+  const pooled = net.preActivations[layer][neuron];
+  const maxFrom = connections.find(c => sources[c.from] === pooled)?.from;
+  const incoming = connections.map(({ from, weight: p }) => {
+    const source = sources[from];
+    const weight = spec.kind !== 'POOL' ? weights[p] : spec.mode === 'MAX' ? Number(from === maxFrom) : 1 / connections.length;
+    return {
+      from,
+      source,
+      weight,
+      contribution: source * weight,
+      gradient: p < 0 ? 0 : net.weightGrads[layer - 1][p],
+      delta: p < 0 ? 0 : net.weightDeltas[layer - 1][p]
+    };
+  });
+  const b = biasIndex(spec, net.shapes[layer], neuron);
+
+  const activation = net.activations[layer];
+  const def = activationDef(activation);
+  const dropoutFactor = net.dropoutMasks[layer][neuron];
+  const output = net.values[layer][neuron];
+  return {
+    layer,
+    neuron,
+    kind: spec.kind,
+    activation,
+    incoming,
+    bias: b < 0 ? 0 : net.biases[layer - 1][b],
+    biasGradient: b < 0 ? 0 : net.biasGrads[layer - 1][b],
+    skips: net.skips.filter(skip => skip.to === layer).map(skip => ({ layer: skip.from, source: net.values[skip.from][neuron] })),
+    preActivation: net.preActivations[layer][neuron],
+    output,
+    dropoutFactor,
+    derivative: def.layerFunc || !dropoutFactor ? null : def.deriv(output / dropoutFactor, net.preActivations[layer][neuron]),
+    error: net.errors[layer][neuron]
+  };
+};
@@ -0,0 +1,53 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { Sample, createRng, generateDataset } from './datasets';
+import { SimpleNetwork } from './network';
+import { histogram, preActivationStatistics } from './layerStats';
+
+describe('layer statistics', () => {
+  beforeEach(() => {
+    vi.spyOn(Math, 'random').mockImplementation(createRng(5));
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('bins values into a symmetric range of at least ±1', () => {
+    expect(histogram([-0.5, 0, 0.2, 0.9], 4)).toEqual({ min: -1, max: 1, counts: [0, 1, 2, 1] });
+    const wide = histogram([-3, -1.5, 0.5, 3], 3);
+    expect([wide.min, wide.max]).toEqual([-3, 3]);
+    expect(wide.counts).toEqual([2, 1, 1]);
+  });
+
+  it('summarises every non-input layer over the samples', () => {
+    const samples: Sample[] = [
+      { input: [1, 2], target: [1], label: 1 },
+      { input: [-1, 0.5], target: [0], label: 0 }
+    ];
+    const net = new SimpleNetwork([2, 3, 1], ['SIGMOID', 'TANH', 'SIGMOID']);
+    net.forward([0, 0]);
+    const cached = net.values.map(v => v.slice());
+
+    const stats = preActivationStatistics(net, samples, 8);
+    expect(stats.map(s => s.layer)).toEqual([1, 2]);
+    const pre = samples.flatMap(s => Array.from(net.trace(s.input).preActivations[1]));
+    const mean = pre.reduce((a, b) => a + b, 0) / pre.length;
+    expect(stats[0].mean).toBeCloseTo(mean, 12);
+    expect(stats[0].std).toBeCloseTo(Math.sqrt(pre.reduce((s, z) => s + (z - mean) ** 2, 0) / pre.length), 12);
+    expect(stats[0].histogram.counts.reduce((a, b) => a + b, 0)).toBe(6);
+    expect(net.values).toEqual(cached); // trace() leaves the displayed pass alone
+  });
+
+  it('shows large constant weights saturating a sigmoid layer', () => {
+    const data = generateDataset('XOR', 1, { count: 40, seed: 1 });
+    const net = new SimpleNetwork([2, 8, 8, 1], ['SIGMOID', 'SIGMOID', 'SIGMOID', 'SIGMOID']);
+    net.initialize(['UNIFORM', 'XAVIER', 'CONSTANT', 'XAVIER'], 2);
+    const [first, second] = preActivationStatistics(net, data);
+    expect(second.mean).toBeGreaterThan(4);
+    expect(second.saturated).toBe(1); // Eight inputs of ~0.5 at weight 2 each: z ≈ 8
+    expect(first.saturated).toBeLessThan(0.5);
+    // ...and every neuron of that layer computes the same thing
+    const z = net.trace(data[0].input).preActivations[2];
+    z.forEach(v => expect(v).toBeCloseTo(z[0], 12));
+  });
+});
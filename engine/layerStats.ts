@@ -0,0 +1,51 @@
+// Per-layer activation statistics over a set of inputs, e.g. to judge an initialization before training:
+// pre-activations that collapse towards 0 layer after layer are vanishing, ones spread far beyond ±2
+// push sigmoid/tanh into their flat (saturated) ends.
+
+import { activationDef } from './activations';
+import { Sample } from './datasets';
+import { SimpleNetwork } from './network';
+
+export interface Histogram {
+  min: number;
+  max: number;
+  counts: number[]; // Equal-width bins from min to max
+}
+
+export interface LayerStatistics {
+  layer: number;
+  mean: number;
+  std: number;
+  histogram: Histogram;
+  saturated: number; // Fraction of outputs in the activation's saturated range (0 if it has none)
+}
+
+// Symmetric range around 0 wide enough for every value (at least ±1, so near-constant layers stay readable)
+export const histogram = (values: ArrayLike<number>, bins: number): Histogram => {
+  let extent = 1;
+  for (let i = 0; i < values.length; i++) extent = Math.max(extent, Math.abs(values[i]));
+  const counts = new Array<number>(bins).fill(0);
+  for (let i = 0; i < values.length; i++) {
+    counts[Math.min(bins - 1, Math.floor((values[i] + extent) / (2 * extent) * bins))]++;
+  }
+  return { min: -extent, max: extent, counts };
+};
+
+// Pre-activation statistics of every non-input layer over the samples' inputs (dropout off)
+export const preActivationStatistics = (net: SimpleNetwork, samples: Sample[], bins = 16): LayerStatistics[] => {
+  const layers = net.layerSizes.slice(1).map(() => ({ pre: [] as number[], saturated: 0 }));
+  for (const sample of samples) {
+    const { values, preActivations } = net.trace(sample.input);
+    layers.forEach((layer, i) => {
+      const isSaturated = activationDef(net.activations[i + 1]).saturated;
+      preActivations[i + 1].forEach(z => layer.pre.push(z));
+      if (isSaturated) values[i + 1].forEach(y => { if (isSaturated(y)) layer.saturated++; });
+    });
+  }
+  return layers.map(({ pre, saturated }, i) => {
+    const n = Math.max(1, pre.length);
+    const mean = pre.reduce((a, b) => a + b, 0) / n;
+    const variance = pre.reduce((sum, z) => sum + (z - mean) ** 2, 0) / n;
+    return { layer: i + 1, mean, std: Math.sqrt(variance), histogram: histogram(pre, bins), saturated: saturated / n };
+  });
+};
@@ -0,0 +1,116 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { Sample, createRng } from './datasets';
+import { SimpleNetwork } from './network';
+import { checkGradients } from './gradientCheck';
+import {
+  LayerSpec, incomingConnections, layerBackward, layerForward, layerShapes, neuronIndex, neuronPosition, parameterCounts, shapeGrid
+} from './layers';
+
+const conv = (kernel: number, stride: number, padding: number, channels: number): LayerSpec => ({ kind: 'CONV', kernel, stride, padding, channels });
+const pool = (size: number, stride: number, mode: 'MAX' | 'AVG' = 'MAX'): LayerSpec => ({ kind: 'POOL', size, stride, mode });
+const dense: LayerSpec = { kind: 'DENSE' };
+
+describe('layer shapes', () => {
+  it('derives conv and pool grids from the layer before, channels side by side', () => {
+    const specs = [dense, conv(3, 1, 1, 2), pool(2, 2), dense];
+    const shapes = layerShapes([{ rows: 4, cols: 4 }, { rows: 1, cols: 1 }, { rows: 1, cols: 1 }, { rows: 2, cols: 1 }], specs);
+
+    expect(shapes).toEqual([
+      { height: 4, width: 4, channels: 1 },
+      { height: 4, width: 4, channels: 2 },
+      { height: 2, width: 2, channels: 2 },
+      { height: 2, width: 1, channels: 1 }
+    ]);
+    expect(shapes.map(shapeGrid)).toEqual([{ rows: 4, cols: 4 }, { rows: 4, cols: 8 }, { rows: 2, cols: 4 }, { rows: 2, cols: 1 }]);
+    expect(parameterCounts(specs[1], shapes[0], shapes[1])).toEqual({ weights: 1 * 9 * 2, biases: 2 });
+    expect(parameterCounts(specs[2], shapes[1], shapes[2])).toEqual({ weights: 0, biases: 0 });
+  });
+
+  it('indexes neurons row by row with the channels laid out along each row', () => {
+    const shape = { height: 2, width: 3, channels: 2 };
+    expect(neuronIndex(shape, 1, 1, 2)).toBe(1 * 6 + 1 * 3 + 2);
+    expect(neuronPosition(shape, 11)).toEqual({ channel: 1, y: 1, x: 2 });
+  });
+
+  it('rejects kernels that do not fit their input', () => {
+    expect(() => layerShapes([{ rows: 2, cols: 2 }, { rows: 1, cols: 1 }], [dense, conv(3, 1, 0, 1)])).toThrow(/3x3 kernel does not fit a 2x2 input/);
+    expect(() => layerShapes([{ rows: 2, cols: 2 }, { rows: 1, cols: 1 }], [dense, conv(2, 1, 2, 1)])).toThrow(/padding/);
+  });
+});
+
+describe('layer kernels', () => {
+  // 3x3 input 1..9, one 2x2 kernel, stride 1, no padding -> 2x2 output
+  const input = { height: 3, width: 3, channels: 1 };
+  const output = { height: 2, width: 2, channels: 1 };
+  const x = Float64Array.of(1, 2, 3, 4, 5, 6, 7, 8, 9);
+
+  it('slides a shared kernel over the input', () => {
+    const W = Float64Array.of(1, 0, 0, -1); // Taps (0,0) = 1 and (1,1) = -1
+    const out = layerForward(conv(2, 1, 0, 1), input, output, x, W, Float64Array.of(0.5), new Float64Array(4));
+    expect(out).toEqual(Float64Array.of(-3.5, -3.5, -3.5, -3.5));
+  });
+
+  it('lists only the receptive field as incoming connections', () => {
+    const connections = incomingConnections(conv(2, 1, 0, 1), input, output, 3);
+    expect(connections.map(c => [c.from, c.weight])).toEqual([[4, 0], [5, 1], [7, 2], [8, 3]]);
+  });
+
+  it('routes max-pool errors to the winning input and spreads average-pool errors', () => {
+    const maxGrads = new Float64Array(9);
+    layerBackward(pool(2, 1), input, output, x, new Float64Array(0), Float64Array.of(1, 2, 3, 4), new Float64Array(0), new Float64Array(0), maxGrads);
+    expect(maxGrads).toEqual(Float64Array.of(0, 0, 0, 0, 1, 2, 0, 3, 4));
+
+    const avgGrads = new Float64Array(9);
+    layerBackward(pool(2, 1, 'AVG'), input, output, x, new Float64Array(0), Float64Array.of(4, 4, 4, 4), new Float64Array(0), new Float64Array(0), avgGrads);
+    expect(avgGrads).toEqual(Float64Array.of(1, 2, 1, 2, 4, 2, 1, 2, 1));
+  });
+});
+
+describe('convolutional networks', () => {
+  beforeEach(() => {
+    vi.spyOn(Math, 'random').mockImplementation(createRng(5));
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  const grids = [{ rows: 4, cols: 4 }, { rows: 1, cols: 1 }, { rows: 1, cols: 1 }, { rows: 2, cols: 1 }];
+  const rng = createRng(11);
+  const samples: Sample[] = [0, 1, 0].map(label => ({
+    input: Array.from({ length: 16 }, () => rng() * 2 - 1),
+    target: label ? [0, 1] : [1, 0],
+    label
+  }));
+
+  it.each<[string, LayerSpec]>([['max', pool(2, 2)], ['average', pool(2, 2, 'AVG')]])('backpropagates exactly through conv and %s pooling', (_, poolSpec) => {
+    const specs = [dense, conv(3, 1, 1, 2), poolSpec, dense];
+    const shapes = layerShapes(grids, specs);
+    const net = new SimpleNetwork(shapes.map(s => s.height * s.width * s.channels), ['TANH', 'TANH', 'TANH', 'SIGMOID'], specs, shapes);
+    net.setLoss('BCE');
+    const result = checkGradients(net, samples);
+
+    expect(result.layers.map(l => l.parameters)).toEqual([9 * 2 + 2, 0, 8 * 2 + 2]);
+    expect(result.maxRelativeError).toBeLessThan(1e-5);
+  });
+
+  it('trains and survives a state round trip', () => {
+    const specs = [dense, conv(2, 2, 0, 1), dense];
+    const shapes = layerShapes([{ rows: 4, cols: 4 }, { rows: 1, cols: 1 }, { rows: 2, cols: 1 }], specs);
+    const net = new SimpleNetwork([16, 4, 2], ['TANH', 'TANH', 'SIGMOID'], specs, shapes);
+    net.setLoss('BCE');
+    const before = net.evaluate(samples).loss;
+    for (let epoch = 0; epoch < 50; epoch++) net.trainEpoch(samples, 0.1);
+
+    expect(net.evaluate(samples).loss).toBeLessThan(before);
+    const copy = SimpleNetwork.fromState(net.getState());
+    expect(copy.layers).toEqual(specs);
+    expect(copy.predict(samples[0].input)).toEqual(net.predict(samples[0].input));
+  });
+
+  it('rejects shapes that do not match the specs', () => {
+    const specs = [dense, conv(3, 1, 1, 2), dense];
+    const shapes = [{ height: 2, width: 2, channels: 1 }, { height: 2, width: 2, channels: 1 }, { height: 1, width: 1, channels: 1 }];
+    expect(() => new SimpleNetwork([4, 4, 1], ['TANH', 'TANH', 'SIGMOID'], specs, shapes)).toThrow(/Layer 1 must be 2x2x2/);
+  });
+});
@@ -0,0 +1,250 @@
+// Layer kinds: how the neurons of layer l + 1 connect to the neurons of layer l.
+//
+// Every layer is a grid of height x width neurons per channel, with the channels laid side by side along
+// the columns: neuron (c, y, x) sits at y * (width * channels) + c * width + x, so a layer drawn as
+// rows = height, cols = width * channels matches the Architect's r * cols + col indexing.
+//   DENSE  every neuron of layer l feeds every neuron of layer l + 1 (the layer's own grid is free)
+//   CONV   one kernel x kernel filter per output channel slides over all input channels with the given
+//          stride and zero padding; the filter weights are shared by every position
+//   POOL   the max or mean of each size x size window, per channel; no parameters
+// Conv and pool layers derive their grid from the layer before (see layerShapes). The layer's activation
+// still applies afterwards, to the convolution or to the pooled value.
+//
+// Parameter layout (flat, row-major like the dense layers):
+//   DENSE  weights [from x to], element k * to + j; biases [to]
+//   CONV   weights [(inChannels * kernel²) x channels], element (ci * kernel² + ky * kernel + kx) * channels + co
+//          is filter co's tap (ky, kx) on input channel ci; biases [channels], one per filter
+//   POOL   empty weights and biases
+
+import { Matrix, Vector, matVec, outer, vecMatAdd } from './tensor';
+
+export type LayerKind = 'DENSE' | 'CONV' | 'POOL';
+export type PoolMode = 'MAX' | 'AVG';
+
+export type LayerSpec =
+  | { kind: 'DENSE' }
+  | { kind: 'CONV', kernel: number, stride: number, padding: number, channels: number }
+  | { kind: 'POOL', size: number, stride: number, mode: PoolMode };
+
+export const LAYER_KINDS: LayerKind[] = ['DENSE', 'CONV', 'POOL'];
+export const POOL_MODES: PoolMode[] = ['MAX', 'AVG'];
+
+// What the Architect puts in a layer switched to each kind
+export const DEFAULT_LAYER_SPECS: Record<LayerKind, LayerSpec> = {
+  DENSE: { kind: 'DENSE' },
+  CONV: { kind: 'CONV', kernel: 3, stride: 1, padding: 1, channels: 1 },
+  POOL: { kind: 'POOL', size: 2, stride: 2, mode: 'MAX' }
+};
+
+export interface LayerShape {
+  height: number;
+  width: number;
+  channels: number;
+}
+
+// A plain vector of `size` neurons
+export const flatShape = (size: number): LayerShape => ({ height: 1, width: size, channels: 1 });
+export const shapeSize = (shape: LayerShape) => shape.height * shape.width * shape.channels;
+export const shapeGrid = (shape: LayerShape) => ({ rows: shape.height, cols: shape.width * shape.channels });
+
+export const neuronIndex = (shape: LayerShape, channel: number, y: number, x: number) => (
+  y * shape.width * shape.channels + channel * shape.width + x
+);
+
+// Inverse of neuronIndex
+export const neuronPosition = (shape: LayerShape, index: number) => {
+  const row = shape.width * shape.channels;
+  const col = index % row;
+  return { channel: Math.floor(col / shape.width), y: Math.floor(index / row), x: col % shape.width };
+};
+
+// Positions a window of `size` at `stride` (after `padding` on both sides) covers along an axis of `length`
+const windowCount = (length: number, size: number, stride: number, padding: number) => Math.floor((length + 2 * padding - size) / stride) + 1;
+
+// The grid a conv or pool layer produces from its input (null for dense layers, which keep their own)
+export const outputShape = (spec: LayerSpec, input: LayerShape): LayerShape | null => {
+  if (spec.kind === 'DENSE') return null;
+  const [size, stride, padding, channels] = spec.kind === 'CONV'
+    ? [spec.kernel, spec.stride, spec.padding, spec.channels]
+    : [spec.size, spec.stride, 0, input.channels];
+  const height = windowCount(input.height, size, stride, padding);
+  const width = windowCount(input.width, size, stride, padding);
+  if (height < 1 || width < 1) {
+    throw new Error(`A ${size}x${size} ${spec.kind === 'CONV' ? 'kernel' : 'window'} does not fit a ${input.height}x${input.width} input`);
+  }
+  return { height, width, channels };
+};
+
+export const assertLayerSpec = (spec: LayerSpec) => {
+  const positive = (value: number) => Number.isInteger(value) && value >= 1;
+  if (spec.kind === 'CONV') {
+    if (!positive(spec.kernel) || !positive(spec.stride) || !positive(spec.channels)) throw new Error('Conv kernel, stride and channels must be integers >= 1');
+    if (!Number.isInteger(spec.padding) || spec.padding < 0 || spec.padding >= spec.kernel) throw new Error('Conv padding must be an integer in [0, kernel)');
+  } else if (spec.kind === 'POOL') {
+    if (!positive(spec.size) || !positive(spec.stride)) throw new Error('Pool size and stride must be integers >= 1');
+    if (!POOL_MODES.includes(spec.mode)) throw new Error(`Unknown pool mode ${spec.mode}`);
+  } else if (spec.kind !== 'DENSE') {
+    throw new Error(`Unknown layer kind ${(spec as LayerSpec).kind}`);
+  }
+};
+
+// Every layer's shape: dense layers (and the input) take their rows x cols grid as one channel,
+// conv and pool layers derive theirs from the layer before. specs[0] belongs to the input and is ignored.
+export const layerShapes = (grids: { rows: number, cols: number }[], specs: LayerSpec[]): LayerShape[] => {
+  if (specs.length !== grids.length) throw new Error(`Expected ${grids.length} layer specs, got ${specs.length}`);
+  const shapes: LayerShape[] = [];
+  grids.forEach(({ rows, cols }, l) => {
+    if (l > 0) assertLayerSpec(specs[l]);
+    shapes.push((l > 0 && outputShape(specs[l], shapes[l - 1])) || { height: rows, width: cols, channels: 1 });
+  });
+  return shapes;
+};
+
+// Checks that the shapes hold the given sizes and that conv/pool layers have the shape their input implies
+export const assertLayerShapes = (layerSizes: number[], specs: LayerSpec[], shapes: LayerShape[]) => {
+  if (specs.length !== layerSizes.length || shapes.length !== layerSizes.length) {
+    throw new Error(`Expected ${layerSizes.length} layer specs and shapes`);
+  }
+  shapes.forEach((shape, l) => {
+    if (shapeSize(shape) !== layerSizes[l]) throw new Error(`Layer ${l} shape holds ${shapeSize(shape)} neurons, not ${layerSizes[l]}`);
+    if (l === 0) return;
+    assertLayerSpec(specs[l]);
+    const expected = outputShape(specs[l], shapes[l - 1]);
+    if (expected && (expected.height !== shape.height || expected.width !== shape.width || expected.channels !== shape.channels)) {
+      throw new Error(`Layer ${l} must be ${expected.height}x${expected.width}x${expected.channels} for its ${specs[l].kind} input`);
+    }
+  });
+};
+
+// Lengths of the weight and bias buffers of the layer `spec` builds from `input` to `output`
+export const parameterCounts = (spec: LayerSpec, input: LayerShape, output: LayerShape) => {
+  if (spec.kind === 'CONV') return { weights: input.channels * spec.kernel * spec.kernel * spec.channels, biases: spec.channels };
+  if (spec.kind === 'POOL') return { weights: 0, biases: 0 };
+  return { weights: shapeSize(input) * shapeSize(output), biases: shapeSize(output) };
+};
+
+// Fan-in and fan-out the initializers see: a conv layer initializes like a dense [patch x channels] matrix
+export const layerFans = (spec: LayerSpec, input: LayerShape, output: LayerShape) => (
+  spec.kind === 'CONV' ? { fanIn: input.channels * spec.kernel * spec.kernel, fanOut: spec.channels } : { fanIn: shapeSize(input), fanOut: shapeSize(output) }
+);
+
+// Neuron `to` of the output's bias entry (-1 for pool layers)
+export const biasIndex = (spec: LayerSpec, output: LayerShape, to: number) => (
+  spec.kind === 'CONV' ? neuronPosition(output, to).channel : spec.kind === 'POOL' ? -1 : to
+);
+
+export interface LayerConnection {
+  from: number;
+  to: number;
+  weight: number; // Index into the layer's weights (-1 for pool windows)
+}
+
+// Calls visit for every input neuron inside output neuron (co, oy, ox)'s window, with the kernel tap index
+const visitWindow = (
+  spec: Exclude<LayerSpec, { kind: 'DENSE' }>, input: LayerShape, co: number, oy: number, ox: number,
+  visit: (from: number, weight: number) => void
+) => {
+  const size = spec.kind === 'CONV' ? spec.kernel : spec.size;
+  const padding = spec.kind === 'CONV' ? spec.padding : 0;
+  const channels = spec.kind === 'CONV' ? spec.channels : 1;
+  const inChannels = spec.kind === 'CONV' ? [...Array(input.channels).keys()] : [co];
+  for (const ci of inChannels) {
+    for (let ky = 0; ky < size; ky++) {
+      const y = oy * spec.stride - padding + ky;
+      if (y < 0 || y >= input.height) continue;
+      for (let kx = 0; kx < size; kx++) {
+        const x = ox * spec.stride - padding + kx;
+        if (x < 0 || x >= input.width) continue;
+        const weight = spec.kind === 'CONV' ? ((ci * size + ky) * size + kx) * channels + co : -1;
+        visit(neuronIndex(input, ci, y, x), weight);
+      }
+    }
+  }
+};
+
+// The input neurons feeding output neuron `to` (its receptive field; everything for dense layers)
+export const incomingConnections = (spec: LayerSpec, input: LayerShape, output: LayerShape, to: number): LayerConnection[] => {
+  const connections: LayerConnection[] = [];
+  if (spec.kind === 'DENSE') {
+    const toSize = shapeSize(output);
+    for (let from = 0; from < shapeSize(input); from++) connections.push({ from, to, weight: from * toSize + to });
+  } else {
+    const { channel, y, x } = neuronPosition(output, to);
+    visitWindow(spec, input, channel, y, x, (from, weight) => connections.push({ from, to, weight }));
+  }
+  return connections;
+};
+
+// Every connection of the layer, output neuron by output neuron
+export const layerConnections = (spec: LayerSpec, input: LayerShape, output: LayerShape): LayerConnection[] => {
+  const connections: LayerConnection[] = [];
+  for (let to = 0; to < shapeSize(output); to++) {
+    for (const connection of incomingConnections(spec, input, output, to)) connections.push(connection);
+  }
+  return connections;
+};
+
+// Input neuron a max-pool window passes on (the first of any ties), as the forward pass picked it
+const maxInWindow = (spec: Extract<LayerSpec, { kind: 'POOL' }>, input: LayerShape, x: ArrayLike<number>, c: number, oy: number, ox: number) => {
+  let best = -1;
+  visitWindow(spec, input, c, oy, ox, from => { if (best < 0 || x[from] > x[best]) best = from; });
+  return best;
+};
+
+// Pre-activations of the output layer: out = kernel(x; W, b)
+export const layerForward = (spec: LayerSpec, input: LayerShape, output: LayerShape, x: ArrayLike<number>, W: Matrix, b: Vector, out: Vector) => {
+  if (spec.kind === 'DENSE') return vecMatAdd(x, W, b, out);
+  for (let c = 0; c < output.channels; c++) {
+    for (let oy = 0; oy < output.height; oy++) {
+      for (let ox = 0; ox < output.width; ox++) {
+        const j = neuronIndex(output, c, oy, ox);
+        if (spec.kind === 'CONV') {
+          let sum = b[c];
+          visitWindow(spec, input, c, oy, ox, (from, weight) => { sum += x[from] * W[weight]; });
+          out[j] = sum;
+        } else if (spec.mode === 'MAX') {
+          out[j] = x[maxInWindow(spec, input, x, c, oy, ox)];
+        } else {
+          let sum = 0;
+          visitWindow(spec, input, c, oy, ox, from => { sum += x[from]; });
+          out[j] = sum / (spec.size * spec.size);
+        }
+      }
+    }
+  }
+  return out;
+};
+
+// Gradients of the layer for the output errors (dLoss/dPreActivation): fills weightGrads and biasGrads and,
+// if given, inputErrors with dLoss/dInput (before the input layer's own activation and dropout)
+export const layerBackward = (
+  spec: LayerSpec, input: LayerShape, output: LayerShape, x: ArrayLike<number>, W: Matrix, errors: Vector,
+  weightGrads: Matrix, biasGrads: Vector, inputErrors?: Vector
+) => {
+  if (spec.kind === 'DENSE') {
+    outer(x, errors, weightGrads);
+    biasGrads.set(errors);
+    if (inputErrors) matVec(W, errors, inputErrors);
+    return;
+  }
+  weightGrads.fill(0);
+  biasGrads.fill(0);
+  inputErrors?.fill(0);
+  for (let c = 0; c < output.channels; c++) {
+    for (let oy = 0; oy < output.height; oy++) {
+      for (let ox = 0; ox < output.width; ox++) {
+        const e = errors[neuronIndex(output, c, oy, ox)];
+        if (spec.kind === 'CONV') {
+          biasGrads[c] += e;
+          visitWindow(spec, input, c, oy, ox, (from, weight) => {
+            weightGrads[weight] += x[from] * e;
+            if (inputErrors) inputErrors[from] += W[weight] * e;
+          });
+        } else if (inputErrors) {
+          if (spec.mode === 'MAX') inputErrors[maxInWindow(spec, input, x, c, oy, ox)] += e;
+          else visitWindow(spec, input, c, oy, ox, from => { inputErrors[from] += e / (spec.size * spec.size); });
+        }
+      }
+    }
+  }
+};
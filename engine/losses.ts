@@ -0,0 +1,57 @@
+// Loss functions. Each returns the loss summed over output neurons for one sample
+// and its gradient with respect to the network outputs.
+
+export type LossKey = 'MSE' | 'BCE' | 'CCE' | 'HUBER';
+
+export interface LossDef {
+  name: string;
+  short: string;
+  color: string;
+  loss: (outputs: ArrayLike<number>, targets: ArrayLike<number>) => number;
+  grad: (outputs: ArrayLike<number>, targets: ArrayLike<number>) => number[]; // dLoss/dOutput
+}
+
+const LOG_EPS = 1e-7; // Keeps log() finite when an output saturates at 0 or 1
+const clampProb = (y: number) => Math.max(LOG_EPS, Math.min(1 - LOG_EPS, y));
+const HUBER_DELTA = 1;
+
+const sumOver = (ys: ArrayLike<number>, term: (y: number, i: number) => number) => {
+  let sum = 0;
+  for (let i = 0; i < ys.length; i++) sum += term(ys[i], i);
+  return sum;
+};
+
+export const LOSS_FUNCTIONS: Record<LossKey, LossDef> = {
+  MSE: {
+    name: 'Mean Squared Error', short: 'MSE', color: '#00f3ff',
+    loss: (ys, ts) => sumOver(ys, (y, i) => 0.5 * Math.pow((ts[i] || 0) - y, 2)),
+    grad: (ys, ts) => Array.from(ys, (y, i) => y - (ts[i] || 0))
+  },
+  BCE: {
+    name: 'Binary Cross-Entropy', short: 'BCE', color: '#eab308',
+    loss: (ys, ts) => sumOver(ys, (y, i) => {
+      const p = clampProb(y);
+      const t = ts[i] || 0;
+      return -(t * Math.log(p) + (1 - t) * Math.log(1 - p));
+    }),
+    grad: (ys, ts) => Array.from(ys, (y, i) => {
+      const p = clampProb(y);
+      return (p - (ts[i] || 0)) / (p * (1 - p));
+    })
+  },
+  CCE: {
+    name: 'Categorical Cross-Entropy', short: 'CCE', color: '#d946ef',
+    loss: (ys, ts) => sumOver(ys, (y, i) => -(ts[i] || 0) * Math.log(clampProb(y))),
+    grad: (ys, ts) => Array.from(ys, (y, i) => -(ts[i] || 0) / clampProb(y))
+  },
+  HUBER: {
+    name: 'Huber', short: 'HUBER', color: '#22c55e',
+    loss: (ys, ts) => sumOver(ys, (y, i) => {
+      const e = Math.abs(y - (ts[i] || 0));
+      return e <= HUBER_DELTA ? 0.5 * e * e : HUBER_DELTA * (e - 0.5 * HUBER_DELTA);
+    }),
+    grad: (ys, ts) => Array.from(ys, (y, i) => Math.max(-HUBER_DELTA, Math.min(HUBER_DELTA, y - (ts[i] || 0))))
+  }
+};
+
+export const LOSS_KEYS = Object.keys(LOSS_FUNCTIONS) as LossKey[];
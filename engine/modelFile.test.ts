@@ -0,0 +1,131 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { DEFAULT_OPTIMIZER_PARAMS } from './optimizers';
+import { CONSTANT_SCHEDULE, DEFAULT_SCHEDULE_PARAMS } from './schedules';
+import { createRng } from './datasets';
+import { SimpleNetwork } from './network';
+import { LayerSpec, layerShapes } from './layers';
+import { ArchitectModel, MODEL_VERSION, ModelContext, networkFromModel, parseModel, serializeModel } from './modelFile';
+
+const context: ModelContext = {
+  layerDims: [{ rows: 2, cols: 1 }, { rows: 2, cols: 2 }, { rows: 2, cols: 1 }],
+  learningRate: 0.05,
+  schedule: { key: 'COSINE', params: { ...DEFAULT_SCHEDULE_PARAMS, period: 300 } },
+  dataset: { key: 'CIRCLES', seed: 4, split: { validation: 0.2, test: 0.1 }, inputs: [0.5, -0.5], target: [0, 1] },
+  epochs: 12,
+  lossHistory: [{ epoch: 11, loss: 0.4, valLoss: 0.5 }, { epoch: 12, loss: 0.35 }]
+};
+
+const trainedNetwork = () => {
+  const net = new SimpleNetwork([2, 4, 2], ['SIGMOID', 'TANH', 'SOFTMAX']);
+  net.setLoss('CCE');
+  net.setOptimizer('ADAM', { ...DEFAULT_OPTIMIZER_PARAMS, beta1: 0.8 });
+  net.setRegularization({ l1: 0, l2: 0.001 });
+  net.setClipping({ mode: 'NORM', threshold: 2 });
+  net.setSkips([{ from: 0, to: 2 }]);
+  net.setDropout([0, 0.2, 0]);
+  for (let i = 0; i < 10; i++) net.train([0.5, -0.5], [0, 1], 0.05);
+  return net;
+};
+
+// A valid document as plain JSON, ready to be broken in one place
+const document = () => JSON.parse(JSON.stringify(serializeModel(trainedNetwork(), context)));
+
+describe('model files', () => {
+  beforeEach(() => {
+    vi.spyOn(Math, 'random').mockImplementation(createRng(9));
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('round-trips a network through JSON text', () => {
+    const net = trainedNetwork();
+    const model = parseModel(JSON.stringify(serializeModel(net, context, new Date(0))));
+
+    expect(model.version).toBe(MODEL_VERSION);
+    expect(model.savedAt).toBe('1970-01-01T00:00:00.000Z');
+    expect(model.layerDims).toEqual(context.layerDims);
+    expect(model.dataset).toEqual(context.dataset);
+    expect(model.lossHistory).toEqual(context.lossHistory);
+    expect(model.hyperparams).toEqual({ learningRate: 0.05, schedule: context.schedule, loss: 'CCE', optimizer: 'ADAM', optimizerParams: { ...DEFAULT_OPTIMIZER_PARAMS, beta1: 0.8 }, regularization: { l1: 0, l2: 0.001 }, clipping: { mode: 'NORM', threshold: 2 } });
+    expect(model.layerDropout).toEqual([0, 0.2, 0]);
+    expect(model.skips).toEqual([{ from: 0, to: 2 }]);
+
+    const restored = networkFromModel(model);
+    expect(restored.activations).toEqual(net.activations);
+    expect(restored.regularization).toEqual(net.regularization);
+    expect(restored.clipping).toEqual(net.clipping);
+    expect(restored.skips).toEqual(net.skips);
+    expect(restored.dropout).toEqual(net.dropout);
+    expect(restored.predict([0.3, 0.7])).toEqual(net.predict([0.3, 0.7]));
+    expect(restored.stepCount).toBe(0); // Optimizer moments are not part of the file
+  });
+
+  it('round-trips conv and pool layers', () => {
+    const layerDims = [{ rows: 4, cols: 4 }, { rows: 4, cols: 8 }, { rows: 2, cols: 4 }, { rows: 2, cols: 1 }];
+    const specs: LayerSpec[] = [{ kind: 'DENSE' }, { kind: 'CONV', kernel: 3, stride: 1, padding: 1, channels: 2 }, { kind: 'POOL', size: 2, stride: 2, mode: 'AVG' }, { kind: 'DENSE' }];
+    const net = new SimpleNetwork([16, 32, 8, 2], ['SIGMOID', 'RELU', 'RELU', 'SOFTMAX'], specs, layerShapes(layerDims, specs));
+    const inputs = Array.from({ length: 16 }, (_, i) => i / 16);
+    const model = parseModel(JSON.stringify(serializeModel(net, { ...context, layerDims, dataset: { ...context.dataset, inputs } })));
+
+    expect(model.layerSpecs).toEqual(specs);
+    expect(networkFromModel(model).predict(inputs)).toEqual(net.predict(inputs));
+    expect(() => parseModel({ ...model, layerDims: [layerDims[0], { rows: 4, cols: 4 }, ...layerDims.slice(2)] })).toThrow(/layerDims\[1\] must be 4x8 for its CONV layer/);
+  });
+
+  it('round-trips custom activations', () => {
+    const net = new SimpleNetwork([2, 4, 2], ['SIGMOID', 'CUSTOM:x * sigmoid(x)', 'SOFTMAX']);
+    const model = parseModel(JSON.stringify(serializeModel(net, context)));
+
+    expect(model.layerActivations[1]).toBe('CUSTOM:x * sigmoid(x)');
+    expect(networkFromModel(model).predict([0.3, 0.7])).toEqual(net.predict([0.3, 0.7]));
+  });
+
+  it('loads files saved before regularization, dropout, schedules, splits, layer kinds, clipping and skips existed', () => {
+    const doc = document();
+    delete doc.dataset.split;
+    delete doc.layerDropout;
+    delete doc.layerSpecs;
+    delete doc.hyperparams.regularization;
+    delete doc.hyperparams.schedule;
+    delete doc.hyperparams.clipping;
+    delete doc.skips;
+    const model = parseModel(doc);
+    expect(model.layerDropout).toEqual([0, 0, 0]);
+    expect(model.layerSpecs.map(s => s.kind)).toEqual(['DENSE', 'DENSE', 'DENSE']);
+    expect(model.hyperparams.regularization).toEqual({ l1: 0, l2: 0 });
+    expect(model.hyperparams.schedule).toEqual(CONSTANT_SCHEDULE);
+    expect(model.dataset.split).toEqual({ validation: 0, test: 0 });
+    expect(model.hyperparams.clipping).toEqual({ mode: 'NONE', threshold: 1 });
+    expect(model.skips).toEqual([]);
+  });
+
+  it.each<[string, (doc: ArchitectModel & Record<string, unknown>) => unknown, RegExp]>([
+    ['text that is not JSON', () => '{ nope', /not valid JSON/],
+    ['a different format', doc => ({ ...doc, format: 'keras' }), /Not an Architect model file/],
+    ['a newer version', doc => ({ ...doc, version: MODEL_VERSION + 1 }), /newer than this app supports/],
+    ['oversized layers', doc => ({ ...doc, layerDims: [{ rows: 99, cols: 1 }, ...doc.layerDims.slice(1)] }), /layerDims\[0\]\.rows must be at most/],
+    ['an unknown activation', doc => ({ ...doc, layerActivations: ['SIGMOID', 'SWISH', 'SOFTMAX'] }), /layerActivations\[1\] must be one of/],
+    ['a custom activation that does not parse', doc => ({ ...doc, layerActivations: ['SIGMOID', 'CUSTOM:x *', 'SOFTMAX'] }), /layerActivations\[1\] is not a valid custom activation: Unexpected end/],
+    ['softmax on a hidden layer', doc => ({ ...doc, layerActivations: ['SIGMOID', 'SOFTMAX', 'SOFTMAX'] }), /only allowed on the output layer/],
+    ['weights that do not match the layers', doc => ({ ...doc, weights: [doc.weights[0].slice(1), doc.weights[1]] }), /weights\[0\] has 7 values but layers 0->1 need 2x4 = 8/],
+    ['an unknown layer kind', doc => ({ ...doc, layerSpecs: [{ kind: 'DENSE' }, { kind: 'LSTM' }, { kind: 'DENSE' }] }), /layerSpecs\[1\]\.kind must be one of/],
+    ['a skip between adjacent layers', doc => ({ ...doc, skips: [{ from: 1, to: 2 }] }), /skips\[0\] must join two layers of the same size/],
+    ['a repeated skip', doc => ({ ...doc, skips: [{ from: 0, to: 2 }, { from: 0, to: 2 }] }), /skips\[1\] repeats an earlier skip connection/],
+    ['a dropout rate of 1', doc => ({ ...doc, layerDropout: [0, 1, 0] }), /layerDropout\[1\] must be in \[0, 1\)/],
+    ['a negative weight decay', doc => ({ ...doc, hyperparams: { ...doc.hyperparams, regularization: { l1: -1, l2: 0 } } }), /hyperparams\.regularization\.l1 must be >= 0/],
+    ['an unknown clipping mode', doc => ({ ...doc, hyperparams: { ...doc.hyperparams, clipping: { mode: 'ADAPTIVE', threshold: 1 } } }), /hyperparams\.clipping\.mode must be one of/],
+    ['a zero clipping threshold', doc => ({ ...doc, hyperparams: { ...doc.hyperparams, clipping: { mode: 'VALUE', threshold: 0 } } }), /hyperparams\.clipping\.threshold must be > 0/],
+    ['an unknown schedule', doc => ({ ...doc, hyperparams: { ...doc.hyperparams, schedule: { key: 'ONECYCLE', params: {} } } }), /hyperparams\.schedule\.key must be one of/],
+    ['a zero schedule period', doc => ({ ...doc, hyperparams: { ...doc.hyperparams, schedule: { key: 'COSINE', params: { period: 0 } } } }), /hyperparams\.schedule\.params\.period must be > 0/],
+    ['a non-numeric bias', doc => ({ ...doc, biases: [doc.biases[0], [0, 'x']] }), /biases\[1\]\[1\] must be a finite number/],
+    ['an unknown dataset', doc => ({ ...doc, dataset: { ...doc.dataset, key: 'MNIST' } }), /dataset\.key must be one of/],
+    ['a split that holds out everything', doc => ({ ...doc, dataset: { ...doc.dataset, split: { validation: 0.5, test: 0.5 } } }), /dataset\.split must leave samples for training/],
+    ['a target of the wrong size', doc => ({ ...doc, dataset: { ...doc.dataset, target: [1] } }), /dataset\.target must have 2 values/],
+    ['a broken loss history', doc => ({ ...doc, lossHistory: [{ epoch: -1, loss: 0 }] }), /lossHistory\[0\]\.epoch must be an integer/]
+  ])('rejects %s with a clear error', (_, corrupt, message) => {
+    const input = corrupt(document());
+    expect(() => parseModel(input)).toThrow(message);
+  });
+});
@@ -0,0 +1,339 @@
+// Architect model files: a versioned JSON document holding everything needed to rebuild a
+// network in the Architect (grid layout, activations, parameters, hyperparameters, dataset, loss history).
+//
+// serializeModel() captures a network, parseModel() validates untrusted input (a file or localStorage)
+// and throws an Error naming the offending field, networkFromModel() rebuilds the SimpleNetwork.
+// Optimizer moments are not stored: a loaded model resumes with a fresh optimizer.
+// Optional fields (added without a version bump, defaulted when missing): layerDropout, layerSpecs
+// (all dense), skips, and the hyperparams' schedule, regularization and clipping, and the dataset's split.
+// Custom activations are stored as their 'CUSTOM:<expression>' keys and re-parsed on load.
+
+import { ACTIVATION_KEYS, ActivationKey, activationDef, isCustomActivation } from './activations';
+import { LOSS_KEYS, LossKey } from './losses';
+import { DEFAULT_OPTIMIZER_PARAMS, OPTIMIZER_KEYS, OptimizerKey, OptimizerParams } from './optimizers';
+import { CONSTANT_SCHEDULE, DEFAULT_SCHEDULE_PARAMS, LearningRateSchedule, SCHEDULE_KEYS, ScheduleParamKey } from './schedules';
+import { DATASET_KEYS, DatasetKey, NO_SPLIT, SplitRatios } from './datasets';
+import { LAYER_KINDS, LayerShape, LayerSpec, POOL_MODES, layerShapes, parameterCounts, shapeGrid } from './layers';
+import { CLIP_MODES, GradientClipping, NO_CLIPPING, NO_REGULARIZATION, Regularization, SimpleNetwork, SkipConnection, isSkipAllowed } from './network';
+
+export const MODEL_FORMAT = 'neural-nexus/architect-model';
+export const MODEL_VERSION = 1;
+
+// Architect layers are rows x cols grids of neurons, up to MAX_LAYER_DIM on each side
+export const MAX_LAYER_DIM = 16;
+
+export interface LayerDim {
+  rows: number;
+  cols: number;
+}
+
+// Most square rows x cols grid (rows >= cols) holding exactly `size` neurons, for layers that arrive as flat sizes
+export const layerDimFor = (size: number): LayerDim => {
+  for (let cols = Math.floor(Math.sqrt(size)); cols >= 1; cols--) {
+    if (size % cols === 0 && size / cols <= MAX_LAYER_DIM) return { rows: size / cols, cols };
+  }
+  throw new Error(`A layer of ${size} neurons does not fit the Architect's ${MAX_LAYER_DIM}x${MAX_LAYER_DIM} grid`);
+};
+
+export interface ModelHyperparams {
+  learningRate: number;
+  schedule: LearningRateSchedule;
+  loss: LossKey;
+  optimizer: OptimizerKey;
+  optimizerParams: OptimizerParams;
+  regularization: Regularization;
+  clipping: GradientClipping;
+}
+
+export interface ModelDataset {
+  key: DatasetKey | 'MANUAL';
+  seed: number;
+  split: SplitRatios;
+  inputs: number[]; // Input slider values (the training sample itself for MANUAL)
+  target: number[];
+}
+
+export interface ModelLossPoint {
+  epoch: number;
+  loss: number;
+  valLoss?: number;
+}
+
+export interface ArchitectModel {
+  format: typeof MODEL_FORMAT;
+  version: number;
+  savedAt: string;
+  layerDims: LayerDim[];
+  layerActivations: ActivationKey[];
+  layerDropout: number[];
+  layerSpecs: LayerSpec[]; // Conv and pool layers' dims must be the grids their specs derive
+  skips: SkipConnection[];
+  weights: number[][]; // Flat per layer, as in SimpleNetwork.weights
+  biases: number[][];
+  hyperparams: ModelHyperparams;
+  dataset: ModelDataset;
+  epochs: number;
+  lossHistory: ModelLossPoint[];
+}
+
+export interface ModelContext {
+  layerDims: LayerDim[];
+  learningRate: number;
+  schedule: LearningRateSchedule;
+  dataset: ModelDataset;
+  epochs: number;
+  lossHistory: ModelLossPoint[];
+}
+
+export const serializeModel = (net: SimpleNetwork, context: ModelContext, savedAt = new Date()): ArchitectModel => ({
+  format: MODEL_FORMAT,
+  version: MODEL_VERSION,
+  savedAt: savedAt.toISOString(),
+  layerDims: context.layerDims.map(({ rows, cols }) => ({ rows, cols })),
+  layerActivations: [...net.activations],
+  layerDropout: [...net.dropout],
+  layerSpecs: net.layers.map(spec => ({ ...spec })),
+  skips: net.skips.map(skip => ({ ...skip })),
+  weights: net.weights.map(w => Array.from(w)),
+  biases: net.biases.map(b => Array.from(b)),
+  hyperparams: {
+    learningRate: context.learningRate,
+    schedule: { key: context.schedule.key, params: { ...context.schedule.params } },
+    loss: net.loss,
+    optimizer: net.optimizer,
+    optimizerParams: { ...net.optimizerParams },
+    regularization: { ...net.regularization },
+    clipping: { ...net.clipping }
+  },
+  dataset: {
+    key: context.dataset.key,
+    seed: context.dataset.seed,
+    split: { ...context.dataset.split },
+    inputs: [...context.dataset.inputs],
+    target: [...context.dataset.target]
+  },
+  epochs: context.epochs,
+  lossHistory: context.lossHistory.map(({ epoch, loss, valLoss }) => valLoss === undefined ? { epoch, loss } : { epoch, loss, valLoss })
+});
+
+// --- Validation ---
+
+const fail = (path: string, problem: string): never => {
+  throw new Error(`Invalid model file: ${path} ${problem}`);
+};
+
+const isRecord = (value: unknown): value is Record<string, unknown> => typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const record = (value: unknown, path: string) => isRecord(value) ? value : fail(path, 'must be an object');
+const finite = (value: unknown, path: string) => typeof value === 'number' && isFinite(value) ? value : fail(path, 'must be a finite number');
+const count = (value: unknown, path: string, min = 0) => Number.isInteger(value) && (value as number) >= min ? value as number : fail(path, `must be an integer >= ${min}`);
+const list = (value: unknown, path: string) => Array.isArray(value) ? value as unknown[] : fail(path, 'must be an array');
+const numbers = (value: unknown, path: string) => list(value, path).map((v, i) => finite(v, `${path}[${i}]`));
+const oneOf = <K extends string>(value: unknown, keys: readonly K[], path: string) => (
+  keys.includes(value as K) ? value as K : fail(path, `must be one of ${keys.join(', ')} (got ${JSON.stringify(value)})`)
+);
+
+const DATASET_SOURCES: ModelDataset['key'][] = [...DATASET_KEYS, 'MANUAL'];
+
+const activation = (value: unknown, path: string): ActivationKey => {
+  if (typeof value !== 'string' || !isCustomActivation(value)) return oneOf(value, ACTIVATION_KEYS, path);
+  try {
+    activationDef(value);
+  } catch (e) {
+    fail(path, `is not a valid custom activation: ${(e as Error).message}`);
+  }
+  return value;
+};
+
+const layerSpec = (value: unknown, path: string): LayerSpec => {
+  const spec = record(value, path);
+  const kind = oneOf(spec.kind, LAYER_KINDS, `${path}.kind`);
+  if (kind === 'DENSE') return { kind };
+  const positive = (key: string) => count(spec[key], `${path}.${key}`, 1);
+  if (kind === 'POOL') return { kind, size: positive('size'), stride: positive('stride'), mode: oneOf(spec.mode, POOL_MODES, `${path}.mode`) };
+  const conv = { kind, kernel: positive('kernel'), stride: positive('stride'), padding: count(spec.padding, `${path}.padding`), channels: positive('channels') };
+  return conv.padding < conv.kernel ? conv : fail(`${path}.padding`, 'must be smaller than the kernel');
+};
+
+// Accepts the raw file text or an already-parsed value
+export const parseModel = (input: unknown): ArchitectModel => {
+  let data = input;
+  if (typeof input === 'string') {
+    try {
+      data = JSON.parse(input);
+    } catch (e) {
+      throw new Error(`Model file is not valid JSON: ${(e as Error).message}`);
+    }
+  }
+
+  const doc = record(data, 'document');
+  if (doc.format !== MODEL_FORMAT) throw new Error(`Not an Architect model file (expected format "${MODEL_FORMAT}")`);
+  const version = count(doc.version, 'version', 1);
+  if (version > MODEL_VERSION) throw new Error(`Model file version ${version} is newer than this app supports (${MODEL_VERSION})`);
+
+  const layerDims = list(doc.layerDims, 'layerDims').map((d, i) => {
+    const dim = record(d, `layerDims[${i}]`);
+    const side = (key: 'rows' | 'cols') => {
+      const v = count(dim[key], `layerDims[${i}].${key}`, 1);
+      return v <= MAX_LAYER_DIM ? v : fail(`layerDims[${i}].${key}`, `must be at most ${MAX_LAYER_DIM}`);
+    };
+    return { rows: side('rows'), cols: side('cols') };
+  });
+  if (layerDims.length < 2) fail('layerDims', 'needs at least an input and an output layer');
+  const sizes = layerDims.map(d => d.rows * d.cols);
+
+  const layerActivations = list(doc.layerActivations, 'layerActivations').map((a, i) => activation(a, `layerActivations[${i}]`));
+  if (layerActivations.length !== sizes.length) fail('layerActivations', `must have one entry per layer (${sizes.length})`);
+  layerActivations.slice(0, -1).forEach((a, i) => {
+    if (activationDef(a).outputOnly) fail(`layerActivations[${i}]`, `${a} is only allowed on the output layer`);
+  });
+
+  const layerDropout = doc.layerDropout === undefined ? sizes.map(() => 0) : list(doc.layerDropout, 'layerDropout').map((r, i) => {
+    const rate = finite(r, `layerDropout[${i}]`);
+    return rate >= 0 && rate < 1 ? rate : fail(`layerDropout[${i}]`, 'must be in [0, 1)');
+  });
+  if (layerDropout.length !== sizes.length) fail('layerDropout', `must have one entry per layer (${sizes.length})`);
+
+  const layerSpecs = doc.layerSpecs === undefined
+    ? sizes.map((): LayerSpec => ({ kind: 'DENSE' }))
+    : list(doc.layerSpecs, 'layerSpecs').map((s, i) => layerSpec(s, `layerSpecs[${i}]`));
+  if (layerSpecs.length !== sizes.length) fail('layerSpecs', `must have one entry per layer (${sizes.length})`);
+  let shapes: LayerShape[] = [];
+  try {
+    shapes = layerShapes(layerDims, layerSpecs);
+  } catch (e) {
+    return fail('layerSpecs', (e as Error).message);
+  }
+  shapes.forEach((shape, i) => {
+    const { rows, cols } = shapeGrid(shape);
+    if (rows !== layerDims[i].rows || cols !== layerDims[i].cols) fail(`layerDims[${i}]`, `must be ${rows}x${cols} for its ${layerSpecs[i].kind} layer`);
+  });
+
+  const skips = doc.skips === undefined ? [] : list(doc.skips, 'skips').map((s, i): SkipConnection => {
+    const skip = record(s, `skips[${i}]`);
+    const parsed = { from: count(skip.from, `skips[${i}].from`), to: count(skip.to, `skips[${i}].to`) };
+    if (!isSkipAllowed(sizes, parsed)) fail(`skips[${i}]`, 'must join two layers of the same size with at least one layer between them');
+    return parsed;
+  });
+  skips.forEach((skip, i) => {
+    if (skips.findIndex(other => other.from === skip.from && other.to === skip.to) !== i) fail(`skips[${i}]`, 'repeats an earlier skip connection');
+  });
+
+  const weights = list(doc.weights, 'weights').map((w, i) => numbers(w, `weights[${i}]`));
+  const biases = list(doc.biases, 'biases').map((b, i) => numbers(b, `biases[${i}]`));
+  if (weights.length !== sizes.length - 1) fail('weights', `must have ${sizes.length - 1} layers to match layerDims`);
+  if (biases.length !== sizes.length - 1) fail('biases', `must have ${sizes.length - 1} layers to match layerDims`);
+  for (let i = 0; i < weights.length; i++) {
+    const expected = parameterCounts(layerSpecs[i + 1], shapes[i], shapes[i + 1]);
+    if (layerSpecs[i + 1].kind === 'DENSE') {
+      if (weights[i].length !== expected.weights) fail(`weights[${i}]`, `has ${weights[i].length} values but layers ${i}->${i + 1} need ${sizes[i]}x${sizes[i + 1]} = ${expected.weights}`);
+      if (biases[i].length !== expected.biases) fail(`biases[${i}]`, `has ${biases[i].length} values but layer ${i + 1} has ${sizes[i + 1]} neurons`);
+    } else {
+      if (weights[i].length !== expected.weights) fail(`weights[${i}]`, `has ${weights[i].length} values but the ${layerSpecs[i + 1].kind} layer ${i + 1} needs ${expected.weights}`);
+      if (biases[i].length !== expected.biases) fail(`biases[${i}]`, `has ${biases[i].length} values but the ${layerSpecs[i + 1].kind} layer ${i + 1} needs ${expected.biases}`);
+    }
+  }
+
+  const hp = record(doc.hyperparams, 'hyperparams');
+  const params = record(hp.optimizerParams, 'hyperparams.optimizerParams');
+  const optimizerParams = { ...DEFAULT_OPTIMIZER_PARAMS };
+  (Object.keys(DEFAULT_OPTIMIZER_PARAMS) as (keyof OptimizerParams)[]).forEach(key => {
+    if (key in params) optimizerParams[key] = finite(params[key], `hyperparams.optimizerParams.${key}`);
+  });
+  const hyperparams: ModelHyperparams = {
+    learningRate: finite(hp.learningRate, 'hyperparams.learningRate'),
+    schedule: { key: CONSTANT_SCHEDULE.key, params: { ...CONSTANT_SCHEDULE.params } },
+    loss: oneOf(hp.loss, LOSS_KEYS, 'hyperparams.loss'),
+    optimizer: oneOf(hp.optimizer, OPTIMIZER_KEYS, 'hyperparams.optimizer'),
+    optimizerParams,
+    regularization: { ...NO_REGULARIZATION },
+    clipping: { ...NO_CLIPPING }
+  };
+  if (hp.regularization !== undefined) {
+    const reg = record(hp.regularization, 'hyperparams.regularization');
+    (['l1', 'l2'] as const).forEach(key => {
+      const value = finite(reg[key], `hyperparams.regularization.${key}`);
+      hyperparams.regularization[key] = value >= 0 ? value : fail(`hyperparams.regularization.${key}`, 'must be >= 0');
+    });
+  }
+
+  if (hp.clipping !== undefined) {
+    const clipping = record(hp.clipping, 'hyperparams.clipping');
+    const threshold = finite(clipping.threshold, 'hyperparams.clipping.threshold');
+    hyperparams.clipping = {
+      mode: oneOf(clipping.mode, CLIP_MODES, 'hyperparams.clipping.mode'),
+      threshold: threshold > 0 ? threshold : fail('hyperparams.clipping.threshold', 'must be > 0')
+    };
+  }
+
+  if (hp.schedule !== undefined) {
+    const schedule = record(hp.schedule, 'hyperparams.schedule');
+    const scheduleParams = record(schedule.params, 'hyperparams.schedule.params');
+    hyperparams.schedule.key = oneOf(schedule.key, SCHEDULE_KEYS, 'hyperparams.schedule.key');
+    (Object.keys(DEFAULT_SCHEDULE_PARAMS) as ScheduleParamKey[]).forEach(key => {
+      if (!(key in scheduleParams)) return;
+      const path = `hyperparams.schedule.params.${key}`;
+      const value = finite(scheduleParams[key], path);
+      if (key === 'minRatio') hyperparams.schedule.params[key] = value >= 0 && value <= 1 ? value : fail(path, 'must be in [0, 1]');
+      else hyperparams.schedule.params[key] = value > 0 ? value : fail(path, 'must be > 0');
+    });
+  }
+
+  const ds = record(doc.dataset, 'dataset');
+  const dataset: ModelDataset = {
+    key: oneOf(ds.key, DATASET_SOURCES, 'dataset.key'),
+    seed: finite(ds.seed, 'dataset.seed'),
+    split: { ...NO_SPLIT },
+    inputs: numbers(ds.inputs, 'dataset.inputs'),
+    target: numbers(ds.target, 'dataset.target')
+  };
+  if (ds.split !== undefined) {
+    const split = record(ds.split, 'dataset.split');
+    (['validation', 'test'] as const).forEach(key => {
+      const value = finite(split[key], `dataset.split.${key}`);
+      dataset.split[key] = value >= 0 && value < 1 ? value : fail(`dataset.split.${key}`, 'must be in [0, 1)');
+    });
+    if (dataset.split.validation + dataset.split.test >= 1) fail('dataset.split', 'must leave samples for training');
+  }
+  if (dataset.inputs.length !== sizes[0]) fail('dataset.inputs', `must have ${sizes[0]} values to match the input layer`);
+  if (dataset.target.length !== sizes[sizes.length - 1]) fail('dataset.target', `must have ${sizes[sizes.length - 1]} values to match the output layer`);
+
+  const lossHistory = list(doc.lossHistory, 'lossHistory').map((p, i) => {
+    const point = record(p, `lossHistory[${i}]`);
+    const parsed: ModelLossPoint = { epoch: count(point.epoch, `lossHistory[${i}].epoch`), loss: finite(point.loss, `lossHistory[${i}].loss`) };
+    if (point.valLoss !== undefined) parsed.valLoss = finite(point.valLoss, `lossHistory[${i}].valLoss`);
+    return parsed;
+  });
+
+  return {
+    format: MODEL_FORMAT,
+    version,
+    savedAt: typeof doc.savedAt === 'string' ? doc.savedAt : '',
+    layerDims,
+    layerActivations,
+    layerDropout,
+    layerSpecs,
+    skips,
+    weights,
+    biases,
+    hyperparams,
+    dataset,
+    epochs: count(doc.epochs, 'epochs'),
+    lossHistory
+  };
+};
+
+export const networkFromModel = (model: ArchitectModel) => {
+  const net = new SimpleNetwork(
+    model.layerDims.map(d => d.rows * d.cols), [...model.layerActivations],
+    model.layerSpecs.map(spec => ({ ...spec })), layerShapes(model.layerDims, model.layerSpecs)
+  );
+  net.setParameters(model.weights.map(w => Float64Array.from(w)), model.biases.map(b => Float64Array.from(b)));
+  net.setLoss(model.hyperparams.loss);
+  net.setRegularization(model.hyperparams.regularization);
+  net.setClipping(model.hyperparams.clipping);
+  net.setSkips(model.skips);
+  net.setDropout(model.layerDropout);
+  net.setOptimizer(model.hyperparams.optimizer, { ...model.hyperparams.optimizerParams });
+  return net;
+};
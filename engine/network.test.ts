@@ -0,0 +1,423 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { ActivationKey } from './activations';
+import { LOSS_FUNCTIONS, LossKey } from './losses';
+import { DEFAULT_OPTIMIZER_PARAMS, OPTIMIZER_KEYS } from './optimizers';
+import { createRng, generateDataset } from './datasets';
+import { SimpleNetwork, skipSources } from './network';
+
+// Fixed weights so forward values can be checked by hand
+const tinyNetwork = () => {
+  const net = new SimpleNetwork([2, 2, 1], ['SIGMOID', 'TANH', 'SIGMOID']);
+  net.setState({
+    ...net.getState(),
+    // Row-major [from x to]: input 0 -> (0.5, -1), input 1 -> (0.25, 2)
+    weights: [Float64Array.of(0.5, -1, 0.25, 2), Float64Array.of(1, -1)],
+    biases: [Float64Array.of(0.1, -0.2), Float64Array.of(0.3)]
+  });
+  return net;
+};
+
+// Central-difference dLoss/dParam for every weight and bias
+const numericGradients = (net: SimpleNetwork, inputs: number[], targets: number[], h = 1e-5) => {
+  const lossAt = () => LOSS_FUNCTIONS[net.loss].loss(net.predict(inputs), targets);
+  const nudge = (get: () => number, set: (v: number) => void) => {
+    const original = get();
+    set(original + h);
+    const plus = lossAt();
+    set(original - h);
+    const minus = lossAt();
+    set(original);
+    return (plus - minus) / (2 * h);
+  };
+  const numeric = (params: Float64Array[]) => params.map(l => l.map((_, p) => nudge(() => l[p], v => { l[p] = v; })));
+  return { weights: numeric(net.weights), biases: numeric(net.biases) };
+};
+
+const maxAbsDiff = (a: ArrayLike<number>, b: ArrayLike<number>) => {
+  let max = 0;
+  for (let i = 0; i < a.length; i++) max = Math.max(max, Math.abs(a[i] - b[i]));
+  return max;
+};
+
+describe('SimpleNetwork', () => {
+  beforeEach(() => {
+    // Deterministic initialisation and shuffling
+    const rng = createRng(42);
+    vi.spyOn(Math, 'random').mockImplementation(rng);
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  describe('forward', () => {
+    it('computes weighted sums, biases and activations layer by layer', () => {
+      const net = tinyNetwork();
+      const output = net.forward([1, 2]);
+
+      // activations[0] belongs to the input layer and is never applied
+      const h0 = Math.tanh(1 * 0.5 + 2 * 0.25 + 0.1);
+      const h1 = Math.tanh(1 * -1 + 2 * 2 - 0.2);
+      const z = h0 - h1 + 0.3;
+
+      expect(net.values[1][0]).toBeCloseTo(h0, 12);
+      expect(net.values[1][1]).toBeCloseTo(h1, 12);
+      expect(net.preActivations[2][0]).toBeCloseTo(z, 12);
+      expect(output[0]).toBeCloseTo(1 / (1 + Math.exp(-z)), 12);
+    });
+
+    it('normalises a softmax output layer into probabilities', () => {
+      const net = new SimpleNetwork([3, 4, 3], ['SIGMOID', 'RELU', 'SOFTMAX']);
+      const output = net.forward([0.2, -0.4, 0.9]);
+      expect(output.reduce((a, b) => a + b, 0)).toBeCloseTo(1, 12);
+      output.forEach(p => expect(p).toBeGreaterThan(0));
+    });
+
+    it('predict() matches forward() without touching the cached values', () => {
+      const net = tinyNetwork();
+      net.forward([0, 0]);
+      const cached = net.values.map(l => l.slice());
+      const predicted = net.predict([1, 2]);
+      expect(net.values).toEqual(cached);
+      expect(predicted).toEqual(net.forward([1, 2]));
+    });
+  });
+
+  describe('backward', () => {
+    const cases: [ActivationKey, ActivationKey, LossKey][] = [
+      ['SIGMOID', 'SIGMOID', 'MSE'],
+      ['TANH', 'SIGMOID', 'BCE'],
+      ['ELU', 'SOFTMAX', 'CCE'],
+      ['RELU', 'SIGMOID', 'BCE'],
+      ['LEAKY_RELU', 'SOFTMAX', 'MSE'],
+      ['TANH', 'TANH', 'HUBER']
+    ];
+
+    it.each(cases)('matches finite differences (%s hidden, %s output, %s loss)', (hidden, output, loss) => {
+      const net = new SimpleNetwork([3, 4, 2], ['SIGMOID', hidden, output]);
+      net.setLoss(loss);
+      const inputs = [0.3, -0.5, 0.9];
+      const targets = [0, 1];
+
+      net.forward(inputs);
+      net.backward(targets);
+      const numeric = numericGradients(net, inputs, targets);
+
+      net.weightGrads.forEach((l, i) => expect(maxAbsDiff(l, numeric.weights[i])).toBeLessThan(1e-6));
+      net.biasGrads.forEach((l, i) => expect(maxAbsDiff(l, numeric.biases[i])).toBeLessThan(1e-6));
+    });
+
+    it('does not change any parameters', () => {
+      const net = tinyNetwork();
+      const before = net.getState();
+      net.forward([1, 2]);
+      net.backward([1]);
+      expect(net.getState()).toEqual(before);
+    });
+
+    it('exposes the per-neuron error terms behind the gradients', () => {
+      const net = tinyNetwork();
+      const errors = net.train([1, 2], [1], 0);
+      expect(errors).toBe(net.errors);
+      // dLoss/dBias is the neuron's error term; each weight's gradient is its source value times it
+      net.biasGrads.forEach((grads, i) => expect(Array.from(grads)).toEqual(Array.from(errors[i + 1])));
+      expect(net.weightGrads[1][1]).toBeCloseTo(net.values[1][1] * errors[2][0], 12);
+      expect(net.snapshot().errors[2]).toEqual(errors[2]);
+    });
+  });
+
+  describe('step', () => {
+    it.each(OPTIMIZER_KEYS)('%s reduces the loss on a single sample', (key) => {
+      const net = tinyNetwork();
+      net.setOptimizer(key, DEFAULT_OPTIMIZER_PARAMS);
+      const before = net.evaluate([{ input: [1, 2], target: [1], label: 1 }]).loss;
+      for (let i = 0; i < 20; i++) net.train([1, 2], [1], 0.05);
+      const after = net.evaluate([{ input: [1, 2], target: [1], label: 1 }]).loss;
+      expect(after).toBeLessThan(before);
+    });
+
+    it('applies plain SGD as w -= lr * grad', () => {
+      const net = tinyNetwork();
+      net.forward([1, 2]);
+      net.backward([1]);
+      const w = net.weights[1][0];
+      const g = net.weightGrads[1][0];
+      net.step(0.1);
+      expect(net.weights[1][0]).toBeCloseTo(w - 0.1 * g, 12);
+      expect(net.weightDeltas[1][0]).toBeCloseTo(-0.1 * g, 12);
+    });
+
+    it('resets optimizer moments only when the optimizer changes', () => {
+      const net = tinyNetwork();
+      net.setOptimizer('ADAM', DEFAULT_OPTIMIZER_PARAMS);
+      net.train([1, 2], [1], 0.01);
+      expect(net.stepCount).toBe(1);
+      net.setOptimizer('ADAM', { ...DEFAULT_OPTIMIZER_PARAMS, beta1: 0.8 });
+      expect(net.stepCount).toBe(1);
+      net.setOptimizer('RMSPROP', DEFAULT_OPTIMIZER_PARAMS);
+      expect(net.stepCount).toBe(0);
+      expect(net.moments.vW[0].every(v => v === 0)).toBe(true);
+    });
+  });
+
+  describe('state', () => {
+    it('round-trips through getState/setState and resumes identically', () => {
+      const a = new SimpleNetwork([2, 3, 1], ['SIGMOID', 'TANH', 'SIGMOID']);
+      a.setOptimizer('ADAM', DEFAULT_OPTIMIZER_PARAMS);
+      for (let i = 0; i < 5; i++) a.train([0.5, -0.5], [1], 0.05);
+
+      const b = SimpleNetwork.fromState(a.getState());
+      a.train([0.5, -0.5], [1], 0.05);
+      b.train([0.5, -0.5], [1], 0.05);
+      expect(b.getState()).toEqual(a.getState());
+    });
+
+    it('returns copies rather than live references', () => {
+      const net = tinyNetwork();
+      const state = net.getState();
+      state.weights[0][0] = 99;
+      expect(net.weights[0][0]).toBe(0.5);
+    });
+
+    it('rejects states whose arrays do not match the layer sizes', () => {
+      const net = tinyNetwork();
+      const state = net.getState();
+      expect(() => net.setState({ ...state, weights: [state.weights[0]] })).toThrow(/weight\/bias layers/);
+      expect(() => net.setState({ ...state, biases: [Float64Array.of(0), Float64Array.of(0)] })).toThrow(/Bias layer 0/);
+    });
+
+    it('mirrors parameters in place and rejects other shapes', () => {
+      const source = new SimpleNetwork([2, 2, 1], ['SIGMOID', 'TANH', 'SIGMOID']);
+      const net = tinyNetwork();
+      const weights = net.weights[0];
+      net.setParameters(source.weights, source.biases);
+      expect(net.weights[0]).toBe(weights);
+      expect(net.predict([1, 2])).toEqual(source.predict([1, 2]));
+      expect(() => net.setParameters([source.weights[0]], source.biases)).toThrow(/network shape/);
+    });
+  });
+
+  describe('snapshot', () => {
+    it('copies what the renderer draws and versions every change', () => {
+      const net = tinyNetwork();
+      net.forward([1, 2]);
+      const snap = net.snapshot();
+      expect(snap.layerSizes).toEqual([2, 2, 1]);
+      expect(snap.values[2]).toEqual(net.values[2]);
+      expect(snap.weights[0]).not.toBe(net.weights[0]);
+
+      const version = net.version;
+      net.predict([0, 0]);
+      expect(net.version).toBe(version); // predict() leaves the drawn state alone
+      net.backward([1]);
+      net.step(0.1);
+      expect(net.version).toBeGreaterThan(version);
+      expect(snap.weights[1]).toEqual(Float64Array.of(1, -1)); // Earlier snapshots stay frozen
+    });
+  });
+
+  describe('regularization', () => {
+    const samples = [{ input: [1, 2], target: [1], label: 1 }];
+    const sumOver = (buffers: Float64Array[], f: (w: number) => number) => buffers.reduce((sum, b) => sum + b.reduce((s, w) => s + f(w), 0), 0);
+
+    it('adds the L1/L2 penalty on the weights to the evaluated loss', () => {
+      const net = tinyNetwork();
+      const dataLoss = net.evaluate(samples).loss;
+      net.setRegularization({ l1: 0.01, l2: 0.1 });
+      const expected = sumOver(net.weights, w => 0.01 * Math.abs(w) + 0.05 * w * w);
+      expect(net.regularizationLoss()).toBeCloseTo(expected, 12);
+      expect(net.evaluate(samples).loss).toBeCloseTo(dataLoss + expected, 12);
+    });
+
+    it('adds the penalty gradient to the weights but not the biases', () => {
+      const net = tinyNetwork();
+      net.forward([1, 2]);
+      net.backward([1]);
+      const plain = { weights: net.weightGrads.map(g => g.slice()), biases: net.biasGrads.map(g => g.slice()) };
+
+      net.setRegularization({ l1: 0.01, l2: 0.1 });
+      net.backward([1]);
+      net.weightGrads.forEach((g, i) => g.forEach((v, p) => {
+        const w = net.weights[i][p];
+        expect(v).toBeCloseTo(plain.weights[i][p] + 0.01 * Math.sign(w) + 0.1 * w, 12);
+      }));
+      expect(net.biasGrads).toEqual(plain.biases);
+    });
+  });
+
+  describe('gradient clipping', () => {
+    const backpropagated = (net: SimpleNetwork) => {
+      net.forward([1, 2]);
+      net.backward([1]);
+      return { weights: net.weightGrads.map(g => g.slice()), biases: net.biasGrads.map(g => g.slice()) };
+    };
+    const globalNorm = (buffers: Float64Array[]) => Math.sqrt(buffers.reduce((sum, b) => sum + b.reduce((s, g) => s + g * g, 0), 0));
+
+    it('applies large updates unclipped by default', () => {
+      const net = tinyNetwork();
+      const { weights } = backpropagated(net);
+      const w = net.weights[1][0];
+      net.step(100);
+      expect(Math.abs(net.weightDeltas[1][0])).toBeGreaterThan(1);
+      expect(net.weights[1][0]).toBeCloseTo(w - 100 * weights[1][0], 9);
+    });
+
+    it('clamps each gradient by value', () => {
+      const net = tinyNetwork();
+      net.setClipping({ mode: 'VALUE', threshold: 0.01 });
+      const { weights } = backpropagated(net);
+      net.step(0.1);
+      weights.forEach((g, i) => g.forEach((v, p) => expect(net.weightGrads[i][p]).toBeCloseTo(Math.max(-0.01, Math.min(0.01, v)), 12)));
+    });
+
+    it('rescales all gradients together when their global norm is over the threshold', () => {
+      const net = tinyNetwork();
+      net.setClipping({ mode: 'NORM', threshold: 0.01 });
+      const { weights, biases } = backpropagated(net);
+      const norm = globalNorm([...weights, ...biases]);
+      net.step(0.1);
+      expect(globalNorm([...net.weightGrads, ...net.biasGrads])).toBeCloseTo(0.01, 12);
+      expect(net.weightGrads[1][0]).toBeCloseTo(weights[1][0] * 0.01 / norm, 12);
+      expect(() => net.setClipping({ mode: 'NORM', threshold: 0 })).toThrow('positive');
+    });
+
+    it('tallies the RMS gradient norm per layer, before clipping', () => {
+      const net = tinyNetwork();
+      net.setClipping({ mode: 'VALUE', threshold: 1e-6 });
+      const { weights, biases } = backpropagated(net);
+      net.step(0.01);
+      const first = weights.map((w, i) => globalNorm([w, biases[i]]));
+      const second = (({ weights, biases }) => weights.map((w, i) => globalNorm([w, biases[i]])))(backpropagated(net));
+      net.step(0.01);
+
+      const norms = net.takeGradientNorms();
+      norms.forEach((norm, i) => expect(norm).toBeCloseTo(Math.sqrt((first[i] ** 2 + second[i] ** 2) / 2), 12));
+      expect(net.takeGradientNorms()).toEqual([0, 0]);
+    });
+  });
+
+  describe('skip connections', () => {
+    const skipped = () => {
+      const net = new SimpleNetwork([3, 3, 2, 3, 3], ['SIGMOID', 'TANH', 'SIGMOID', 'ELU', 'SIGMOID']);
+      net.setSkips([{ from: 0, to: 3 }, { from: 1, to: 3 }, { from: 1, to: 4 }]);
+      return net;
+    };
+
+    it('adds the earlier layer\'s outputs to the later layer\'s pre-activations', () => {
+      const net = skipped();
+      const plain = SimpleNetwork.fromState({ ...net.getState(), skips: [] });
+      net.forward([0.3, -0.5, 0.9]);
+      plain.forward([0.3, -0.5, 0.9]);
+
+      expect(net.preActivations[2]).toEqual(plain.preActivations[2]);
+      // Layer 3 adds both skips on top of its weighted sum
+      net.preActivations[3].forEach((z, j) => expect(z).toBeCloseTo(plain.preActivations[3][j] + net.values[0][j] + net.values[1][j], 12));
+    });
+
+    it('backpropagates along the skips (matches finite differences)', () => {
+      const net = skipped();
+      net.setLoss('BCE');
+      const inputs = [0.3, -0.5, 0.9];
+      const targets = [0, 1, 1];
+      net.forward(inputs);
+      net.backward(targets);
+      const numeric = numericGradients(net, inputs, targets);
+
+      net.weightGrads.forEach((l, i) => expect(maxAbsDiff(l, numeric.weights[i])).toBeLessThan(1e-6));
+      net.biasGrads.forEach((l, i) => expect(maxAbsDiff(l, numeric.biases[i])).toBeLessThan(1e-6));
+    });
+
+    it('keeps skips in the state and rejects ones that do not fit', () => {
+      const net = skipped();
+      expect(SimpleNetwork.fromState(net.getState()).skips).toEqual(net.skips);
+      expect(skipSources(net.layerSizes, 3)).toEqual([0, 1]);
+      expect(skipSources(net.layerSizes, 2)).toEqual([]);
+      expect(() => net.setSkips([{ from: 2, to: 3 }])).toThrow(/same size with at least one layer between them/);
+      expect(() => net.setSkips([{ from: 0, to: 2 }])).toThrow(/Skip connection 0 -> 2/);
+      expect(() => net.setSkips([{ from: 1, to: 4 }, { from: 1, to: 4 }])).toThrow(/listed twice/);
+      expect(() => net.setState({ ...net.getState(), skips: [{ from: 0, to: 5 }] })).toThrow(/Skip connection 0 -> 5/);
+    });
+  });
+
+  describe('dropout', () => {
+    it('drops hidden neurons in training passes and rescales the survivors', () => {
+      const net = new SimpleNetwork([2, 16, 1], ['SIGMOID', 'SIGMOID', 'SIGMOID']);
+      net.setDropout([0, 0.5, 0]);
+      const clean = net.forward([0.3, -0.2]).slice();
+      const hidden = net.values[1].slice();
+      expect(net.dropoutMasks[1].every(m => m === 1)).toBe(true);
+
+      net.forward([0.3, -0.2], true);
+      const mask = net.dropoutMasks[1];
+      const dropped = mask.filter(m => m === 0).length;
+      expect(dropped).toBeGreaterThan(0);
+      expect(dropped).toBeLessThan(16);
+      mask.forEach((m, j) => expect(net.values[1][j]).toBeCloseTo(m ? hidden[j] * 2 : 0, 12));
+      expect(net.dropoutMasks[0].every(m => m === 1) && net.dropoutMasks[2].every(m => m === 1)).toBe(true);
+
+      // Evaluation passes never drop anything
+      expect(net.forward([0.3, -0.2])).toEqual(clean);
+      expect(net.predict([0.3, -0.2])).toEqual(clean);
+    });
+
+    it('only backpropagates through the neurons that were kept', () => {
+      const net = new SimpleNetwork([2, 8, 1], ['SIGMOID', 'TANH', 'SIGMOID']);
+      net.setDropout([0, 0.5, 0]);
+      net.forward([0.3, -0.2], true);
+      net.backward([1]);
+      const mask = net.dropoutMasks[1];
+      mask.forEach((m, j) => {
+        if (m) return;
+        expect(Math.abs(net.biasGrads[0][j])).toBe(0);
+        expect(Math.abs(net.weightGrads[0][j])).toBe(0);
+        expect(Math.abs(net.weightGrads[0][8 + j])).toBe(0);
+        expect(Math.abs(net.weightGrads[1][j])).toBe(0); // Its output was 0
+      });
+
+      // With the mask fixed, the kept part is an ordinary network: compare with finite differences
+      const scaled = SimpleNetwork.fromState(net.getState());
+      scaled.setDropout([0, 0, 0]);
+      scaled.weights[1].forEach((w, j) => { scaled.weights[1][j] = w * mask[j]; });
+      const numeric = numericGradients(scaled, [0.3, -0.2], [1]);
+      mask.forEach((m, j) => {
+        if (!m) return;
+        expect(net.biasGrads[0][j]).toBeCloseTo(numeric.biases[0][j], 6);
+      });
+    });
+
+    it('rejects rates that do not match the layers or are out of range', () => {
+      const net = tinyNetwork();
+      expect(() => net.setDropout([0, 0.5])).toThrow('Expected 3 dropout rates');
+      expect(() => net.setDropout([0, 1, 0])).toThrow('[0, 1)');
+    });
+  });
+
+  describe('convergence', () => {
+    it('learns XOR', () => {
+      const data = generateDataset('XOR', 1, { count: 80, seed: 3 });
+      const net = new SimpleNetwork([2, 6, 1], ['SIGMOID', 'TANH', 'SIGMOID']);
+      net.setOptimizer('MOMENTUM', DEFAULT_OPTIMIZER_PARAMS);
+      for (let epoch = 0; epoch < 300; epoch++) net.trainEpoch(data, 0.05);
+      expect(net.evaluate(data).accuracy).toBeGreaterThanOrEqual(0.95);
+    });
+
+    it('separates concentric circles with softmax + cross-entropy', () => {
+      const data = generateDataset('CIRCLES', 2, { count: 100, seed: 5 });
+      const net = new SimpleNetwork([2, 8, 2], ['SIGMOID', 'TANH', 'SOFTMAX']);
+      net.setLoss('CCE');
+      net.setOptimizer('ADAM', DEFAULT_OPTIMIZER_PARAMS);
+      for (let epoch = 0; epoch < 200; epoch++) net.trainEpoch(data, 0.01);
+      const { loss, accuracy } = net.evaluate(data);
+      expect(accuracy).toBeGreaterThanOrEqual(0.95);
+      expect(loss).toBeLessThan(0.2);
+    });
+
+    it('fits a linear split without hidden layers', () => {
+      const data = generateDataset('LINEAR', 1, { count: 100, noise: 0, seed: 7 });
+      const net = new SimpleNetwork([2, 1], ['SIGMOID', 'SIGMOID']);
+      net.setLoss('BCE');
+      for (let epoch = 0; epoch < 100; epoch++) net.trainEpoch(data, 0.5);
+      expect(net.evaluate(data).accuracy).toBeGreaterThanOrEqual(0.97);
+    });
+  });
+});
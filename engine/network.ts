@@ -0,0 +1,589 @@
+// SimpleNetwork: a feed-forward network small enough to inspect every number.
+//
+// Lifecycle of one training step:
+//   forward(inputs)   -> caches values/preActivations per layer, returns the outputs
+//   backward(targets) -> fills weightGrads/biasGrads for the cached forward pass
+//   step(lr)          -> applies those gradients through the selected optimizer
+// train() runs all three and returns the per-neuron error terms; predict() is a forward pass that leaves
+// the caches alone.
+// Regularization: L1/L2 penalties on the weights (not biases) are part of evaluate()'s loss and of
+// backward()'s gradients. Dropout only acts in training passes (forward(inputs, true), as train() does):
+// it zeroes neurons of hidden layers and scales the survivors by 1 / (1 - rate) ("inverted" dropout),
+// so evaluation passes need no rescaling.
+// Skip connections (residual links) add an earlier layer's outputs to a later layer's pre-activations,
+// neuron for neuron; backward() sends the later layer's error terms straight back along them.
+// Gradient clipping (off by default) acts in step(), before the optimizer sees the gradients: VALUE clamps
+// each one to ±threshold, NORM rescales them all when their global L2 norm exceeds the threshold. step() also
+// tallies each layer's gradient norm for takeGradientNorms(), so unstable training shows instead of being
+// hidden. Non-finite gradients are skipped, never applied.
+// getState()/setState() copy the trainable state in and out (e.g. to pause, save or hand to a worker).
+// snapshot() copies just what the renderer draws; `version` changes whenever any of it does.
+//
+// Layout: every buffer is a contiguous Float64Array, allocated once per shape and updated in place.
+// weights[l] is a row-major [layerSizes[l] x layerSizes[l + 1]] matrix: element k * layerSizes[l + 1] + j
+// connects neuron k of layer l to neuron j of layer l + 1. biases[l][j] belongs to neuron j of layer l + 1.
+// That is the default DENSE kind; layers[l] can make layer l convolutional or pooling instead, with the
+// parameter layout and neuron grid described in layers.ts.
+
+import { ActivationKey, activationDef } from './activations';
+import { LOSS_FUNCTIONS, LossKey } from './losses';
+import { DEFAULT_OPTIMIZER_PARAMS, OPTIMIZERS, OptimizerKey, OptimizerParams } from './optimizers';
+import { Sample, classify, shuffledIndices } from './datasets';
+import { DEFAULT_INIT_CONSTANT, INITIALIZERS, InitializerKey } from './initializers';
+import { LayerShape, LayerSpec, assertLayerShapes, flatShape, layerBackward, layerFans, layerForward, parameterCounts } from './layers';
+import { Matrix, Vector, copyAll } from './tensor';
+
+export interface OptimizerMoments {
+  mW: Matrix[];
+  vW: Matrix[];
+  mB: Vector[];
+  vB: Vector[];
+}
+
+export interface Regularization {
+  l1: number;
+  l2: number;
+}
+
+export const NO_REGULARIZATION: Regularization = { l1: 0, l2: 0 };
+
+export type ClipMode = 'NONE' | 'VALUE' | 'NORM';
+
+export interface GradientClipping {
+  mode: ClipMode;
+  threshold: number; // Largest gradient (VALUE) or global gradient norm (NORM) let through
+}
+
+export const CLIP_MODES: ClipMode[] = ['NONE', 'VALUE', 'NORM'];
+export const NO_CLIPPING: GradientClipping = { mode: 'NONE', threshold: 1 };
+
+// Layer `from`'s outputs are added to the pre-activations of layer `to`, which must be the same size
+// with at least one layer in between (identity weights, nothing to train)
+export interface SkipConnection {
+  from: number;
+  to: number;
+}
+
+export const isSkipAllowed = (layerSizes: number[], { from, to }: SkipConnection) => (
+  Number.isInteger(from) && Number.isInteger(to) && from >= 0 && to - from >= 2 && to < layerSizes.length && layerSizes[from] === layerSizes[to]
+);
+
+// Earlier layers that may skip to layer `to`
+export const skipSources = (layerSizes: number[], to: number) => (
+  layerSizes.flatMap((_, from) => (isSkipAllowed(layerSizes, { from, to }) ? [from] : []))
+);
+
+export interface NetworkState {
+  layerSizes: number[];
+  activations: ActivationKey[];
+  layers: LayerSpec[]; // Kind of each layer's incoming connections (layers[0] is unused)
+  shapes: LayerShape[];
+  loss: LossKey;
+  regularization: Regularization;
+  clipping: GradientClipping;
+  skips: SkipConnection[];
+  dropout: number[]; // Drop probability per layer; only hidden layers use theirs
+  weights: Matrix[];
+  biases: Vector[];
+  optimizer: OptimizerKey;
+  optimizerParams: OptimizerParams;
+  stepCount: number;
+  moments: OptimizerMoments;
+}
+
+// Everything the 3D view draws. Plain typed arrays, so it survives postMessage and can be transferred.
+export interface NetworkSnapshot {
+  version: number;
+  layerSizes: number[];
+  values: Vector[];
+  preActivations: Vector[];
+  weights: Matrix[];
+  deltas: Matrix[];
+  biases: Vector[];
+  dropoutMasks: Vector[]; // Factor the last forward pass applied per neuron: 0 if dropped, 1 / (1 - rate) if kept
+  errors: Vector[]; // dLoss/dPreActivation per neuron from the last backward() pass
+}
+
+const denseLayers = (layerSizes: number[]): LayerSpec[] => layerSizes.map(() => ({ kind: 'DENSE' }));
+const parameterShapes = (layers: LayerSpec[], shapes: LayerShape[]) => shapes.slice(1).map((shape, i) => parameterCounts(layers[i + 1], shapes[i], shape));
+const zerosLike = (buffers: Float64Array[]) => buffers.map(b => new Float64Array(b.length));
+
+const assertDropoutShape = (dropout: number[], layerSizes: number[]) => {
+  if (dropout.length !== layerSizes.length) throw new Error(`Expected ${layerSizes.length} dropout rates, got ${dropout.length}`);
+  if (dropout.some(rate => !(rate >= 0 && rate < 1))) throw new Error('Dropout rates must be in [0, 1)');
+};
+
+const assertSkips = (skips: SkipConnection[], layerSizes: number[]) => {
+  skips.forEach((skip, i) => {
+    if (!isSkipAllowed(layerSizes, skip)) {
+      throw new Error(`Skip connection ${skip.from} -> ${skip.to} must join two layers of the same size with at least one layer between them`);
+    }
+    if (skips.findIndex(other => other.from === skip.from && other.to === skip.to) !== i) throw new Error(`Skip connection ${skip.from} -> ${skip.to} is listed twice`);
+  });
+};
+
+const assertStateShape = (state: NetworkState) => {
+  const { layerSizes, activations, weights, biases } = state;
+  if (layerSizes.length < 2) throw new Error('Network state needs at least an input and an output layer');
+  if (activations.length !== layerSizes.length) throw new Error(`Expected ${layerSizes.length} activations, got ${activations.length}`);
+  assertDropoutShape(state.dropout, layerSizes);
+  assertSkips(state.skips, layerSizes);
+  assertLayerShapes(layerSizes, state.layers, state.shapes);
+  if (weights.length !== layerSizes.length - 1 || biases.length !== layerSizes.length - 1) {
+    throw new Error(`Expected ${layerSizes.length - 1} weight/bias layers`);
+  }
+  const expected = parameterShapes(state.layers, state.shapes);
+  for (let i = 0; i < weights.length; i++) {
+    if (weights[i].length !== expected[i].weights) {
+      throw new Error(state.layers[i + 1].kind === 'DENSE'
+        ? `Weight layer ${i} must be ${layerSizes[i]}x${layerSizes[i + 1]}`
+        : `Weight layer ${i} must have ${expected[i].weights} entries`);
+    }
+    if (biases[i].length !== expected[i].biases) throw new Error(`Bias layer ${i} must have ${expected[i].biases} entries`);
+  }
+  const { mW, vW, mB, vB } = state.moments;
+  const matches = (buffers: Float64Array[], like: Float64Array[]) => buffers.length === like.length && buffers.every((b, i) => b.length === like[i].length);
+  if (!matches(mW, weights) || !matches(vW, weights) || !matches(mB, biases) || !matches(vB, biases)) {
+    throw new Error('Optimizer moments do not match the network shape');
+  }
+};
+
+export class SimpleNetwork {
+  layerSizes: number[];
+  activations: ActivationKey[];
+  layers: LayerSpec[];
+  shapes: LayerShape[];
+  loss: LossKey = 'MSE';
+  regularization: Regularization = NO_REGULARIZATION;
+  clipping: GradientClipping = NO_CLIPPING;
+  skips: SkipConnection[] = [];
+  dropout: number[];
+  weights: Matrix[];
+  weightDeltas: Matrix[] = [];
+  biases: Vector[];
+  values: Vector[] = [];
+  preActivations: Vector[] = [];
+  dropoutMasks: Vector[] = [];
+
+  // Gradients of the loss from the last backward() pass; errors[l][j] is dLoss/dPreActivation of neuron j
+  // in layer l (the input layer's stays 0)
+  weightGrads: Matrix[] = [];
+  biasGrads: Vector[] = [];
+  errors: Vector[] = [];
+
+  // Optimizer (first moment m, second moment v per parameter)
+  optimizer: OptimizerKey = 'SGD';
+  optimizerParams: OptimizerParams = DEFAULT_OPTIMIZER_PARAMS;
+  stepCount = 0;
+  moments: OptimizerMoments = { mW: [], vW: [], mB: [], vB: [] };
+
+  // Bumped by everything that changes what snapshot() would return
+  version = 0;
+
+  // Per weight layer: squared gradient norms summed over the steps since takeGradientNorms()
+  private normSquares: Vector = new Float64Array(0);
+  private normSteps = 0;
+
+  // predict()'s private pass
+  private scratchValues: Vector[] = [];
+  private scratchPreActivations: Vector[] = [];
+
+  // Random weights in ±1/√fan-in, small positive biases (INITIALIZERS.UNIFORM); see initialize() for the others.
+  // Without layers every layer is dense; conv and pool layers need the shapes (layerShapes() in layers.ts).
+  constructor(layerSizes: number[], activations: ActivationKey[], layers = denseLayers(layerSizes), shapes = layerSizes.map(flatShape)) {
+    assertLayerShapes(layerSizes, layers, shapes);
+    this.layerSizes = layerSizes;
+    this.activations = activations;
+    this.layers = layers;
+    this.shapes = shapes;
+    this.dropout = layerSizes.map(() => 0);
+    this.weights = [];
+    this.biases = [];
+    this.drawParameters(layerSizes.map(() => 'UNIFORM'), DEFAULT_INIT_CONSTANT);
+    this.resetBuffers();
+    this.resetOptimizerState();
+  }
+
+  static fromState(state: NetworkState) {
+    const net = new SimpleNetwork(state.layerSizes, state.activations, state.layers, state.shapes);
+    net.setState(state);
+    return net;
+  }
+
+  // Redraws every weight and bias, layer l + 1's incoming parameters with initializers[l + 1]
+  // (one key per layer like activations; the input layer's is unused). Starts training over.
+  initialize(initializers: InitializerKey[], constant = DEFAULT_INIT_CONSTANT) {
+    if (initializers.length !== this.layerSizes.length) throw new Error(`Expected ${this.layerSizes.length} initializers, got ${initializers.length}`);
+    this.drawParameters(initializers, constant);
+    this.resetBuffers();
+    this.resetOptimizerState();
+  }
+
+  // Conv kernels draw as a [patch x channels] matrix (see layerFans); pool layers have nothing to draw
+  private drawParameters(initializers: InitializerKey[], constant: number) {
+    const shapes = this.shapes;
+    this.weights = shapes.slice(1).map((shape, i) => {
+      const { fanIn, fanOut } = layerFans(this.layers[i + 1], shapes[i], shape);
+      return this.layers[i + 1].kind === 'POOL' ? new Float64Array(0) : INITIALIZERS[initializers[i + 1]].weights(fanIn, fanOut, constant);
+    });
+    this.biases = shapes.slice(1).map((shape, i) => INITIALIZERS[initializers[i + 1]].biases(parameterCounts(this.layers[i + 1], shapes[i], shape).biases, constant));
+  }
+
+  // Zeroes everything derived from the parameters (activations, gradients, last deltas)
+  private resetBuffers() {
+    const layers = () => this.layerSizes.map(size => new Float64Array(size));
+    this.values = layers();
+    this.preActivations = layers();
+    this.dropoutMasks = this.layerSizes.map(size => new Float64Array(size).fill(1));
+    this.errors = layers();
+    this.scratchValues = layers();
+    this.scratchPreActivations = layers();
+    this.weightDeltas = zerosLike(this.weights);
+    this.weightGrads = zerosLike(this.weights);
+    this.biasGrads = zerosLike(this.biases);
+    this.normSquares = new Float64Array(this.weights.length);
+    this.normSteps = 0;
+    this.version++;
+  }
+
+  // Deep copy of everything needed to resume training exactly where it left off
+  getState(): NetworkState {
+    return {
+      layerSizes: [...this.layerSizes],
+      activations: [...this.activations],
+      layers: this.layers.map(spec => ({ ...spec })),
+      shapes: this.shapes.map(shape => ({ ...shape })),
+      loss: this.loss,
+      regularization: { ...this.regularization },
+      clipping: { ...this.clipping },
+      skips: this.skips.map(skip => ({ ...skip })),
+      dropout: [...this.dropout],
+      weights: copyAll(this.weights),
+      biases: copyAll(this.biases),
+      optimizer: this.optimizer,
+      optimizerParams: { ...this.optimizerParams },
+      stepCount: this.stepCount,
+      moments: {
+        mW: copyAll(this.moments.mW),
+        vW: copyAll(this.moments.vW),
+        mB: copyAll(this.moments.mB),
+        vB: copyAll(this.moments.vB)
+      }
+    };
+  }
+
+  // Replaces the whole network (shape included) with a copy of the given state
+  setState(state: NetworkState) {
+    assertStateShape(state);
+    this.layerSizes = [...state.layerSizes];
+    this.activations = [...state.activations];
+    this.layers = state.layers.map(spec => ({ ...spec }));
+    this.shapes = state.shapes.map(shape => ({ ...shape }));
+    this.loss = state.loss;
+    this.regularization = { ...state.regularization };
+    this.clipping = { ...state.clipping };
+    this.skips = state.skips.map(skip => ({ ...skip }));
+    this.dropout = [...state.dropout];
+    this.weights = copyAll(state.weights);
+    this.biases = copyAll(state.biases);
+    this.optimizer = state.optimizer;
+    this.optimizerParams = { ...state.optimizerParams };
+    this.stepCount = state.stepCount;
+    this.moments = {
+      mW: copyAll(state.moments.mW),
+      vW: copyAll(state.moments.vW),
+      mB: copyAll(state.moments.mB),
+      vB: copyAll(state.moments.vB)
+    };
+    this.resetBuffers();
+  }
+
+  // Overwrites weights and biases in place (same shape), keeping optimizer state and caches.
+  // Used to mirror a network that trains elsewhere, e.g. from worker snapshots.
+  setParameters(weights: Matrix[], biases: Vector[]) {
+    const expected = parameterShapes(this.layers, this.shapes);
+    if (weights.length !== expected.length || weights.some((w, i) => w.length !== expected[i].weights)
+      || biases.length !== expected.length || biases.some((b, i) => b.length !== expected[i].biases)) {
+      throw new Error('Parameters do not match the network shape');
+    }
+    weights.forEach((w, i) => this.weights[i].set(w));
+    biases.forEach((b, i) => this.biases[i].set(b));
+    this.version++;
+  }
+
+  // Copies of the cached forward pass, parameters and last deltas (a few memcpys, cheap enough per frame)
+  snapshot(): NetworkSnapshot {
+    return {
+      version: this.version,
+      layerSizes: [...this.layerSizes],
+      values: copyAll(this.values),
+      preActivations: copyAll(this.preActivations),
+      weights: copyAll(this.weights),
+      deltas: copyAll(this.weightDeltas),
+      biases: copyAll(this.biases),
+      dropoutMasks: copyAll(this.dropoutMasks),
+      errors: copyAll(this.errors)
+    };
+  }
+
+  // Switching optimizer discards accumulated velocity/moments; tweaking hyperparameters keeps them
+  setOptimizer(key: OptimizerKey, params: OptimizerParams) {
+    if (key !== this.optimizer) {
+      this.optimizer = key;
+      this.resetOptimizerState();
+    }
+    this.optimizerParams = params;
+  }
+
+  resetOptimizerState() {
+    this.stepCount = 0;
+    this.moments = {
+      mW: zerosLike(this.weights),
+      vW: zerosLike(this.weights),
+      mB: zerosLike(this.biases),
+      vB: zerosLike(this.biases)
+    };
+  }
+
+  setActivations(newActivations: ActivationKey[]) { this.activations = newActivations; }
+  setLoss(key: LossKey) { this.loss = key; }
+  setRegularization(regularization: Regularization) { this.regularization = { ...regularization }; }
+  setClipping(clipping: GradientClipping) {
+    if (!(clipping.threshold > 0)) throw new Error('Clipping threshold must be positive');
+    this.clipping = { ...clipping };
+  }
+  setSkips(skips: SkipConnection[]) {
+    assertSkips(skips, this.layerSizes);
+    this.skips = skips.map(skip => ({ ...skip }));
+  }
+  setDropout(rates: number[]) {
+    assertDropoutShape(rates, this.layerSizes);
+    this.dropout = [...rates];
+  }
+  setLayerBias(layerIdx: number, value: number) {
+    const biasIdx = layerIdx - 1;
+    if (biasIdx >= 0 && biasIdx < this.biases.length) {
+      this.biases[biasIdx].fill(value);
+      this.version++;
+    }
+  }
+
+  // Runs the inputs through every layer, writing into the given per-layer buffers.
+  // With masks, hidden neurons are dropped (and survivors rescaled) at their layer's dropout rate.
+  private propagate(inputs: ArrayLike<number>, values: Vector[], preActivations: Vector[], masks?: Vector[]) {
+    const input = values[0];
+    for (let k = 0; k < input.length; k++) input[k] = inputs[k] ?? 0;
+    preActivations[0].set(input);
+
+    for (let i = 0; i < this.weights.length; i++) {
+      const pre = layerForward(this.layers[i + 1], this.shapes[i], this.shapes[i + 1], values[i], this.weights[i], this.biases[i], preActivations[i + 1]);
+      for (const { from, to } of this.skips) {
+        if (to !== i + 1) continue;
+        const source = values[from];
+        for (let j = 0; j < pre.length; j++) pre[j] += source[j];
+      }
+      for (let j = 0; j < pre.length; j++) if (!isFinite(pre[j])) pre[j] = 0;
+
+      const out = values[i + 1];
+      const { func: activate, layerFunc } = activationDef(this.activations[i + 1]);
+      if (layerFunc) out.set(layerFunc(pre));
+      else for (let j = 0; j < pre.length; j++) out[j] = activate(pre[j]);
+
+      if (masks && i + 1 < this.weights.length) {
+        const mask = masks[i + 1];
+        const rate = this.dropout[i + 1];
+        for (let j = 0; j < out.length; j++) {
+          mask[j] = rate > 0 && Math.random() < rate ? 0 : 1 / (1 - rate);
+          out[j] *= mask[j];
+        }
+      }
+    }
+    return values[values.length - 1];
+  }
+
+  // training = true applies dropout (the masks are kept for backward() and the renderer)
+  forward(inputs: ArrayLike<number>, training = false) {
+    this.version++;
+    if (!training) this.dropoutMasks.forEach(mask => mask.fill(1));
+    return this.propagate(inputs, this.values, this.preActivations, training ? this.dropoutMasks : undefined);
+  }
+
+  // Same pass as forward() but leaves the cached (displayed) activations untouched
+  predict(inputs: ArrayLike<number>) {
+    return this.propagate(inputs, this.scratchValues, this.scratchPreActivations).slice();
+  }
+
+  // Copies of every layer's values and pre-activations for one input, leaving the cached pass alone
+  trace(inputs: ArrayLike<number>) {
+    this.propagate(inputs, this.scratchValues, this.scratchPreActivations);
+    return { values: copyAll(this.scratchValues), preActivations: copyAll(this.scratchPreActivations) };
+  }
+
+  // Computes dLoss/dParam for the current forward() state without changing any weights
+  backward(targets: ArrayLike<number>) {
+    const outputLayerIdx = this.layerSizes.length - 1;
+    const outputs = this.values[outputLayerIdx];
+    const outputActivation = this.activations[outputLayerIdx];
+    const outputGrads = this.errors[outputLayerIdx];
+
+    // dLoss/dPreActivation at the output. Sigmoid+BCE and Softmax+CCE collapse to (y - t),
+    // which also avoids dividing by a saturated y(1 - y).
+    if ((outputActivation === 'SIGMOID' && this.loss === 'BCE') || (outputActivation === 'SOFTMAX' && this.loss === 'CCE')) {
+      for (let i = 0; i < outputs.length; i++) outputGrads[i] = outputs[i] - (targets[i] || 0);
+    } else {
+      const dLdy = LOSS_FUNCTIONS[this.loss].grad(outputs, targets);
+      if (outputActivation === 'SOFTMAX') {
+        // Softmax Jacobian: dy_i/dz_j = y_i (δij - y_j)
+        const dot = outputs.reduce((sum, y, j) => sum + y * dLdy[j], 0);
+        for (let i = 0; i < outputs.length; i++) outputGrads[i] = outputs[i] * (dLdy[i] - dot);
+      } else {
+        const outputDeriv = activationDef(outputActivation).deriv;
+        const outputPre = this.preActivations[outputLayerIdx];
+        for (let i = 0; i < outputs.length; i++) outputGrads[i] = dLdy[i] * outputDeriv(outputs[i], outputPre[i]);
+      }
+    }
+
+    const { l1, l2 } = this.regularization;
+    for (let i = this.weights.length - 1; i >= 0; i--) {
+      // Also pulls the errors back through the (pre-update) weights into this.errors[i]
+      const weightGrads = this.weightGrads[i];
+      layerBackward(
+        this.layers[i + 1], this.shapes[i], this.shapes[i + 1], this.values[i], this.weights[i], this.errors[i + 1],
+        weightGrads, this.biasGrads[i], i > 0 ? this.errors[i] : undefined
+      );
+      if (l1 || l2) {
+        const weights = this.weights[i];
+        for (let p = 0; p < weights.length; p++) weightGrads[p] += l1 * Math.sign(weights[p]) + l2 * weights[p];
+      }
+
+      if (i > 0) {
+        // Plus, unchanged, the errors of the layers this one skips to (final by now, as those come later)
+        for (const { from, to } of this.skips) {
+          if (from !== i) continue;
+          const skipped = this.errors[to];
+          for (let k = 0; k < skipped.length; k++) this.errors[i][k] += skipped[k];
+        }
+
+        // Then through this layer's dropout and its activation
+        const currentLayerErrors = this.errors[i];
+        const currentValues = this.values[i];
+        const mask = this.dropoutMasks[i];
+        const currentPre = this.preActivations[i];
+        const deriv = activationDef(this.activations[i]).deriv;
+        for (let k = 0; k < currentLayerErrors.length; k++) {
+          const sum = currentLayerErrors[k];
+          const m = mask[k];
+          // A kept neuron's cached value is its activation output times m
+          currentLayerErrors[k] = isFinite(sum) && m ? sum * m * deriv(currentValues[k] / m, currentPre[k]) : 0;
+        }
+      }
+    }
+  }
+
+  // Tallies each layer's gradient norm, then clips weightGrads/biasGrads in place. Non-finite entries are
+  // left for step() to skip and stay out of the norm that NORM clipping rescales by.
+  private clipGradients() {
+    const { mode, threshold } = this.clipping;
+    let finiteSquares = 0;
+    for (let i = 0; i < this.weights.length; i++) {
+      let squares = 0;
+      for (const grads of [this.weightGrads[i], this.biasGrads[i]]) {
+        for (let p = 0; p < grads.length; p++) {
+          const g = grads[p];
+          squares += g * g;
+          if (!isFinite(g)) continue;
+          finiteSquares += g * g;
+          if (mode === 'VALUE') grads[p] = Math.max(-threshold, Math.min(threshold, g));
+        }
+      }
+      this.normSquares[i] += squares;
+    }
+    this.normSteps++;
+
+    const norm = Math.sqrt(finiteSquares);
+    if (mode !== 'NORM' || norm <= threshold) return;
+    const scale = threshold / norm;
+    for (const grads of [...this.weightGrads, ...this.biasGrads]) {
+      for (let p = 0; p < grads.length; p++) grads[p] *= scale;
+    }
+  }
+
+  // Per weight layer, the RMS over the steps since the last call of each step's gradient L2 norm (weights
+  // and biases, before clipping); 0 without steps, not finite once a gradient wasn't. Starts a new tally.
+  takeGradientNorms() {
+    const norms = Array.from(this.normSquares, squares => (this.normSteps ? Math.sqrt(squares / this.normSteps) : 0));
+    this.normSquares.fill(0);
+    this.normSteps = 0;
+    return norms;
+  }
+
+  // Applies the gradients from backward() through the selected optimizer, after clipping them
+  step(learningRate: number) {
+    const { update } = OPTIMIZERS[this.optimizer];
+    const hp = this.optimizerParams;
+    const { mW, vW, mB, vB } = this.moments;
+    const t = ++this.stepCount;
+    this.clipGradients();
+
+    for (let i = 0; i < this.weights.length; i++) {
+      const weights = this.weights[i];
+      const grads = this.weightGrads[i];
+      const deltas = this.weightDeltas[i];
+      for (let p = 0; p < weights.length; p++) {
+        const g = grads[p];
+        if (!isFinite(g)) continue;
+        const delta = update(g, mW[i], vW[i], p, learningRate, hp, t);
+        weights[p] += delta;
+        deltas[p] = delta;
+      }
+      const biases = this.biases[i];
+      const biasGrads = this.biasGrads[i];
+      for (let j = 0; j < biases.length; j++) {
+        const g = biasGrads[j];
+        if (!isFinite(g)) continue;
+        biases[j] += update(g, mB[i], vB[i], j, learningRate, hp, t);
+      }
+    }
+    this.version++;
+  }
+
+  // Returns the error terms backpropagated for this sample (the live buffers: read them before the next pass)
+  train(inputs: ArrayLike<number>, targets: ArrayLike<number>, learningRate: number) {
+    this.forward(inputs, true);
+    this.backward(targets);
+    this.step(learningRate);
+    return this.errors;
+  }
+
+  // One epoch: every sample once, in a fresh random order, one update per sample
+  trainEpoch(samples: Sample[], learningRate: number) {
+    for (const idx of shuffledIndices(samples.length)) {
+      this.train(samples[idx].input, samples[idx].target, learningRate);
+    }
+  }
+
+  // The L1/L2 penalty evaluate() adds to the data loss
+  regularizationLoss() {
+    const { l1, l2 } = this.regularization;
+    if (!l1 && !l2) return 0;
+    let penalty = 0;
+    for (const weights of this.weights) {
+      for (let p = 0; p < weights.length; p++) penalty += l1 * Math.abs(weights[p]) + 0.5 * l2 * weights[p] * weights[p];
+    }
+    return penalty;
+  }
+
+  // Loss averaged over the whole set (plus the regularization penalty), and classification accuracy.
+  // Always an evaluation pass: no dropout.
+  evaluate(samples: Sample[]) {
+    if (!samples.length) return { loss: 0, accuracy: 0 };
+    let loss = 0;
+    let correct = 0;
+    for (const sample of samples) {
+      const output = this.propagate(sample.input, this.scratchValues, this.scratchPreActivations);
+      loss += LOSS_FUNCTIONS[this.loss].loss(output, sample.target);
+      if (classify(output) === sample.label) correct++;
+    }
+    return { loss: loss / samples.length + this.regularizationLoss(), accuracy: correct / samples.length };
+  }
+}
@@ -0,0 +1,57 @@
+import { describe, expect, it } from 'vitest';
+import { ActivationKey } from './activations';
+import { SimpleNetwork } from './network';
+import { NeuronHealthMonitor } from './neuronHealth';
+
+const pass = (...layers: number[][]) => layers.map(l => Float64Array.from(l));
+
+describe('NeuronHealthMonitor', () => {
+  const activations: ActivationKey[] = ['SIGMOID', 'RELU', 'TANH', 'SIGMOID'];
+
+  it('flags dead ReLUs and saturated tanh units in hidden layers only', () => {
+    const monitor = new NeuronHealthMonitor([2, 2, 2, 1], 4);
+    for (let i = 0; i < 4; i++) monitor.record(activations, pass([0, 0], [0, 0.5], [0.99, 0.2], [0.999]));
+    const health = monitor.report();
+
+    expect(health.samples).toBe(4);
+    expect(Array.from(health.dead[1])).toEqual([1, 0]);
+    expect(Array.from(health.saturated[2])).toEqual([1, 0]);
+    expect(Array.from(health.dead[0])).toEqual([0, 0]); // Input layer
+    expect(Array.from(health.saturated[3])).toEqual([0]); // Output layer, even though it is saturated
+    expect(health.layers).toEqual([
+      { layer: 1, neurons: 2, dead: 1, saturated: 0 },
+      { layer: 2, neurons: 2, dead: 0, saturated: 1 }
+    ]);
+  });
+
+  it('only remembers the last windowSize passes', () => {
+    const monitor = new NeuronHealthMonitor([1, 1, 1], 4);
+    const relu: ActivationKey[] = ['SIGMOID', 'RELU', 'SIGMOID'];
+    for (let i = 0; i < 4; i++) monitor.record(relu, pass([0], [0], [0.5]));
+    for (let i = 0; i < 2; i++) monitor.record(relu, pass([0], [1], [0.5]));
+    expect(monitor.report().dead[1][0]).toBe(0.5);
+    expect(monitor.report(0.5).layers[0].dead).toBe(1);
+    expect(monitor.report(0.6).layers[0].dead).toBe(0);
+
+    for (let i = 0; i < 2; i++) monitor.record(relu, pass([0], [1], [0.5]));
+    expect(monitor.report().dead[1][0]).toBe(0);
+
+    monitor.reset();
+    expect(monitor.report().samples).toBe(0);
+  });
+
+  it('finds the ReLUs a large negative bias has killed', () => {
+    const net = new SimpleNetwork([2, 4, 1], ['SIGMOID', 'RELU', 'SIGMOID']);
+    net.biases[0].set([-10, 0.1, -10, 0.1]);
+    net.weights[0].fill(0.1);
+    const monitor = new NeuronHealthMonitor(net.layerSizes);
+    for (const input of [[0, 1], [1, 0], [1, 1], [-1, 0.5]]) monitor.record(net.activations, net.trace(input).values);
+    expect(Array.from(monitor.report().dead[1])).toEqual([1, 0, 1, 0]);
+    expect(monitor.report().layers[0].dead).toBe(2);
+  });
+
+  it('rejects passes of a different shape', () => {
+    const monitor = new NeuronHealthMonitor([2, 2, 1]);
+    expect(() => monitor.record(['SIGMOID', 'RELU'], pass([0, 0], [0, 0]))).toThrow('Expected values for 3 layers');
+  });
+});
@@ -0,0 +1,100 @@
+// Dead and saturated neuron detection over a rolling window of forward passes.
+//
+// Each recorded pass flags every hidden neuron whose output is in its activation's `dead` range
+// (ReLU stuck at 0) or `saturated` range (sigmoid/tanh on a flat tail). report() turns the flags of
+// the last `windowSize` passes into per-neuron rates, and counts the neurons that are in that state
+// for at least `threshold` of them. Input and output layers are never flagged.
+
+import { ActivationKey, activationDef } from './activations';
+import { Vector } from './tensor';
+
+export const DEFAULT_HEALTH_THRESHOLD = 0.9;
+
+export type NeuronCondition = 'DEAD' | 'SATURATED';
+
+export interface LayerHealth {
+  layer: number;
+  neurons: number;
+  dead: number;
+  saturated: number;
+}
+
+export interface NeuronHealth {
+  samples: number; // Passes in the window so far
+  dead: Vector[]; // Per layer and neuron: fraction of the window spent dead
+  saturated: Vector[];
+  layers: LayerHealth[]; // Hidden layers only
+}
+
+const DEAD = 1;
+const SATURATED = 2;
+
+export class NeuronHealthMonitor {
+  readonly layerSizes: number[];
+  readonly windowSize: number;
+  private flags: Uint8Array; // windowSize slots of one flag byte per neuron (all layers, flattened)
+  private deadCounts: Uint32Array;
+  private saturatedCounts: Uint32Array;
+  private offsets: number[];
+  private recorded = 0;
+
+  constructor(layerSizes: number[], windowSize = 64) {
+    this.layerSizes = [...layerSizes];
+    this.windowSize = windowSize;
+    this.offsets = layerSizes.map((_, l) => layerSizes.slice(0, l).reduce((a, b) => a + b, 0));
+    const neurons = layerSizes.reduce((a, b) => a + b, 0);
+    this.flags = new Uint8Array(windowSize * neurons);
+    this.deadCounts = new Uint32Array(neurons);
+    this.saturatedCounts = new Uint32Array(neurons);
+  }
+
+  reset() {
+    this.flags.fill(0);
+    this.deadCounts.fill(0);
+    this.saturatedCounts.fill(0);
+    this.recorded = 0;
+  }
+
+  // One forward pass: the per-layer activation outputs (e.g. SimpleNetwork.values or trace().values)
+  record(activations: ActivationKey[], values: ArrayLike<number>[]) {
+    if (values.length !== this.layerSizes.length) throw new Error(`Expected values for ${this.layerSizes.length} layers, got ${values.length}`);
+    const neurons = this.deadCounts.length;
+    const slot = (this.recorded % this.windowSize) * neurons;
+    for (let n = 0; n < neurons; n++) {
+      // The oldest pass leaves the window
+      const old = this.flags[slot + n];
+      if (old & DEAD) this.deadCounts[n]--;
+      if (old & SATURATED) this.saturatedCounts[n]--;
+      this.flags[slot + n] = 0;
+    }
+
+    for (let l = 1; l < this.layerSizes.length - 1; l++) {
+      const { dead, saturated } = activationDef(activations[l]);
+      if (!dead && !saturated) continue;
+      const layer = values[l];
+      for (let j = 0; j < this.layerSizes[l]; j++) {
+        const n = this.offsets[l] + j;
+        if (dead?.(layer[j])) { this.flags[slot + n] |= DEAD; this.deadCounts[n]++; }
+        if (saturated?.(layer[j])) { this.flags[slot + n] |= SATURATED; this.saturatedCounts[n]++; }
+      }
+    }
+    this.recorded++;
+  }
+
+  report(threshold = DEFAULT_HEALTH_THRESHOLD): NeuronHealth {
+    const samples = Math.min(this.recorded, this.windowSize);
+    const rates = (counts: Uint32Array) => this.layerSizes.map((size, l) => (
+      Float64Array.from(counts.subarray(this.offsets[l], this.offsets[l] + size), c => samples ? c / samples : 0)
+    ));
+    const dead = rates(this.deadCounts);
+    const saturated = rates(this.saturatedCounts);
+    const over = (r: Vector) => r.reduce((n, rate) => n + (rate >= threshold ? 1 : 0), 0);
+    const layers = this.layerSizes.slice(1, -1).map((neurons, i) => ({
+      layer: i + 1,
+      neurons,
+      dead: over(dead[i + 1]),
+      saturated: over(saturated[i + 1])
+    }));
+    return { samples, dead, saturated, layers };
+  }
+}
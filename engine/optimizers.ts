@@ -0,0 +1,70 @@
+// Optimizers. Each one is a per-parameter update rule; SimpleNetwork owns the flat
+// moment buffers and hands them in together with the parameter's index.
+
+export type OptimizerKey = 'SGD' | 'MOMENTUM' | 'NESTEROV' | 'RMSPROP' | 'ADAM';
+
+export interface OptimizerParams {
+  momentum: number;
+  rho: number;
+  beta1: number;
+  beta2: number;
+  epsilon: number;
+}
+
+// Epsilon only guards against division by zero, so it is not exposed as a slider
+export type HyperparamKey = Exclude<keyof OptimizerParams, 'epsilon'>;
+
+export interface OptimizerDef {
+  name: string;
+  color: string;
+  hyperparams: HyperparamKey[]; // Shown as sliders when this optimizer is selected
+  // Maps gradient g of parameter i to a parameter delta, updating its moment estimates m[i]/v[i] in place
+  update: (g: number, m: Float64Array, v: Float64Array, i: number, lr: number, hp: OptimizerParams, t: number) => number;
+}
+
+export const OPTIMIZERS: Record<OptimizerKey, OptimizerDef> = {
+  SGD: { name: 'SGD', color: '#94a3b8', hyperparams: [], update: (g, m, v, i, lr) => -lr * g },
+  MOMENTUM: {
+    name: 'Momentum', color: '#6366f1', hyperparams: ['momentum'],
+    update: (g, m, v, i, lr, hp) => {
+      m[i] = hp.momentum * m[i] + g;
+      return -lr * m[i];
+    }
+  },
+  NESTEROV: {
+    name: 'Nesterov', color: '#a855f7', hyperparams: ['momentum'],
+    update: (g, m, v, i, lr, hp) => {
+      // Look-ahead form: step along the gradient plus the *next* velocity
+      m[i] = hp.momentum * m[i] + g;
+      return -lr * (g + hp.momentum * m[i]);
+    }
+  },
+  RMSPROP: {
+    name: 'RMSProp', color: '#14b8a6', hyperparams: ['rho'],
+    update: (g, m, v, i, lr, hp) => {
+      v[i] = hp.rho * v[i] + (1 - hp.rho) * g * g;
+      return -lr * g / (Math.sqrt(v[i]) + hp.epsilon);
+    }
+  },
+  ADAM: {
+    name: 'Adam', color: '#f43f5e', hyperparams: ['beta1', 'beta2'],
+    update: (g, m, v, i, lr, hp, t) => {
+      m[i] = hp.beta1 * m[i] + (1 - hp.beta1) * g;
+      v[i] = hp.beta2 * v[i] + (1 - hp.beta2) * g * g;
+      const mHat = m[i] / (1 - Math.pow(hp.beta1, t));
+      const vHat = v[i] / (1 - Math.pow(hp.beta2, t));
+      return -lr * mHat / (Math.sqrt(vHat) + hp.epsilon);
+    }
+  }
+};
+
+export const OPTIMIZER_KEYS = Object.keys(OPTIMIZERS) as OptimizerKey[];
+
+export const DEFAULT_OPTIMIZER_PARAMS: OptimizerParams = { momentum: 0.9, rho: 0.9, beta1: 0.9, beta2: 0.999, epsilon: 1e-8 };
+
+export const HYPERPARAM_INFO: Record<HyperparamKey, { label: string, min: number, max: number, step: number }> = {
+  momentum: { label: 'Momentum', min: 0, max: 0.99, step: 0.01 },
+  rho: { label: 'Decay ρ', min: 0.5, max: 0.999, step: 0.001 },
+  beta1: { label: 'β1', min: 0.5, max: 0.999, step: 0.001 },
+  beta2: { label: 'β2', min: 0.9, max: 0.9999, step: 0.0001 }
+};
@@ -0,0 +1,57 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_SCHEDULE_PARAMS, LearningRateSchedule, SCHEDULE_KEYS, ScheduleKey, learningRateAt, schedulePreview } from './schedules';
+
+const schedule = (key: ScheduleKey, params: Partial<LearningRateSchedule['params']> = {}): LearningRateSchedule => ({
+  key,
+  params: { ...DEFAULT_SCHEDULE_PARAMS, ...params }
+});
+
+describe('learning-rate schedules', () => {
+  it('starts at or below the base rate and never exceeds it', () => {
+    SCHEDULE_KEYS.forEach(key => {
+      for (let epoch = 0; epoch < 1000; epoch += 7) {
+        const lr = learningRateAt(schedule(key), 0.2, epoch);
+        expect(lr).toBeGreaterThan(0);
+        expect(lr).toBeLessThanOrEqual(0.2 + 1e-12);
+      }
+    });
+  });
+
+  it('keeps a constant rate', () => {
+    expect(learningRateAt(schedule('CONSTANT'), 0.3, 0)).toBe(0.3);
+    expect(learningRateAt(schedule('CONSTANT'), 0.3, 5000)).toBe(0.3);
+  });
+
+  it('drops by gamma once per step for step decay, smoothly for exponential', () => {
+    const step = schedule('STEP', { stepSize: 10, gamma: 0.5 });
+    expect([0, 9, 10, 19, 20].map(e => learningRateAt(step, 1, e))).toEqual([1, 1, 0.5, 0.5, 0.25]);
+
+    const exp = schedule('EXPONENTIAL', { stepSize: 10, gamma: 0.5 });
+    expect(learningRateAt(exp, 1, 10)).toBeCloseTo(0.5, 12);
+    expect(learningRateAt(exp, 1, 5)).toBeCloseTo(Math.SQRT1_2, 12);
+  });
+
+  it('anneals along a cosine and restarts every period', () => {
+    const cos = schedule('COSINE', { period: 100, minRatio: 0.1 });
+    expect(learningRateAt(cos, 1, 0)).toBeCloseTo(1, 12);
+    expect(learningRateAt(cos, 1, 50)).toBeCloseTo(0.55, 12);
+    expect(learningRateAt(cos, 1, 99)).toBeCloseTo(0.1, 3);
+    expect(learningRateAt(cos, 1, 100)).toBeCloseTo(1, 12);
+  });
+
+  it('warms up linearly from the minimum, then holds the base rate', () => {
+    const warmup = schedule('WARMUP', { warmup: 10, minRatio: 0 });
+    expect([0, 5, 10, 500].map(e => learningRateAt(warmup, 2, e))).toEqual([0, 1, 2, 2]);
+  });
+
+  it('cycles as a triangle wave between the minimum and the base rate', () => {
+    const cyclical = schedule('CYCLICAL', { period: 20, minRatio: 0.5 });
+    expect([0, 5, 10, 15, 20].map(e => learningRateAt(cyclical, 1, e))).toEqual([0.5, 0.75, 1, 0.75, 0.5]);
+  });
+
+  it('previews evenly spaced points including both ends', () => {
+    const points = schedulePreview(schedule('STEP', { stepSize: 50, gamma: 0.1 }), 1, 100, 4);
+    expect(points.map(p => p.epoch)).toEqual([0, 25, 50, 75, 100]);
+    expect(points[4].lr).toBeCloseTo(0.01, 12);
+  });
+});
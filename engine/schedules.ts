@@ -0,0 +1,83 @@
+// Learning-rate schedules. Each one maps a 0-based epoch to a factor on the base learning rate,
+// so the LR slider keeps its meaning (the peak rate) whichever schedule is selected.
+
+export type ScheduleKey = 'CONSTANT' | 'STEP' | 'EXPONENTIAL' | 'COSINE' | 'WARMUP' | 'CYCLICAL';
+
+export interface ScheduleParams {
+  stepSize: number; // Epochs per decay step (STEP, EXPONENTIAL)
+  gamma: number;    // Factor applied per step (STEP, EXPONENTIAL)
+  period: number;   // Epochs per cycle (COSINE, CYCLICAL)
+  warmup: number;   // Epochs to ramp up to the base rate (WARMUP)
+  minRatio: number; // Lowest rate as a fraction of the base rate (COSINE, WARMUP, CYCLICAL)
+}
+
+export type ScheduleParamKey = keyof ScheduleParams;
+
+export interface ScheduleDef {
+  name: string;
+  description: string;
+  color: string;
+  params: ScheduleParamKey[]; // Shown as sliders when this schedule is selected
+  factor: (epoch: number, p: ScheduleParams) => number;
+}
+
+export interface LearningRateSchedule {
+  key: ScheduleKey;
+  params: ScheduleParams;
+}
+
+export const DEFAULT_SCHEDULE_PARAMS: ScheduleParams = { stepSize: 100, gamma: 0.5, period: 200, warmup: 50, minRatio: 0.1 };
+
+export const CONSTANT_SCHEDULE: LearningRateSchedule = { key: 'CONSTANT', params: DEFAULT_SCHEDULE_PARAMS };
+
+export const SCHEDULE_PARAM_INFO: Record<ScheduleParamKey, { label: string, min: number, max: number, step: number }> = {
+  stepSize: { label: 'Step', min: 10, max: 500, step: 10 },
+  gamma: { label: 'Decay γ', min: 0.1, max: 0.99, step: 0.01 },
+  period: { label: 'Period', min: 20, max: 1000, step: 10 },
+  warmup: { label: 'Warmup', min: 10, max: 500, step: 10 },
+  minRatio: { label: 'Min', min: 0, max: 1, step: 0.05 }
+};
+
+export const SCHEDULES: Record<ScheduleKey, ScheduleDef> = {
+  CONSTANT: {
+    name: 'Constant', description: 'The same rate every epoch', color: '#94a3b8', params: [],
+    factor: () => 1
+  },
+  STEP: {
+    name: 'Step', description: 'Multiplied by γ every step epochs', color: '#f97316', params: ['stepSize', 'gamma'],
+    factor: (epoch, p) => Math.pow(p.gamma, Math.floor(epoch / p.stepSize))
+  },
+  EXPONENTIAL: {
+    name: 'Exponential', description: 'Smooth step decay: shrinks by γ over every step epochs', color: '#eab308', params: ['stepSize', 'gamma'],
+    factor: (epoch, p) => Math.pow(p.gamma, epoch / p.stepSize)
+  },
+  COSINE: {
+    name: 'Cosine', description: 'Anneals along a half cosine to the minimum, restarting every period', color: '#22c55e', params: ['period', 'minRatio'],
+    factor: (epoch, p) => p.minRatio + (1 - p.minRatio) * 0.5 * (1 + Math.cos(Math.PI * (epoch % p.period) / p.period))
+  },
+  WARMUP: {
+    name: 'Warmup', description: 'Ramps linearly from the minimum to the base rate, then holds it', color: '#38bdf8', params: ['warmup', 'minRatio'],
+    factor: (epoch, p) => epoch >= p.warmup ? 1 : p.minRatio + (1 - p.minRatio) * epoch / p.warmup
+  },
+  CYCLICAL: {
+    name: 'Cyclical', description: 'Triangle wave between the minimum and the base rate', color: '#d946ef', params: ['period', 'minRatio'],
+    factor: (epoch, p) => {
+      const phase = (epoch % p.period) / p.period;
+      return p.minRatio + (1 - p.minRatio) * (1 - Math.abs(2 * phase - 1));
+    }
+  }
+};
+
+export const SCHEDULE_KEYS = Object.keys(SCHEDULES) as ScheduleKey[];
+
+export const learningRateAt = (schedule: LearningRateSchedule, baseRate: number, epoch: number) => (
+  baseRate * SCHEDULES[schedule.key].factor(epoch, schedule.params)
+);
+
+// Evenly spaced { epoch, lr } points over [0, epochs] for charting a schedule ahead of time
+export const schedulePreview = (schedule: LearningRateSchedule, baseRate: number, epochs: number, points = 60) => (
+  Array.from({ length: points + 1 }, (_, i) => {
+    const epoch = Math.round(i * epochs / points);
+    return { epoch, lr: learningRateAt(schedule, baseRate, epoch) };
+  })
+);
@@ -0,0 +1,21 @@
+import { describe, expect, it } from 'vitest';
+import { createMatrix, matVec, outer, vecMatAdd } from './tensor';
+
+// [2 x 3] row-major: rows (1, 2, 3) and (4, 5, 6)
+const W = Float64Array.of(1, 2, 3, 4, 5, 6);
+
+describe('tensor kernels', () => {
+  it('vecMatAdd computes x · W + b', () => {
+    const out = vecMatAdd([1, -1], W, Float64Array.of(0.5, 0, -0.5), new Float64Array(3));
+    expect(out).toEqual(Float64Array.of(-2.5, -3, -3.5));
+  });
+
+  it('matVec computes W · d', () => {
+    expect(matVec(W, Float64Array.of(1, 0, -1), new Float64Array(2))).toEqual(Float64Array.of(-2, -2));
+  });
+
+  it('outer writes x ⊗ d into a row-major matrix', () => {
+    const out = outer([2, 3], Float64Array.of(1, -1, 0.5), createMatrix(2, 3));
+    expect(out).toEqual(Float64Array.of(2, -2, 1, 3, -3, 1.5));
+  });
+});
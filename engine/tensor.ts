@@ -0,0 +1,46 @@
+// Dense kernels over flat, row-major Float64Array matrices.
+// A [rows x cols] matrix stores element (r, c) at r * cols + c. Shapes are implied by the
+// vector lengths, so callers must pass buffers of matching size (nothing here allocates).
+
+export type Vector = Float64Array;
+export type Matrix = Float64Array;
+
+export const createMatrix = (rows: number, cols: number): Matrix => new Float64Array(rows * cols);
+
+// out = x · W + b   (x: rows, W: rows x cols, b/out: cols)
+export const vecMatAdd = (x: ArrayLike<number>, W: Matrix, b: Vector, out: Vector) => {
+  const cols = out.length;
+  out.set(b);
+  for (let r = 0; r < x.length; r++) {
+    const xr = x[r];
+    if (xr === 0) continue;
+    const base = r * cols;
+    for (let c = 0; c < cols; c++) out[c] += xr * W[base + c];
+  }
+  return out;
+};
+
+// out = W · d   (W: rows x cols, d: cols, out: rows)
+export const matVec = (W: Matrix, d: Vector, out: Vector) => {
+  const cols = d.length;
+  for (let r = 0; r < out.length; r++) {
+    const base = r * cols;
+    let sum = 0;
+    for (let c = 0; c < cols; c++) sum += W[base + c] * d[c];
+    out[r] = sum;
+  }
+  return out;
+};
+
+// out = x ⊗ d   (x: rows, d: cols, out: rows x cols)
+export const outer = (x: ArrayLike<number>, d: Vector, out: Matrix) => {
+  const cols = d.length;
+  for (let r = 0; r < x.length; r++) {
+    const xr = x[r];
+    const base = r * cols;
+    for (let c = 0; c < cols; c++) out[base + c] = xr * d[c];
+  }
+  return out;
+};
+
+export const copyAll = (buffers: Float64Array[]) => buffers.map(b => b.slice());
@@ -0,0 +1,228 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { ActivationKey } from './activations';
+import { createRng } from './datasets';
+import { LOSS_KEYS } from './losses';
+import { DEFAULT_OPTIMIZER_PARAMS } from './optimizers';
+import { SimpleNetwork } from './network';
+import { LayerSpec, layerShapes } from './layers';
+import { TfjsLayer, TfjsModelJson, exportTfjsModel, importTfjsModel } from './tfjs';
+
+const probes = [[0.3, -0.7], [1, 1], [-0.2, 0.05]];
+
+const kerasActivations: Record<string, (zs: number[]) => number[]> = {
+  linear: zs => zs,
+  sigmoid: zs => zs.map(v => 1 / (1 + Math.exp(-v))),
+  tanh: zs => zs.map(Math.tanh),
+  relu: zs => zs.map(v => Math.max(0, v)),
+  elu: zs => zs.map(v => v >= 0 ? v : Math.exp(v) - 1),
+  softmax: zs => {
+    const exps = zs.map(v => Math.exp(v - Math.max(...zs)));
+    const total = exps.reduce((a, b) => a + b, 0);
+    return exps.map(e => e / total);
+  }
+};
+
+// What a TF.js/Keras Dense stack (or chain with Add layers) computes from the exported files, written independently of SimpleNetwork
+const kerasForward = (modelJson: TfjsModelJson, weightData: ArrayBuffer, input: number[]) => {
+  const values = new Float32Array(weightData);
+  const layers = Array.isArray(modelJson.modelTopology.config) ? modelJson.modelTopology.config : modelJson.modelTopology.config.layers;
+  const specs = modelJson.weightsManifest[0].weights;
+  const outputs = new Map<string, number[]>(); // By layer name, for Add
+  let offset = 0;
+  let x = input;
+  let specIdx = 0;
+  for (const layer of layers) {
+    if (layer.class_name === 'Add') {
+      x = layer.inbound_nodes![0].slice(1).reduce((sum, [name]) => sum.map((v, i) => v + outputs.get(name)![i]), x);
+    } else if (layer.class_name === 'Activation') {
+      x = kerasActivations[layer.config.activation as string](x);
+    } else if (layer.class_name === 'LeakyReLU') {
+      x = x.map(v => v >= 0 ? v : (layer.config.alpha as number) * v);
+    } else if (layer.class_name === 'Dense') {
+      const [inputDim, units] = specs[specIdx++].shape;
+      const kernel = values.subarray(offset, offset += inputDim * units);
+      const bias = values.subarray(offset, offset += units);
+      specIdx++;
+      const z = Array.from({ length: units }, (_, j) => x.reduce((sum, xi, i) => sum + xi * kernel[i * units + j], bias[j]));
+      x = kerasActivations[layer.config.activation as string](z);
+    } // InputLayer and Dropout (at inference) pass x through
+    outputs.set(String(layer.config.name), x);
+  }
+  return x;
+};
+
+// Serialise like a download would: JSON text plus a standalone binary
+const throughFiles = ({ modelJson, weightData }: ReturnType<typeof exportTfjsModel>) => ({
+  modelJson: JSON.parse(JSON.stringify(modelJson)),
+  weightData: weightData.slice(0)
+});
+
+describe('TF.js interop', () => {
+  beforeEach(() => {
+    vi.spyOn(Math, 'random').mockImplementation(createRng(17));
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  const architectures: [string, number[], ActivationKey[]][] = [
+    ['sigmoid/tanh', [2, 4, 1], ['SIGMOID', 'TANH', 'SIGMOID']],
+    ['relu/elu/softmax', [2, 5, 3, 3], ['SIGMOID', 'RELU', 'ELU', 'SOFTMAX']],
+    ['leaky relu', [2, 3, 2], ['SIGMOID', 'LEAKY_RELU', 'TANH']]
+  ];
+
+  it.each(architectures)('round-trips a %s network with matching outputs', (_, sizes, activations) => {
+    const net = new SimpleNetwork(sizes, activations);
+    const files = throughFiles(exportTfjsModel(net));
+    const imported = importTfjsModel(files.modelJson, files.weightData);
+
+    expect(imported.layerSizes).toEqual(sizes);
+    expect(imported.activations.slice(1)).toEqual(activations.slice(1));
+    for (const probe of probes) {
+      const expected = net.forward(probe);
+      const actual = imported.forward(probe);
+      expected.forEach((y, i) => expect(actual[i]).toBeCloseTo(y, 6)); // float32 storage
+    }
+  });
+
+  it.each(architectures)('writes files a Keras Dense stack evaluates identically (%s)', (_, sizes, activations) => {
+    const net = new SimpleNetwork(sizes, activations);
+    const { modelJson, weightData } = throughFiles(exportTfjsModel(net));
+    for (const probe of probes) {
+      const expected = net.forward(probe);
+      kerasForward(modelJson, weightData, probe).forEach((y, i) => expect(y).toBeCloseTo(expected[i], 6));
+    }
+  });
+
+  it('exports hidden-layer dropout as Dropout layers and imports the rates back', () => {
+    const net = new SimpleNetwork([2, 4, 3, 1], ['SIGMOID', 'RELU', 'TANH', 'SIGMOID']);
+    net.setDropout([0, 0.25, 0.5, 0]);
+    const files = throughFiles(exportTfjsModel(net));
+    const layers = (files.modelJson.modelTopology.config as { layers: { class_name: string }[] }).layers;
+    expect(layers.map(l => l.class_name)).toEqual(['Dense', 'Dropout', 'Dense', 'Dropout', 'Dense']);
+
+    const imported = importTfjsModel(files.modelJson, files.weightData);
+    expect(imported.dropout).toEqual([0, 0.25, 0.5, 0]);
+    for (const probe of probes) {
+      kerasForward(files.modelJson, files.weightData, probe).forEach((y, i) => expect(y).toBeCloseTo(net.predict(probe)[i], 6));
+    }
+  });
+
+  it.each(['MSE', 'BCE', 'CCE'] as const)('keeps the %s loss through export and import', loss => {
+    const net = new SimpleNetwork([2, 3, 2], ['SIGMOID', 'TANH', 'SIGMOID']);
+    net.setLoss(loss);
+    net.setOptimizer('ADAM', DEFAULT_OPTIMIZER_PARAMS);
+    const files = throughFiles(exportTfjsModel(net, 'architect', 0.05));
+    expect(files.modelJson.trainingConfig.optimizer_config).toEqual({ class_name: 'Adam', config: { learning_rate: 0.05, beta1: 0.9, beta2: 0.999, epsilon: 1e-8 } });
+    expect(importTfjsModel(files.modelJson, files.weightData).loss).toBe(loss);
+  });
+
+  it.each(LOSS_KEYS)('writes only a loss tf.loadLayersModel() knows (%s)', loss => {
+    // TF.js Layers' loss registry, plus the Keras spellings it converts to those names
+    const tfjsLosses = [
+      'meanSquaredError', 'meanAbsoluteError', 'meanAbsolutePercentageError', 'meanSquaredLogarithmicError', 'squaredHinge', 'hinge',
+      'categoricalHinge', 'logcosh', 'categoricalCrossentropy', 'sparseCategoricalCrossentropy', 'binaryCrossentropy',
+      'kullbackLeiblerDivergence', 'poisson', 'cosineProximity'
+    ];
+    const net = new SimpleNetwork([2, 3, 2], ['SIGMOID', 'TANH', 'SIGMOID']);
+    net.setLoss(loss);
+    const { trainingConfig } = exportTfjsModel(net).modelJson;
+    if (loss === 'HUBER') expect(trainingConfig).toBeUndefined();
+    else expect(tfjsLosses).toContain(String(trainingConfig?.loss).replace(/_(\w)/g, (_, c: string) => c.toUpperCase()));
+  });
+
+  it('imports Keras-converted models with InputLayer, Activation layers and training config', () => {
+    const modelJson = {
+      format: 'layers-model',
+      modelTopology: {
+        class_name: 'Sequential',
+        config: {
+          name: 'sequential',
+          layers: [
+            { class_name: 'InputLayer', config: { batch_input_shape: [null, 2], name: 'input_1' } },
+            { class_name: 'Dense', config: { name: 'hidden', units: 2, activation: 'linear', use_bias: false } },
+            { class_name: 'Activation', config: { name: 'act', activation: 'tanh' } },
+            { class_name: 'Dense', config: { name: 'out', units: 1, activation: 'sigmoid', use_bias: true } }
+          ]
+        }
+      },
+      trainingConfig: { loss: 'binary_crossentropy' },
+      weightsManifest: [{
+        paths: ['group1-shard1of1.bin'],
+        weights: [
+          { name: 'sequential/hidden/kernel', shape: [2, 2], dtype: 'float32' },
+          { name: 'sequential/out/kernel', shape: [2, 1], dtype: 'float32' },
+          { name: 'sequential/out/bias', shape: [1], dtype: 'float32' }
+        ]
+      }]
+    };
+    const net = importTfjsModel(modelJson, Float32Array.of(0.5, -1, 0.25, 2, 1, -1, 0.5).buffer);
+
+    expect(net.layerSizes).toEqual([2, 2, 1]);
+    expect(net.activations.slice(1)).toEqual(['TANH', 'SIGMOID']);
+    expect(net.loss).toBe('BCE');
+    expect(Array.from(net.biases[0])).toEqual([0, 0]);
+    const h = [Math.tanh(0.5 + 0.25 * 2), Math.tanh(-1 + 2 * 2)];
+    expect(net.forward([1, 2])[0]).toBeCloseTo(1 / (1 + Math.exp(-(h[0] - h[1] + 0.5))), 6);
+  });
+
+  it.each<[string, (json: TfjsModelJson) => void, RegExp]>([
+    ['functional models', json => { json.modelTopology.class_name = 'Model'; }, /Only Sequential models/],
+    ['unsupported layers', json => { (json.modelTopology.config as { layers: unknown[] }).layers.splice(1, 0, { class_name: 'BatchNormalization', config: { name: 'norm' } }); }, /norm is a BatchNormalization/],
+    ['out-of-range dropout', json => { (json.modelTopology.config as { layers: unknown[] }).layers.splice(1, 0, { class_name: 'Dropout', config: { name: 'drop', rate: 1 } }); }, /drop has rate 1/],
+    ['unsupported activations', json => { (json.modelTopology.config as { layers: { config: Record<string, unknown> }[] }).layers[0].config.activation = 'swish'; }, /activation 'swish'/],
+    ['a trailing linear layer', json => { (json.modelTopology.config as { layers: { config: Record<string, unknown> }[] }).layers[1].config.activation = 'linear'; }, /dense_2 has a linear activation/],
+    ['quantized weights', json => { json.weightsManifest[0].weights[0].dtype = 'uint8'; }, /only float32/]
+  ])('rejects %s', (_, corrupt, message) => {
+    const { modelJson, weightData } = throughFiles(exportTfjsModel(new SimpleNetwork([2, 3, 1], ['SIGMOID', 'TANH', 'SIGMOID'])));
+    corrupt(modelJson);
+    expect(() => importTfjsModel(modelJson, weightData)).toThrow(message);
+  });
+
+  it('refuses to export conv layers', () => {
+    const layers: LayerSpec[] = [{ kind: 'DENSE' }, { kind: 'CONV', kernel: 2, stride: 1, padding: 0, channels: 1 }, { kind: 'DENSE' }];
+    const net = new SimpleNetwork([4, 1, 1], ['SIGMOID', 'TANH', 'SIGMOID'], layers, layerShapes([{ rows: 2, cols: 2 }, { rows: 1, cols: 1 }, { rows: 1, cols: 1 }], layers));
+    expect(() => exportTfjsModel(net)).toThrow(/dense layers only/);
+  });
+
+  it('refuses to export custom activations', () => {
+    expect(() => exportTfjsModel(new SimpleNetwork([2, 3, 1], ['SIGMOID', 'CUSTOM:softplus(x)', 'SIGMOID']))).toThrow(/built-in activations only/);
+  });
+
+  it('exports skip connections as a functional model with Add layers and imports them back', () => {
+    const net = new SimpleNetwork([2, 3, 2, 3, 2], ['SIGMOID', 'TANH', 'LEAKY_RELU', 'RELU', 'SIGMOID']);
+    net.setSkips([{ from: 0, to: 2 }, { from: 1, to: 3 }]);
+    net.setDropout([0, 0.25, 0, 0, 0]);
+    const files = throughFiles(exportTfjsModel(net));
+    const topology = files.modelJson.modelTopology;
+    expect(topology.class_name).toBe('Model');
+    const layers = (topology.config as { layers: TfjsLayer[] }).layers;
+    expect(layers.map(l => l.class_name)).toEqual(['InputLayer', 'Dense', 'Dropout', 'Dense', 'Add', 'LeakyReLU', 'Dense', 'Add', 'Activation', 'Dense']);
+    expect(layers[4].inbound_nodes).toEqual([[['dense_2', 0, 0, {}], ['input_1', 0, 0, {}]]]);
+    expect(layers[7].inbound_nodes).toEqual([[['dense_3', 0, 0, {}], ['dropout_1', 0, 0, {}]]]);
+
+    const imported = importTfjsModel(files.modelJson, files.weightData);
+    expect(imported.skips).toEqual(net.skips);
+    expect(imported.activations).toEqual(net.activations);
+    expect(imported.dropout).toEqual(net.dropout);
+    for (const probe of probes) {
+      const expected = Array.from(net.predict(probe));
+      imported.predict(probe).forEach((y, i) => expect(y).toBeCloseTo(expected[i], 6));
+      kerasForward(files.modelJson, files.weightData, probe).forEach((y, i) => expect(y).toBeCloseTo(expected[i], 6));
+    }
+  });
+
+  it('rejects functional models that are not a chain', () => {
+    const net = new SimpleNetwork([2, 2, 2, 1], ['SIGMOID', 'TANH', 'TANH', 'SIGMOID']);
+    net.setSkips([{ from: 0, to: 2 }]);
+    const { modelJson, weightData } = throughFiles(exportTfjsModel(net));
+    (modelJson.modelTopology.config as { layers: TfjsLayer[] }).layers[2].inbound_nodes = [[['input_1', 0, 0, {}]]];
+    expect(() => importTfjsModel(modelJson, weightData)).toThrow(/only chains of layers/);
+  });
+
+  it('rejects truncated weight data', () => {
+    const { modelJson, weightData } = throughFiles(exportTfjsModel(new SimpleNetwork([2, 3, 1], ['SIGMOID', 'TANH', 'SIGMOID'])));
+    expect(() => importTfjsModel(modelJson, weightData.slice(0, 8))).toThrow(/Weight data is too short/);
+  });
+});
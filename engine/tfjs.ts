@@ -0,0 +1,336 @@
+// TensorFlow.js Layers interop: SimpleNetwork <-> `model.json` + `model.weights.bin`.
+//
+// Export writes a Sequential model of Dense layers (the format tf.loadLayersModel() reads).
+// Keras Dense kernels are [inputDim x units] row-major, which is exactly SimpleNetwork's weight layout.
+// Leaky ReLU has no Dense activation string, so it is exported as a linear Dense followed by a
+// LeakyReLU layer. Hidden-layer dropout becomes a Dropout layer (inactive at inference, like here).
+// A network with skip connections becomes a functional Model instead: the same chain of layers, with an
+// Add layer between a linear Dense and its activation summing in the earlier layers' outputs.
+// The loss and optimizer go in trainingConfig, which tf.loadLayersModel() compiles the model with
+// (TF.js has no Huber loss, so a Huber model is written without a trainingConfig and loads uncompiled).
+// Import accepts the same shapes back (a functional Model only as such a chain), including
+// Keras-converted models that use InputLayer / Activation layers and snake_case or camelCase config keys.
+
+import { ActivationKey, isCustomActivation } from './activations';
+import { LossKey } from './losses';
+import { OptimizerKey, OptimizerParams } from './optimizers';
+import { SimpleNetwork, SkipConnection } from './network';
+
+export const TFJS_WEIGHTS_PATH = 'model.weights.bin';
+
+export interface TfjsWeightSpec {
+  name: string;
+  shape: number[];
+  dtype: string;
+}
+
+// [layer name, node index, tensor index, call kwargs]
+export type TfjsInbound = [string, number, number, Record<string, unknown>];
+
+export interface TfjsLayer {
+  class_name: string;
+  config: Record<string, unknown>;
+  // Functional models only: the layer's name again and the calls that feed it (one per node)
+  name?: string;
+  inbound_nodes?: TfjsInbound[][];
+}
+
+export interface TfjsFunctionalConfig {
+  name: string;
+  layers: TfjsLayer[];
+  input_layers: [string, number, number][];
+  output_layers: [string, number, number][];
+}
+
+export interface TfjsModelJson {
+  format: 'layers-model';
+  generatedBy: string;
+  convertedBy: string | null;
+  modelTopology: {
+    class_name: string;
+    config: { name: string, layers: TfjsLayer[] } | TfjsFunctionalConfig | TfjsLayer[];
+    keras_version?: string;
+    backend?: string;
+  };
+  weightsManifest: { paths: string[], weights: TfjsWeightSpec[] }[];
+  trainingConfig?: { loss?: unknown, optimizer_config?: TfjsLayer };
+}
+
+const LEAKY_RELU_ALPHA = 0.01; // Matches ACTIVATION_FUNCTIONS.LEAKY_RELU
+
+const KERAS_ACTIVATIONS: Partial<Record<ActivationKey, string>> = {
+  SIGMOID: 'sigmoid',
+  TANH: 'tanh',
+  RELU: 'relu',
+  ELU: 'elu',
+  SOFTMAX: 'softmax'
+};
+
+// Loss names import understands
+const KERAS_LOSSES: Record<string, LossKey> = {
+  mean_squared_error: 'MSE',
+  mse: 'MSE',
+  meanSquaredError: 'MSE',
+  binary_crossentropy: 'BCE',
+  binaryCrossentropy: 'BCE',
+  categorical_crossentropy: 'CCE',
+  categoricalCrossentropy: 'CCE',
+  huber: 'HUBER',
+  huber_loss: 'HUBER'
+};
+
+// The loss name export writes (null: TF.js has none, so the trainingConfig is left out)
+const TFJS_LOSSES: Record<LossKey, string | null> = {
+  MSE: 'mean_squared_error',
+  BCE: 'binary_crossentropy',
+  CCE: 'categorical_crossentropy',
+  HUBER: null
+};
+
+// TF.js optimizer classes (snake_case keys, as Keras writes them)
+const TFJS_OPTIMIZERS: Record<OptimizerKey, (lr: number, hp: OptimizerParams) => TfjsLayer> = {
+  SGD: lr => ({ class_name: 'SGD', config: { learning_rate: lr } }),
+  MOMENTUM: (lr, hp) => ({ class_name: 'Momentum', config: { learning_rate: lr, momentum: hp.momentum, use_nesterov: false } }),
+  NESTEROV: (lr, hp) => ({ class_name: 'Momentum', config: { learning_rate: lr, momentum: hp.momentum, use_nesterov: true } }),
+  RMSPROP: (lr, hp) => ({ class_name: 'RMSProp', config: { learning_rate: lr, decay: hp.rho, momentum: 0, epsilon: hp.epsilon, centered: false } }),
+  ADAM: (lr, hp) => ({ class_name: 'Adam', config: { learning_rate: lr, beta1: hp.beta1, beta2: hp.beta2, epsilon: hp.epsilon } })
+};
+
+// --- Export ---
+
+// Conv and pool layers index their neurons differently from Keras (see layers.ts) and Keras has no
+// counterpart for custom activations, so only dense stacks of built-in activations export
+export const exportTfjsModel = (net: SimpleNetwork, name = 'architect', learningRate = 0.1) => {
+  if (net.layers.some(spec => spec.kind !== 'DENSE')) throw new Error('TF.js export supports dense layers only');
+  if (net.activations.slice(1).some(isCustomActivation)) throw new Error('TF.js export supports built-in activations only');
+  const functional = net.skips.length > 0;
+  const layers: TfjsLayer[] = [];
+  const weights: TfjsWeightSpec[] = [];
+  const data = new Float32Array(net.weights.reduce((n, w, i) => n + w.length + net.biases[i].length, 0));
+  let offset = 0;
+
+  // Each layer is called on the one before it; a functional model also needs that spelled out
+  const outputs = ['input_1']; // Name of the layer holding each Architect layer's outputs
+  const add = (layer: TfjsLayer, inputs = [layers.length ? String(layers[layers.length - 1].config.name) : outputs[0]]) => {
+    const layerName = String(layer.config.name);
+    layers.push(functional ? { ...layer, name: layerName, inbound_nodes: [inputs.map((input): TfjsInbound => [input, 0, 0, {}])] } : layer);
+  };
+  if (functional) {
+    layers.push({
+      class_name: 'InputLayer',
+      config: { name: outputs[0], batch_input_shape: [null, net.layerSizes[0]], dtype: 'float32', sparse: false },
+      name: outputs[0],
+      inbound_nodes: []
+    });
+  }
+
+  net.weights.forEach((kernel, i) => {
+    const layerName = `dense_${i + 1}`;
+    const [inputDim, units] = [net.layerSizes[i], net.layerSizes[i + 1]];
+    const activation = net.activations[i + 1];
+    const sources = net.skips.filter(skip => skip.to === i + 1).map(skip => outputs[skip.from]);
+    const separate = activation === 'LEAKY_RELU' || sources.length > 0;
+    add({
+      class_name: 'Dense',
+      config: {
+        name: layerName,
+        trainable: true,
+        dtype: 'float32',
+        units,
+        activation: separate ? 'linear' : KERAS_ACTIVATIONS[activation],
+        use_bias: true,
+        ...(i === 0 && !functional ? { batch_input_shape: [null, inputDim] } : {})
+      }
+    });
+    if (sources.length) add({ class_name: 'Add', config: { name: `add_${i + 1}`, trainable: true, dtype: 'float32' } }, [layerName, ...sources]);
+    if (activation === 'LEAKY_RELU') {
+      add({ class_name: 'LeakyReLU', config: { name: `leaky_re_lu_${i + 1}`, trainable: true, dtype: 'float32', alpha: LEAKY_RELU_ALPHA } });
+    } else if (separate) {
+      add({ class_name: 'Activation', config: { name: `activation_${i + 1}`, trainable: true, dtype: 'float32', activation: KERAS_ACTIVATIONS[activation] } });
+    }
+    const dropout = net.dropout[i + 1];
+    if (dropout > 0 && i + 1 < net.weights.length) {
+      add({ class_name: 'Dropout', config: { name: `dropout_${i + 1}`, trainable: true, dtype: 'float32', rate: dropout } });
+    }
+    outputs.push(String(layers[layers.length - 1].config.name));
+
+    weights.push({ name: `${layerName}/kernel`, shape: [inputDim, units], dtype: 'float32' });
+    data.set(kernel, offset);
+    offset += kernel.length;
+    weights.push({ name: `${layerName}/bias`, shape: [units], dtype: 'float32' });
+    data.set(net.biases[i], offset);
+    offset += units;
+  });
+
+  const modelJson: TfjsModelJson = {
+    format: 'layers-model',
+    generatedBy: 'Neural Nexus Architect',
+    convertedBy: null,
+    modelTopology: {
+      class_name: functional ? 'Model' : 'Sequential',
+      config: functional
+        ? { name, layers, input_layers: [[outputs[0], 0, 0]], output_layers: [[outputs[outputs.length - 1], 0, 0]] }
+        : { name, layers },
+      keras_version: 'tfjs-layers',
+      backend: 'tensor_flow.js'
+    },
+    weightsManifest: [{ paths: [TFJS_WEIGHTS_PATH], weights }],
+    ...(TFJS_LOSSES[net.loss] ? {
+      trainingConfig: {
+        loss: TFJS_LOSSES[net.loss],
+        optimizer_config: TFJS_OPTIMIZERS[net.optimizer](learningRate, net.optimizerParams)
+      }
+    } : {})
+  };
+  return { modelJson, weightData: data.buffer };
+};
+
+// --- Import ---
+
+// Keras (Python) writes snake_case config keys, TF.js camelCase
+const option = (config: Record<string, unknown>, snake: string, camel: string) => config[snake] ?? config[camel];
+
+export const isTfjsModel = (value: unknown): value is TfjsModelJson => (
+  typeof value === 'object' && value !== null && 'modelTopology' in value && 'weightsManifest' in value
+);
+
+// Paths of the binary shards the model needs, in the order importTfjsModel() expects them concatenated
+export const tfjsWeightPaths = (modelJson: TfjsModelJson) => modelJson.weightsManifest.flatMap(group => group.paths);
+
+// Names of the layers a functional model's layer is called on
+const inboundNames = (layer: TfjsLayer) => {
+  const nodes = layer.inbound_nodes ?? [];
+  if (nodes.length > 1) throw new Error(`Layer ${String(layer.config.name)} is called more than once; shared layers cannot be imported`);
+  return (nodes[0] ?? []).map(([name]) => String(name));
+};
+
+export const importTfjsModel = (modelJson: unknown, weightData: ArrayBuffer): SimpleNetwork => {
+  if (!isTfjsModel(modelJson)) throw new Error('Not a TF.js Layers model (expected modelTopology and weightsManifest)');
+  const topology = modelJson.modelTopology;
+  const functional = ['Model', 'Functional'].includes(topology.class_name) && !Array.isArray(topology.config) && 'input_layers' in topology.config;
+  if (topology.class_name !== 'Sequential' && !functional) {
+    throw new Error(`Only Sequential models and functional chains with Add skip connections can be imported (got ${topology.class_name})`);
+  }
+  const layers = Array.isArray(topology.config) ? topology.config : topology.config.layers;
+
+  // Weight specs in manifest order -> their slice of the (concatenated) binary
+  const tensors = new Map<string, { shape: number[], values: Float32Array }>();
+  let byteOffset = 0;
+  for (const spec of modelJson.weightsManifest.flatMap(group => group.weights)) {
+    if (spec.dtype !== 'float32') throw new Error(`Weight ${spec.name} is ${spec.dtype}; only float32 weights are supported`);
+    const length = spec.shape.reduce((a, b) => a * b, 1);
+    if (byteOffset + length * 4 > weightData.byteLength) {
+      throw new Error(`Weight data is too short: ${spec.name} needs bytes ${byteOffset}-${byteOffset + length * 4}, got ${weightData.byteLength}`);
+    }
+    tensors.set(spec.name, { shape: spec.shape, values: new Float32Array(weightData.slice(byteOffset, byteOffset + length * 4)) });
+    byteOffset += length * 4;
+  }
+  const tensor = (name: string) => {
+    const found = tensors.get(name) ?? [...tensors].find(([key]) => key.endsWith(`/${name}`))?.[1];
+    if (!found) throw new Error(`Weight ${name} is missing from the weights manifest`);
+    return found;
+  };
+
+  const layerSizes: number[] = [];
+  const activations: ActivationKey[] = ['SIGMOID']; // The input layer's activation is never applied
+  const dropout: number[] = [0];
+  const kernels: Float64Array[] = [];
+  const biases: Float64Array[] = [];
+  // A Dense without a (supported) activation of its own waits for a following Activation/LeakyReLU layer
+  let pendingLinear: string | null = null;
+  // Functional models: the layer each one must be called on, and the Architect layer a finished one outputs
+  const skips: SkipConnection[] = [];
+  const outputOf = new Map<string, number>();
+  let previous: string | null = null;
+
+  const setActivation = (layerName: string, keras: unknown) => {
+    const key = (Object.keys(KERAS_ACTIVATIONS) as ActivationKey[]).find(k => KERAS_ACTIVATIONS[k] === keras);
+    if (!key) throw new Error(`Layer ${layerName} uses activation '${keras}', which the Architect does not support`);
+    activations[activations.length - 1] = key;
+  };
+
+  for (const layer of layers) {
+    const config = layer.config;
+    const layerName = String(config.name ?? layer.class_name);
+    const inputs = functional ? inboundNames(layer) : [];
+    if (functional && layer.class_name !== 'InputLayer' && inputs[0] !== previous) {
+      throw new Error(`Layer ${layerName} is not called on the layer before it; only chains of layers can be imported`);
+    }
+    switch (layer.class_name) {
+      case 'InputLayer': {
+        const shape = option(config, 'batch_input_shape', 'batchInputShape') as number[] | undefined;
+        if (shape && !layerSizes.length) layerSizes.push(shape[shape.length - 1]);
+        break;
+      }
+      case 'Dense': {
+        if (pendingLinear) throw new Error(`Layer ${pendingLinear} has a linear activation, which the Architect does not support`);
+        const units = Number(config.units);
+        const kernel = tensor(`${layerName}/kernel`);
+        const [inputDim, kernelUnits] = kernel.shape;
+        if (!layerSizes.length) layerSizes.push(inputDim);
+        const prevSize = layerSizes[layerSizes.length - 1];
+        if (inputDim !== prevSize || kernelUnits !== units) {
+          throw new Error(`Layer ${layerName} kernel is ${kernel.shape.join('x')}, expected ${prevSize}x${units}`);
+        }
+        layerSizes.push(units);
+        kernels.push(Float64Array.from(kernel.values));
+        const useBias = option(config, 'use_bias', 'useBias') ?? true;
+        biases.push(useBias ? Float64Array.from(tensor(`${layerName}/bias`).values) : new Float64Array(units));
+
+        activations.push('SIGMOID');
+        dropout.push(0);
+        const activation = config.activation ?? 'linear';
+        if (activation === 'linear') pendingLinear = layerName;
+        else setActivation(layerName, activation);
+        break;
+      }
+      case 'Activation':
+        if (!pendingLinear) throw new Error(`Activation layer ${layerName} must directly follow a linear Dense layer`);
+        setActivation(layerName, config.activation);
+        pendingLinear = null;
+        break;
+      case 'LeakyReLU': {
+        if (!pendingLinear) throw new Error(`LeakyReLU layer ${layerName} must directly follow a linear Dense layer`);
+        const alpha = Number(config.alpha ?? config.negative_slope ?? 0.3);
+        if (Math.abs(alpha - LEAKY_RELU_ALPHA) > 1e-6) throw new Error(`LeakyReLU layer ${layerName} has alpha ${alpha}; only ${LEAKY_RELU_ALPHA} is supported`);
+        activations[activations.length - 1] = 'LEAKY_RELU';
+        pendingLinear = null;
+        break;
+      }
+      case 'Dropout': {
+        if (pendingLinear || !kernels.length) throw new Error(`Dropout layer ${layerName} must follow a Dense layer and its activation`);
+        const rate = Number(config.rate);
+        if (!(rate >= 0 && rate < 1)) throw new Error(`Dropout layer ${layerName} has rate ${config.rate}; expected a number in [0, 1)`);
+        dropout[dropout.length - 1] = rate;
+        break;
+      }
+      case 'Add': {
+        if (!functional) throw new Error(`Add layer ${layerName} needs a functional model`);
+        if (!pendingLinear) throw new Error(`Add layer ${layerName} must directly follow a linear Dense layer`);
+        for (const input of inputs.slice(1)) {
+          const from = outputOf.get(input);
+          if (from === undefined) throw new Error(`Add layer ${layerName} adds ${input}, which is not the output of an earlier layer`);
+          skips.push({ from, to: layerSizes.length - 1 });
+        }
+        break;
+      }
+      default:
+        throw new Error(`Layer ${layerName} is a ${layer.class_name}; only Dense, Activation, LeakyReLU, Dropout and Add layers can be imported`);
+    }
+    previous = layerName;
+    if (!pendingLinear) outputOf.set(layerName, Math.max(layerSizes.length - 1, 0));
+  }
+  if (pendingLinear) throw new Error(`Layer ${pendingLinear} has a linear activation, which the Architect does not support`);
+  if (!kernels.length) throw new Error('The model has no Dense layers');
+  if (functional && (topology.config as TfjsFunctionalConfig).output_layers[0]?.[0] !== previous) {
+    throw new Error(`The model's output must be its last layer (${previous})`);
+  }
+
+  const net = new SimpleNetwork(layerSizes, activations);
+  net.setParameters(kernels, biases);
+  net.setDropout(dropout);
+  net.setSkips(skips);
+  const loss = modelJson.trainingConfig?.loss;
+  if (typeof loss === 'string' && KERAS_LOSSES[loss]) net.setLoss(KERAS_LOSSES[loss]);
+  return net;
+};
@@ -0,0 +1,62 @@
+import { describe, expect, it } from 'vitest';
+import { SimpleNetwork } from './network';
+import { SnapshotTimeline, snapshotBytes } from './timeline';
+
+const net = new SimpleNetwork([2, 3, 1], ['SIGMOID', 'TANH', 'SIGMOID']);
+const snap = net.snapshot();
+const size = snapshotBytes(snap);
+
+describe('SnapshotTimeline', () => {
+  it('counts the bytes of every buffer in a snapshot', () => {
+    // values/preActivations/dropoutMasks/errors: 6 neurons each, weights/deltas: 9 each, biases: 4 (no input layer)
+    expect(size).toBe((4 * 6 + 2 * 9 + 4) * 8);
+  });
+
+  it('keeps one snapshot per interval', () => {
+    const timeline = new SnapshotTimeline(Infinity, 10);
+    for (let epoch = 0; epoch <= 35; epoch++) timeline.record(epoch, snap);
+    expect(timeline.frames.map(f => f.epoch)).toEqual([0, 10, 20, 30]);
+    expect(timeline.bytes).toBe(4 * size);
+  });
+
+  it('thins to every other snapshot and doubles the interval when over budget', () => {
+    const timeline = new SnapshotTimeline(4 * size, 10);
+    for (let epoch = 0; epoch <= 40; epoch += 10) timeline.record(epoch, snap);
+    expect(timeline.frames.map(f => f.epoch)).toEqual([0, 20, 40]);
+    expect(timeline.interval).toBe(20);
+    expect(timeline.bytes).toBeLessThanOrEqual(4 * size);
+    expect(timeline.record(50, snap)).toBe(false);
+    expect(timeline.record(60, snap)).toBe(true);
+  });
+
+  it('finds the latest frame at or before an epoch', () => {
+    const timeline = new SnapshotTimeline(Infinity, 10);
+    for (let epoch = 10; epoch <= 50; epoch += 10) timeline.record(epoch, snap);
+    expect(timeline.frameAt(5)).toBeNull();
+    expect(timeline.frameAt(10)!.epoch).toBe(10);
+    expect(timeline.frameAt(39)!.epoch).toBe(30);
+    expect(timeline.frameAt(1000)!.epoch).toBe(50);
+  });
+
+  it('drops later frames when truncated and starts over when cleared', () => {
+    const timeline = new SnapshotTimeline(3 * size, 10);
+    for (let epoch = 0; epoch <= 40; epoch += 10) timeline.record(epoch, snap);
+    timeline.truncate(25);
+    expect(timeline.frames.map(f => f.epoch)).toEqual([0, 20]);
+    expect(timeline.bytes).toBe(2 * size);
+    timeline.clear();
+    expect(timeline.frames).toHaveLength(0);
+    expect(timeline.interval).toBe(10);
+  });
+
+  it('records a branch at the base interval after thinning and truncating', () => {
+    const timeline = new SnapshotTimeline(6 * size, 10);
+    for (let epoch = 0; epoch <= 60; epoch += 10) timeline.record(epoch, snap);
+    expect(timeline.interval).toBe(20);
+    timeline.truncate(20);
+    expect(timeline.frames.map(f => f.epoch)).toEqual([0, 20]);
+    for (let epoch = 21; epoch <= 50; epoch++) timeline.record(epoch, snap);
+    expect(timeline.frames.map(f => f.epoch)).toEqual([0, 20, 30, 40, 50]);
+    expect(timeline.interval).toBe(10);
+  });
+});
@@ -0,0 +1,91 @@
+// Training timeline: periodic network snapshots to scrub back through, replay, or branch from.
+//
+// A snapshot is kept every `interval` epochs. When the kept snapshots outgrow the byte budget, every
+// other one is dropped (never the first or the latest) and the interval doubles, so a run of any length
+// stays evenly covered in bounded memory. The snapshot type is generic so callers can store their own
+// metrics (loss, accuracy, ...) alongside the network buffers.
+
+import { NetworkSnapshot } from './network';
+
+export const DEFAULT_TIMELINE_BYTES = 16 * 1024 * 1024;
+export const DEFAULT_TIMELINE_INTERVAL = 10;
+
+export interface TimelineFrame<T extends NetworkSnapshot = NetworkSnapshot> {
+  epoch: number;
+  snapshot: T;
+}
+
+export const snapshotBytes = (s: NetworkSnapshot) => (
+  [s.values, s.preActivations, s.weights, s.deltas, s.biases, s.dropoutMasks, s.errors]
+    .reduce((n, buffers) => n + buffers.reduce((m, b) => m + b.byteLength, 0), 0)
+);
+
+export class SnapshotTimeline<T extends NetworkSnapshot = NetworkSnapshot> {
+  readonly maxBytes: number;
+  readonly baseInterval: number;
+  interval: number; // Epochs between kept snapshots; doubles on every thinning
+  private list: TimelineFrame<T>[] = [];
+  private total = 0;
+
+  constructor(maxBytes = DEFAULT_TIMELINE_BYTES, interval = DEFAULT_TIMELINE_INTERVAL) {
+    this.maxBytes = maxBytes;
+    this.baseInterval = interval;
+    this.interval = interval;
+  }
+
+  get frames(): readonly TimelineFrame<T>[] {
+    return this.list;
+  }
+
+  get bytes() {
+    return this.total;
+  }
+
+  // Keeps the snapshot (without copying it) if `interval` epochs have passed since the last one
+  record(epoch: number, snapshot: T) {
+    const last = this.list[this.list.length - 1];
+    if (last && epoch < last.epoch + this.interval) return false;
+    this.list.push({ epoch, snapshot });
+    this.total += snapshotBytes(snapshot);
+    while (this.total > this.maxBytes && this.list.length > 2) this.thin();
+    return true;
+  }
+
+  // Latest frame at or before `epoch`
+  frameAt(epoch: number): TimelineFrame<T> | null {
+    let lo = 0;
+    let hi = this.list.length - 1;
+    let found: TimelineFrame<T> | null = null;
+    while (lo <= hi) {
+      const mid = (lo + hi) >> 1;
+      if (this.list[mid].epoch <= epoch) {
+        found = this.list[mid];
+        lo = mid + 1;
+      } else {
+        hi = mid - 1;
+      }
+    }
+    return found;
+  }
+
+  // Forgets everything after `epoch`, e.g. when training branches off from an earlier frame.
+  // The new branch starts at the base interval again; it thins as usual once it fills the budget.
+  truncate(epoch: number) {
+    this.list = this.list.filter(f => f.epoch <= epoch);
+    this.total = this.list.reduce((n, f) => n + snapshotBytes(f.snapshot), 0);
+    this.interval = this.baseInterval;
+  }
+
+  clear() {
+    this.list = [];
+    this.total = 0;
+    this.interval = this.baseInterval;
+  }
+
+  private thin() {
+    const last = this.list.length - 1;
+    this.list = this.list.filter((_, i) => i % 2 === 0 || i === last);
+    this.total = this.list.reduce((n, f) => n + snapshotBytes(f.snapshot), 0);
+    this.interval *= 2;
+  }
+}
@@ -0,0 +1,208 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_OPTIMIZER_PARAMS } from './optimizers';
+import { generateDataset } from './datasets';
+import { NO_CLIPPING, NO_REGULARIZATION, SimpleNetwork } from './network';
+import { CONSTANT_SCHEDULE } from './schedules';
+import { Trainer, TrainerConfig, TrainerEvent } from './trainer';
+
+const samples = generateDataset('XOR', 1, { count: 20, seed: 2 });
+
+const config = (overrides: Partial<TrainerConfig> = {}): TrainerConfig => ({
+  learningRate: 0.1,
+  schedule: CONSTANT_SCHEDULE,
+  samples,
+  validation: [],
+  probe: [0.5, 0.5],
+  convergence: { metric: 'TRAIN', threshold: 0, patience: 0 },
+  optimizer: 'SGD',
+  optimizerParams: DEFAULT_OPTIMIZER_PARAMS,
+  loss: 'MSE',
+  activations: ['SIGMOID', 'TANH', 'SIGMOID'],
+  regularization: NO_REGULARIZATION,
+  clipping: NO_CLIPPING,
+  skips: [],
+  dropout: [0, 0, 0],
+  ...overrides
+});
+
+// Manual clock and scheduler: each tick() runs exactly one queued callback
+const harness = () => {
+  const events: TrainerEvent[] = [];
+  const transfers: Transferable[][] = [];
+  const queue: (() => void)[] = [];
+  let time = 0;
+  const trainer = new Trainer((e, transfer) => { events.push(e); transfers.push(transfer); }, {
+    now: () => (time += 5), // Every clock read advances 5ms, so a 12ms budget trains 3 epochs per tick
+    schedule: fn => queue.push(fn),
+    cancel: () => queue.splice(0),
+    tickBudgetMs: 12,
+    snapshotIntervalMs: 0
+  });
+  const tick = () => queue.shift()?.();
+  return { trainer, events, transfers, tick, queue };
+};
+
+const freshState = () => new SimpleNetwork([2, 3, 1], ['SIGMOID', 'TANH', 'SIGMOID']).getState();
+
+describe('Trainer', () => {
+  it('streams snapshots only after the previous one is acknowledged', () => {
+    const { trainer, events, tick } = harness();
+    trainer.handle({ type: 'load', session: 1, state: freshState(), epoch: 0, config: config() });
+    trainer.handle({ type: 'play' });
+
+    tick();
+    expect(events.map(e => e.type)).toEqual(['snapshot']);
+    tick();
+    tick();
+    expect(events).toHaveLength(1); // Still waiting for an ack
+
+    trainer.handle({ type: 'ack' });
+    tick();
+    expect(events.map(e => e.type)).toEqual(['snapshot', 'snapshot']);
+
+    // Training kept going during backpressure, and the skipped loss points arrive with the next snapshot
+    const second = events[1].snapshot;
+    expect(second.epoch).toBe(12);
+    expect(second.history.map(h => h.epoch)).toEqual([6, 9, 12]);
+  });
+
+  it('streams typed-array snapshots without the full state and transfers their buffers', () => {
+    const { trainer, events, transfers, tick } = harness();
+    trainer.handle({ type: 'load', session: 1, state: freshState(), epoch: 0, config: config() });
+    trainer.handle({ type: 'play' });
+    tick();
+
+    const { snapshot } = events[0];
+    expect(snapshot.state).toBeUndefined();
+    expect(snapshot.weights[0]).toBeInstanceOf(Float64Array);
+    expect(snapshot.weights[0]).toHaveLength(2 * 3);
+    expect(transfers[0]).toContain(snapshot.weights[0].buffer);
+    expect(transfers[0]).toHaveLength(4 * 3 + 2 * 3); // values/preActivations/dropoutMasks/errors for 3 layers, weights/deltas/biases for 2 links
+  });
+
+  it('answers pause with the full state and stops scheduling', () => {
+    const { trainer, events, tick, queue } = harness();
+    trainer.handle({ type: 'load', session: 3, state: freshState(), epoch: 10, config: config() });
+    trainer.handle({ type: 'play' });
+    tick();
+    trainer.handle({ type: 'pause' });
+
+    const paused = events[events.length - 1];
+    expect(paused.type).toBe('paused');
+    expect(paused.snapshot.session).toBe(3);
+    expect(paused.snapshot.epoch).toBe(13);
+    expect(queue).toHaveLength(0);
+
+    // The state resumes on another network exactly where the worker left off
+    const resumed = SimpleNetwork.fromState(paused.snapshot.state!);
+    expect(resumed.predict([0.5, 0.5])).toEqual(paused.snapshot.values[2]);
+  });
+
+  it('trains a fixed number of epochs on step', () => {
+    const { trainer, events } = harness();
+    trainer.handle({ type: 'load', session: 1, state: freshState(), epoch: 0, config: config() });
+    trainer.handle({ type: 'step', epochs: 3 });
+    expect(events).toHaveLength(1);
+    expect(events[0].type).toBe('paused');
+    expect(events[0].snapshot.epoch).toBe(3);
+    // Each point carries the gradient norm of both weight layers over the epochs it covers
+    expect(events[0].snapshot.history).toEqual([{ epoch: 3, loss: events[0].snapshot.loss, lr: 0.1, gradNorms: [expect.any(Number), expect.any(Number)] }]);
+    expect(events[0].snapshot.history[0].gradNorms!.every(norm => norm > 0)).toBe(true);
+  });
+
+  it('trains each epoch with the scheduled learning rate', () => {
+    const { trainer, events } = harness();
+    const schedule = { key: 'STEP' as const, params: { ...CONSTANT_SCHEDULE.params, stepSize: 2, gamma: 0.5 } };
+    trainer.handle({ type: 'load', session: 1, state: freshState(), epoch: 0, config: config({ schedule }) });
+    trainer.handle({ type: 'step', epochs: 2 });
+    trainer.handle({ type: 'step', epochs: 1 });
+    // Epochs 0-1 run at the base rate, epoch 2 is the first one after a decay step
+    expect(events.map(e => e.snapshot.history[0].lr)).toEqual([0.1, 0.05]);
+  });
+
+  it('stops with a converged event once the loss threshold is reached', () => {
+    const { trainer, events, tick, queue } = harness();
+    trainer.handle({ type: 'load', session: 1, state: freshState(), epoch: 0, config: config({ convergence: { metric: 'TRAIN', threshold: Infinity, patience: 0 } }) });
+    trainer.handle({ type: 'play' });
+    tick();
+    expect(events.map(e => e.type)).toEqual(['converged']);
+    expect(events[0].type === 'converged' && events[0].reason).toBe('THRESHOLD');
+    expect(queue).toHaveLength(0);
+  });
+
+  it('answers a step that reaches the threshold with a converged event', () => {
+    const { trainer, events } = harness();
+    trainer.handle({ type: 'load', session: 1, state: freshState(), epoch: 0, config: config({ convergence: { metric: 'TRAIN', threshold: Infinity, patience: 0 } }) });
+    trainer.handle({ type: 'step', epochs: 1 });
+    expect(events.map(e => e.type)).toEqual(['converged']);
+    expect(events[0].type === 'converged' && events[0].reason).toBe('THRESHOLD');
+    expect(events[0].snapshot.state).toBeDefined();
+  });
+
+  it('scores the validation set into its own loss series', () => {
+    const { trainer, events } = harness();
+    const validation = generateDataset('XOR', 1, { count: 10, seed: 5 });
+    trainer.handle({ type: 'load', session: 1, state: freshState(), epoch: 0, config: config({ validation }) });
+    trainer.handle({ type: 'step', epochs: 2 });
+
+    const { snapshot } = events[0];
+    const net = SimpleNetwork.fromState(snapshot.state!);
+    expect(snapshot.validation).toEqual(net.evaluate(validation));
+    expect(snapshot.history).toEqual([{ epoch: 2, loss: snapshot.loss, valLoss: snapshot.validation!.loss, lr: 0.1, gradNorms: expect.any(Array) }]);
+  });
+
+  it('stops early once the watched loss has not improved for the patience, keeping the best weights', () => {
+    const { trainer, events, tick } = harness();
+    const validation = generateDataset('XOR', 1, { count: 10, seed: 5 });
+    // A zero learning rate never improves on the first score (epoch 3)
+    trainer.handle({ type: 'load', session: 1, state: freshState(), epoch: 0, config: config({
+      learningRate: 0, validation, convergence: { metric: 'VALIDATION', threshold: 0, patience: 5 }
+    }) });
+    trainer.handle({ type: 'play' });
+    for (let i = 0; i < 3; i++) {
+      tick();
+      trainer.handle({ type: 'ack' });
+    }
+
+    const last = events[events.length - 1];
+    expect(last.type === 'converged' && last.reason).toBe('PATIENCE');
+    expect(last.snapshot.epoch).toBe(9);
+    expect(last.snapshot.best!.epoch).toBe(3);
+    expect(last.snapshot.best!.loss).toBe(last.snapshot.validation!.loss);
+    expect(last.snapshot.best!.weights).toEqual(last.snapshot.state!.weights);
+  });
+
+  it('applies config changes to the running network', () => {
+    const { trainer, events } = harness();
+    trainer.handle({ type: 'load', session: 1, state: freshState(), epoch: 0, config: config() });
+    trainer.handle({ type: 'config', config: { optimizer: 'ADAM', loss: 'BCE', regularization: { l1: 0, l2: 0.01 }, clipping: { mode: 'NORM', threshold: 0.5 }, dropout: [0, 0.5, 0] } });
+    trainer.handle({ type: 'step', epochs: 1 });
+    expect(events[0].snapshot.state!.optimizer).toBe('ADAM');
+    expect(events[0].snapshot.state!.loss).toBe('BCE');
+    expect(events[0].snapshot.state!.regularization).toEqual({ l1: 0, l2: 0.01 });
+    expect(events[0].snapshot.state!.clipping).toEqual({ mode: 'NORM', threshold: 0.5 });
+    expect(events[0].snapshot.state!.dropout).toEqual([0, 0.5, 0]);
+  });
+
+  it('keeps the best checkpoint across config updates unless the criteria change', () => {
+    const { trainer, events } = harness();
+    const convergence = { metric: 'TRAIN' as const, threshold: 0, patience: 100 };
+    trainer.handle({ type: 'load', session: 1, state: freshState(), epoch: 0, config: config({ learningRate: 0, convergence }) });
+    trainer.handle({ type: 'step', epochs: 1 });
+    trainer.handle({ type: 'config', config: config({ learningRate: 0, convergence: { ...convergence } }) });
+    trainer.handle({ type: 'step', epochs: 1 });
+    trainer.handle({ type: 'config', config: { convergence: { ...convergence, patience: 50 } } });
+    trainer.handle({ type: 'step', epochs: 1 });
+    expect(events.map(e => e.snapshot.best!.epoch)).toEqual([1, 1, 3]);
+  });
+
+  it('ignores commands after reset', () => {
+    const { trainer, events, queue } = harness();
+    trainer.handle({ type: 'load', session: 1, state: freshState(), epoch: 0, config: config() });
+    trainer.handle({ type: 'reset' });
+    trainer.handle({ type: 'play' });
+    trainer.handle({ type: 'pause' });
+    expect(events).toHaveLength(0);
+    expect(queue).toHaveLength(0);
+  });
+});
@@ -0,0 +1,251 @@
+// Background training loop for SimpleNetwork.
+// Runs inside trainer.worker.ts so turbo training never blocks the UI thread, but has no
+// worker dependencies itself (the message sink and scheduler are injected) so it can be tested directly.
+//
+// Protocol: the UI sends 'load' (network state + config), then 'play' / 'pause' / 'step' / 'reset'.
+// While playing, the trainer streams at most one 'snapshot' per snapshot interval and only after the
+// UI has 'ack'-ed the previous one (backpressure). 'pause' and 'step' answer with a 'paused' snapshot;
+// meeting the convergence criteria (threshold or early stopping) while playing or stepping answers with
+// 'converged' instead. Only those two carry the full NetworkState and the best checkpoint;
+// streamed snapshots are typed-array copies whose buffers are transferred rather than cloned.
+
+import { ActivationKey } from './activations';
+import { LossKey } from './losses';
+import { OptimizerKey, OptimizerParams } from './optimizers';
+import { LearningRateSchedule, learningRateAt } from './schedules';
+import { Sample } from './datasets';
+import { Checkpoint, ConvergenceCriteria, ConvergenceMonitor, StopReason } from './convergence';
+import { GradientClipping, NetworkSnapshot, NetworkState, Regularization, SimpleNetwork, SkipConnection } from './network';
+
+export interface TrainerConfig {
+  learningRate: number; // Base rate; the schedule scales it per epoch
+  schedule: LearningRateSchedule;
+  samples: Sample[];    // Training set
+  validation: Sample[]; // Held-out set scored alongside it (may be empty)
+  probe: number[];      // Input shown in the snapshot's values/preActivations
+  convergence: ConvergenceCriteria;
+  optimizer: OptimizerKey;
+  optimizerParams: OptimizerParams;
+  loss: LossKey;
+  activations: ActivationKey[];
+  regularization: Regularization;
+  clipping: GradientClipping;
+  skips: SkipConnection[];
+  dropout: number[];
+}
+
+export interface LossPoint {
+  epoch: number;
+  loss: number;
+  valLoss?: number; // Only with a validation set
+  lr: number; // Learning rate the epoch ending here was trained with
+  gradNorms?: number[]; // RMS gradient norm per weight layer since the previous point (takeGradientNorms)
+}
+
+export type TrainerCommand =
+  | { type: 'load'; session: number; state: NetworkState; epoch: number; config: TrainerConfig; best?: Checkpoint | null }
+  | { type: 'config'; config: Partial<TrainerConfig> }
+  | { type: 'play' }
+  | { type: 'pause' }
+  | { type: 'step'; epochs: number }
+  | { type: 'reset' }
+  | { type: 'ack' };
+
+export interface TrainerSnapshot extends NetworkSnapshot {
+  session: number;
+  epoch: number;
+  loss: number;
+  accuracy: number;
+  validation: { loss: number, accuracy: number } | null;
+  history: LossPoint[]; // Loss points recorded since the previous snapshot
+  state?: NetworkState; // Set when the UI takes over the network again ('paused' / 'converged'), like best
+  best?: Checkpoint | null;
+}
+
+export type TrainerEvent =
+  | { type: 'snapshot'; snapshot: TrainerSnapshot }
+  | { type: 'paused'; snapshot: TrainerSnapshot }
+  | { type: 'converged'; snapshot: TrainerSnapshot; reason: StopReason };
+
+export interface TrainerOptions {
+  now?: () => number;
+  schedule?: (fn: () => void) => unknown;
+  cancel?: (handle: unknown) => void;
+  tickBudgetMs?: number;       // Training time per tick before yielding to incoming messages
+  snapshotIntervalMs?: number; // Minimum gap between streamed snapshots
+}
+
+const MAX_HISTORY = 200;
+
+// Config updates arrive as structured clones, so compare by value
+const changed = (update: unknown, current: unknown) => update !== undefined && JSON.stringify(update) !== JSON.stringify(current);
+
+export class Trainer {
+  private net: SimpleNetwork | null = null;
+  private config: TrainerConfig | null = null;
+  private session = 0;
+  private epoch = 0;
+  private playing = false;
+  private awaitingAck = false;
+  private lastSnapshotAt = -Infinity;
+  private history: LossPoint[] = [];
+  private lastRate = 0;
+  private lastEval = { loss: 0, accuracy: 0 };
+  private lastValidation: { loss: number, accuracy: number } | null = null;
+  private monitor: ConvergenceMonitor | null = null;
+  private timer: unknown = null;
+
+  private readonly now: () => number;
+  private readonly schedule: (fn: () => void) => unknown;
+  private readonly cancel: (handle: unknown) => void;
+  private readonly tickBudgetMs: number;
+  private readonly snapshotIntervalMs: number;
+
+  constructor(private readonly post: (event: TrainerEvent, transfer: Transferable[]) => void, options: TrainerOptions = {}) {
+    this.now = options.now ?? (() => performance.now());
+    this.schedule = options.schedule ?? (fn => setTimeout(fn, 0));
+    this.cancel = options.cancel ?? (handle => clearTimeout(handle as ReturnType<typeof setTimeout>));
+    this.tickBudgetMs = options.tickBudgetMs ?? 12;
+    this.snapshotIntervalMs = options.snapshotIntervalMs ?? 33;
+  }
+
+  handle(command: TrainerCommand) {
+    switch (command.type) {
+      case 'load':
+        this.stop();
+        this.session = command.session;
+        this.epoch = command.epoch;
+        this.net = SimpleNetwork.fromState(command.state);
+        this.config = command.config;
+        this.monitor = new ConvergenceMonitor(command.config.convergence, command.best);
+        this.history = [];
+        this.awaitingAck = false;
+        this.lastSnapshotAt = -Infinity;
+        this.applyConfig();
+        this.evaluate();
+        break;
+      case 'config':
+        if (!this.config) return;
+        // Losses watched under other criteria (or another validation set) don't compare, so the best so far starts over
+        if (changed(command.config.convergence, this.config.convergence) || changed(command.config.validation, this.config.validation)) {
+          this.monitor = new ConvergenceMonitor(command.config.convergence ?? this.config.convergence);
+        }
+        this.config = { ...this.config, ...command.config };
+        this.applyConfig();
+        break;
+      case 'play':
+        if (!this.net || this.playing) return;
+        this.playing = true;
+        this.timer = this.schedule(this.tick);
+        break;
+      case 'pause':
+        if (!this.net) return;
+        this.stop();
+        this.send('paused');
+        break;
+      case 'step': {
+        if (!this.net || this.playing) return;
+        for (let i = 0; i < command.epochs; i++) this.trainOneEpoch();
+        const reason = this.record();
+        if (reason) this.send('converged', reason);
+        else this.send('paused');
+        break;
+      }
+      case 'reset':
+        this.stop();
+        this.net = null;
+        this.config = null;
+        break;
+      case 'ack':
+        this.awaitingAck = false;
+        break;
+    }
+  }
+
+  private applyConfig() {
+    if (!this.net || !this.config) return;
+    this.net.setActivations(this.config.activations);
+    this.net.setLoss(this.config.loss);
+    this.net.setRegularization(this.config.regularization);
+    this.net.setClipping(this.config.clipping);
+    this.net.setSkips(this.config.skips);
+    this.net.setDropout(this.config.dropout);
+    this.net.setOptimizer(this.config.optimizer, this.config.optimizerParams);
+  }
+
+  private stop() {
+    this.playing = false;
+    if (this.timer !== null) this.cancel(this.timer);
+    this.timer = null;
+  }
+
+  private trainOneEpoch() {
+    this.lastRate = learningRateAt(this.config!.schedule, this.config!.learningRate, this.epoch);
+    this.net!.trainEpoch(this.config!.samples, this.lastRate);
+    this.epoch++;
+  }
+
+  private evaluate() {
+    this.lastEval = this.net!.evaluate(this.config!.samples);
+    this.lastValidation = this.config!.validation.length ? this.net!.evaluate(this.config!.validation) : null;
+  }
+
+  // Scores both sets once and keeps them as a loss-history point; returns why training should stop, if it should
+  private record() {
+    this.evaluate();
+    const point: LossPoint = { epoch: this.epoch, loss: this.lastEval.loss, lr: this.lastRate, gradNorms: this.net!.takeGradientNorms() };
+    if (this.lastValidation) point.valLoss = this.lastValidation.loss;
+    this.history.push(point);
+    // The UI only charts the latest points, so don't hoard them while it isn't acking (e.g. hidden tab)
+    if (this.history.length > MAX_HISTORY) this.history.shift();
+    return this.monitor!.record(this.epoch, { train: this.lastEval.loss, validation: this.lastValidation?.loss ?? null }, this.net!);
+  }
+
+  private tick = () => {
+    this.timer = null;
+    if (!this.playing || !this.net || !this.config) return;
+
+    const start = this.now();
+    do {
+      this.trainOneEpoch();
+    } while (this.now() - start < this.tickBudgetMs);
+    const reason = this.record();
+
+    if (reason) {
+      this.stop();
+      this.send('converged', reason);
+      return;
+    }
+
+    const now = this.now();
+    if (!this.awaitingAck && now - this.lastSnapshotAt >= this.snapshotIntervalMs) {
+      this.awaitingAck = true;
+      this.lastSnapshotAt = now;
+      this.send('snapshot');
+    }
+    this.timer = this.schedule(this.tick);
+  };
+
+  private send(type: TrainerEvent['type'], reason: StopReason = 'THRESHOLD') {
+    const net = this.net!;
+    net.forward(this.config!.probe);
+    const history = this.history;
+    this.history = [];
+    const network = net.snapshot();
+    const snapshot: TrainerSnapshot = {
+      ...network,
+      session: this.session,
+      epoch: this.epoch,
+      loss: this.lastEval.loss,
+      accuracy: this.lastEval.accuracy,
+      validation: this.lastValidation,
+      history,
+      state: type === 'snapshot' ? undefined : net.getState(),
+      best: type === 'snapshot' ? undefined : this.monitor!.best
+    };
+    // The snapshot's buffers are fresh copies, so they can move to the UI thread without cloning
+    const transfer = [network.values, network.preActivations, network.weights, network.deltas, network.biases, network.dropoutMasks, network.errors]
+      .flatMap(buffers => buffers.map(b => b.buffer));
+    this.post(type === 'converged' ? { type, snapshot, reason } : { type, snapshot }, transfer);
+  }
+}
@@ -0,0 +1,7 @@
+// Web Worker entry point: forwards UI commands to a Trainer and posts its events back.
+import { Trainer, TrainerCommand } from './trainer';
+
+const ctx = self as unknown as Worker;
+const trainer = new Trainer((event, transfer) => ctx.postMessage(event, transfer));
+
+ctx.onmessage = (e: MessageEvent<TrainerCommand>) => trainer.handle(e.data);
@@ -57,7 +57,7 @@ export const getTutorExplanation = async (context: TutorContext): Promise<string
       Elements: Layers (Depth), Nodes (Width), Synapses (Connections), Training Loop (Backprop).
       Concept: Designing a network architecture. How hidden layers extract features. The balance between network size and learning speed.
       `;
-      gameContext = `Current Network State: Structure=[${currentStats.structure}], Total Epochs=${currentStats.epochs}, Current Loss=${currentStats.loss}, Learning Rate=${currentStats.lr}.`;
+      gameContext = `Current Network State: Structure=[${currentStats.structure}], Skip Connections=[${currentStats.skipConnections}], Total Epochs=${currentStats.epochs}, Current Loss=${currentStats.loss}, Learning Rate=${currentStats.lr}, Output=${currentStats.outputActivation} with ${currentStats.lossFunction} loss, Optimizer=${currentStats.optimizer} (${currentStats.optimizerParams}), Initialization=${currentStats.initialization}, Regularization=${currentStats.regularization}, Gradient Clipping=${currentStats.gradientClipping}, Gradient Norms=[${currentStats.gradientNorms}], Hidden Neuron Health=[${currentStats.neuronHealth}], Dataset=${currentStats.dataset} (${currentStats.samples} samples), Accuracy=${currentStats.accuracy}, Convergence=${currentStats.convergence}.`;
       break;
   }
 